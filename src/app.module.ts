@@ -1,6 +1,7 @@
 import { Module, NestModule, MiddlewareConsumer } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { ThrottlerModule, ThrottlerGuard } from '@nestjs/throttler';
+import { ScheduleModule } from '@nestjs/schedule';
 import { APP_GUARD } from '@nestjs/core';
 import { AuthModule } from './modules/auth/auth.module';
 import { DatabaseModule } from './database/database.module';
@@ -14,6 +15,10 @@ import { ImprestModule } from './modules/imprest/imprest.module';
 import { SupplierModule } from './modules/supplier/supplier.module';
 import { LpoModule } from './modules/lpo/lpo.module';
 import { PaymentRequestModule } from './modules/payment-request/payment-request.module';
+import { DelegationModule } from './modules/delegation/delegation.module';
+import { ApprovalEscalationModule } from './modules/escalation/approval-escalation.module';
+import { ApprovalInboxModule } from './modules/approvals/approval-inbox.module';
+import { NumberingModule } from './modules/numbering/numbering.module';
 
 @Module({
   imports: [
@@ -33,6 +38,7 @@ import { PaymentRequestModule } from './modules/payment-request/payment-request.
       }),
       inject: [ConfigService],
     }),
+    ScheduleModule.forRoot(),
     AuthModule,
     DatabaseModule,
     SystemConfigModule,
@@ -44,6 +50,10 @@ import { PaymentRequestModule } from './modules/payment-request/payment-request.
     SupplierModule,
     LpoModule,
     PaymentRequestModule,
+    DelegationModule,
+    ApprovalEscalationModule,
+    ApprovalInboxModule,
+    NumberingModule,
   ],
   controllers: [],
   providers: [
@@ -0,0 +1,32 @@
+import { Query, Schema, UpdateQuery } from 'mongoose';
+
+const setsStatus = (update: UpdateQuery<unknown> | null): boolean =>
+  !!update &&
+  !Array.isArray(update) &&
+  (update.status !== undefined || update.$set?.status !== undefined);
+
+/**
+ * Adds `statusChangedAt`, stamped by every write that sets `status`, so the
+ * time a document has spent at its current level is not reset by unrelated
+ * updates the way `updatedAt` is.
+ */
+export function statusChangedAtPlugin(schema: Schema): void {
+  schema.add({ statusChangedAt: { type: Date } });
+
+  schema.pre('save', function (next) {
+    if (this.isNew || this.isModified('status')) {
+      this.set('statusChangedAt', new Date());
+    }
+    next();
+  });
+
+  schema.pre(
+    ['findOneAndUpdate', 'updateOne', 'updateMany'],
+    function (this: Query<unknown, unknown>, next) {
+      if (setsStatus(this.getUpdate())) {
+        this.set('statusChangedAt', new Date());
+      }
+      next();
+    },
+  );
+}
@@ -0,0 +1,43 @@
+import {
+  Controller,
+  Get,
+  Query,
+  Request,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { ApprovalInboxService } from './approval-inbox.service';
+import {
+  ApprovalInboxQueryDto,
+  ApprovalInboxResponseDto,
+} from './dto/approval-inbox.dto';
+
+@ApiTags('Approvals')
+@Controller('approvals')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class ApprovalInboxController {
+  constructor(private readonly approvalInboxService: ApprovalInboxService) {}
+
+  @Get('inbox')
+  @ApiOperation({
+    summary: 'Get everything awaiting my approval',
+    description:
+      'Lists pending claims, imprest, budgets, contracts, invoices, LPOs, payment requests and vouchers the caller can act on, based on their roles and department and any delegations they are covering.',
+  })
+  @ApiResponse({ status: 200, type: ApprovalInboxResponseDto })
+  getInbox(
+    @Request() req: any,
+    @Query(new ValidationPipe({ transform: true }))
+    query: ApprovalInboxQueryDto,
+  ) {
+    return this.approvalInboxService.getInbox(req.user.sub, query);
+  }
+}
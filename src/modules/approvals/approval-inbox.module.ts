@@ -0,0 +1,49 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ApprovalInboxService } from './approval-inbox.service';
+import { ApprovalInboxController } from './approval-inbox.controller';
+import { Claim, ClaimSchema } from '../claims/schemas/claim.schema';
+import {
+  ApprovalFlow,
+  ApprovalFlowSchema,
+} from '../claims/schemas/approval-flow.schema';
+import { Imprest, ImprestSchema } from '../imprest/schemas/imprest.schema';
+import { Budget, BudgetSchema } from '../project/schemas/budget.schema';
+import { Contract, ContractSchema } from '../project/schemas/contract.schema';
+import { Invoice, InvoiceSchema } from '../project/schemas/invoice.schema';
+import { Project, ProjectSchema } from '../project/schemas/project.schema';
+import { Lpo, LpoSchema } from '../lpo/schemas/lpo.schema';
+import {
+  PaymentRequest,
+  PaymentRequestSchema,
+} from '../payment-request/schemas/payment-request.schema';
+import {
+  PaymentVoucher,
+  PaymentVoucherSchema,
+} from '../payment-request/schemas/payment-voucher.schema';
+import { User, UserSchema } from '../auth/schemas/user.schema';
+import { DelegationModule } from '../delegation/delegation.module';
+import { SystemConfigModule } from '../system-config/system-config.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Claim.name, schema: ClaimSchema },
+      { name: ApprovalFlow.name, schema: ApprovalFlowSchema },
+      { name: Imprest.name, schema: ImprestSchema },
+      { name: Budget.name, schema: BudgetSchema },
+      { name: Contract.name, schema: ContractSchema },
+      { name: Invoice.name, schema: InvoiceSchema },
+      { name: Project.name, schema: ProjectSchema },
+      { name: Lpo.name, schema: LpoSchema },
+      { name: PaymentRequest.name, schema: PaymentRequestSchema },
+      { name: PaymentVoucher.name, schema: PaymentVoucherSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+    DelegationModule,
+    SystemConfigModule,
+  ],
+  controllers: [ApprovalInboxController],
+  providers: [ApprovalInboxService],
+})
+export class ApprovalInboxModule {}
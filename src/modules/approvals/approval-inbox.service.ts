@@ -0,0 +1,631 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, PopulateOptions, Types } from 'mongoose';
+import { Claim, ClaimDocument } from '../claims/schemas/claim.schema';
+import { ClaimsService } from '../claims/claims.service';
+import { ClaimStateMachine } from '../claims/claim-state-machine';
+import { COACH_APPROVAL_STEPS } from '../claims/approval-flow.service';
+import {
+  ApprovalFlow,
+  ApprovalFlowDocument,
+  ApprovalStep,
+} from '../claims/schemas/approval-flow.schema';
+import { Imprest, ImprestDocument } from '../imprest/schemas/imprest.schema';
+import { Budget, BudgetDocument } from '../project/schemas/budget.schema';
+import { Contract, ContractDocument } from '../project/schemas/contract.schema';
+import { Invoice, InvoiceDocument } from '../project/schemas/invoice.schema';
+import { Project, ProjectDocument } from '../project/schemas/project.schema';
+import { Lpo, LpoDocument } from '../lpo/schemas/lpo.schema';
+import {
+  PaymentRequest,
+  PaymentRequestDocument,
+} from '../payment-request/schemas/payment-request.schema';
+import {
+  PaymentVoucher,
+  PaymentVoucherDocument,
+} from '../payment-request/schemas/payment-voucher.schema';
+import { User, UserDocument } from '../auth/schemas/user.schema';
+import { DelegationService } from '../delegation/delegation.service';
+import { DelegationModuleName } from '../delegation/schemas/delegation.schema';
+import { DepartmentHodService } from '../system-config/services/department-hod.service';
+import {
+  APPROVAL_INBOX_MODULES,
+  ApprovalInboxItemDto,
+  ApprovalInboxModule,
+  ApprovalInboxQueryDto,
+  ApprovalInboxResponseDto,
+} from './dto/approval-inbox.dto';
+import {
+  BUDGET_LEVEL_ROLES,
+  CONTRACT_LEVEL_ROLES,
+  DEPARTMENT_SCOPED_LEVELS,
+  IMPREST_LEVEL_ROLES,
+  INVOICE_LEVEL_ROLES,
+  LPO_LEVEL_ROLES,
+  PAYMENT_REQUEST_LEVEL_ROLES,
+  PAYMENT_VOUCHER_LEVEL_ROLES,
+} from './approval-levels';
+
+interface InboxCandidate {
+  documentId: string;
+  reference?: string;
+  status: string;
+  amount: number;
+  currency: string;
+  requesterId?: string;
+  waitingSince: Date;
+  deadline?: Date;
+  onBehalfOf?: string;
+}
+
+interface InboxSource {
+  module: ApprovalInboxModule;
+  // Delegations for this module put the principal's items in the inbox
+  delegationModule?: DelegationModuleName;
+  // `department` limits the results to a department-scoped delegation
+  find(approver: UserDocument, department?: string): Promise<InboxCandidate[]>;
+}
+
+interface RoleSourceOptions {
+  module: ApprovalInboxModule;
+  delegationModule?: DelegationModuleName;
+  model: Model<any>;
+  levelRoles: Record<string, string>;
+  // Fields `toCandidate` reads; status and timing fields are always loaded
+  select: string;
+  populate?: PopulateOptions[];
+  // Query condition limiting documents to one department
+  departmentFilter(department: string): Promise<FilterQuery<any>>;
+  toCandidate(doc: any): Omit<InboxCandidate, 'status'>;
+}
+
+const TIMING_FIELDS = 'status statusChangedAt updatedAt currentLevelDeadline';
+const IMPREST_FIELDS = 'paymentReason amount currency requestedBy department';
+
+const idOf = (value: any): string | undefined =>
+  value ? String(value._id || value) : undefined;
+
+// Documents last moved before statusChangedAt existed fall back to updatedAt
+const waitingSince = (doc: any): Date => doc.statusChangedAt || doc.updatedAt;
+
+@Injectable()
+export class ApprovalInboxService {
+  private readonly logger = new Logger(ApprovalInboxService.name);
+  private readonly sources: InboxSource[];
+
+  constructor(
+    @InjectModel(Claim.name) private claimModel: Model<ClaimDocument>,
+    @InjectModel(ApprovalFlow.name)
+    private approvalFlowModel: Model<ApprovalFlowDocument>,
+    @InjectModel(Imprest.name) private imprestModel: Model<ImprestDocument>,
+    @InjectModel(Budget.name) private budgetModel: Model<BudgetDocument>,
+    @InjectModel(Contract.name) private contractModel: Model<ContractDocument>,
+    @InjectModel(Invoice.name) private invoiceModel: Model<InvoiceDocument>,
+    @InjectModel(Project.name) private projectModel: Model<ProjectDocument>,
+    @InjectModel(Lpo.name) private lpoModel: Model<LpoDocument>,
+    @InjectModel(PaymentRequest.name)
+    private paymentRequestModel: Model<PaymentRequestDocument>,
+    @InjectModel(PaymentVoucher.name)
+    private paymentVoucherModel: Model<PaymentVoucherDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private readonly delegationService: DelegationService,
+    private readonly departmentHodService: DepartmentHodService,
+  ) {
+    const project: PopulateOptions = {
+      path: 'projectId',
+      select: 'name department',
+    };
+    const inDepartmentProjects = async (department: string) => ({
+      projectId: { $in: await this.projectIdsIn(department) },
+    });
+    const timing = (doc: any) => ({
+      waitingSince: waitingSince(doc),
+      deadline: doc.currentLevelDeadline || undefined,
+    });
+
+    const imprestCandidate = (imprest: any) => ({
+      documentId: imprest._id.toString(),
+      reference: imprest.paymentReason,
+      amount: imprest.amount,
+      currency: imprest.currency,
+      requesterId: idOf(imprest.requestedBy),
+      ...timing(imprest),
+    });
+    const imprestRoles = this.roleSource({
+      module: 'imprest',
+      delegationModule: 'imprest',
+      model: this.imprestModel,
+      levelRoles: IMPREST_LEVEL_ROLES,
+      select: IMPREST_FIELDS,
+      departmentFilter: async (department) => ({ department }),
+      toCandidate: imprestCandidate,
+    });
+
+    this.sources = [
+      {
+        module: 'claims',
+        delegationModule: 'claims',
+        find: (approver, department) => this.findClaims(approver, department),
+      },
+      {
+        module: 'imprest',
+        delegationModule: 'imprest',
+        find: async (approver, department) => [
+          ...(await imprestRoles.find(approver, department)),
+          ...(await this.findRoutedImprests(approver, department)).map(
+            (imprest) => ({
+              ...imprestCandidate(imprest),
+              status: imprest.status,
+            }),
+          ),
+        ],
+      },
+      this.roleSource({
+        module: 'budgets',
+        delegationModule: 'budgets',
+        model: this.budgetModel,
+        levelRoles: BUDGET_LEVEL_ROLES,
+        select:
+          'projectId version totalInternalBudget totalExternalBudget currency createdBy',
+        populate: [project],
+        departmentFilter: inDepartmentProjects,
+        toCandidate: (budget) => ({
+          documentId: budget._id.toString(),
+          reference: `${budget.projectId?.name || 'Budget'} v${budget.version}`,
+          amount:
+            (budget.totalInternalBudget || 0) +
+            (budget.totalExternalBudget || 0),
+          currency: budget.currency,
+          requesterId: idOf(budget.createdBy),
+          ...timing(budget),
+        }),
+      }),
+      this.roleSource({
+        module: 'contracts',
+        delegationModule: 'contracts',
+        model: this.contractModel,
+        levelRoles: CONTRACT_LEVEL_ROLES,
+        select: 'projectId contractNumber contractValue currency createdBy',
+        populate: [project],
+        departmentFilter: inDepartmentProjects,
+        toCandidate: (contract) => ({
+          documentId: contract._id.toString(),
+          reference: contract.contractNumber,
+          amount: contract.contractValue,
+          currency: contract.currency,
+          requesterId: idOf(contract.createdBy),
+          ...timing(contract),
+        }),
+      }),
+      this.roleSource({
+        module: 'invoices',
+        delegationModule: 'invoices',
+        model: this.invoiceModel,
+        levelRoles: INVOICE_LEVEL_ROLES,
+        select: 'projectId invoiceNumber totalAmount currency requestedBy',
+        populate: [project],
+        departmentFilter: inDepartmentProjects,
+        toCandidate: (invoice) => ({
+          documentId: invoice._id.toString(),
+          reference: invoice.invoiceNumber,
+          amount: invoice.totalAmount,
+          currency: invoice.currency,
+          requesterId: idOf(invoice.requestedBy),
+          ...timing(invoice),
+        }),
+      }),
+      this.roleSource({
+        module: 'lpos',
+        model: this.lpoModel,
+        levelRoles: LPO_LEVEL_ROLES,
+        select: 'projectId lpoNo totalAmount currency preparedBy',
+        populate: [project],
+        departmentFilter: inDepartmentProjects,
+        toCandidate: (lpo) => ({
+          documentId: lpo._id.toString(),
+          reference: lpo.lpoNo,
+          amount: lpo.totalAmount,
+          currency: lpo.currency,
+          requesterId: idOf(lpo.preparedBy),
+          ...timing(lpo),
+        }),
+      }),
+      this.roleSource({
+        module: 'payment_requests',
+        delegationModule: 'payment_requests',
+        model: this.paymentRequestModel,
+        levelRoles: PAYMENT_REQUEST_LEVEL_ROLES,
+        select: 'projectId amount currency requestedBy',
+        populate: [project],
+        departmentFilter: inDepartmentProjects,
+        toCandidate: (request) => ({
+          documentId: request._id.toString(),
+          reference: request.projectId?.name,
+          amount: request.amount,
+          currency: request.currency,
+          requesterId: idOf(request.requestedBy),
+          ...timing(request),
+        }),
+      }),
+      this.roleSource({
+        module: 'vouchers',
+        // Vouchers are approved under payment request delegations
+        delegationModule: 'payment_requests',
+        model: this.paymentVoucherModel,
+        levelRoles: PAYMENT_VOUCHER_LEVEL_ROLES,
+        select: 'voucherNo amount preparedBy paymentRequestId',
+        populate: [
+          {
+            path: 'paymentRequestId',
+            select: 'currency projectId',
+            populate: project,
+          },
+        ],
+        departmentFilter: async (department) => ({
+          paymentRequestId: {
+            $in: await this.paymentRequestModel
+              .find(await inDepartmentProjects(department))
+              .distinct('_id'),
+          },
+        }),
+        toCandidate: (voucher) => ({
+          documentId: voucher._id.toString(),
+          reference: voucher.voucherNo,
+          amount: voucher.amount,
+          currency: voucher.paymentRequestId?.currency || 'KES',
+          requesterId: idOf(voucher.preparedBy),
+          waitingSince: waitingSince(voucher),
+        }),
+      }),
+    ];
+  }
+
+  /**
+   * Everything across modules waiting on the user, either through their own
+   * roles and department or through delegations they are covering.
+   */
+  async getInbox(
+    userId: string,
+    query: ApprovalInboxQueryDto,
+  ): Promise<ApprovalInboxResponseDto> {
+    const user = await this.userModel.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const { page = 1, limit = 20 } = query;
+    const { items, errors } = await this.collect(user);
+
+    const counts = Object.fromEntries(
+      APPROVAL_INBOX_MODULES.map((module) => [
+        module,
+        items.filter((item) => item.module === module).length,
+      ]),
+    ) as Record<ApprovalInboxModule, number>;
+
+    const matching = (
+      query.module
+        ? items.filter((item) => item.module === query.module)
+        : items
+    ).sort(this.comparator(query));
+
+    const pageItems = matching.slice((page - 1) * limit, page * limit);
+    await this.attachRequesters(pageItems);
+
+    return {
+      data: pageItems.map(({ requesterId: _, ...item }) => item),
+      total: matching.length,
+      page,
+      limit,
+      counts,
+      errors,
+    };
+  }
+
+  // Modules that fail to load are reported rather than counted as empty
+  private async collect(user: UserDocument): Promise<{
+    items: (ApprovalInboxItemDto & { requesterId?: string })[];
+    errors: ApprovalInboxModule[];
+  }> {
+    const now = Date.now();
+    const principals = new Map<
+      DelegationModuleName,
+      Awaited<ReturnType<DelegationService['findPrincipals']>>
+    >();
+    const items: (ApprovalInboxItemDto & { requesterId?: string })[] = [];
+    const errors: ApprovalInboxModule[] = [];
+
+    for (const source of this.sources) {
+      try {
+        const found = new Map<string, InboxCandidate>();
+        for (const candidate of await source.find(user)) {
+          found.set(candidate.documentId, candidate);
+        }
+
+        if (source.delegationModule) {
+          if (!principals.has(source.delegationModule)) {
+            principals.set(
+              source.delegationModule,
+              await this.delegationService.findPrincipals(
+                user._id as Types.ObjectId,
+                source.delegationModule,
+              ),
+            );
+          }
+          for (const { principal, department } of principals.get(
+            source.delegationModule,
+          )) {
+            for (const candidate of await source.find(principal, department)) {
+              if (found.has(candidate.documentId)) continue;
+              found.set(candidate.documentId, {
+                ...candidate,
+                onBehalfOf: `${principal.firstName} ${principal.lastName}`,
+              });
+            }
+          }
+        }
+
+        for (const candidate of found.values()) {
+          items.push({
+            module: source.module,
+            ...candidate,
+            overdue:
+              !!candidate.deadline &&
+              new Date(candidate.deadline).getTime() < now,
+          });
+        }
+      } catch (error) {
+        this.logger.error(
+          `Failed to load ${source.module} approvals for ${user.email}: ${error.message}`,
+        );
+        errors.push(source.module);
+      }
+    }
+
+    return { items, errors };
+  }
+
+  private roleSource(options: RoleSourceOptions): InboxSource {
+    const scoped = DEPARTMENT_SCOPED_LEVELS[options.module] || [];
+
+    return {
+      module: options.module,
+      delegationModule: options.delegationModule,
+      find: async (approver, department) => {
+        const statuses = Object.keys(options.levelRoles).filter((status) =>
+          approver.roles?.includes(options.levelRoles[status]),
+        );
+        const open = statuses.filter((status) => !scoped.includes(status));
+        const own = statuses.filter((status) => scoped.includes(status));
+
+        const levels: FilterQuery<any>[] = [];
+        if (open.length) {
+          levels.push({ status: { $in: open } });
+        }
+        if (own.length && approver.department) {
+          levels.push({
+            status: { $in: own },
+            ...(await options.departmentFilter(approver.department)),
+          });
+        }
+        if (!levels.length) {
+          return [];
+        }
+
+        let query = options.model
+          .find({
+            $or: levels,
+            ...(department && (await options.departmentFilter(department))),
+          })
+          .select(`${options.select} ${TIMING_FIELDS}`);
+        if (options.populate?.length) {
+          query = query.populate(options.populate);
+        }
+        const docs = await query.lean();
+
+        return docs.map((doc) => ({
+          ...options.toCandidate(doc),
+          status: doc.status,
+        }));
+      },
+    };
+  }
+
+  /**
+   * Imprests at the HOD level go to the HODs in the requester's department
+   * directory; project-linked imprests then wait on the project manager.
+   */
+  private async findRoutedImprests(
+    approver: UserDocument,
+    department?: string,
+  ): Promise<any[]> {
+    const headed = (
+      await this.departmentHodService.findDepartmentsHeadedBy(approver)
+    ).filter((d) => !department || d === department);
+    const projectIds = (
+      await this.projectModel
+        .find({ projectManagerId: approver._id })
+        .select('_id')
+        .lean()
+    ).map((p) => p._id);
+
+    const conditions: Record<string, any>[] = [];
+    if (headed.length) {
+      conditions.push({ status: 'pending_hod', department: { $in: headed } });
+    }
+    if (projectIds.length) {
+      conditions.push({
+        status: 'pending_project_manager',
+        projectId: { $in: projectIds },
+        ...(department ? { department } : {}),
+      });
+    }
+    if (!conditions.length) {
+      return [];
+    }
+
+    return this.imprestModel
+      .find({ $or: conditions })
+      .select(`${IMPREST_FIELDS} ${TIMING_FIELDS}`)
+      .lean();
+  }
+
+  /**
+   * Claim levels come from the project department's approval flow. Each
+   * step names the department whose role holders approve it; coach claims
+   * use the fixed coach flow, with coach managers on the project acting as
+   * reviewer and approver.
+   */
+  private async findClaims(
+    approver: UserDocument,
+    department?: string,
+  ): Promise<InboxCandidate[]> {
+    const approverId = approver._id.toString();
+    // Flow steps may name any role, plus the older aliases in roleMap
+    const roles = approver.roles || [];
+    const levels = [
+      ...roles,
+      ...Object.keys(ClaimsService.roleMap).filter((level) =>
+        roles.includes(ClaimsService.approverRole(level)),
+      ),
+    ];
+    const statuses = new Set(levels.map(ClaimStateMachine.pendingStatus));
+    if (
+      await this.projectModel.exists({ 'coachManagers.userId': approver._id })
+    ) {
+      statuses.add(ClaimStateMachine.pendingStatus('reviewer'));
+      statuses.add(ClaimStateMachine.pendingStatus('approver'));
+    }
+    if (!statuses.size) {
+      return [];
+    }
+
+    const claims = await this.claimModel
+      .find({
+        status: { $in: [...statuses] },
+        ...(department && {
+          projectId: { $in: await this.projectIdsIn(department) },
+        }),
+      })
+      .select(
+        `projectId contractId amount currency claimantId ${TIMING_FIELDS}`,
+      )
+      .populate('projectId', 'name department coachManagers')
+      .populate('contractId', 'contractNumber type')
+      .lean();
+
+    const flows = new Map<string, ApprovalStep[]>();
+    const candidates: InboxCandidate[] = [];
+    for (const claim of claims as any[]) {
+      const project = claim.projectId;
+      if (!project) continue;
+
+      const level = claim.status.replace(/^pending_|_approval$/g, '');
+      const isCoach = (claim.contractId?.type || '').toLowerCase() === 'coach';
+
+      let canAct: boolean;
+      if (isCoach && (level === 'reviewer' || level === 'approver')) {
+        canAct = (project.coachManagers || []).some(
+          (cm) => cm.userId?.toString() === approverId,
+        );
+      } else {
+        if (!roles.includes(ClaimsService.approverRole(level))) continue;
+        const steps = isCoach
+          ? COACH_APPROVAL_STEPS
+          : await this.getFlowSteps(project.department, flows);
+        const step = steps.find((s) => s.role === level);
+        canAct =
+          !!step &&
+          (step.department || project.department) === approver.department;
+      }
+      if (!canAct) continue;
+
+      candidates.push({
+        documentId: claim._id.toString(),
+        reference: claim.contractId?.contractNumber,
+        status: claim.status,
+        amount: claim.amount,
+        currency: claim.currency,
+        requesterId: idOf(claim.claimantId),
+        waitingSince: waitingSince(claim),
+        deadline: claim.currentLevelDeadline || undefined,
+      });
+    }
+
+    return candidates;
+  }
+
+  private async projectIdsIn(department: string): Promise<Types.ObjectId[]> {
+    const projects = await this.projectModel
+      .find({ department })
+      .select('_id')
+      .lean();
+    return projects.map((p) => p._id as Types.ObjectId);
+  }
+
+  private async getFlowSteps(
+    department: string,
+    cache: Map<string, ApprovalStep[]>,
+  ): Promise<ApprovalStep[]> {
+    if (!cache.has(department)) {
+      const flow = await this.approvalFlowModel
+        .findOne({ department, isActive: true })
+        .lean();
+      cache.set(department, flow?.steps || []);
+    }
+    return cache.get(department);
+  }
+
+  private comparator(query: ApprovalInboxQueryDto) {
+    const direction = query.sortOrder === 'desc' ? -1 : 1;
+    const time = (value?: Date) =>
+      value ? new Date(value).getTime() : undefined;
+
+    return (a: ApprovalInboxItemDto, b: ApprovalInboxItemDto): number => {
+      switch (query.sortBy) {
+        case 'deadline': {
+          // Items without a deadline go last either way
+          const [x, y] = [time(a.deadline), time(b.deadline)];
+          if (x === undefined || y === undefined) {
+            return (x === undefined ? 1 : 0) - (y === undefined ? 1 : 0);
+          }
+          return (x - y) * direction;
+        }
+        case 'amount':
+          return ((a.amount || 0) - (b.amount || 0)) * direction;
+        case 'module':
+          return (
+            a.module.localeCompare(b.module) * direction ||
+            time(a.waitingSince) - time(b.waitingSince)
+          );
+        default:
+          return (time(a.waitingSince) - time(b.waitingSince)) * direction;
+      }
+    };
+  }
+
+  private async attachRequesters(
+    items: (ApprovalInboxItemDto & { requesterId?: string })[],
+  ): Promise<void> {
+    const ids = [
+      ...new Set(items.map((item) => item.requesterId).filter(Boolean)),
+    ];
+    if (!ids.length) return;
+
+    const users = await this.userModel
+      .find({ _id: { $in: ids } })
+      .select('firstName lastName email')
+      .lean();
+
+    for (const item of items) {
+      const user = users.find((u) => u._id.toString() === item.requesterId);
+      if (user) {
+        item.requester = {
+          id: user._id.toString(),
+          name: `${user.firstName} ${user.lastName}`,
+          email: user.email,
+        };
+      }
+    }
+  }
+}
@@ -0,0 +1,49 @@
+// Roles that act on each pending status, per module. Claims are left out:
+// their levels come from the department approval flows.
+
+export const CONTRACT_LEVEL_ROLES: Record<string, string> = {
+  pending_finance_approval: 'srcc_finance',
+  pending_md_approval: 'managing_director',
+  pending_coach_admin_review: 'coach_admin',
+  pending_coach_manager_approval: 'coach_manager',
+  pending_coach_finance_approval: 'coach_finance',
+  pending_srcc_checker_approval: 'srcc_checker',
+  pending_srcc_finance_approval: 'srcc_finance',
+};
+
+export const BUDGET_LEVEL_ROLES: Record<string, string> = {
+  pending_checker_approval: 'budget_checker',
+  pending_manager_approval: 'budget_manager',
+  pending_finance_approval: 'finance_approver',
+};
+
+export const INVOICE_LEVEL_ROLES: Record<string, string> = {
+  pending_invoice_approver: 'invoice_approver',
+  pending_invoice_attachment: 'srcc_invoice_request',
+};
+
+export const PAYMENT_REQUEST_LEVEL_ROLES: Record<string, string> = {
+  pending_hod_approval: 'hod',
+};
+
+export const PAYMENT_VOUCHER_LEVEL_ROLES: Record<string, string> = {
+  pending_finance_approval: 'srcc_finance',
+};
+
+// The HOD and project manager levels are routed per imprest, from the
+// department HOD directory and the linked project
+export const IMPREST_LEVEL_ROLES: Record<string, string> = {
+  pending_accountant: 'accountant',
+  pending_accounting_approval: 'accountant',
+};
+
+export const LPO_LEVEL_ROLES: Record<string, string> = {
+  submitted: 'hod',
+  hod_approved: 'srcc_finance',
+};
+
+// Levels an approver only acts on for their own department
+export const DEPARTMENT_SCOPED_LEVELS: Record<string, string[]> = {
+  lpos: ['submitted'],
+  payment_requests: ['pending_hod_approval'],
+};
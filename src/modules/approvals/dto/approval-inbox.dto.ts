@@ -0,0 +1,165 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export const APPROVAL_INBOX_MODULES = [
+  'claims',
+  'imprest',
+  'budgets',
+  'contracts',
+  'invoices',
+  'lpos',
+  'payment_requests',
+  'vouchers',
+] as const;
+
+export type ApprovalInboxModule = (typeof APPROVAL_INBOX_MODULES)[number];
+
+export const APPROVAL_INBOX_SORT_FIELDS = [
+  'waitingSince',
+  'deadline',
+  'amount',
+  'module',
+] as const;
+
+export class ApprovalInboxQueryDto {
+  @ApiProperty({
+    description: 'Only return items from this module',
+    enum: APPROVAL_INBOX_MODULES,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(APPROVAL_INBOX_MODULES)
+  module?: ApprovalInboxModule;
+
+  @ApiProperty({
+    description: 'Field to sort by',
+    enum: APPROVAL_INBOX_SORT_FIELDS,
+    default: 'waitingSince',
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(APPROVAL_INBOX_SORT_FIELDS)
+  sortBy?: (typeof APPROVAL_INBOX_SORT_FIELDS)[number] = 'waitingSince';
+
+  @ApiProperty({
+    description: 'Sort direction. Ascending puts the longest waiting first.',
+    enum: ['asc', 'desc'],
+    default: 'asc',
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  sortOrder?: 'asc' | 'desc' = 'asc';
+
+  @ApiProperty({
+    description: 'Page number for pagination',
+    minimum: 1,
+    default: 1,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiProperty({
+    description: 'Number of items per page',
+    minimum: 1,
+    maximum: 100,
+    default: 20,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+export class ApprovalInboxRequesterDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ example: 'Jane Doe' })
+  name: string;
+
+  @ApiProperty({ example: 'jane.doe@strathmore.edu' })
+  email: string;
+}
+
+export class ApprovalInboxItemDto {
+  @ApiProperty({ enum: APPROVAL_INBOX_MODULES })
+  module: ApprovalInboxModule;
+
+  @ApiProperty({ description: 'ID of the document awaiting approval' })
+  documentId: string;
+
+  @ApiProperty({
+    description: 'Human readable reference, e.g. contract or invoice number',
+    required: false,
+  })
+  reference?: string;
+
+  @ApiProperty({ example: 'pending_hod_approval' })
+  status: string;
+
+  @ApiProperty({ example: 150000 })
+  amount: number;
+
+  @ApiProperty({ example: 'KES' })
+  currency: string;
+
+  @ApiProperty({ type: ApprovalInboxRequesterDto, required: false })
+  requester?: ApprovalInboxRequesterDto;
+
+  @ApiProperty({ description: 'When the document reached its current level' })
+  waitingSince: Date;
+
+  @ApiProperty({
+    description: 'Deadline for the current level',
+    required: false,
+  })
+  deadline?: Date;
+
+  @ApiProperty({ description: 'Whether the deadline has passed' })
+  overdue: boolean;
+
+  @ApiProperty({
+    description: 'Set when the item is in the inbox through a delegation',
+    required: false,
+    example: 'John Kamau',
+  })
+  onBehalfOf?: string;
+}
+
+export class ApprovalInboxResponseDto {
+  @ApiProperty({ type: [ApprovalInboxItemDto] })
+  data: ApprovalInboxItemDto[];
+
+  @ApiProperty({ description: 'Items matching the query' })
+  total: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  limit: number;
+
+  @ApiProperty({
+    description: 'Pending items per module, regardless of the module filter',
+    example: { claims: 3, imprest: 1, invoices: 0 },
+  })
+  counts: Record<ApprovalInboxModule, number>;
+
+  @ApiProperty({
+    description:
+      'Modules that could not be loaded. Their items are missing from data, total and counts.',
+    enum: APPROVAL_INBOX_MODULES,
+    isArray: true,
+    example: [],
+  })
+  errors: ApprovalInboxModule[];
+}
@@ -27,6 +27,7 @@ import {
 import { SystemLogsModule } from '../system-logs/system-logs.module';
 import { OrganizationService } from './organization.service';
 import { Project, ProjectSchema } from '../project/schemas/project.schema';
+import { OtpModule } from '../otp/otp.module';
 
 @Module({
   imports: [
@@ -49,6 +50,7 @@ import { Project, ProjectSchema } from '../project/schemas/project.schema';
       }),
     }),
     SystemLogsModule,
+    OtpModule,
   ],
   controllers: [AuthController, UserController, ConsultantController],
   providers: [
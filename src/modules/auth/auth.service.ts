@@ -5,6 +5,7 @@ import {
   NotFoundException,
   HttpException,
   HttpStatus,
+  ConflictException,
 } from '@nestjs/common';
 import { ConsultantService } from './consultant.service';
 import { JwtService } from '@nestjs/jwt';
@@ -94,7 +95,9 @@ export class AuthService {
     }
 
     if (!user.isEmailVerified || !user.isPhoneVerified) {
-      await this.consultantService.resendVerificationPins(user.email);
+      await this.consultantService
+        .resendVerificationPins(user.email)
+        .catch((error) => this.tolerateResendLimit(error));
       throw new HttpException(
         {
           message: 'Verification required',
@@ -166,9 +169,9 @@ export class AuthService {
     }
 
     if (!organization.isEmailVerified || !organization.isPhoneVerified) {
-      await this.consultantService.resendCompanyVerificationPins(
-        organization.businessEmail,
-      );
+      await this.consultantService
+        .resendCompanyVerificationPins(organization.businessEmail)
+        .catch((error) => this.tolerateResendLimit(error));
       throw new HttpException(
         {
           message: 'Verification required',
@@ -221,6 +224,21 @@ export class AuthService {
     };
   }
 
+  /**
+   * Codes already sent stay valid, so a resend refused by the cooldown or by
+   * an OTP lockout still ends in the "Verification required" response.
+   */
+  private tolerateResendLimit(error: unknown): void {
+    if (
+      error instanceof ConflictException ||
+      (error instanceof HttpException &&
+        error.getStatus() === HttpStatus.TOO_MANY_REQUESTS)
+    ) {
+      return;
+    }
+    throw error;
+  }
+
   private async generateOrganizationToken(
     organization: OrganizationDocument,
   ): Promise<TokenPayload> {
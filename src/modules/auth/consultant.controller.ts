@@ -161,6 +161,10 @@ export class ConsultantController {
   @ApiResponse({ status: 200, description: 'OTP verified successfully' })
   @ApiResponse({ status: 400, description: 'Invalid or expired OTP' })
   @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many failed attempts, verification is locked',
+  })
   async verifyOtp(@Body() verifyOtpDto: VerifyOtpDto) {
     try {
       const user = await this.consultantService.verifyOtp(verifyOtpDto);
@@ -169,6 +173,12 @@ export class ConsultantController {
         user,
       };
     } catch (error) {
+      if (
+        error instanceof HttpException &&
+        error.getStatus() === HttpStatus.TOO_MANY_REQUESTS
+      ) {
+        throw error;
+      }
       if (
         error instanceof BadRequestException ||
         error instanceof NotFoundException
@@ -226,6 +236,10 @@ export class ConsultantController {
   @ApiResponse({ status: 200, description: 'OTP verified successfully' })
   @ApiResponse({ status: 400, description: 'Invalid or expired OTP' })
   @ApiResponse({ status: 404, description: 'Organization not found' })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many failed attempts, verification is locked',
+  })
   async verifyCompanyOtp(@Body() verifyOtpDto: VerifyCompanyOtpDto) {
     try {
       const org = await this.consultantService.verifyCompanyOtp(verifyOtpDto);
@@ -234,6 +248,12 @@ export class ConsultantController {
         organization: org,
       };
     } catch (error) {
+      if (
+        error instanceof HttpException &&
+        error.getStatus() === HttpStatus.TOO_MANY_REQUESTS
+      ) {
+        throw error;
+      }
       if (
         error instanceof BadRequestException ||
         error instanceof NotFoundException
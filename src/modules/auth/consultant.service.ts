@@ -18,6 +18,12 @@ import { Request } from 'express';
 import * as bcrypt from 'bcrypt';
 import { SystemLogsService } from '../system-logs/services/system-logs.service';
 import { LogSeverity } from '../system-logs/schemas/system-log.schema';
+import { OtpService } from '../otp/otp.service';
+
+interface VerificationPins {
+  phonePin?: string;
+  emailPin?: string;
+}
 
 @Injectable()
 export class ConsultantService {
@@ -27,6 +33,7 @@ export class ConsultantService {
     private organizationModel: Model<OrganizationDocument>,
     private readonly notificationService: NotificationService,
     private readonly systemLogService: SystemLogsService,
+    private readonly otpService: OtpService,
   ) {}
 
   async quickRegister(consultantData: {
@@ -91,6 +98,7 @@ export class ConsultantService {
           existingUser.registrationStatus === 'quick' &&
           (!existingUser.isEmailVerified || !existingUser.isPhoneVerified)
         ) {
+          const pins = await this.issueVerificationPins('user', existingUser);
           try {
             const salt = await bcrypt.genSalt();
             const hashedPassword = await bcrypt.hash(password, salt);
@@ -100,29 +108,26 @@ export class ConsultantService {
             existingUser.lastName = lastName;
             existingUser.phoneNumber = phoneNumber;
             existingUser.nationalId = nationalId;
-            existingUser.phoneVerificationPin = this.generatePin();
-            existingUser.emailVerificationPin = this.generatePin();
-            const pinExpiry = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
-            existingUser.phoneVerificationPinExpires = pinExpiry;
-            existingUser.emailVerificationPinExpires = pinExpiry;
 
             const savedUser = await existingUser.save();
 
             // Resend notifications with error handling
-            this.sendVerificationPins(savedUser, 'resend').catch((err) => {
-              console.error('Failed to resend verification PINs:', err);
-              // Log the error but don't fail the registration
-              this.systemLogService
-                .createLog(
-                  'VERIFICATION_PIN_SEND_FAILED',
-                  `Failed to resend verification PINs for user ${savedUser.email}: ${err.message}`,
-                  LogSeverity.ERROR,
-                  savedUser._id?.toString(),
-                )
-                .catch((logErr) =>
-                  console.error('Failed to log error:', logErr),
-                );
-            });
+            this.sendVerificationPins(savedUser, pins, 'resend').catch(
+              (err) => {
+                console.error('Failed to resend verification PINs:', err);
+                // Log the error but don't fail the registration
+                this.systemLogService
+                  .createLog(
+                    'VERIFICATION_PIN_SEND_FAILED',
+                    `Failed to resend verification PINs for user ${savedUser.email}: ${err.message}`,
+                    LogSeverity.ERROR,
+                    savedUser._id?.toString(),
+                  )
+                  .catch((logErr) =>
+                    console.error('Failed to log error:', logErr),
+                  );
+              },
+            );
             return savedUser;
           } catch (error) {
             console.error(
@@ -141,10 +146,6 @@ export class ConsultantService {
         const salt = await bcrypt.genSalt();
         const hashedPassword = await bcrypt.hash(password, salt);
 
-        const phoneVerificationPin = this.generatePin();
-        const emailVerificationPin = this.generatePin();
-        const pinExpiry = new Date(Date.now() + 10 * 60 * 1000);
-
         const newUser = new this.userModel({
           email,
           firstName,
@@ -157,16 +158,13 @@ export class ConsultantService {
           registrationStatus: 'quick',
           isPhoneVerified: false,
           isEmailVerified: false,
-          phoneVerificationPin,
-          emailVerificationPin,
-          phoneVerificationPinExpires: pinExpiry,
-          emailVerificationPinExpires: pinExpiry,
         });
 
         const savedUser = await newUser.save();
+        const pins = await this.issueVerificationPins('user', savedUser);
 
         // Send verification PINs with error handling
-        this.sendVerificationPins(savedUser, 'new').catch((err) => {
+        this.sendVerificationPins(savedUser, pins, 'new').catch((err) => {
           console.error('Failed to send verification PINs:', err);
           // Log the error but don't fail the registration
           this.systemLogService
@@ -233,30 +231,63 @@ export class ConsultantService {
 
   private async sendVerificationPins(
     user: UserDocument,
+    pins: VerificationPins,
     type: 'new' | 'resend',
   ): Promise<void> {
     const phoneMsg =
       type === 'new'
-        ? `Your SRCC verification PIN is: ${user.phoneVerificationPin}.`
-        : `Your new SRCC verification PIN is: ${user.phoneVerificationPin}.`;
+        ? `Your SRCC verification PIN is: ${pins.phonePin}.`
+        : `Your new SRCC verification PIN is: ${pins.phonePin}.`;
 
     const emailMsg =
       type === 'new'
-        ? `Your SRCC verification PIN is: ${user.emailVerificationPin}.`
-        : `Your new SRCC verification PIN is: ${user.emailVerificationPin}.`;
+        ? `Your SRCC verification PIN is: ${pins.emailPin}.`
+        : `Your new SRCC verification PIN is: ${pins.emailPin}.`;
 
     const promises = [
-      this.notificationService.sendSMS(user.phoneNumber, phoneMsg),
-      this.notificationService.sendEmail(
-        user.email,
-        'SRCC Account Verification',
-        emailMsg,
-      ),
+      pins.phonePin &&
+        this.notificationService.sendSMS(user.phoneNumber, phoneMsg),
+      pins.emailPin &&
+        this.notificationService.sendEmail(
+          user.email,
+          'SRCC Account Verification',
+          emailMsg,
+        ),
     ];
 
     await Promise.all(promises);
   }
 
+  // Issues codes for whichever of the phone and email is still unverified
+  private async issueVerificationPins(
+    kind: 'user' | 'organization',
+    account: UserDocument | OrganizationDocument,
+  ): Promise<VerificationPins> {
+    const subject = String(account._id);
+    const options = { digits: 4, expiryMinutes: 10 };
+    const pins: VerificationPins = {};
+
+    if (!account.isPhoneVerified) {
+      pins.phonePin = (
+        await this.otpService.issue(
+          `${kind}_phone_verification`,
+          subject,
+          options,
+        )
+      ).code;
+    }
+    if (!account.isEmailVerified) {
+      pins.emailPin = (
+        await this.otpService.issue(
+          `${kind}_email_verification`,
+          subject,
+          options,
+        )
+      ).code;
+    }
+    return pins;
+  }
+
   async resendVerificationPins(email: string): Promise<UserDocument> {
     const user = await this.userModel.findOne({ email });
 
@@ -264,29 +295,17 @@ export class ConsultantService {
       throw new NotFoundException('User not found.');
     }
 
-    const pinExpiry = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
-
-    if (!user.isEmailVerified) {
-      user.emailVerificationPin = this.generatePin();
-      user.emailVerificationPinExpires = pinExpiry;
-    }
-
-    if (!user.isPhoneVerified) {
-      user.phoneVerificationPin = this.generatePin();
-      user.phoneVerificationPinExpires = pinExpiry;
-    }
-
-    await user.save();
+    const pins = await this.issueVerificationPins('user', user);
 
     // Fire-and-forget notifications
     (async () => {
       try {
-        if (!user.isPhoneVerified) {
-          const phoneMsg = `Your new SRCC verification PIN is: ${user.phoneVerificationPin}.`;
+        if (pins.phonePin) {
+          const phoneMsg = `Your new SRCC verification PIN is: ${pins.phonePin}.`;
           await this.notificationService.sendSMS(user.phoneNumber, phoneMsg);
         }
-        if (!user.isEmailVerified) {
-          const emailMsg = `Your new SRCC verification PIN is: ${user.emailVerificationPin}.`;
+        if (pins.emailPin) {
+          const emailMsg = `Your new SRCC verification PIN is: ${pins.emailPin}.`;
           await this.notificationService.sendEmail(
             user.email,
             'SRCC Account Verification',
@@ -327,30 +346,33 @@ export class ConsultantService {
         existingOrg.registrationStatus === 'quick' &&
         (!existingOrg.isEmailVerified || !existingOrg.isPhoneVerified)
       ) {
+        const pins = await this.issueVerificationPins(
+          'organization',
+          existingOrg,
+        );
         const salt = await bcrypt.genSalt();
         existingOrg.password = await bcrypt.hash(password, salt);
-        existingOrg.phoneVerificationPin = this.generatePin();
-        existingOrg.emailVerificationPin = this.generatePin();
-        const pinExpiry = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
-        existingOrg.phoneVerificationPinExpires = pinExpiry;
-        existingOrg.emailVerificationPinExpires = pinExpiry;
 
         await existingOrg.save();
 
         // Resend notifications
         (async () => {
           try {
-            const phoneMsg = `Your new SRCC verification PIN is: ${existingOrg.phoneVerificationPin}.`;
-            await this.notificationService.sendSMS(
-              existingOrg.businessPhone,
-              phoneMsg,
-            );
-            const emailMsg = `Your new SRCC verification PIN is: ${existingOrg.emailVerificationPin}.`;
-            await this.notificationService.sendEmail(
-              existingOrg.businessEmail,
-              'SRCC Account Verification',
-              emailMsg,
-            );
+            if (pins.phonePin) {
+              const phoneMsg = `Your new SRCC verification PIN is: ${pins.phonePin}.`;
+              await this.notificationService.sendSMS(
+                existingOrg.businessPhone,
+                phoneMsg,
+              );
+            }
+            if (pins.emailPin) {
+              const emailMsg = `Your new SRCC verification PIN is: ${pins.emailPin}.`;
+              await this.notificationService.sendEmail(
+                existingOrg.businessEmail,
+                'SRCC Account Verification',
+                emailMsg,
+              );
+            }
           } catch (err) {
             console.error(
               'Failed to resend verification PINs for company:',
@@ -366,10 +388,6 @@ export class ConsultantService {
     const salt = await bcrypt.genSalt();
     const hashedPassword = await bcrypt.hash(password, salt);
 
-    const phoneVerificationPin = this.generatePin();
-    const emailVerificationPin = this.generatePin();
-    const pinExpiry = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes expiry
-
     const newOrg = new this.organizationModel({
       businessEmail,
       businessPhone,
@@ -380,24 +398,24 @@ export class ConsultantService {
       registrationStatus: 'quick',
       isPhoneVerified: false,
       isEmailVerified: false,
-      phoneVerificationPin,
-      emailVerificationPin,
-      phoneVerificationPinExpires: pinExpiry,
-      emailVerificationPinExpires: pinExpiry,
     });
 
     const savedOrg = await newOrg.save();
+    const { phonePin, emailPin } = await this.issueVerificationPins(
+      'organization',
+      savedOrg,
+    );
 
     // Fire-and-forget notifications
     (async () => {
       try {
-        const phoneMsg = `Your SRCC verification PIN is: ${phoneVerificationPin}.`;
+        const phoneMsg = `Your SRCC verification PIN is: ${phonePin}.`;
         await this.notificationService.sendSMS(
           savedOrg.businessPhone,
           phoneMsg,
         );
 
-        const emailMsg = `Your SRCC verification PIN is: ${emailVerificationPin}.`;
+        const emailMsg = `Your SRCC verification PIN is: ${emailPin}.`;
         await this.notificationService.sendEmail(
           savedOrg.businessEmail,
           'SRCC Account Verification',
@@ -422,32 +440,20 @@ export class ConsultantService {
       throw new NotFoundException('Organization not found.');
     }
 
-    const pinExpiry = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
-
-    if (!organization.isEmailVerified) {
-      organization.emailVerificationPin = this.generatePin();
-      organization.emailVerificationPinExpires = pinExpiry;
-    }
-
-    if (!organization.isPhoneVerified) {
-      organization.phoneVerificationPin = this.generatePin();
-      organization.phoneVerificationPinExpires = pinExpiry;
-    }
-
-    await organization.save();
+    const pins = await this.issueVerificationPins('organization', organization);
 
     // Fire-and-forget notifications
     (async () => {
       try {
-        if (!organization.isPhoneVerified) {
-          const phoneMsg = `Your new SRCC verification PIN is: ${organization.phoneVerificationPin}.`;
+        if (pins.phonePin) {
+          const phoneMsg = `Your new SRCC verification PIN is: ${pins.phonePin}.`;
           await this.notificationService.sendSMS(
             organization.businessPhone,
             phoneMsg,
           );
         }
-        if (!organization.isEmailVerified) {
-          const emailMsg = `Your new SRCC verification PIN is: ${organization.emailVerificationPin}.`;
+        if (pins.emailPin) {
+          const emailMsg = `Your new SRCC verification PIN is: ${pins.emailPin}.`;
           await this.notificationService.sendEmail(
             organization.businessEmail,
             'SRCC Account Verification',
@@ -1165,26 +1171,14 @@ SRCC Team
   }): Promise<OrganizationDocument> {
     const { businessEmail, pin, verificationType } = verifyOtpDto;
 
-    const org = await this.organizationModel
-      .findOne({ businessEmail })
-      .select(
-        '+phoneVerificationPin +emailVerificationPin +phoneVerificationPinExpires +emailVerificationPinExpires',
-      );
+    const org = await this.organizationModel.findOne({ businessEmail });
 
     if (!org) {
       throw new NotFoundException('Organization not found');
     }
 
-    const isPhoneVerification = verificationType === 'phone';
-    const pinField = isPhoneVerification
-      ? 'phoneVerificationPin'
-      : 'emailVerificationPin';
-    const pinExpiresField = isPhoneVerification
-      ? 'phoneVerificationPinExpires'
-      : 'emailVerificationPinExpires';
-    const isVerifiedField = isPhoneVerification
-      ? 'isPhoneVerified'
-      : 'isEmailVerified';
+    const isVerifiedField =
+      verificationType === 'phone' ? 'isPhoneVerified' : 'isEmailVerified';
 
     if (org[isVerifiedField]) {
       throw new BadRequestException(
@@ -1192,13 +1186,11 @@ SRCC Team
       );
     }
 
-    if (org[pinField] !== pin) {
-      throw new BadRequestException('Invalid verification PIN');
-    }
-
-    if (org[pinExpiresField] < new Date()) {
-      throw new BadRequestException('Verification PIN has expired');
-    }
+    await this.otpService.verify(
+      `organization_${verificationType}_verification`,
+      String(org._id),
+      pin,
+    );
 
     org[isVerifiedField] = true;
 
@@ -1217,26 +1209,14 @@ SRCC Team
   }): Promise<UserDocument> {
     const { email, pin, verificationType } = verifyOtpDto;
 
-    const user = await this.userModel
-      .findOne({ email })
-      .select(
-        '+phoneVerificationPin +emailVerificationPin +phoneVerificationPinExpires +emailVerificationPinExpires',
-      );
+    const user = await this.userModel.findOne({ email });
 
     if (!user) {
       throw new NotFoundException('User not found');
     }
 
-    const isPhoneVerification = verificationType === 'phone';
-    const pinField = isPhoneVerification
-      ? 'phoneVerificationPin'
-      : 'emailVerificationPin';
-    const pinExpiresField = isPhoneVerification
-      ? 'phoneVerificationPinExpires'
-      : 'emailVerificationPinExpires';
-    const isVerifiedField = isPhoneVerification
-      ? 'isPhoneVerified'
-      : 'isEmailVerified';
+    const isVerifiedField =
+      verificationType === 'phone' ? 'isPhoneVerified' : 'isEmailVerified';
 
     if (user[isVerifiedField]) {
       throw new BadRequestException(
@@ -1244,13 +1224,11 @@ SRCC Team
       );
     }
 
-    if (user[pinField] !== pin) {
-      throw new BadRequestException('Invalid verification PIN');
-    }
-
-    if (user[pinExpiresField] < new Date()) {
-      throw new BadRequestException('Verification PIN has expired');
-    }
+    await this.otpService.verify(
+      `user_${verificationType}_verification`,
+      String(user._id),
+      pin,
+    );
 
     user[isVerifiedField] = true;
 
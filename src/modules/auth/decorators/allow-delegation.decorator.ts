@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+import { DelegationModuleName } from '../../delegation/schemas/delegation.schema';
+
+export const DELEGATION_MODULE_KEY = 'delegationModule';
+
+// Lets RolesGuard admit users acting under an active delegation for `module`
+export const AllowDelegation = (module: DelegationModuleName) =>
+  SetMetadata(DELEGATION_MODULE_KEY, module);
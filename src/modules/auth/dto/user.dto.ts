@@ -157,6 +157,15 @@ export class CreateUserDto {
   @IsString()
   department: string;
 
+  @ApiProperty({
+    description: 'Staff grade, used to look up per-diem rates',
+    example: 'G5',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  staffGrade?: string;
+
   @ApiProperty({
     description: 'NHIF deduction in KES (optional)',
     example: 1700,
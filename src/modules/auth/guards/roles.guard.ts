@@ -1,12 +1,24 @@
 import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
-import { Reflector } from '@nestjs/core';
+import { ModuleRef, Reflector } from '@nestjs/core';
 import { ROLES_KEY } from '../decorators/roles.decorator';
+import { DELEGATION_MODULE_KEY } from '../decorators/allow-delegation.decorator';
+import { DelegationService } from '../../delegation/delegation.service';
+import { DelegationModuleName } from '../../delegation/schemas/delegation.schema';
 
 @Injectable()
 export class RolesGuard implements CanActivate {
-  constructor(private reflector: Reflector) {}
+  constructor(
+    private reflector: Reflector,
+    private moduleRef: ModuleRef,
+  ) {}
 
-  canActivate(context: ExecutionContext): boolean {
+  // Looked up app-wide: the guard also runs globally from AuthModule, which
+  // does not import DelegationModule. Throws if delegation is not registered.
+  private get delegationService(): DelegationService {
+    return this.moduleRef.get(DelegationService, { strict: false });
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const requiredRoles = this.reflector.getAllAndOverride<string[]>(
       ROLES_KEY,
       [context.getHandler(), context.getClass()],
@@ -17,6 +29,24 @@ export class RolesGuard implements CanActivate {
     }
 
     const { user } = context.switchToHttp().getRequest();
-    return requiredRoles.some((role) => user.roles?.includes(role));
+    if (requiredRoles.some((role) => user.roles?.includes(role))) {
+      return true;
+    }
+
+    const delegationModule =
+      this.reflector.getAllAndOverride<DelegationModuleName>(
+        DELEGATION_MODULE_KEY,
+        [context.getHandler(), context.getClass()],
+      );
+    if (!delegationModule || !user?.sub) {
+      return false;
+    }
+
+    const principal = await this.delegationService.findPrincipal(
+      user.sub,
+      delegationModule,
+      { roles: requiredRoles },
+    );
+    return !!principal;
   }
 }
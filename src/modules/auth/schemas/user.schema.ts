@@ -391,6 +391,14 @@ export class User {
   @Prop({ required: false })
   department?: string;
 
+  @ApiProperty({
+    description: 'Staff grade, used to look up per-diem rates',
+    example: 'G5',
+    required: false,
+  })
+  @Prop({ required: false })
+  staffGrade?: string;
+
   @ApiProperty({ description: 'Monthly NHIF deduction in KES', example: 1700 })
   @Prop({ type: Number })
   nhifDeduction: number;
@@ -1,10 +1,55 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import {
   ApprovalFlow,
   ApprovalFlowDocument,
+  ApprovalStep,
 } from './schemas/approval-flow.schema';
+import { ClaimRoutingContext, ClaimStateMachine } from './claim-state-machine';
+
+// Coach claims follow a fixed flow regardless of the project department
+export const COACH_APPROVAL_STEPS: ApprovalStep[] = [
+  {
+    stepNumber: 1,
+    role: 'reviewer',
+    department: 'SBS',
+    description: 'Review by coach manager (admin)',
+    nextStatus: 'pending_approver_approval',
+  },
+  {
+    stepNumber: 2,
+    role: 'approver',
+    department: 'SBS',
+    description: 'Approval by coach manager',
+    nextStatus: 'pending_finance_approval',
+  },
+  {
+    stepNumber: 3,
+    role: 'finance',
+    department: 'SBS',
+    description: 'Finance approval within SBS',
+    nextStatus: 'pending_srcc_checker_approval',
+  },
+  {
+    stepNumber: 4,
+    role: 'srcc_checker',
+    department: 'SRCC',
+    description: 'Check by SRCC staff',
+    nextStatus: 'pending_srcc_finance_approval',
+  },
+  {
+    stepNumber: 5,
+    role: 'srcc_finance',
+    department: 'SRCC',
+    description: 'Final finance approval by SRCC',
+    nextStatus: 'approved',
+  },
+];
 
 @Injectable()
 export class ApprovalFlowService {
@@ -292,11 +337,12 @@ export class ApprovalFlowService {
       },
     ];
 
+    // Seed missing flows only, leaving flows edited through the API intact
     for (const flow of defaultFlows) {
-      await this.approvalFlowModel.findOneAndUpdate(
+      await this.approvalFlowModel.updateOne(
         { department: flow.department },
-        flow,
-        { upsert: true, new: true },
+        { $setOnInsert: flow },
+        { upsert: true },
       );
     }
   }
@@ -316,56 +362,69 @@ export class ApprovalFlowService {
     return flow;
   }
 
+  /**
+   * Builds the state machine for a department's flow. Steps whose conditions
+   * do not match `context` are left out of the route.
+   */
+  async getStateMachine(
+    department: string,
+    context?: ClaimRoutingContext,
+  ): Promise<ClaimStateMachine> {
+    const flow = await this.getApprovalFlow(department);
+    return new ClaimStateMachine(flow.steps, context);
+  }
+
+  getCoachStateMachine(context?: ClaimRoutingContext): ClaimStateMachine {
+    return new ClaimStateMachine(COACH_APPROVAL_STEPS, context);
+  }
+
+  // Pending statuses used by any department flow or the coach flow
+  async getPendingStatuses(): Promise<string[]> {
+    const flows = await this.approvalFlowModel.find().lean();
+    const steps = [
+      ...COACH_APPROVAL_STEPS,
+      ...flows.flatMap((flow) => flow.steps || []),
+    ];
+    return [
+      ...new Set(
+        steps.map((step) => ClaimStateMachine.pendingStatus(step.role)),
+      ),
+    ];
+  }
+
   async getNextApprovalStep(
     department: string,
     currentStatus: string,
+    context?: ClaimRoutingContext,
   ): Promise<{
     nextStatus: string;
     role: string;
     department: string;
   } | null> {
-    const flow = await this.getApprovalFlow(department);
-    console.log(flow);
-
-    // For initial submission
-    if (currentStatus === 'draft') {
-      const firstStep = flow.steps[0];
-      return {
-        nextStatus: `pending_${firstStep.role}_approval`,
-        role: firstStep.role,
-        department: firstStep.department,
-      };
-    }
-
-    // Find current step
-    const currentStep = flow.steps.find(
-      (step) => currentStatus === `pending_${step.role}_approval`,
-    );
-    console.log(currentStatus, currentStep);
-
-    if (!currentStep) {
+    const machine = await this.getStateMachine(department, context);
+    const action = currentStatus === 'draft' ? 'submit' : 'approve';
+    if (!machine.can(currentStatus, action)) {
       return null;
     }
 
-    // Find next step
-    const nextStep = flow.steps.find((step) =>
-      currentStep.nextStatus === 'approved'
-        ? step.stepNumber === currentStep.stepNumber
-        : step.stepNumber === currentStep.stepNumber + 1,
+    const { to, currentStep, nextStep } = machine.transition(
+      currentStatus,
+      action,
     );
-
-    return nextStep
-      ? {
-          nextStatus: currentStep.nextStatus,
-          role: nextStep.role,
-          department: nextStep.department,
-        }
-      : null;
+    const step = nextStep || currentStep;
+    return { nextStatus: to, role: step.role, department: step.department };
   }
 
   async addApprovalFlow(
     dto: Partial<ApprovalFlow>,
   ): Promise<ApprovalFlowDocument> {
+    if (dto.steps) {
+      const errors = ClaimStateMachine.validate(dto.steps);
+      if (errors.length) {
+        throw new BadRequestException(errors);
+      }
+    }
+
     // Upsert based on department
     return this.approvalFlowModel.findOneAndUpdate(
       { department: dto.department },
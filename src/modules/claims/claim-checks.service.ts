@@ -0,0 +1,252 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import axios from 'axios';
+import { createHash } from 'crypto';
+import { Claim, ClaimDocument, ClaimWarning } from './schemas/claim.schema';
+import { ContractDocument } from '../project/schemas/contract.schema';
+import {
+  ContractAmendment,
+  ContractAmendmentDocument,
+} from '../project/schemas/contract-amendment.schema';
+import { termsInForce } from '../project/contract-terms';
+import { SystemConfigService } from '../system-config/services/system-config.service';
+import { ClaimCheckCode } from '../system-config/policies';
+
+// Claims that no longer count towards duplicates or the contract total
+const INACTIVE_STATUSES = ['rejected', 'cancelled'];
+
+const MAX_DOCUMENT_BYTES = 25 * 1024 * 1024;
+const DOCUMENT_FETCH_TIMEOUT_MS = 5000;
+
+// Claim documents are uploaded to Cloudinary; nothing else is fetched
+const UPLOAD_HOST = 'res.cloudinary.com';
+
+/**
+ * Looks for reused documents, repeated milestone amounts and claims beyond
+ * the contract value. Runs whenever a claim enters approval.
+ */
+@Injectable()
+export class ClaimChecksService {
+  private readonly logger = new Logger(ClaimChecksService.name);
+
+  constructor(
+    @InjectModel(Claim.name) private claimModel: Model<ClaimDocument>,
+    @InjectModel(ContractAmendment.name)
+    private amendmentModel: Model<ContractAmendmentDocument>,
+    private readonly systemConfigService: SystemConfigService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Hashes the claim's documents and sets `claim.warnings`. Throws when a
+   * finding matches a check configured to block submission.
+   */
+  async run(claim: ClaimDocument, contract: ContractDocument): Promise<void> {
+    const policy = await this.systemConfigService.getClaimCheckPolicy();
+    await this.hashDocuments(claim);
+
+    const findings = [
+      ...(await this.findDuplicateDocuments(claim)),
+      ...(await this.findDuplicateAmounts(claim, policy.windowDays)),
+      ...(await this.findOverClaim(claim, contract)),
+    ];
+
+    const blocking = findings.filter((f) =>
+      policy.blockingChecks.includes(f.code as ClaimCheckCode),
+    );
+    if (blocking.length) {
+      throw new BadRequestException({
+        message: 'Claim cannot be submitted',
+        errors: blocking.map(({ code, message, relatedClaimIds }) => ({
+          code,
+          message,
+          relatedClaimIds,
+        })),
+      });
+    }
+
+    if (findings.length) {
+      this.logger.warn(
+        `Claim ${claim._id} flagged: ${findings.map((f) => f.code).join(', ')}`,
+      );
+    }
+    claim.warnings = findings;
+  }
+
+  // Files are fetched side by side, and only from the upload host
+  private async hashDocuments(claim: ClaimDocument): Promise<void> {
+    await Promise.all(
+      (claim.documents || [])
+        .filter((document) => !document.hash && document.url)
+        .map(async (document) => {
+          if (!this.isUploadedFile(document.url)) {
+            this.logger.warn(
+              `Not hashing document ${document.url} on claim ${claim._id}: not an uploaded file`,
+            );
+            return;
+          }
+          try {
+            const response = await axios.get<ArrayBuffer>(document.url, {
+              responseType: 'arraybuffer',
+              timeout: DOCUMENT_FETCH_TIMEOUT_MS,
+              maxContentLength: MAX_DOCUMENT_BYTES,
+              maxRedirects: 0,
+            });
+            document.hash = createHash('sha256')
+              .update(Buffer.from(response.data))
+              .digest('hex');
+          } catch (error) {
+            // An unreachable file only means it is left out of the document check
+            this.logger.warn(
+              `Could not hash document ${document.url} on claim ${claim._id}: ${error.message}`,
+            );
+          }
+        }),
+    );
+    claim.markModified('documents');
+  }
+
+  private isUploadedFile(url: string): boolean {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return false;
+    }
+    const cloudName = this.configService.get<string>('CLOUDINARY_CLOUD_NAME');
+    return (
+      parsed.protocol === 'https:' &&
+      parsed.hostname === UPLOAD_HOST &&
+      !parsed.port &&
+      (!cloudName || parsed.pathname.startsWith(`/${cloudName}/`))
+    );
+  }
+
+  private async findDuplicateDocuments(
+    claim: ClaimDocument,
+  ): Promise<ClaimWarning[]> {
+    const hashes = (claim.documents || []).map((d) => d.hash).filter(Boolean);
+    if (!hashes.length) return [];
+
+    const matches = await this.claimModel
+      .find({
+        _id: { $ne: claim._id },
+        status: { $nin: INACTIVE_STATUSES },
+        'documents.hash': { $in: hashes },
+      })
+      .select('documents.hash')
+      .lean();
+
+    return (claim.documents || [])
+      .filter((document) => document.hash)
+      .map((document) => {
+        const related = matches.filter((other) =>
+          other.documents.some((d) => d.hash === document.hash),
+        );
+        return { document, related };
+      })
+      .filter(({ related }) => related.length)
+      .map(({ document, related }) =>
+        this.warning(
+          'duplicate_document',
+          `Document "${document.name}" is also attached to ${related.length} other claim(s)`,
+          related.map((other) => other._id as Types.ObjectId),
+        ),
+      );
+  }
+
+  private async findDuplicateAmounts(
+    claim: ClaimDocument,
+    windowDays: number,
+  ): Promise<ClaimWarning[]> {
+    const milestones = (claim.milestones || []).filter(
+      (m) => m.currentClaim > 0,
+    );
+    if (!milestones.length) return [];
+
+    const since = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000);
+    const recent = await this.claimModel
+      .find({
+        _id: { $ne: claim._id },
+        claimantId: claim.claimantId,
+        status: { $nin: INACTIVE_STATUSES },
+        createdAt: { $gte: since },
+        'milestones.milestoneId': {
+          $in: milestones.map((m) => m.milestoneId),
+        },
+      })
+      .select('milestones contractId')
+      .lean();
+
+    const warnings: ClaimWarning[] = [];
+    for (const milestone of milestones) {
+      const related = recent.filter((other) =>
+        other.milestones.some(
+          (m) =>
+            m.milestoneId === milestone.milestoneId &&
+            m.currentClaim === milestone.currentClaim,
+        ),
+      );
+      if (related.length) {
+        warnings.push(
+          this.warning(
+            'duplicate_amount',
+            `${claim.currency} ${milestone.currentClaim.toLocaleString()} for milestone "${milestone.title}" was already claimed by the same person in the last ${windowDays} days`,
+            related.map((other) => other._id as Types.ObjectId),
+          ),
+        );
+      }
+    }
+    return warnings;
+  }
+
+  // Contract value under the terms in force on a date, amendments included
+  async contractValueAt(contract: ContractDocument, at: Date): Promise<number> {
+    const applied = await this.amendmentModel
+      .find({ contractId: contract._id, status: 'applied' })
+      .select('version previousTerms terms effectiveDate appliedAt')
+      .lean();
+    return termsInForce(contract, applied, at).contractValue;
+  }
+
+  private async findOverClaim(
+    claim: ClaimDocument,
+    contract: ContractDocument,
+  ): Promise<ClaimWarning[]> {
+    const others = await this.claimModel
+      .find({
+        _id: { $ne: claim._id },
+        contractId: contract._id,
+        status: { $nin: INACTIVE_STATUSES },
+      })
+      .select('amount')
+      .lean();
+
+    const total =
+      others.reduce((sum, other) => sum + (other.amount || 0), 0) +
+      (claim.amount || 0);
+    const contractValue = await this.contractValueAt(
+      contract,
+      claim.createdAt || new Date(),
+    );
+    if (total <= contractValue) return [];
+
+    return [
+      this.warning(
+        'over_claim',
+        `Claims on contract ${contract.contractNumber} total ${contract.currency} ${total.toLocaleString()}, above the contract value of ${contract.currency} ${contractValue.toLocaleString()}`,
+        others.map((other) => other._id as Types.ObjectId),
+      ),
+    ];
+  }
+
+  private warning(
+    code: ClaimCheckCode,
+    message: string,
+    relatedClaimIds: Types.ObjectId[],
+  ): ClaimWarning {
+    return { code, message, relatedClaimIds, detectedAt: new Date() };
+  }
+}
@@ -0,0 +1,143 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  Request,
+  StreamableFile,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import {
+  ClaimPaymentBatchService,
+  PaymentFile,
+} from './claim-payment-batch.service';
+import {
+  ConfirmPaymentBatchDto,
+  CreatePaymentBatchDto,
+} from './dto/claim-payment-batch.dto';
+
+@ApiTags('Claim Payment Batches')
+@Controller('claim-payment-batches')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('srcc_finance', 'srcc_checker', 'admin')
+@ApiBearerAuth()
+export class ClaimPaymentBatchController {
+  constructor(
+    private readonly claimPaymentBatchService: ClaimPaymentBatchService,
+  ) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Group approved claims into a payment batch',
+    description:
+      'Each claim is paid by bank transfer when the claimant has bank details, otherwise by M-Pesa. Claims are reserved until the batch is confirmed or cancelled.',
+  })
+  @ApiResponse({ status: 201, description: 'Batch created' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Claims not approved, already batched or missing payee details',
+  })
+  create(
+    @Body(new ValidationPipe({ whitelist: true, transform: true }))
+    dto: CreatePaymentBatchDto,
+    @Request() req: any,
+  ) {
+    return this.claimPaymentBatchService.create(dto, req.user.sub);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List payment batches' })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: ['draft', 'confirmed', 'cancelled'],
+  })
+  findAll(@Query('status') status?: string) {
+    return this.claimPaymentBatchService.findAll(status);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a payment batch' })
+  findOne(@Param('id') id: string) {
+    return this.claimPaymentBatchService.findOne(id);
+  }
+
+  @Get(':id/bank-file')
+  @ApiOperation({
+    summary: 'Download the bank bulk-payment file',
+    description:
+      'CSV covers all bank payments. The fixed-width EFT file is generated per currency.',
+  })
+  @ApiQuery({ name: 'format', required: false, enum: ['csv', 'eft'] })
+  @ApiQuery({ name: 'currency', required: false, example: 'KES' })
+  async bankFile(
+    @Param('id') id: string,
+    @Query('format') format: 'csv' | 'eft' = 'csv',
+    @Query('currency') currency?: string,
+  ) {
+    return this.toStreamableFile(
+      await this.claimPaymentBatchService.getBankFile(
+        id,
+        format === 'eft' ? 'eft' : 'csv',
+        currency,
+      ),
+    );
+  }
+
+  @Get(':id/mpesa-file')
+  @ApiOperation({ summary: 'Download the M-Pesa B2C bulk-payment CSV' })
+  async mpesaFile(@Param('id') id: string) {
+    return this.toStreamableFile(
+      await this.claimPaymentBatchService.getMpesaFile(id),
+    );
+  }
+
+  @Post(':id/confirm')
+  @ApiOperation({
+    summary: 'Confirm the batch was paid',
+    description:
+      'Marks every claim in the batch as paid with the batch reference. Either all claims are updated or none are.',
+  })
+  @ApiResponse({ status: 201, description: 'Batch confirmed' })
+  @ApiResponse({
+    status: 409,
+    description: 'A claim in the batch is no longer approved',
+  })
+  confirm(
+    @Param('id') id: string,
+    @Body(new ValidationPipe({ whitelist: true, transform: true }))
+    dto: ConfirmPaymentBatchDto,
+    @Request() req: any,
+  ) {
+    return this.claimPaymentBatchService.confirm(id, dto, req.user.sub);
+  }
+
+  @Post(':id/cancel')
+  @ApiOperation({
+    summary: 'Cancel a draft batch and release its claims',
+  })
+  cancel(@Param('id') id: string, @Request() req: any) {
+    return this.claimPaymentBatchService.cancel(id, req.user.sub);
+  }
+
+  private toStreamableFile(file: PaymentFile): StreamableFile {
+    return new StreamableFile(Buffer.from(file.content, 'utf8'), {
+      type: file.contentType,
+      disposition: `attachment; filename="${file.filename}"`,
+    });
+  }
+}
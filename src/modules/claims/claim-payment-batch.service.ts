@@ -0,0 +1,443 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { ClientSession, Connection, Model, Types } from 'mongoose';
+import { Claim, ClaimDocument } from './schemas/claim.schema';
+import {
+  ClaimPaymentBatch,
+  ClaimPaymentBatchDocument,
+  PaymentBatchItem,
+  PaymentBatchStatus,
+  PaymentBatchTotal,
+} from './schemas/claim-payment-batch.schema';
+import { User, UserDocument } from '../auth/schemas/user.schema';
+import { Project, ProjectDocument } from '../project/schemas/project.schema';
+import {
+  ConfirmPaymentBatchDto,
+  CreatePaymentBatchDto,
+} from './dto/claim-payment-batch.dto';
+import { ClaimsNotificationService } from './claims-notification.service';
+import {
+  buildBankCsv,
+  buildEftFile,
+  buildMpesaB2cCsv,
+  roundAmount,
+} from './payment-files';
+import { NumberingService } from '../numbering/numbering.service';
+
+export interface PaymentFile {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+const CHANNEL_PAYMENT_METHOD = {
+  bank: 'Bank Transfer',
+  mpesa: 'M-Pesa',
+} as const;
+
+@Injectable()
+export class ClaimPaymentBatchService {
+  private readonly logger = new Logger(ClaimPaymentBatchService.name);
+
+  constructor(
+    @InjectModel(ClaimPaymentBatch.name)
+    private batchModel: Model<ClaimPaymentBatchDocument>,
+    @InjectModel(Claim.name) private claimModel: Model<ClaimDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectModel(Project.name) private projectModel: Model<ProjectDocument>,
+    @InjectConnection() private readonly connection: Connection,
+    private readonly claimsNotificationService: ClaimsNotificationService,
+    private readonly numberingService: NumberingService,
+  ) {}
+
+  async create(
+    dto: CreatePaymentBatchDto,
+    userId: string,
+  ): Promise<ClaimPaymentBatchDocument> {
+    const claimIds = [...new Set(dto.claimIds)];
+    const claims = await this.claimModel.find({ _id: { $in: claimIds } });
+
+    const missing = claimIds.filter(
+      (id) => !claims.some((claim) => claim._id.toString() === id),
+    );
+    if (missing.length) {
+      throw new NotFoundException(`Claims not found: ${missing.join(', ')}`);
+    }
+
+    const notApproved = claims.filter((claim) => claim.status !== 'approved');
+    if (notApproved.length) {
+      throw new BadRequestException(
+        `Only approved claims can be batched. Not approved: ${notApproved
+          .map((claim) => claim._id)
+          .join(', ')}`,
+      );
+    }
+
+    const reserved = claims.filter((claim) => claim.paymentBatchId);
+    if (reserved.length) {
+      throw new BadRequestException(
+        `Claims already in a payment batch: ${reserved
+          .map((claim) => claim._id)
+          .join(', ')}`,
+      );
+    }
+
+    const items = await this.buildItems(claims);
+    const batchNumber = await this.numberingService.next('payment_batch');
+
+    return this.runInTransaction(async (session) => {
+      const [batch] = await this.batchModel.create(
+        [
+          {
+            batchNumber,
+            items,
+            totals: this.calculateTotals(items),
+            notes: dto.notes,
+            createdBy: new Types.ObjectId(userId),
+          },
+        ],
+        { session },
+      );
+
+      // Another batch may have reserved some of these claims in the meantime
+      const result = await this.claimModel.updateMany(
+        {
+          _id: { $in: claimIds },
+          status: 'approved',
+          paymentBatchId: null,
+        },
+        { paymentBatchId: batch._id },
+        { session },
+      );
+      if (result.modifiedCount !== claimIds.length) {
+        throw new ConflictException(
+          'Some claims changed while the batch was being created. Please reload and try again.',
+        );
+      }
+
+      return batch;
+    });
+  }
+
+  async findAll(status?: string): Promise<ClaimPaymentBatchDocument[]> {
+    return this.batchModel
+      .find(status ? { status } : {})
+      .populate('createdBy', 'firstName lastName email')
+      .populate('confirmedBy', 'firstName lastName email')
+      .sort({ createdAt: -1 });
+  }
+
+  async findOne(id: string): Promise<ClaimPaymentBatchDocument> {
+    const batch = await this.batchModel
+      .findById(id)
+      .populate('createdBy', 'firstName lastName email')
+      .populate('confirmedBy', 'firstName lastName email');
+    if (!batch) {
+      throw new NotFoundException('Payment batch not found');
+    }
+    return batch;
+  }
+
+  async getBankFile(
+    id: string,
+    format: 'csv' | 'eft',
+    currency?: string,
+  ): Promise<PaymentFile> {
+    const batch = await this.findOne(id);
+    if (!batch.items.some((item) => item.channel === 'bank')) {
+      throw new BadRequestException('Batch has no bank payments');
+    }
+
+    if (format === 'csv') {
+      return {
+        filename: `${batch.batchNumber}-bank.csv`,
+        contentType: 'text/csv',
+        content: buildBankCsv(batch),
+      };
+    }
+
+    const currencies = [
+      ...new Set(
+        batch.items
+          .filter((item) => item.channel === 'bank')
+          .map((item) => item.currency),
+      ),
+    ];
+    const fileCurrency =
+      currency?.toUpperCase() ||
+      (currencies.length === 1 ? currencies[0] : undefined);
+    if (!fileCurrency) {
+      throw new BadRequestException(
+        `Batch has bank payments in ${currencies.join(', ')}. Specify a currency for the EFT file.`,
+      );
+    }
+    if (!currencies.includes(fileCurrency)) {
+      throw new BadRequestException(
+        `Batch has no bank payments in ${fileCurrency}`,
+      );
+    }
+
+    return {
+      filename: `${batch.batchNumber}-${fileCurrency}-eft.txt`,
+      contentType: 'text/plain',
+      content: buildEftFile(batch, fileCurrency),
+    };
+  }
+
+  async getMpesaFile(id: string): Promise<PaymentFile> {
+    const batch = await this.findOne(id);
+    if (!batch.items.some((item) => item.channel === 'mpesa')) {
+      throw new BadRequestException('Batch has no M-Pesa payments');
+    }
+
+    return {
+      filename: `${batch.batchNumber}-mpesa-b2c.csv`,
+      contentType: 'text/csv',
+      content: buildMpesaB2cCsv(batch),
+    };
+  }
+
+  /**
+   * Marks every claim in the batch as paid with the batch reference. Runs in
+   * a transaction so either all claims are paid or none are.
+   */
+  async confirm(
+    id: string,
+    dto: ConfirmPaymentBatchDto,
+    userId: string,
+  ): Promise<ClaimPaymentBatchDocument> {
+    const batch = await this.batchModel.findById(id);
+    if (!batch) {
+      throw new NotFoundException('Payment batch not found');
+    }
+    if (batch.status !== PaymentBatchStatus.DRAFT) {
+      throw new BadRequestException(
+        `Only draft batches can be confirmed. Batch is ${batch.status}`,
+      );
+    }
+
+    const paidBy = new Types.ObjectId(userId);
+    const paidAt = dto.paidAt ? new Date(dto.paidAt) : new Date();
+
+    const confirmed = await this.runInTransaction(async (session) => {
+      let paidCount = 0;
+      for (const channel of ['bank', 'mpesa'] as const) {
+        const claimIds = batch.items
+          .filter((item) => item.channel === channel)
+          .map((item) => item.claimId);
+        if (!claimIds.length) continue;
+
+        const paymentDetails = {
+          paymentMethod: CHANNEL_PAYMENT_METHOD[channel],
+          transactionId: batch.batchNumber,
+          reference: dto.paymentReference,
+          paymentAdviceUrl: dto.paymentAdviceUrl,
+        };
+        const result = await this.claimModel.updateMany(
+          {
+            _id: { $in: claimIds },
+            status: 'approved',
+            paymentBatchId: batch._id,
+          },
+          {
+            status: 'paid',
+            payment: { paidBy, paidAt, ...paymentDetails },
+            currentLevelDeadline: null,
+            updatedBy: paidBy,
+            $push: {
+              auditTrail: {
+                action: 'MARKED_AS_PAID',
+                performedBy: paidBy,
+                performedAt: new Date(),
+                details: { paymentDetails, paymentBatchId: batch._id },
+              },
+            },
+          },
+          { session },
+        );
+        paidCount += result.modifiedCount;
+      }
+
+      if (paidCount !== batch.items.length) {
+        throw new ConflictException(
+          'Some claims in the batch are no longer approved. No claims were marked as paid.',
+        );
+      }
+
+      batch.status = PaymentBatchStatus.CONFIRMED;
+      batch.paymentReference = dto.paymentReference;
+      batch.paymentAdviceUrl = dto.paymentAdviceUrl;
+      batch.confirmedBy = paidBy;
+      batch.confirmedAt = new Date();
+      return batch.save({ session });
+    });
+
+    this.logger.log(
+      `Payment batch ${batch.batchNumber} confirmed with ${batch.items.length} claims`,
+    );
+    await this.notifyClaimants(confirmed, paidBy);
+
+    return confirmed;
+  }
+
+  async cancel(id: string, userId: string): Promise<ClaimPaymentBatchDocument> {
+    const batch = await this.batchModel.findById(id);
+    if (!batch) {
+      throw new NotFoundException('Payment batch not found');
+    }
+    if (batch.status !== PaymentBatchStatus.DRAFT) {
+      throw new BadRequestException('Only draft batches can be cancelled');
+    }
+
+    return this.runInTransaction(async (session) => {
+      await this.claimModel.updateMany(
+        { paymentBatchId: batch._id, status: 'approved' },
+        { $unset: { paymentBatchId: 1 } },
+        { session },
+      );
+
+      batch.status = PaymentBatchStatus.CANCELLED;
+      batch.cancelledBy = new Types.ObjectId(userId);
+      batch.cancelledAt = new Date();
+      return batch.save({ session });
+    });
+  }
+
+  private async buildItems(
+    claims: ClaimDocument[],
+  ): Promise<PaymentBatchItem[]> {
+    const claimants = await this.userModel.find({
+      _id: { $in: claims.map((claim) => claim.claimantId) },
+    });
+
+    const items: PaymentBatchItem[] = [];
+    const unpayable: string[] = [];
+    for (const claim of claims) {
+      const claimant = claimants.find(
+        (user) => user._id.toString() === claim.claimantId.toString(),
+      );
+      const payeeName = claimant
+        ? `${claimant.firstName} ${claimant.lastName}`
+        : 'Unknown claimant';
+      const bank = claimant?.bankDetails;
+      const mpesaPhone = claimant?.mpesaDetails?.phoneNumber;
+
+      const item = {
+        claimId: claim._id as Types.ObjectId,
+        claimantId: claim.claimantId,
+        payeeName,
+        amount: roundAmount(claim.amount),
+        currency: claim.currency,
+      };
+
+      if (bank?.accountNumber && bank?.bankName) {
+        items.push({
+          ...item,
+          channel: 'bank',
+          bankName: bank.bankName,
+          branchCode: bank.branchCode,
+          accountNumber: bank.accountNumber,
+        });
+      } else if (
+        mpesaPhone &&
+        claim.currency === 'KES' &&
+        Number.isInteger(claim.amount)
+      ) {
+        // M-Pesa B2C only pays whole shillings
+        items.push({ ...item, channel: 'mpesa', mpesaPhoneNumber: mpesaPhone });
+      } else {
+        unpayable.push(`${payeeName} (claim ${claim._id})`);
+      }
+    }
+
+    if (unpayable.length) {
+      throw new BadRequestException(
+        `No usable bank or M-Pesa details for: ${unpayable.join(', ')}`,
+      );
+    }
+
+    return items;
+  }
+
+  private calculateTotals(items: PaymentBatchItem[]): PaymentBatchTotal[] {
+    const totals = new Map<string, PaymentBatchTotal>();
+    for (const item of items) {
+      const total = totals.get(item.currency) || {
+        currency: item.currency,
+        amount: 0,
+        count: 0,
+      };
+      total.amount = roundAmount(total.amount + item.amount);
+      total.count += 1;
+      totals.set(item.currency, total);
+    }
+    return [...totals.values()];
+  }
+
+  /**
+   * Multi-document transactions need MongoDB to run as a replica set (Atlas
+   * clusters are; a standalone mongod must be started with --replSet).
+   */
+  private async runInTransaction<T>(
+    work: (session: ClientSession) => Promise<T>,
+  ): Promise<T> {
+    const session = await this.connection.startSession();
+    try {
+      let result: T;
+      await session.withTransaction(async () => {
+        result = await work(session);
+      });
+      return result;
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  private async notifyClaimants(
+    batch: ClaimPaymentBatchDocument,
+    paidBy: Types.ObjectId,
+  ): Promise<void> {
+    try {
+      const [claims, payer] = await Promise.all([
+        this.claimModel.find({ paymentBatchId: batch._id }),
+        this.userModel.findById(paidBy),
+      ]);
+      const [projects, claimants] = await Promise.all([
+        this.projectModel.find({
+          _id: { $in: claims.map((claim) => claim.projectId) },
+        }),
+        this.userModel.find({
+          _id: { $in: claims.map((claim) => claim.claimantId) },
+        }),
+      ]);
+
+      for (const claim of claims) {
+        const project = projects.find(
+          (p) => p._id.toString() === claim.projectId.toString(),
+        );
+        const claimant = claimants.find(
+          (u) => u._id.toString() === claim.claimantId.toString(),
+        );
+        if (!project || !claimant) continue;
+
+        await this.claimsNotificationService
+          .notifyClaimPaid(claim, project, claimant, payer)
+          .catch((error) =>
+            this.logger.error(
+              `Failed to notify ${claimant.email} of payment: ${error.message}`,
+            ),
+          );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to send payment notifications for batch ${batch.batchNumber}: ${error.message}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,177 @@
+import { ClaimStateMachine } from './claim-state-machine';
+import { IllegalClaimTransitionException } from './exceptions/illegal-claim-transition.exception';
+import { ApprovalStep } from './schemas/approval-flow.schema';
+
+describe('ClaimStateMachine', () => {
+  const steps: ApprovalStep[] = [
+    {
+      stepNumber: 1,
+      role: 'claim_checker',
+      department: 'SU',
+      description: 'Initial check',
+      nextStatus: 'pending_srcc_finance_approval',
+    },
+    {
+      stepNumber: 2,
+      role: 'srcc_finance',
+      department: 'SRCC',
+      description: 'Final finance approval',
+      nextStatus: 'approved',
+    },
+  ];
+
+  let machine: ClaimStateMachine;
+
+  beforeEach(() => {
+    machine = new ClaimStateMachine(steps);
+  });
+
+  it('derives pending states from the flow steps', () => {
+    expect(machine.initialStatus).toBe('pending_claim_checker_approval');
+    expect(machine.states).toEqual(
+      expect.arrayContaining([
+        'pending_claim_checker_approval',
+        'pending_srcc_finance_approval',
+      ]),
+    );
+  });
+
+  it('walks a claim through every step to approved and paid', () => {
+    const submitted = machine.transition('draft', 'submit');
+    expect(submitted.to).toBe('pending_claim_checker_approval');
+
+    const checked = machine.transition(submitted.to, 'approve');
+    expect(checked.currentStep.role).toBe('claim_checker');
+    expect(checked.to).toBe('pending_srcc_finance_approval');
+
+    const approved = machine.transition(checked.to, 'approve');
+    expect(approved.to).toBe('approved');
+
+    expect(machine.transition(approved.to, 'mark_paid').to).toBe('paid');
+  });
+
+  it('resubmits a revised claim to the requested step', () => {
+    const result = machine.transition('revision_requested', 'submit', {
+      returnToStatus: 'pending_srcc_finance_approval',
+    });
+    expect(result.to).toBe('pending_srcc_finance_approval');
+  });
+
+  it('rejects illegal transitions', () => {
+    expect(() => machine.transition('draft', 'approve')).toThrow(
+      IllegalClaimTransitionException,
+    );
+    expect(() => machine.transition('paid', 'cancel')).toThrow(
+      IllegalClaimTransitionException,
+    );
+    expect(() =>
+      machine.transition('pending_unknown_approval', 'approve'),
+    ).toThrow(IllegalClaimTransitionException);
+  });
+
+  it('reports invalid flow definitions', () => {
+    const errors = ClaimStateMachine.validate([
+      { ...steps[0], nextStatus: 'pending_missing_approval' },
+      { ...steps[1], stepNumber: 1 },
+    ]);
+    expect(errors).toHaveLength(2);
+  });
+
+  describe('conditional steps', () => {
+    const conditionalSteps: ApprovalStep[] = [
+      { ...steps[0], nextStatus: 'pending_director_approval' },
+      {
+        stepNumber: 2,
+        role: 'director',
+        department: 'SBS',
+        description: 'Director approval for large claims',
+        nextStatus: 'pending_srcc_finance_approval',
+        conditions: { minAmount: 500000 },
+      },
+      {
+        ...steps[1],
+        stepNumber: 3,
+        conditions: { contractTypes: ['team_member'] },
+      },
+    ];
+
+    it('adds the director step only above the threshold', () => {
+      const small = new ClaimStateMachine(conditionalSteps, {
+        amount: 10000,
+        contractType: 'team_member',
+      });
+      expect(small.transition(small.initialStatus, 'approve').to).toBe(
+        'pending_srcc_finance_approval',
+      );
+
+      const large = new ClaimStateMachine(conditionalSteps, {
+        amount: 750000,
+        contractType: 'team_member',
+      });
+      expect(large.transition(large.initialStatus, 'approve').to).toBe(
+        'pending_director_approval',
+      );
+    });
+
+    it('ends the flow at a step whose next status is approved', () => {
+      const machine = new ClaimStateMachine(
+        [
+          { ...conditionalSteps[0], nextStatus: 'approved' },
+          ...conditionalSteps.slice(1),
+        ],
+        { amount: 750000, contractType: 'team_member' },
+      );
+      expect(machine.transition(machine.initialStatus, 'approve').to).toBe(
+        'approved',
+      );
+    });
+
+    it('keeps a claim actionable on a step the flow no longer routes it to', () => {
+      // Finance raised the director threshold while the claim was waiting
+      const edited = new ClaimStateMachine(
+        [
+          conditionalSteps[0],
+          { ...conditionalSteps[1], conditions: { minAmount: 1000000 } },
+          conditionalSteps[2],
+        ],
+        { amount: 750000, contractType: 'team_member' },
+      );
+      expect(edited.allowedTransitions('pending_director_approval')).toEqual([
+        'approve',
+        'reject',
+        'request_revision',
+        'cancel',
+      ]);
+      expect(edited.transition('pending_director_approval', 'approve').to).toBe(
+        'pending_srcc_finance_approval',
+      );
+    });
+
+    it('lets an adjusted claim take its next action', () => {
+      const submitted = { amount: 750000, contractType: 'team_member' };
+      const atDirector = new ClaimStateMachine(conditionalSteps, submitted);
+      const { to } = atDirector.transition(atDirector.initialStatus, 'approve');
+      expect(to).toBe('pending_director_approval');
+
+      // The checker cut the claim below the director threshold
+      const adjusted = { ...submitted, amount: 300000 };
+      for (const context of [submitted, adjusted]) {
+        const machine = new ClaimStateMachine(conditionalSteps, context);
+        expect(machine.transition(to, 'approve').to).toBe(
+          'pending_srcc_finance_approval',
+        );
+        expect(machine.transition(to, 'reject').to).toBe('rejected');
+      }
+    });
+
+    it('skips steps whose contract type does not match', () => {
+      const coach = new ClaimStateMachine(conditionalSteps, {
+        amount: 10000,
+        contractType: 'coach',
+      });
+      expect(coach.transition(coach.initialStatus, 'approve').to).toBe(
+        'approved',
+      );
+    });
+  });
+});
@@ -0,0 +1,294 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  ApprovalStep,
+  ApprovalStepConditions,
+} from './schemas/approval-flow.schema';
+import { IllegalClaimTransitionException } from './exceptions/illegal-claim-transition.exception';
+
+export const CLAIM_TRANSITIONS = [
+  'submit',
+  'approve',
+  'reject',
+  'request_revision',
+  'cancel',
+  'mark_paid',
+] as const;
+
+export type ClaimTransition = (typeof CLAIM_TRANSITIONS)[number];
+
+/**
+ * States that exist for every claim regardless of department. Pending
+ * states (`pending_<role>_approval`) come from the approval flow steps.
+ */
+export const CLAIM_FIXED_STATES = [
+  'draft',
+  'revision_requested',
+  'approved',
+  'paid',
+  'rejected',
+  'cancelled',
+] as const;
+
+export interface ClaimTransitionResult {
+  action: ClaimTransition;
+  from: string;
+  to: string;
+  // Step the claim is currently waiting on (approve, reject, request_revision)
+  currentStep?: ApprovalStep;
+  // Step the claim moves to when `to` is a pending state
+  nextStep?: ApprovalStep;
+}
+
+export interface ClaimTransitionOptions {
+  // Pending status a revised claim should be resubmitted to
+  returnToStatus?: string;
+}
+
+// Claim attributes that step conditions are evaluated against
+export interface ClaimRoutingContext {
+  amount?: number;
+  currency?: string;
+  contractType?: string;
+  department?: string;
+}
+
+const matchesList = (allowed: string[] | undefined, value?: string) =>
+  !allowed?.length ||
+  (!!value &&
+    allowed.some((item) => item.toLowerCase() === value.toLowerCase()));
+
+/**
+ * Whether a step applies to a claim. Steps without conditions always apply;
+ * a step with conditions applies only when every condition is met.
+ */
+export function stepApplies(
+  step: ApprovalStep,
+  context: ClaimRoutingContext = {},
+): boolean {
+  const conditions: ApprovalStepConditions = step.conditions;
+  if (!conditions) {
+    return true;
+  }
+
+  const amount = context.amount ?? 0;
+  if (conditions.minAmount != null && amount < conditions.minAmount) {
+    return false;
+  }
+  if (conditions.maxAmount != null && amount > conditions.maxAmount) {
+    return false;
+  }
+
+  return (
+    matchesList(conditions.currencies, context.currency) &&
+    matchesList(conditions.contractTypes, context.contractType) &&
+    matchesList(conditions.departments, context.department)
+  );
+}
+
+const byStepNumber = (a: ApprovalStep, b: ApprovalStep) =>
+  a.stepNumber - b.stepNumber;
+
+export class ClaimStateMachine {
+  // Steps on this claim's route
+  private readonly steps: ApprovalStep[];
+  // Every step in the flow, whether or not it applies
+  private readonly flowSteps: ApprovalStep[];
+
+  constructor(steps: ApprovalStep[], context?: ClaimRoutingContext) {
+    this.flowSteps = [...(steps || [])].sort(byStepNumber);
+    this.steps = this.flowSteps.filter((step) => stepApplies(step, context));
+    if (!this.steps.length) {
+      throw new BadRequestException(
+        'No approval step in this flow applies to the claim',
+      );
+    }
+  }
+
+  static pendingStatus(role: string): string {
+    return `pending_${role}_approval`;
+  }
+
+  /**
+   * Checks that a set of steps forms a usable flow. Returns a list of
+   * problems, empty when the flow is valid.
+   */
+  static validate(steps: ApprovalStep[]): string[] {
+    if (!steps?.length) {
+      return ['Approval flow must have at least one step'];
+    }
+
+    const errors: string[] = [];
+    const pendingStates = new Set<string>();
+    const stepNumbers = new Set<number>();
+
+    for (const step of steps) {
+      if (!step.role) {
+        errors.push(`Step ${step.stepNumber} is missing a role`);
+        continue;
+      }
+      const pending = ClaimStateMachine.pendingStatus(step.role);
+      if (pendingStates.has(pending)) {
+        errors.push(`Role "${step.role}" appears in more than one step`);
+      }
+      if (stepNumbers.has(step.stepNumber)) {
+        errors.push(`Step number ${step.stepNumber} is used more than once`);
+      }
+      pendingStates.add(pending);
+      stepNumbers.add(step.stepNumber);
+
+      const { minAmount, maxAmount } = step.conditions || {};
+      if (minAmount != null && maxAmount != null && minAmount > maxAmount) {
+        errors.push(
+          `Step ${step.stepNumber} (${step.role}) has minAmount greater than maxAmount`,
+        );
+      }
+    }
+
+    for (const step of steps) {
+      if (
+        step.nextStatus &&
+        step.nextStatus !== 'approved' &&
+        !pendingStates.has(step.nextStatus)
+      ) {
+        errors.push(
+          `Step ${step.stepNumber} (${step.role}) points to unknown status "${step.nextStatus}"`,
+        );
+      }
+    }
+
+    return errors;
+  }
+
+  get initialStatus(): string {
+    return ClaimStateMachine.pendingStatus(this.steps[0].role);
+  }
+
+  get states(): string[] {
+    return [
+      ...CLAIM_FIXED_STATES,
+      ...this.steps.map((step) => ClaimStateMachine.pendingStatus(step.role)),
+    ];
+  }
+
+  isPending(status: string): boolean {
+    return !!this.getStep(status);
+  }
+
+  isEditable(status: string): boolean {
+    return status === 'draft' || status === 'revision_requested';
+  }
+
+  /**
+   * Step a claim in `status` is waiting on. A claim can sit on a step that is
+   * no longer on its route, after its amount was lowered or the flow was
+   * edited; the step is then taken from the full flow so the claim can still
+   * be approved, rejected or cancelled.
+   */
+  getStep(status: string): ApprovalStep | undefined {
+    return (
+      ClaimStateMachine.findStep(this.steps, status) ||
+      ClaimStateMachine.findStep(this.flowSteps, status)
+    );
+  }
+
+  private static findStep(
+    steps: ApprovalStep[],
+    status: string,
+  ): ApprovalStep | undefined {
+    return steps.find(
+      (step) => ClaimStateMachine.pendingStatus(step.role) === status,
+    );
+  }
+
+  allowedTransitions(status: string): ClaimTransition[] {
+    if (this.isEditable(status)) {
+      return ['submit', 'cancel'];
+    }
+    if (this.isPending(status)) {
+      return ['approve', 'reject', 'request_revision', 'cancel'];
+    }
+    if (status === 'approved') {
+      return ['mark_paid'];
+    }
+    return [];
+  }
+
+  can(status: string, action: ClaimTransition): boolean {
+    return this.allowedTransitions(status).includes(action);
+  }
+
+  /**
+   * Resolves where `action` takes a claim in `status`, throwing
+   * IllegalClaimTransitionException when the move is not allowed.
+   */
+  transition(
+    status: string,
+    action: ClaimTransition,
+    options: ClaimTransitionOptions = {},
+  ): ClaimTransitionResult {
+    if (!this.can(status, action)) {
+      throw new IllegalClaimTransitionException(
+        status,
+        action,
+        this.allowedTransitions(status),
+      );
+    }
+
+    const currentStep = this.getStep(status);
+
+    switch (action) {
+      case 'submit': {
+        const returnStep =
+          status === 'revision_requested' && options.returnToStatus
+            ? ClaimStateMachine.findStep(this.steps, options.returnToStatus)
+            : undefined;
+        const nextStep = returnStep || this.steps[0];
+        return {
+          action,
+          from: status,
+          to: ClaimStateMachine.pendingStatus(nextStep.role),
+          nextStep,
+        };
+      }
+      case 'approve': {
+        const to = this.resolveNextStatus(currentStep);
+        return {
+          action,
+          from: status,
+          to,
+          currentStep,
+          nextStep: this.getStep(to),
+        };
+      }
+      case 'reject':
+        return { action, from: status, to: 'rejected', currentStep };
+      case 'request_revision':
+        return { action, from: status, to: 'revision_requested', currentStep };
+      case 'cancel':
+        return { action, from: status, to: 'cancelled', currentStep };
+      case 'mark_paid':
+        return { action, from: status, to: 'paid' };
+    }
+  }
+
+  /**
+   * Next state after `step` is approved. A `nextStatus` of `approved` ends
+   * the flow, and one naming a later step that applies to this claim is
+   * honoured; otherwise the claim moves to the next applicable step in
+   * order, so conditional steps can be added or skipped without rewiring the
+   * rest of the flow.
+   */
+  private resolveNextStatus(step: ApprovalStep): string {
+    if (step.nextStatus === 'approved') {
+      return 'approved';
+    }
+
+    const later = this.steps.filter((s) => s.stepNumber > step.stepNumber);
+    const target =
+      later.find(
+        (s) => ClaimStateMachine.pendingStatus(s.role) === step.nextStatus,
+      ) || later[0];
+
+    return target ? ClaimStateMachine.pendingStatus(target.role) : 'approved';
+  }
+}
@@ -0,0 +1,114 @@
+// Claim fields kept in each version snapshot
+export const CLAIM_VERSION_FIELDS = [
+  'status',
+  'amount',
+  'currency',
+  'milestones',
+  'coachClaim',
+  'documents',
+  'notes',
+] as const;
+
+export interface ClaimFieldChange {
+  // e.g. "amount" or "milestones[65123456789012345678901a].currentClaim"
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+// Array entries are matched by these keys so reordering is not a change
+const ARRAY_KEYS: Record<string, string> = {
+  milestones: 'milestoneId',
+  documents: 'url',
+};
+
+// Volatile fields that are not part of the claim content
+const IGNORED_KEYS = new Set(['_id', '__v', 'uploadedAt']);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value &&
+  typeof value === 'object' &&
+  !Array.isArray(value) &&
+  !(value instanceof Date);
+
+const normalize = (value: unknown): unknown => {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(normalize);
+  if (isPlainObject(value)) {
+    // ObjectIds and other BSON values
+    if (typeof value.toHexString === 'function') {
+      return (value.toHexString as () => string)();
+    }
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => !IGNORED_KEYS.has(key))
+        .map(([key, entry]) => [key, normalize(entry)]),
+    );
+  }
+  return value;
+};
+
+export function snapshotClaim(claim: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(
+    CLAIM_VERSION_FIELDS.map((field) => [field, normalize(claim[field])]),
+  );
+}
+
+function diffValue(
+  path: string,
+  from: unknown,
+  to: unknown,
+  changes: ClaimFieldChange[],
+  arrayKey?: string,
+): void {
+  if (Array.isArray(from) && Array.isArray(to) && arrayKey) {
+    const keyOf = (entry: any, index: number) =>
+      String(entry?.[arrayKey] ?? index);
+    const before = new Map(from.map((e, i) => [keyOf(e, i), e]));
+    const after = new Map(to.map((e, i) => [keyOf(e, i), e]));
+
+    for (const [key, entry] of before) {
+      diffValue(`${path}[${key}]`, entry, after.get(key) ?? null, changes);
+    }
+    for (const [key, entry] of after) {
+      if (!before.has(key)) {
+        changes.push({ field: `${path}[${key}]`, from: null, to: entry });
+      }
+    }
+    return;
+  }
+
+  if (isPlainObject(from) && isPlainObject(to)) {
+    const keys = new Set([...Object.keys(from), ...Object.keys(to)]);
+    for (const key of keys) {
+      diffValue(`${path}.${key}`, from[key] ?? null, to[key] ?? null, changes);
+    }
+    return;
+  }
+
+  if (JSON.stringify(from) !== JSON.stringify(to)) {
+    changes.push({ field: path, from, to });
+  }
+}
+
+/**
+ * Field-level differences between two claim snapshots. Milestones are
+ * compared by milestone and documents by URL.
+ */
+export function diffClaimSnapshots(
+  from: Record<string, any>,
+  to: Record<string, any>,
+): ClaimFieldChange[] {
+  const changes: ClaimFieldChange[] = [];
+  for (const field of CLAIM_VERSION_FIELDS) {
+    diffValue(
+      field,
+      from[field] ?? null,
+      to[field] ?? null,
+      changes,
+      ARRAY_KEYS[field],
+    );
+  }
+  return changes;
+}
@@ -1,6 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { NotificationService } from '../notifications/services/notification.service';
-import { Claim } from './schemas/claim.schema';
+import { Claim, ClaimAdjustment } from './schemas/claim.schema';
 import { User } from '../auth/schemas/user.schema';
 import { Project } from '../project/schemas/project.schema';
 
@@ -138,4 +138,57 @@ export class ClaimsNotificationService {
     // Notify claimant
     await this.notifyUser(claimant, subject, message);
   }
+
+  async notifyClaimAdjusted(
+    claim: Claim,
+    project: Project,
+    claimant: User,
+    approver: User,
+    adjustment: ClaimAdjustment,
+  ) {
+    const subject = `Claim Amount Reduced - ${project.name}`;
+    const lines = adjustment.milestones
+      .map(
+        (m) =>
+          `- ${m.title}: ${claim.currency} ${m.previousClaim.toLocaleString()} → ${claim.currency} ${m.adjustedClaim.toLocaleString()}`,
+      )
+      .join('\n');
+    const message = `Your claim for ${project.name} has been reduced from ${claim.currency} ${adjustment.previousAmount.toLocaleString()} to ${claim.currency} ${adjustment.adjustedAmount.toLocaleString()} by ${approver.firstName} ${approver.lastName} at the ${adjustment.level.replace(/_/g, ' ')} stage.\n\n${lines}\n\nReason: ${adjustment.reason}`;
+
+    // Notify claimant
+    await this.notifyUser(claimant, subject, message);
+  }
+
+  // One message covering every claim a bulk action touched for this claimant
+  async notifyClaimsDigest(
+    claimant: User,
+    claims: { claim: Claim; project: Project }[],
+    action: 'approved' | 'rejected',
+    actedBy: User,
+    note: string,
+  ) {
+    const title = action === 'approved' ? 'Approved' : 'Rejected';
+    const subject = `${claims.length} Claim${claims.length === 1 ? '' : 's'} ${title}`;
+    const lines = claims.map(
+      ({ claim, project }) =>
+        `- ${project.name}: ${claim.currency} ${claim.amount} (${claim.status.replace(/_/g, ' ')})`,
+    );
+    const message = `The following claims have been ${action} by ${actedBy.firstName} ${actedBy.lastName}:\n\n${lines.join('\n')}\n\n${action === 'rejected' ? 'Reason' : 'Comments'}: ${note}`;
+
+    await this.notifyUser(claimant, subject, message);
+  }
+
+  async notifyClaimsPendingDigest(
+    approver: User,
+    claims: { claim: Claim; project: Project }[],
+  ) {
+    const subject = `${claims.length} Claim${claims.length === 1 ? '' : 's'} Pending Your Approval`;
+    const lines = claims.map(
+      ({ claim, project }) =>
+        `- ${project.name}: ${claim.currency} ${claim.amount}`,
+    );
+    const message = `The following claims require your approval:\n\n${lines.join('\n')}`;
+
+    await this.notifyUser(approver, subject, message);
+  }
 }
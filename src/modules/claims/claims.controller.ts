@@ -11,6 +11,7 @@ import {
   BadRequestException,
   HttpStatus,
   Query,
+  ValidationPipe,
 } from '@nestjs/common';
 import {
   ApiBearerAuth,
@@ -24,6 +25,12 @@ import { Types } from 'mongoose';
 import { ClaimsService } from './claims.service';
 import { CreateClaimDto } from './dto/create-claim.dto';
 import { UpdateClaimDto } from './dto/update-claim.dto';
+import {
+  BulkApproveClaimsDto,
+  BulkClaimActionResponseDto,
+  BulkRejectClaimsDto,
+} from './dto/bulk-claim-action.dto';
+import { ApproveClaimDto } from './dto/approve-claim.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 
@@ -215,6 +222,49 @@ export class ClaimsController {
     return this.claimsService.findOne(id, new Types.ObjectId(req.user.sub));
   }
 
+  @Get(':id/versions')
+  @ApiOperation({
+    summary: 'List versions of a claim',
+    description:
+      'A version is saved before every edit, revision request and resubmission. The last entry is the current claim.',
+  })
+  @ApiResponse({ status: 404, description: 'Claim not found' })
+  getVersions(@Param('id') id: string, @Request() req: any) {
+    return this.claimsService.getVersions(id, new Types.ObjectId(req.user.sub));
+  }
+
+  @Get(':id/versions/diff')
+  @ApiOperation({
+    summary: 'Compare two versions of a claim',
+    description:
+      'Returns field-level changes between two versions. By default compares the version at the last revision request with the current claim.',
+  })
+  @ApiQuery({ name: 'from', required: false, type: Number })
+  @ApiQuery({ name: 'to', required: false, type: Number })
+  @ApiResponse({ status: 404, description: 'Claim or version not found' })
+  diffVersions(
+    @Param('id') id: string,
+    @Request() req: any,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    const parse = (value?: string) => {
+      if (value === undefined || value === '') return undefined;
+      const version = Number(value);
+      if (!Number.isInteger(version) || version < 1) {
+        throw new BadRequestException(`Invalid version: ${value}`);
+      }
+      return version;
+    };
+
+    return this.claimsService.diffVersions(
+      id,
+      new Types.ObjectId(req.user.sub),
+      parse(from),
+      parse(to),
+    );
+  }
+
   @Patch(':id')
   @ApiOperation({
     summary: 'Update a claim',
@@ -297,6 +347,54 @@ export class ClaimsController {
     );
   }
 
+  @Post('bulk/approve')
+  @ApiOperation({
+    summary: 'Approve several claims at once',
+    description:
+      'Runs the same authorization and approval flow as the single approve endpoint for each claim. Failures are reported per claim and do not stop the batch. Claimants and next-level approvers receive one digest each.',
+  })
+  @ApiBody({ type: BulkApproveClaimsDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Per-claim results',
+    type: BulkClaimActionResponseDto,
+  })
+  bulkApprove(
+    @Body(new ValidationPipe({ whitelist: true, transform: true }))
+    dto: BulkApproveClaimsDto,
+    @Request() req: any,
+  ) {
+    return this.claimsService.bulkApprove(
+      dto.claimIds,
+      dto.comments,
+      new Types.ObjectId(req.user.sub),
+    );
+  }
+
+  @Post('bulk/reject')
+  @ApiOperation({
+    summary: 'Reject several claims at once',
+    description:
+      'Runs the same authorization and rejection flow as the single reject endpoint for each claim. Failures are reported per claim and do not stop the batch. Each claimant receives one digest.',
+  })
+  @ApiBody({ type: BulkRejectClaimsDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Per-claim results',
+    type: BulkClaimActionResponseDto,
+  })
+  bulkReject(
+    @Body(new ValidationPipe({ whitelist: true, transform: true }))
+    dto: BulkRejectClaimsDto,
+    @Request() req: any,
+  ) {
+    return this.claimsService.bulkReject(
+      dto.claimIds,
+      dto.reason,
+      new Types.ObjectId(req.user.sub),
+    );
+  }
+
   @Post(':id/submit')
   @ApiOperation({
     summary: 'Submit a claim for approval',
@@ -322,26 +420,15 @@ export class ClaimsController {
   @ApiOperation({
     summary: 'Approve a claim',
     description:
-      'Approves a claim at the current approval level. Requires appropriate role (checker/manager/finance). Updates claim status based on approval flow.',
-  })
-  @ApiBody({
-    schema: {
-      type: 'object',
-      required: ['comments'],
-      properties: {
-        comments: {
-          type: 'string',
-          example: 'All milestones verified and completed as claimed',
-          description: 'Approval comments explaining the decision',
-        },
-      },
-    },
+      'Approves a claim at the current approval level. Requires appropriate role (checker/manager/finance). Updates claim status based on approval flow. Milestone amounts can be reduced at approval; the claimant is notified with the reason.',
   })
+  @ApiBody({ type: ApproveClaimDto })
   @ApiResponse({
     status: 200,
     description: `Returns updated ClaimDocument with:
     - Updated status based on approval flow
     - New approval details in the approval object
+    - Reduced amount and adjustment history when milestones were adjusted
     - Updated audit trail
     - Next level deadline if applicable`,
   })
@@ -349,6 +436,7 @@ export class ClaimsController {
     status: 400,
     description: `Invalid request. Possible reasons:
     - Missing approval comments
+    - Adjustment above the claimed amount or without a reason
     - Claim not in correct status for approval
     - Invalid approval flow state`,
   })
@@ -360,16 +448,18 @@ export class ClaimsController {
   // @Roles('claim_checker', 'claim_manager', 'finance_approver')
   approve(
     @Param('id') id: string,
-    @Body('comments') comments: string,
+    @Body(new ValidationPipe({ whitelist: true, transform: true }))
+    dto: ApproveClaimDto,
     @Request() req: any,
   ) {
-    if (!comments) {
+    if (!dto.comments) {
       throw new BadRequestException('Comments are required for approval');
     }
     return this.claimsService.approve(
       id,
-      comments,
+      dto.comments,
       new Types.ObjectId(req.user.sub),
+      { adjustments: dto.adjustments, adjustmentReason: dto.adjustmentReason },
     );
   }
 
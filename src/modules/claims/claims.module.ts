@@ -7,12 +7,31 @@ import { Claim, ClaimSchema } from './schemas/claim.schema';
 import { Project, ProjectSchema } from '../project/schemas/project.schema';
 import { User, UserSchema } from '../auth/schemas/user.schema';
 import { NotificationsModule } from '../notifications/notifications.module';
+import { DelegationModule } from '../delegation/delegation.module';
+import { SystemConfigModule } from '../system-config/system-config.module';
+import { NumberingModule } from '../numbering/numbering.module';
 import { Contract, ContractSchema } from '../project/schemas/contract.schema';
+import {
+  ContractAmendment,
+  ContractAmendmentSchema,
+} from '../project/schemas/contract-amendment.schema';
 import {
   ApprovalFlow,
   ApprovalFlowSchema,
 } from './schemas/approval-flow.schema';
 import { ApprovalFlowService } from './approval-flow.service';
+import { ApprovalFlowController } from './approval-flow.controller';
+import {
+  ClaimPaymentBatch,
+  ClaimPaymentBatchSchema,
+} from './schemas/claim-payment-batch.schema';
+import { ClaimPaymentBatchService } from './claim-payment-batch.service';
+import { ClaimChecksService } from './claim-checks.service';
+import { ClaimPaymentBatchController } from './claim-payment-batch.controller';
+import {
+  ClaimVersion,
+  ClaimVersionSchema,
+} from './schemas/claim-version.schema';
 
 @Module({
   imports: [
@@ -22,11 +41,27 @@ import { ApprovalFlowService } from './approval-flow.service';
       { name: Project.name, schema: ProjectSchema },
       { name: User.name, schema: UserSchema },
       { name: ApprovalFlow.name, schema: ApprovalFlowSchema },
+      { name: ClaimPaymentBatch.name, schema: ClaimPaymentBatchSchema },
+      { name: ClaimVersion.name, schema: ClaimVersionSchema },
+      { name: ContractAmendment.name, schema: ContractAmendmentSchema },
     ]),
     NotificationsModule,
+    DelegationModule,
+    SystemConfigModule,
+    NumberingModule,
+  ],
+  controllers: [
+    ClaimsController,
+    ApprovalFlowController,
+    ClaimPaymentBatchController,
+  ],
+  providers: [
+    ClaimsService,
+    ClaimsNotificationService,
+    ApprovalFlowService,
+    ClaimPaymentBatchService,
+    ClaimChecksService,
   ],
-  controllers: [ClaimsController],
-  providers: [ClaimsService, ClaimsNotificationService, ApprovalFlowService],
   exports: [ClaimsService],
 })
 export class ClaimsModule {}
@@ -2,37 +2,53 @@ import {
   Injectable,
   NotFoundException,
   BadRequestException,
+  HttpException,
   Logger,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
-import { ClaimDocument } from './schemas/claim.schema';
+import {
+  Claim,
+  ClaimAdjustment,
+  ClaimDocument,
+  ClaimStatus,
+} from './schemas/claim.schema';
 import { ContractDocument } from '../project/schemas/contract.schema';
 import { ProjectDocument } from '../project/schemas/project.schema';
 import { UserDocument } from '../auth/schemas/user.schema';
 import { CreateClaimDto } from './dto/create-claim.dto';
 import { UpdateClaimDto } from './dto/update-claim.dto';
+import {
+  BulkClaimActionResponseDto,
+  BulkClaimActionResultDto,
+} from './dto/bulk-claim-action.dto';
+import { ClaimMilestoneAdjustmentDto } from './dto/approve-claim.dto';
+import {
+  ClaimVersionDocument,
+  ClaimVersionReason,
+} from './schemas/claim-version.schema';
+import {
+  ClaimFieldChange,
+  diffClaimSnapshots,
+  snapshotClaim,
+} from './claim-versions';
 import { ClaimsNotificationService } from './claims-notification.service';
 import { ApprovalFlowService } from './approval-flow.service';
-
-const CLAIM_STATUSES = [
-  'draft',
-  'pending_checker_approval',
-  'pending_reviewer_approval',
-  'pending_approver_approval',
-  'pending_srcc_checker_approval',
-  'pending_srcc_finance_approval',
-  'pending_director_approval',
-  'pending_academic_director_approval',
-  'pending_finance_approval',
-  'approved',
-  'rejected',
-  'paid',
-  'cancelled',
-  'revision_requested',
-] as const;
-
-type ClaimStatus = (typeof CLAIM_STATUSES)[number];
+import { ClaimChecksService } from './claim-checks.service';
+import { NumberingService } from '../numbering/numbering.service';
+import { ApprovalStep } from './schemas/approval-flow.schema';
+import {
+  DelegationCriteria,
+  DelegationService,
+  formatActingAs,
+  ResolvedActor,
+} from '../delegation/delegation.service';
+import {
+  ClaimRoutingContext,
+  ClaimStateMachine,
+  ClaimTransition,
+  ClaimTransitionOptions,
+} from './claim-state-machine';
 
 interface ProjectMilestone {
   _id: Types.ObjectId;
@@ -45,7 +61,31 @@ interface ProjectMilestone {
   actualCost?: number;
 }
 
-type ApprovalRole = keyof typeof ClaimsService.roleMap;
+interface ClaimDigestEntry {
+  claim: ClaimDocument;
+  project: ProjectDocument;
+}
+
+interface ClaimActionOptions {
+  // Bulk actions send digests instead of per-claim notifications
+  notify?: boolean;
+}
+
+interface ApproveClaimOptions extends ClaimActionOptions {
+  adjustments?: ClaimMilestoneAdjustmentDto[];
+  adjustmentReason?: string;
+}
+
+const roundAmount = (value: number): number => Math.round(value * 100) / 100;
+
+// Request bodies are not validated, so a client could send its own hash;
+// document hashes are only ever computed by the claim checks
+const withoutHashes = <T extends object>(documents?: T[]): T[] | undefined =>
+  documents?.map((document) => {
+    const rest = { ...document } as T & { hash?: string };
+    delete rest.hash;
+    return rest;
+  });
 
 @Injectable()
 export class ClaimsService {
@@ -65,6 +105,17 @@ export class ClaimsService {
     approver: 'approver',
   } as const;
 
+  /**
+   * User role that holds a flow step. Flows may name any role; the map only
+   * aliases older level names onto the role users actually carry.
+   */
+  static approverRole(level: string): string {
+    return (
+      ClaimsService.roleMap[level as keyof typeof ClaimsService.roleMap] ??
+      level
+    );
+  }
+
   private isCoachContract(
     contract: ContractDocument | null | undefined,
   ): boolean {
@@ -97,73 +148,192 @@ export class ClaimsService {
     return candidateIds.length ? candidateIds : coachManagers;
   }
 
-  private async isCoachManagerAuthorized(
-    projectId: Types.ObjectId,
+  private getRoutingContext(
+    claim: { amount?: number; currency?: string },
+    project: ProjectDocument,
+    contract: ContractDocument,
+  ): ClaimRoutingContext {
+    return {
+      amount: claim.amount,
+      currency: claim.currency,
+      contractType: (contract.type || 'team_member').toLowerCase(),
+      department: project.department,
+    };
+  }
+
+  /**
+   * Builds the claim's approval flow. Submitted claims follow the route they
+   * were submitted on, so later amount changes or flow edits do not reroute
+   * them mid-approval.
+   */
+  private async getStateMachine(
+    claim: {
+      amount?: number;
+      currency?: string;
+      routing?: ClaimRoutingContext;
+    },
+    project: ProjectDocument,
+    contract: ContractDocument,
+  ): Promise<ClaimStateMachine> {
+    const context =
+      claim.routing || this.getRoutingContext(claim, project, contract);
+    return this.isCoachContract(contract)
+      ? this.approvalFlowService.getCoachStateMachine(context)
+      : this.approvalFlowService.getStateMachine(project.department, context);
+  }
+
+  /**
+   * Loads the claim's project and contract and resolves `action` against the
+   * claim's approval flow. Illegal moves throw before anything is written.
+   */
+  private async resolveTransition(
+    claim: ClaimDocument,
+    action: ClaimTransition,
+    options?: ClaimTransitionOptions,
+  ) {
+    const [project, contract] = await Promise.all([
+      this.projectModel.findById(claim.projectId),
+      this.contractModel.findById(claim.contractId),
+    ]);
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+    if (!contract) {
+      throw new NotFoundException('Contract not found');
+    }
+
+    // A submission routes the claim afresh on its current amount
+    const machine = await this.getStateMachine(
+      action === 'submit'
+        ? { amount: claim.amount, currency: claim.currency }
+        : claim,
+      project,
+      contract,
+    );
+    const transition = machine.transition(claim.status, action, options);
+
+    return { project, contract, machine, transition };
+  }
+
+  // No claims are raised or submitted against a suspended or closed contract
+  private assertContractOpen(contract: ContractDocument) {
+    if (['completed', 'terminated'].includes(contract.status)) {
+      throw new BadRequestException(
+        `Contract ${contract.contractNumber} is ${contract.status}. Claims can no longer be created or submitted against it`,
+      );
+    }
+    if (contract.status !== 'suspended') return;
+
+    const suspension = contract.suspensions?.find((s) => !s.resumedAt);
+    const until = suspension?.endDate
+      ? ` until ${new Date(suspension.endDate).toISOString().split('T')[0]}`
+      : '';
+    throw new BadRequestException(
+      `Contract ${contract.contractNumber} is suspended${until}. Claims cannot be created or submitted until it resumes`,
+    );
+  }
+
+  /**
+   * Ensures the user may act on the claim's current step, either directly or
+   * under an active claims delegation from someone who can.
+   */
+  private async assertCanActOnStep(
+    step: ApprovalStep,
+    project: ProjectDocument,
+    contract: ContractDocument,
     userId: Types.ObjectId,
-    role: 'reviewer' | 'approver',
-  ): Promise<boolean> {
-    const project = await this.projectModel.findById(projectId);
-    if (!project) return false;
-    const ids = this.getCoachManagersForRole(project, role);
-    return ids.some((id) => id.toString() === userId.toString());
+    actionLabel: string,
+  ): Promise<ResolvedActor> {
+    const role = step.role;
+    const criteria: DelegationCriteria =
+      this.isCoachContract(contract) &&
+      (role === 'reviewer' || role === 'approver')
+        ? { userIds: this.getCoachManagersForRole(project, role) }
+        : { roles: [ClaimsService.approverRole(role)] };
+
+    const resolved = await this.delegationService.resolveActor(
+      userId,
+      'claims',
+      { ...criteria, department: project.department },
+    );
+    if (!resolved) {
+      throw new BadRequestException(
+        `Only users with ${role} role can ${actionLabel} at this stage`,
+      );
+    }
+
+    return resolved;
   }
 
-  private getCoachNextApprovalStep(currentStatus: string): {
-    nextStatus: string;
-    role: string;
-    department: string;
-  } | null {
-    if (currentStatus === 'draft') {
-      return {
-        nextStatus: 'pending_reviewer_approval',
-        role: 'reviewer',
-        department: 'SBS',
-      };
-    }
-
-    switch (currentStatus) {
-      case 'pending_reviewer_approval':
-        return {
-          nextStatus: 'pending_approver_approval',
-          role: 'approver',
-          department: 'SBS',
-        };
-      case 'pending_approver_approval':
-        return {
-          nextStatus: 'pending_finance_approval',
-          role: 'finance',
-          department: 'SBS',
-        };
-      case 'pending_finance_approval':
-        return {
-          nextStatus: 'pending_srcc_checker_approval',
-          role: 'srcc_checker',
-          department: 'SRCC',
-        };
-      case 'pending_srcc_checker_approval':
-        return {
-          nextStatus: 'pending_srcc_finance_approval',
-          role: 'srcc_finance',
-          department: 'SRCC',
-        };
-      case 'pending_srcc_finance_approval':
-        return {
-          nextStatus: 'approved',
-          role: 'srcc_finance',
-          department: 'SRCC',
-        };
-      default:
-        return null;
+  private async assertCanManageClaim(
+    claim: ClaimDocument,
+    project: ProjectDocument,
+    userId: Types.ObjectId,
+    actionLabel: string,
+  ): Promise<UserDocument> {
+    const user = await this.userModel.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
     }
+
+    const isAdmin = user.roles?.includes('admin');
+    const isClaimant = claim.claimantId.toString() === userId.toString();
+    const isClaimCreator = claim.createdBy?.toString() === userId.toString();
+    const isProjectCreator =
+      project.createdBy?.toString() === userId.toString();
+    const isProjectManager =
+      project.projectManagerId?.toString() === userId.toString();
+    const isAssistantPM = project.assistantProjectManagers?.some(
+      (apm) => apm.userId.toString() === userId.toString(),
+    );
+
+    if (
+      !isAdmin &&
+      !isClaimant &&
+      !isClaimCreator &&
+      !isProjectCreator &&
+      !isProjectManager &&
+      !isAssistantPM
+    ) {
+      throw new BadRequestException(
+        `You are not authorized to ${actionLabel} this claim. Only the claimant, admins, project creators, project managers, or assistant project managers can ${actionLabel} claims.`,
+      );
+    }
+
+    return user;
   }
 
-  private getApprovalLevel(status: ClaimStatus): string | null {
-    const level = status.split('_')[1];
-    if (level && Object.keys(ClaimsService.roleMap).includes(level)) {
-      return level;
+  private async findStepApprovers(
+    step: ApprovalStep,
+    project: ProjectDocument,
+    contract: ContractDocument,
+  ): Promise<UserDocument[]> {
+    const currentRole = step.role;
+    let approvers: UserDocument[] = [];
+
+    if (
+      this.isCoachContract(contract) &&
+      (currentRole === 'reviewer' || currentRole === 'approver')
+    ) {
+      const coachIds = this.getCoachManagersForRole(project, currentRole);
+      approvers = await this.userModel.find({
+        _id: { $in: coachIds },
+        status: 'active',
+      });
+    } else {
+      const departmentForApprovers = step.department || project.department;
+
+      this.logger.log(`Department for approvers: ${departmentForApprovers}`);
+
+      approvers = await this.getApprovers(currentRole, departmentForApprovers);
     }
-    // throw new BadRequestException(`Invalid approval level in status: ${status}`);
-    return null;
+
+    // Anyone on leave is covered by their delegate
+    return this.delegationService.substituteRecipients(
+      approvers,
+      'claims',
+      project.department,
+    );
   }
 
   private async notifyStakeholders(
@@ -185,61 +355,21 @@ export class ClaimsService {
       throw new NotFoundException('Required references not found');
     }
 
-    // Get the approval flow to determine the department for the current step
-    const approvalFlow = await this.approvalFlowService.getApprovalFlow(
-      project.department,
-    );
+    const machine = await this.getStateMachine(claim, project, contract);
+    const currentStep = machine.getStep(claim.status);
 
-    // Check if status is a pending approval status
-    if (
-      claim.status.startsWith('pending_') &&
-      claim.status.endsWith('_approval')
-    ) {
+    if (currentStep) {
       this.logger.log(`Processing pending approval status: ${claim.status}`);
 
-      const currentRole = claim.status
-        .replace('pending_', '')
-        .replace('_approval', '') as ApprovalRole;
-
-      this.logger.log(`Extracted role: ${currentRole}`);
-
-      let approvers: UserDocument[] = [];
-
-      if (
-        this.isCoachContract(contract) &&
-        (currentRole === 'reviewer' || currentRole === 'approver')
-      ) {
-        const coachIds = this.getCoachManagersForRole(project, currentRole);
-        approvers = await this.userModel
-          .find({ _id: { $in: coachIds }, status: 'active' })
-          .lean();
-      } else {
-        // Find the current step in the approval flow to get the correct department
-        const currentStep = approvalFlow.steps.find(
-          (step) => `pending_${step.role}_approval` === claim.status,
-        );
-
-        this.logger.log(
-          `Current step found: ${currentStep ? JSON.stringify(currentStep) : 'Not found'}`,
-        );
-
-        const departmentForApprovers =
-          currentStep?.department || project.department;
-
-        this.logger.log(`Department for approvers: ${departmentForApprovers}`);
-
-        // For coach claims, finance step is SBS regardless of project department
-        const effectiveDepartment =
-          this.isCoachContract(contract) && currentRole === 'finance'
-            ? 'SBS'
-            : departmentForApprovers;
-
-        approvers = await this.getApprovers(currentRole, effectiveDepartment);
-      }
+      const approvers = await this.findStepApprovers(
+        currentStep,
+        project,
+        contract,
+      );
 
       if (!approvers.length) {
         throw new BadRequestException(
-          `No active approvers found for role: ${currentRole}. Please contact system administrator.`,
+          `No active approvers found for role: ${currentStep.role}. Please contact system administrator.`,
         );
       }
 
@@ -313,19 +443,22 @@ export class ClaimsService {
         break;
       case 'draft': {
         this.logger.log('Notifying claim created (draft)');
-        // For draft, get the first step's department
-        const firstStep = approvalFlow.steps[0];
+        const firstStep = machine.getStep(machine.initialStatus);
         const departmentForApprovers =
-          firstStep?.department || project.department;
-
-        const initialApprovers = this.isCoachContract(contract)
-          ? await this.userModel
-              .find({
-                _id: { $in: this.getCoachManagersForRole(project, 'reviewer') },
-                status: 'active',
-              })
-              .lean()
-          : await this.getApprovers('claim_checker', departmentForApprovers);
+          firstStep.department || project.department;
+
+        const firstApprovers: UserDocument[] = this.isCoachContract(contract)
+          ? await this.userModel.find({
+              _id: { $in: this.getCoachManagersForRole(project, 'reviewer') },
+              status: 'active',
+            })
+          : await this.getApprovers(firstStep.role, departmentForApprovers);
+        const initialApprovers =
+          await this.delegationService.substituteRecipients(
+            firstApprovers,
+            'claims',
+            project.department,
+          );
         await this.claimsNotificationService.notifyClaimCreated(
           claim,
           project,
@@ -339,39 +472,18 @@ export class ClaimsService {
     }
   }
 
-  private async getNextApprovalStep(claim: ClaimDocument): Promise<{
-    nextStatus: string;
-    role: string;
-    department: string;
-  } | null> {
-    const [project, contract] = await Promise.all([
-      this.projectModel.findById(claim.projectId),
-      this.contractModel.findById(claim.contractId),
-    ]);
-    if (!project) {
-      throw new NotFoundException('Project not found');
-    }
-    if (!contract) {
-      throw new NotFoundException('Contract not found');
-    }
-
-    if (this.isCoachContract(contract)) {
-      return this.getCoachNextApprovalStep(claim.status);
-    }
-
-    return this.approvalFlowService.getNextApprovalStep(
-      project.department,
-      claim.status,
-    );
-  }
-
   constructor(
     @InjectModel('Claim') private claimModel: Model<ClaimDocument>,
     @InjectModel('Contract') private contractModel: Model<ContractDocument>,
     @InjectModel('Project') private projectModel: Model<ProjectDocument>,
     @InjectModel('User') private userModel: Model<UserDocument>,
+    @InjectModel('ClaimVersion')
+    private claimVersionModel: Model<ClaimVersionDocument>,
     private readonly claimsNotificationService: ClaimsNotificationService,
     private readonly approvalFlowService: ApprovalFlowService,
+    private readonly delegationService: DelegationService,
+    private readonly claimChecksService: ClaimChecksService,
+    private readonly numberingService: NumberingService,
   ) {}
 
   async create(
@@ -387,6 +499,7 @@ export class ClaimsService {
     if (!contract) {
       throw new NotFoundException('Contract not found');
     }
+    this.assertContractOpen(contract);
 
     if (!project) {
       throw new NotFoundException('Project not found');
@@ -439,24 +552,6 @@ export class ClaimsService {
       );
     }
 
-    let initialStatus: string;
-    if (this.isCoachContract(contract)) {
-      initialStatus = 'pending_reviewer_approval';
-    } else {
-      // Get the approval flow for the project's department
-      const approvalFlow = await this.approvalFlowService.getApprovalFlow(
-        project.department,
-      );
-      if (!approvalFlow || !approvalFlow.steps.length) {
-        throw new BadRequestException(
-          `No approval flow configured for department: ${project.department}`,
-        );
-      }
-
-      // Get the initial status from the first step in the approval flow
-      initialStatus = `pending_${approvalFlow.steps[0].role}_approval`;
-    }
-
     const coachClaim = (createClaimDto as any).coachClaim as
       | {
           units: number;
@@ -480,19 +575,34 @@ export class ClaimsService {
       0,
     );
 
-    if (totalClaimedAmount + finalAmount > contract.contractValue) {
-      const remainingAmount = contract.contractValue - totalClaimedAmount;
+    const contractValue = await this.claimChecksService.contractValueAt(
+      contract,
+      new Date(),
+    );
+    if (totalClaimedAmount + finalAmount > contractValue) {
+      const remainingAmount = contractValue - totalClaimedAmount;
       throw new BadRequestException(
-        `Claim amount (${finalAmount}) exceeds the remaining contract value (${remainingAmount}). Contract total: ${contract.contractValue}.`,
+        `Claim amount (${finalAmount}) exceeds the remaining contract value (${remainingAmount}). Contract total: ${contractValue}.`,
       );
     }
 
+    // Claims go straight into the first step that applies to them
+    const routing = this.getRoutingContext(
+      { amount: finalAmount, currency: createClaimDto.currency },
+      project,
+      contract,
+    );
+    const machine = await this.getStateMachine({ routing }, project, contract);
+    const initialStatus = machine.transition('draft', 'submit').to;
+
     // Create the claim
     const claim = new this.claimModel({
       ...createClaimDto,
+      documents: withoutHashes(createClaimDto.documents),
       contractId: new Types.ObjectId(createClaimDto.contractId),
       projectId: new Types.ObjectId(createClaimDto.projectId),
       status: initialStatus,
+      routing,
       createdBy: userId, // The person who created the claim
       updatedBy: userId,
       claimantId: claimantId, // The person who will receive payment
@@ -530,6 +640,11 @@ export class ClaimsService {
       });
     }
 
+    await this.claimChecksService.run(claim, contract);
+    // Numbered only once nothing can block the claim, so refusals leave no gaps
+    claim.claimNumber = await this.numberingService.next('claim', {
+      department: project.department,
+    });
     const savedClaim = await claim.save();
 
     // Log if claim was created on behalf
@@ -881,15 +996,24 @@ export class ClaimsService {
       throw new NotFoundException('Claim not found');
     }
 
-    if (claim.status !== 'draft') {
-      throw new BadRequestException('Only draft claims can be updated');
+    const [project, contract] = await Promise.all([
+      this.projectModel.findById(claim.projectId),
+      this.contractModel.findById(claim.contractId),
+    ]);
+    if (!project) {
+      throw new NotFoundException('Project not found');
     }
-
-    const contract = await this.contractModel.findById(claim.contractId);
     if (!contract) {
       throw new NotFoundException('Contract not found');
     }
 
+    const machine = await this.getStateMachine(claim, project, contract);
+    if (!machine.isEditable(claim.status)) {
+      throw new BadRequestException(
+        'Only draft or revision-requested claims can be updated',
+      );
+    }
+
     const coachClaim = (updateClaimDto as any).coachClaim;
     const finalAmount =
       coachClaim?.totalAmount ?? updateClaimDto.amount ?? claim.amount;
@@ -906,29 +1030,171 @@ export class ClaimsService {
       0,
     );
 
-    if (totalClaimedAmount + finalAmount > contract.contractValue) {
-      const remainingAmount = contract.contractValue - totalClaimedAmount;
+    // Measured against the terms in force when the claim was raised
+    const contractValue = await this.claimChecksService.contractValueAt(
+      contract,
+      claim.createdAt,
+    );
+    if (totalClaimedAmount + finalAmount > contractValue) {
+      const remainingAmount = contractValue - totalClaimedAmount;
       throw new BadRequestException(
-        `Updated claim amount (${finalAmount}) exceeds the remaining contract value (${remainingAmount}). Contract total: ${contract.contractValue}.`,
+        `Updated claim amount (${finalAmount}) exceeds the remaining contract value (${remainingAmount}). Contract total: ${contractValue}.`,
       );
     }
 
-    return this.claimModel.findByIdAndUpdate(
-      id,
+    const updatedClaim = await this.claimModel.findOneAndUpdate(
+      { _id: id, version: claim.version },
       {
         ...updateClaimDto,
+        ...(updateClaimDto.documents && {
+          documents: withoutHashes(updateClaimDto.documents),
+        }),
         amount: finalAmount,
         updatedBy: userId,
+        version: claim.version + 1,
       },
       { new: true },
     );
+    if (!updatedClaim) {
+      throw new BadRequestException(
+        'Claim was updated by someone else. Please reload and try again.',
+      );
+    }
+
+    await this.saveVersion(claim, 'edit', userId);
+    return updatedClaim;
+  }
+
+  /**
+   * Records `claim` as it was before a change that bumped `Claim.version`,
+   * so later versions can be compared with it.
+   */
+  private async saveVersion(
+    claim: ClaimDocument,
+    reason: ClaimVersionReason,
+    userId: Types.ObjectId,
+  ): Promise<void> {
+    await this.claimVersionModel.create({
+      claimId: claim._id,
+      version: claim.version,
+      reason,
+      snapshot: snapshotClaim(claim.toObject()),
+      createdBy: userId,
+    });
+  }
+
+  private async assertCanViewClaim(
+    claim: ClaimDocument,
+    userId: Types.ObjectId,
+  ): Promise<void> {
+    const project = await this.projectModel.findById(claim.projectId);
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+
+    const user = await this.userModel.findById(userId);
+    const isApprover = Object.values(ClaimsService.roleMap).some((role) =>
+      user?.roles?.includes(role),
+    );
+    if (isApprover || user?.department === project.department) {
+      return;
+    }
+
+    await this.assertCanManageClaim(claim, project, userId, 'view');
+  }
+
+  async getVersions(id: string, userId: Types.ObjectId) {
+    const claim = await this.claimModel.findById(id);
+    if (!claim) {
+      throw new NotFoundException('Claim not found');
+    }
+    await this.assertCanViewClaim(claim, userId);
+
+    const versions = await this.claimVersionModel
+      .find({ claimId: claim._id })
+      .select('-snapshot')
+      .populate('createdBy', 'firstName lastName email')
+      .sort({ version: 1 })
+      .lean();
+
+    return {
+      currentVersion: claim.version,
+      versions: [
+        ...versions.map((v) => ({
+          version: v.version,
+          reason: v.reason,
+          replacedBy: v.createdBy,
+          replacedAt: v.createdAt,
+        })),
+        {
+          version: claim.version,
+          current: true,
+          updatedAt: (claim as any).updatedAt,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Field-level changes between two versions of a claim. Without `from` the
+   * comparison starts at the last revision request, so approvers see what
+   * changed since they asked for it; `to` defaults to the current claim.
+   */
+  async diffVersions(
+    id: string,
+    userId: Types.ObjectId,
+    from?: number,
+    to?: number,
+  ): Promise<{ from: number; to: number; changes: ClaimFieldChange[] }> {
+    const claim = await this.claimModel.findById(id);
+    if (!claim) {
+      throw new NotFoundException('Claim not found');
+    }
+    await this.assertCanViewClaim(claim, userId);
+
+    const toVersion = to ?? claim.version;
+    let fromVersion = from;
+    if (fromVersion === undefined) {
+      const lastRevision = await this.claimVersionModel
+        .findOne({ claimId: claim._id, reason: 'revision_requested' })
+        .sort({ version: -1 })
+        .select('version')
+        .lean();
+      fromVersion = lastRevision?.version ?? toVersion - 1;
+    }
+
+    const snapshotAt = async (version: number) => {
+      if (version === claim.version) {
+        return snapshotClaim(claim.toObject());
+      }
+      const saved = await this.claimVersionModel
+        .findOne({ claimId: claim._id, version })
+        .lean();
+      if (!saved) {
+        throw new NotFoundException(
+          `Version ${version} of this claim was not found`,
+        );
+      }
+      return saved.snapshot;
+    };
+
+    const [before, after] = await Promise.all([
+      snapshotAt(fromVersion),
+      snapshotAt(toVersion),
+    ]);
+
+    return {
+      from: fromVersion,
+      to: toVersion,
+      changes: diffClaimSnapshots(before, after),
+    };
   }
 
   private async getApprovers(
     level: string,
     department?: string,
   ): Promise<UserDocument[]> {
-    const requiredRole = ClaimsService.roleMap[level as ApprovalRole];
+    const requiredRole = ClaimsService.approverRole(level);
 
     if (!requiredRole) {
       this.logger.error(`Invalid approval level: ${level}`);
@@ -978,6 +1244,34 @@ export class ClaimsService {
     return approvers;
   }
 
+  /**
+   * Users who can act on the step a pending claim is waiting on, resolved the
+   * same way as submission notifications, with delegates standing in for
+   * anyone away.
+   */
+  async findPendingApprovers(
+    claim: Pick<
+      Claim,
+      'projectId' | 'contractId' | 'status' | 'amount' | 'currency' | 'routing'
+    >,
+  ): Promise<UserDocument[]> {
+    const [project, contract] = await Promise.all([
+      this.projectModel.findById(claim.projectId),
+      this.contractModel.findById(claim.contractId),
+    ]);
+    if (!project || !contract) {
+      return [];
+    }
+
+    const machine = await this.getStateMachine(claim, project, contract);
+    const step = machine.getStep(claim.status);
+    return step ? this.findStepApprovers(step, project, contract) : [];
+  }
+
+  getPendingStatuses(): Promise<string[]> {
+    return this.approvalFlowService.getPendingStatuses();
+  }
+
   async submit(
     claimId: string,
     userId: Types.ObjectId,
@@ -987,22 +1281,40 @@ export class ClaimsService {
       throw new NotFoundException('Claim not found');
     }
 
-    if (claim.status !== CLAIM_STATUSES[0]) {
-      // 'draft'
-      throw new BadRequestException('Only draft claims can be submitted');
-    }
-
-    const contract = await this.contractModel.findById(claim.contractId);
-    if (!contract) {
-      throw new NotFoundException('Contract not found');
+    const { project, contract, transition } = await this.resolveTransition(
+      claim,
+      'submit',
+      { returnToStatus: claim.revisionRequest?.returnToStatus },
+    );
+    this.assertContractOpen(contract);
+    await this.assertCanManageClaim(claim, project, userId, 'submit');
+    await this.claimChecksService.run(claim, contract);
+
+    // Kept as it was before resubmission for the version history
+    const previous =
+      claim.status === 'revision_requested'
+        ? this.claimModel.hydrate(claim.toObject())
+        : undefined;
+    if (previous) {
+      claim.version += 1;
     }
 
-    // Update claim status to first approval step
-    claim.status = this.isCoachContract(contract)
-      ? 'pending_reviewer_approval'
-      : CLAIM_STATUSES[1]; // 'pending_checker_approval'
+    claim.status = transition.to;
+    claim.routing = this.getRoutingContext(claim, project, contract);
+    claim.updatedBy = userId;
+    claim.currentLevelDeadline = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    claim.auditTrail.push({
+      action: 'SUBMITTED',
+      performedBy: userId,
+      performedAt: new Date(),
+      details: { previousStatus: transition.from, status: transition.to },
+    });
     const savedClaim = await claim.save();
 
+    if (previous) {
+      await this.saveVersion(previous, 'resubmission', userId);
+    }
+
     await this.notifyStakeholders(savedClaim, userId);
     return savedClaim;
   }
@@ -1011,80 +1323,63 @@ export class ClaimsService {
     id: string,
     comments: string,
     userId: Types.ObjectId,
+    { notify = true, adjustments, adjustmentReason }: ApproveClaimOptions = {},
   ): Promise<ClaimDocument> {
     const claim = await this.claimModel.findById(id);
     if (!claim) {
       throw new NotFoundException('Claim not found');
     }
 
-    const approver = await this.userModel.findById(userId);
-    if (!approver) {
-      throw new NotFoundException('Approver not found');
-    }
-
-    const project = await this.projectModel.findById(claim.projectId);
-    if (!project) {
-      throw new NotFoundException('Project not found');
-    }
-
-    const contract = await this.contractModel.findById(claim.contractId);
-    if (!contract) {
-      throw new NotFoundException('Contract not found');
-    }
-
-    // Get next step in approval flow
-    const next = await this.getNextApprovalStep(claim);
-    console.log(next);
-
-    if (!next) {
-      throw new BadRequestException('Invalid approval flow state');
-    }
-
-    // Extract current role from status (e.g., 'pending_claim_checker_approval' -> 'claim_checker')
-    const currentRole = claim.status
-      .replace('pending_', '')
-      .replace('_approval', '');
+    const { project, contract, transition } = await this.resolveTransition(
+      claim,
+      'approve',
+    );
+    const { currentStep } = transition;
+    const currentRole = currentStep.role;
+
+    const { actor, onBehalfOf } = await this.assertCanActOnStep(
+      currentStep,
+      project,
+      contract,
+      userId,
+      'approve',
+    );
 
-    // Check if user has the required role
-    if (
-      this.isCoachContract(contract) &&
-      (currentRole === 'reviewer' || currentRole === 'approver')
-    ) {
-      const allowed = await this.isCoachManagerAuthorized(
-        claim.projectId,
-        userId,
-        currentRole,
-      );
-      if (!allowed) {
-        throw new BadRequestException(
-          `User does not have ${currentRole} approval rights`,
-        );
-      }
-    } else if (
-      !approver.roles?.includes(
-        ClaimsService.roleMap[currentRole as ApprovalRole],
-      )
-    ) {
-      throw new BadRequestException(
-        `User does not have ${currentRole} approval rights`,
-      );
-    }
+    const adjusted = adjustments?.length
+      ? this.applyAdjustments(claim, adjustments, adjustmentReason, {
+          adjustedBy: userId,
+          adjustedAt: new Date(),
+          level: currentRole,
+          onBehalfOf: onBehalfOf?._id as Types.ObjectId,
+        })
+      : undefined;
 
     // Update claim status and approval details
-    const updatedClaim = await this.claimModel.findByIdAndUpdate(
-      id,
+    const updatedClaim = await this.claimModel.findOneAndUpdate(
+      { _id: id, status: transition.from },
       {
-        status: next.nextStatus,
+        status: transition.to,
+        ...(adjusted && {
+          amount: adjusted.adjustment.adjustedAmount,
+          milestones: adjusted.milestones,
+          version: claim.version + 1,
+          // A lower amount must not reroute the claim past its remaining steps
+          routing:
+            claim.routing || this.getRoutingContext(claim, project, contract),
+        }),
         [`approval.${currentRole}Approval`]: {
           approvedBy: userId,
           approvedAt: new Date(),
           comments,
-          department: next.department,
+          department: currentStep.department,
+          onBehalfOf: onBehalfOf?._id,
+          approvedByName: formatActingAs(actor, onBehalfOf),
         },
         currentLevelDeadline:
-          next.nextStatus !== 'approved'
+          transition.to !== 'approved'
             ? new Date(Date.now() + 24 * 60 * 60 * 1000)
             : undefined,
+        updatedBy: userId,
         $push: {
           auditTrail: {
             action: 'APPROVED',
@@ -1092,76 +1387,205 @@ export class ClaimsService {
             performedAt: new Date(),
             details: {
               role: currentRole,
-              department: next.department,
+              department: currentStep.department,
               comments,
-              nextStatus: next.nextStatus,
+              nextStatus: transition.to,
+              ...(onBehalfOf && {
+                onBehalfOf: onBehalfOf._id,
+                actingAs: formatActingAs(actor, onBehalfOf),
+              }),
+              ...(adjusted && {
+                adjustedAmount: adjusted.adjustment.adjustedAmount,
+                adjustmentReason: adjusted.adjustment.reason,
+              }),
             },
+            ...(adjusted && {
+              previousValues: { amount: adjusted.adjustment.previousAmount },
+            }),
           },
+          ...(adjusted && { adjustments: adjusted.adjustment }),
         },
       },
       { new: true },
     );
 
     if (!updatedClaim) {
-      throw new NotFoundException('Claim not found');
+      throw new BadRequestException(
+        'Claim was updated by someone else. Please reload and try again.',
+      );
     }
 
-    // Notify stakeholders
-    await this.notifyStakeholders(updatedClaim, userId);
+    if (adjusted) {
+      // The amounts as claimed, before the approver lowered them
+      await this.saveVersion(claim, 'adjustment', userId);
+    }
+
+    if (notify) {
+      if (adjusted) {
+        await this.notifyAdjustment(updatedClaim, project, adjusted.adjustment);
+      }
+      await this.notifyStakeholders(updatedClaim, userId);
+    }
 
     return updatedClaim;
   }
 
-  async reject(
-    id: string,
+  /**
+   * Reduces the claimed amount on individual milestones. Amounts can only go
+   * down, and the claim total drops by the same amount as the milestones.
+   */
+  private applyAdjustments(
+    claim: ClaimDocument,
+    adjustments: ClaimMilestoneAdjustmentDto[],
     reason: string,
-    userId: Types.ObjectId,
-  ): Promise<ClaimDocument> {
-    const claim = await this.findOne(id, userId);
-
-    if (!claim.status.startsWith('pending_') || claim.status === 'approved') {
-      throw new BadRequestException('Only pending claims can be rejected');
+    details: Pick<
+      ClaimAdjustment,
+      'adjustedBy' | 'adjustedAt' | 'level' | 'onBehalfOf'
+    >,
+  ): { milestones: ClaimDocument['milestones']; adjustment: ClaimAdjustment } {
+    if (!reason?.trim()) {
+      throw new BadRequestException(
+        'A reason is required when adjusting claim amounts',
+      );
     }
 
-    // Extract current role from status
-    const currentRole = claim.status
-      .replace('pending_', '')
-      .replace('_approval', '') as ApprovalRole;
-    const user = await this.userModel.findById(userId);
+    const seen = new Set<string>();
+    const milestones = claim.toObject().milestones.map((m) => ({ ...m }));
+    const changes: ClaimAdjustment['milestones'] = [];
 
-    const contract = await this.contractModel.findById(claim.contractId);
-    if (!contract) {
-      throw new NotFoundException('Contract not found');
-    }
+    for (const { milestoneId, currentClaim } of adjustments) {
+      if (seen.has(milestoneId)) {
+        throw new BadRequestException(
+          `Milestone ${milestoneId} is adjusted more than once`,
+        );
+      }
+      seen.add(milestoneId);
 
-    if (
-      this.isCoachContract(contract) &&
-      (currentRole === 'reviewer' || currentRole === 'approver')
-    ) {
-      const allowed = await this.isCoachManagerAuthorized(
-        claim.projectId,
-        userId,
-        currentRole,
-      );
-      if (!allowed) {
+      const milestone = milestones.find((m) => m.milestoneId === milestoneId);
+      if (!milestone) {
+        throw new BadRequestException(
+          `Milestone ${milestoneId} is not part of this claim`,
+        );
+      }
+      if (typeof currentClaim !== 'number' || currentClaim < 0) {
         throw new BadRequestException(
-          `Only users with ${currentRole} role can reject at this stage`,
+          `Adjusted amount for ${milestone.title} must be zero or more`,
         );
       }
-    } else if (!user?.roles.includes(ClaimsService.roleMap[currentRole])) {
+      if (currentClaim > milestone.currentClaim) {
+        throw new BadRequestException(
+          `Adjusted amount for ${milestone.title} (${currentClaim}) cannot exceed the amount claimed (${milestone.currentClaim})`,
+        );
+      }
+      if (currentClaim === milestone.currentClaim) continue;
+
+      const adjustedClaim = roundAmount(currentClaim);
+      const adjustedRemaining = roundAmount(
+        milestone.maxClaimableAmount -
+          (milestone.previouslyClaimed + adjustedClaim),
+      );
+      changes.push({
+        milestoneId,
+        title: milestone.title,
+        previousClaim: milestone.currentClaim,
+        adjustedClaim,
+        previousRemainingClaimable: milestone.remainingClaimable,
+        adjustedRemainingClaimable: adjustedRemaining,
+      });
+
+      milestone.currentClaim = adjustedClaim;
+      milestone.remainingClaimable = adjustedRemaining;
+      if (milestone.maxClaimableAmount) {
+        milestone.percentageClaimed = roundAmount(
+          (adjustedClaim / milestone.maxClaimableAmount) * 100,
+        );
+      }
+    }
+
+    if (!changes.length) {
       throw new BadRequestException(
-        `Only users with ${currentRole} role can reject at this stage`,
+        'Adjustments do not change any milestone amounts',
       );
     }
 
+    const reduction = changes.reduce(
+      (sum, c) => sum + (c.previousClaim - c.adjustedClaim),
+      0,
+    );
+
+    return {
+      milestones,
+      adjustment: {
+        ...details,
+        reason: reason.trim(),
+        previousAmount: claim.amount,
+        adjustedAmount: roundAmount(Math.max(claim.amount - reduction, 0)),
+        milestones: changes,
+      },
+    };
+  }
+
+  private async notifyAdjustment(
+    claim: ClaimDocument,
+    project: ProjectDocument,
+    adjustment: ClaimAdjustment,
+  ): Promise<void> {
+    try {
+      const [claimant, approver] = await Promise.all([
+        this.userModel.findById(claim.claimantId),
+        this.userModel.findById(adjustment.adjustedBy),
+      ]);
+      if (claimant && approver) {
+        await this.claimsNotificationService.notifyClaimAdjusted(
+          claim,
+          project,
+          claimant,
+          approver,
+          adjustment,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to notify claimant of adjustment to claim ${claim._id}: ${error.message}`,
+      );
+    }
+  }
+
+  async reject(
+    id: string,
+    reason: string,
+    userId: Types.ObjectId,
+    { notify = true }: ClaimActionOptions = {},
+  ): Promise<ClaimDocument> {
+    const claim = await this.claimModel.findById(id);
+    if (!claim) {
+      throw new NotFoundException('Claim not found');
+    }
+
+    const { project, contract, transition } = await this.resolveTransition(
+      claim,
+      'reject',
+    );
+    const currentRole = transition.currentStep.role;
+
+    const { actor, onBehalfOf } = await this.assertCanActOnStep(
+      transition.currentStep,
+      project,
+      contract,
+      userId,
+      'reject',
+    );
+
     const updateData = {
-      status: 'rejected',
+      status: transition.to,
       rejection: {
         rejectedBy: userId,
         rejectedAt: new Date(),
         reason,
         level: currentRole,
+        onBehalfOf: onBehalfOf?._id,
       },
+      currentLevelDeadline: null,
       updatedBy: userId,
       $push: {
         auditTrail: {
@@ -1171,76 +1595,210 @@ export class ClaimsService {
           details: {
             reason,
             level: currentRole,
-            status: 'rejected',
+            status: transition.to,
+            ...(onBehalfOf && {
+              onBehalfOf: onBehalfOf._id,
+              actingAs: formatActingAs(actor, onBehalfOf),
+            }),
           },
         },
       },
     };
 
     const updatedClaim = await this.claimModel
-      .findByIdAndUpdate(id, updateData, { new: true })
-      .populate('projectId')
-      .populate('claimantId')
+      .findOneAndUpdate({ _id: id, status: transition.from }, updateData, {
+        new: true,
+      })
       .exec();
 
     if (!updatedClaim) {
-      throw new NotFoundException('Claim not found');
+      throw new BadRequestException(
+        'Claim was updated by someone else. Please reload and try again.',
+      );
     }
 
-    // Notify stakeholders
-    await this.notifyStakeholders(updatedClaim, userId);
+    if (notify) {
+      await this.notifyStakeholders(updatedClaim, userId);
+    }
 
     return updatedClaim;
   }
 
-  async requestRevision(
-    id: string,
+  async bulkApprove(
+    claimIds: string[],
+    comments: string,
     userId: Types.ObjectId,
+  ): Promise<BulkClaimActionResponseDto> {
+    return this.runBulkAction(claimIds, userId, 'approved', comments, (id) =>
+      this.approve(id, comments, userId, { notify: false }),
+    );
+  }
+
+  async bulkReject(
+    claimIds: string[],
     reason: string,
-    returnToStatus: string,
-    comments?: string,
-  ): Promise<ClaimDocument> {
-    const claim = await this.findOne(id, userId);
+    userId: Types.ObjectId,
+  ): Promise<BulkClaimActionResponseDto> {
+    return this.runBulkAction(claimIds, userId, 'rejected', reason, (id) =>
+      this.reject(id, reason, userId, { notify: false }),
+    );
+  }
 
-    if (!claim.status.startsWith('pending_') || claim.status === 'approved') {
-      throw new BadRequestException(
-        'Only pending claims can be sent for revision',
-      );
+  // Each claim goes through the single-claim path; a failure only affects
+  // that claim's entry in the report
+  private async runBulkAction(
+    claimIds: string[],
+    userId: Types.ObjectId,
+    action: 'approved' | 'rejected',
+    note: string,
+    apply: (id: string) => Promise<ClaimDocument>,
+  ): Promise<BulkClaimActionResponseDto> {
+    const results: BulkClaimActionResultDto[] = [];
+    const updatedClaims: ClaimDocument[] = [];
+
+    for (const claimId of [...new Set(claimIds)]) {
+      try {
+        const claim = await apply(claimId);
+        updatedClaims.push(claim);
+        results.push({ claimId, success: true, status: claim.status });
+      } catch (error) {
+        results.push({
+          claimId,
+          success: false,
+          error: error.message,
+          statusCode: error instanceof HttpException ? error.getStatus() : 500,
+        });
+      }
     }
 
-    // Extract current role from status
-    const currentRole = claim.status
-      .replace('pending_', '')
-      .replace('_approval', '') as ApprovalRole;
-    const user = await this.userModel.findById(userId);
+    await this.sendBulkDigests(updatedClaims, userId, action, note);
 
-    const contract = await this.contractModel.findById(claim.contractId);
-    if (!contract) {
-      throw new NotFoundException('Contract not found');
+    return {
+      total: results.length,
+      succeeded: updatedClaims.length,
+      failed: results.length - updatedClaims.length,
+      results,
+    };
+  }
+
+  // One notification per claimant and per next-level approver
+  private async sendBulkDigests(
+    claims: ClaimDocument[],
+    userId: Types.ObjectId,
+    action: 'approved' | 'rejected',
+    note: string,
+  ): Promise<void> {
+    if (!claims.length) return;
+
+    const actedBy = await this.userModel.findById(userId);
+    const byClaimant = new Map<string, ClaimDigestEntry[]>();
+    const byApprover = new Map<
+      string,
+      { approver: UserDocument; entries: ClaimDigestEntry[] }
+    >();
+
+    for (const claim of claims) {
+      try {
+        const [project, contract] = await Promise.all([
+          this.projectModel.findById(claim.projectId),
+          this.contractModel.findById(claim.contractId),
+        ]);
+        if (!project || !contract) continue;
+
+        const entry = { claim, project };
+        const claimantId = claim.claimantId.toString();
+        byClaimant.set(claimantId, [
+          ...(byClaimant.get(claimantId) || []),
+          entry,
+        ]);
+
+        const machine = await this.getStateMachine(claim, project, contract);
+        const nextStep = machine.getStep(claim.status);
+        if (!nextStep) continue;
+
+        const approvers = await this.findStepApprovers(
+          nextStep,
+          project,
+          contract,
+        );
+        for (const approver of approvers) {
+          const key = approver._id.toString();
+          const group = byApprover.get(key) || { approver, entries: [] };
+          group.entries.push(entry);
+          byApprover.set(key, group);
+        }
+      } catch (error) {
+        this.logger.error(
+          `Failed to prepare digest for claim ${claim._id}: ${error.message}`,
+        );
+      }
     }
 
-    if (
-      this.isCoachContract(contract) &&
-      (currentRole === 'reviewer' || currentRole === 'approver')
-    ) {
-      const allowed = await this.isCoachManagerAuthorized(
-        claim.projectId,
-        userId,
-        currentRole,
-      );
-      if (!allowed) {
-        throw new BadRequestException(
-          `Only users with ${currentRole} role can request revision at this stage`,
+    const claimants = await this.userModel.find({
+      _id: { $in: [...byClaimant.keys()] },
+    });
+    for (const claimant of claimants) {
+      try {
+        await this.claimsNotificationService.notifyClaimsDigest(
+          claimant,
+          byClaimant.get(claimant._id.toString()),
+          action,
+          actedBy,
+          note,
+        );
+      } catch (error) {
+        this.logger.error(
+          `Failed to send claim digest to ${claimant.email}: ${error.message}`,
+        );
+      }
+    }
+
+    for (const { approver, entries } of byApprover.values()) {
+      try {
+        await this.claimsNotificationService.notifyClaimsPendingDigest(
+          approver,
+          entries,
+        );
+      } catch (error) {
+        this.logger.error(
+          `Failed to send pending digest to ${approver.email}: ${error.message}`,
         );
       }
-    } else if (!user?.roles.includes(ClaimsService.roleMap[currentRole])) {
+    }
+  }
+
+  async requestRevision(
+    id: string,
+    userId: Types.ObjectId,
+    reason: string,
+    returnToStatus: string,
+    comments?: string,
+  ): Promise<ClaimDocument> {
+    const claim = await this.claimModel.findById(id);
+    if (!claim) {
+      throw new NotFoundException('Claim not found');
+    }
+
+    const { project, contract, machine, transition } =
+      await this.resolveTransition(claim, 'request_revision');
+    const currentRole = transition.currentStep.role;
+
+    if (returnToStatus && !machine.isPending(returnToStatus)) {
       throw new BadRequestException(
-        `Only users with ${currentRole} role can request revision at this stage`,
+        `Invalid return status "${returnToStatus}". Expected one of: ${machine.states.filter((state) => machine.isPending(state)).join(', ')}`,
       );
     }
 
+    const { actor, onBehalfOf } = await this.assertCanActOnStep(
+      transition.currentStep,
+      project,
+      contract,
+      userId,
+      'request revision',
+    );
+
     const updateData = {
-      status: 'revision_requested',
+      status: transition.to,
       revisionRequest: {
         requestedBy: userId,
         requestedAt: new Date(),
@@ -1248,7 +1806,9 @@ export class ClaimsService {
         returnToStatus,
         returnToLevel: currentRole,
         comments,
+        onBehalfOf: onBehalfOf?._id,
       },
+      currentLevelDeadline: null,
       updatedBy: userId,
       version: claim.version + 1,
       $push: {
@@ -1262,21 +1822,30 @@ export class ClaimsService {
             returnToLevel: currentRole,
             comments,
             previousVersion: claim.version,
+            ...(onBehalfOf && {
+              onBehalfOf: onBehalfOf._id,
+              actingAs: formatActingAs(actor, onBehalfOf),
+            }),
           },
         },
       },
     };
 
     const updatedClaim = await this.claimModel
-      .findByIdAndUpdate(id, updateData, { new: true })
-      .populate('projectId')
-      .populate('claimantId')
+      .findOneAndUpdate({ _id: id, status: transition.from }, updateData, {
+        new: true,
+      })
       .exec();
 
     if (!updatedClaim) {
-      throw new NotFoundException('Claim not found');
+      throw new BadRequestException(
+        'Claim was updated by someone else. Please reload and try again.',
+      );
     }
 
+    // What the approver was looking at when they asked for changes
+    await this.saveVersion(claim, 'revision_requested', userId);
+
     // Notify stakeholders
     await this.notifyStakeholders(updatedClaim, userId);
 
@@ -1311,21 +1880,23 @@ export class ClaimsService {
       throw new NotFoundException('Claim not found');
     }
 
-    if (claim.status !== 'approved') {
+    if (claim.paymentBatchId) {
       throw new BadRequestException(
-        'Only approved claims can be marked as paid',
+        'Claim is reserved in a payment batch. Confirm or cancel the batch instead.',
       );
     }
 
+    const { transition } = await this.resolveTransition(claim, 'mark_paid');
+
     this.logger.log(
       `Marking claim ${id} as paid by user ${userId}. Transaction: ${paymentDetails.transactionId}`,
     );
 
     const updatedClaim = await this.claimModel
-      .findByIdAndUpdate(
-        id,
+      .findOneAndUpdate(
+        { _id: id, status: transition.from },
         {
-          status: 'paid',
+          status: transition.to,
           payment: {
             paidBy: userId,
             paidAt: new Date(),
@@ -1387,74 +1958,31 @@ export class ClaimsService {
   }
 
   async cancel(id: string, userId: Types.ObjectId): Promise<ClaimDocument> {
-    // Find claim without claimant restriction
-    const claim = await this.claimModel.findById(id).populate('projectId');
-
+    const claim = await this.claimModel.findById(id);
     if (!claim) {
       throw new NotFoundException('Claim not found');
     }
 
-    // Check authorization - only claimant, admin, project creator, PM, or assistant PM can cancel
-    const user = await this.userModel.findById(userId);
-    if (!user) {
-      throw new NotFoundException('User not found');
-    }
-
-    const project = await this.projectModel.findById(claim.projectId);
-    if (!project) {
-      throw new NotFoundException('Project not found');
-    }
-
-    const isAdmin = user.roles?.includes('admin');
-    const isClaimant = claim.claimantId.toString() === userId.toString();
-    const isProjectCreator =
-      project.createdBy?.toString() === userId.toString();
-    const isProjectManager =
-      project.projectManagerId?.toString() === userId.toString();
-    const isAssistantPM = project.assistantProjectManagers?.some(
-      (apm) => apm.userId.toString() === userId.toString(),
+    const { project, transition } = await this.resolveTransition(
+      claim,
+      'cancel',
     );
-
-    if (
-      !isAdmin &&
-      !isClaimant &&
-      !isProjectCreator &&
-      !isProjectManager &&
-      !isAssistantPM
-    ) {
-      throw new BadRequestException(
-        'You are not authorized to cancel this claim. Only the claimant, admins, project creators, project managers, or assistant project managers can cancel claims.',
-      );
-    }
-
-    // Check if claim can be cancelled based on status
-    // Allow cancellation for draft and any pending status, but not approved, paid, rejected, or cancelled
-    const nonCancellableStatuses = [
-      'approved',
-      'paid',
-      'rejected',
-      'cancelled',
-    ];
-
-    this.logger.log(
-      `Checking if claim ${id} with status "${claim.status}" can be cancelled`,
+    const user = await this.assertCanManageClaim(
+      claim,
+      project,
+      userId,
+      'cancel',
     );
 
-    if (nonCancellableStatuses.includes(claim.status)) {
-      this.logger.warn(`Cannot cancel claim ${id} - status is ${claim.status}`);
-      throw new BadRequestException(
-        `Claims with status "${claim.status}" cannot be cancelled. Only draft or pending claims can be cancelled.`,
-      );
-    }
-
     this.logger.log(
       `User ${user.email} is cancelling claim ${id} (status: ${claim.status})`,
     );
 
-    const updatedClaim = await this.claimModel.findByIdAndUpdate(
-      id,
+    const updatedClaim = await this.claimModel.findOneAndUpdate(
+      { _id: id, status: transition.from },
       {
-        status: 'cancelled',
+        status: transition.to,
+        currentLevelDeadline: null,
         updatedBy: userId,
         $push: {
           auditTrail: {
@@ -0,0 +1,63 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+
+export class ClaimMilestoneAdjustmentDto {
+  @ApiProperty({
+    description: 'Milestone entry on the claim to adjust',
+    example: '65123456789012345678901a',
+  })
+  @IsString()
+  @IsNotEmpty()
+  milestoneId: string;
+
+  @ApiProperty({
+    description:
+      'Approved amount for this milestone. Cannot exceed the amount currently claimed.',
+    example: 40000,
+  })
+  @IsNumber()
+  @Min(0)
+  currentClaim: number;
+}
+
+export class ApproveClaimDto {
+  @ApiProperty({
+    description: 'Approval comments explaining the decision',
+    example: 'All milestones verified and completed as claimed',
+  })
+  @IsString()
+  @IsNotEmpty()
+  comments: string;
+
+  @ApiProperty({
+    description:
+      'Reduced amounts for milestones the approver only partly accepts',
+    type: [ClaimMilestoneAdjustmentDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ClaimMilestoneAdjustmentDto)
+  adjustments?: ClaimMilestoneAdjustmentDto[];
+
+  @ApiProperty({
+    description: 'Why the claim was reduced. Required with adjustments.',
+    example: 'Milestone 2 deliverables only partly submitted',
+    required: false,
+  })
+  @ValidateIf((dto) => dto.adjustments?.length)
+  @IsString()
+  @IsNotEmpty()
+  adjustmentReason?: string;
+}
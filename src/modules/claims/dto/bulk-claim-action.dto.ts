@@ -0,0 +1,76 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsMongoId,
+  IsNotEmpty,
+  IsString,
+} from 'class-validator';
+
+class BulkClaimIdsDto {
+  @ApiProperty({
+    description: 'Claims to act on (up to 100)',
+    example: ['65123456789012345678901a', '65123456789012345678901b'],
+    type: [String],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(100)
+  @IsMongoId({ each: true })
+  claimIds: string[];
+}
+
+export class BulkApproveClaimsDto extends BulkClaimIdsDto {
+  @ApiProperty({
+    description: 'Approval comments applied to every claim',
+    example: 'Month-end finance approval',
+  })
+  @IsString()
+  @IsNotEmpty()
+  comments: string;
+}
+
+export class BulkRejectClaimsDto extends BulkClaimIdsDto {
+  @ApiProperty({
+    description: 'Rejection reason applied to every claim',
+    example: 'Supporting documents missing',
+  })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
+
+export class BulkClaimActionResultDto {
+  @ApiProperty()
+  claimId: string;
+
+  @ApiProperty()
+  success: boolean;
+
+  @ApiProperty({
+    required: false,
+    description: 'Claim status after the action',
+  })
+  status?: string;
+
+  @ApiProperty({ required: false })
+  error?: string;
+
+  @ApiProperty({ required: false })
+  statusCode?: number;
+}
+
+export class BulkClaimActionResponseDto {
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  succeeded: number;
+
+  @ApiProperty()
+  failed: number;
+
+  @ApiProperty({ type: [BulkClaimActionResultDto] })
+  results: BulkClaimActionResultDto[];
+}
@@ -0,0 +1,49 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsDateString,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+
+export class CreatePaymentBatchDto {
+  @ApiProperty({
+    description: 'Approved claims to include in the batch',
+    type: [String],
+    example: ['65123456789012345678901a', '65123456789012345678901b'],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(500)
+  @IsMongoId({ each: true })
+  claimIds: string[];
+
+  @ApiProperty({ required: false, example: 'October consultant payments' })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class ConfirmPaymentBatchDto {
+  @ApiProperty({
+    description: 'Bank or M-Pesa reference for the batch payment',
+    example: 'EFT-20261031-0042',
+  })
+  @IsString()
+  @IsNotEmpty()
+  paymentReference: string;
+
+  @ApiProperty({ required: false, example: 'https://example.com/advice.pdf' })
+  @IsOptional()
+  @IsString()
+  paymentAdviceUrl?: string;
+
+  @ApiProperty({ required: false, example: '2026-10-31T10:00:00.000Z' })
+  @IsOptional()
+  @IsDateString()
+  paidAt?: string;
+}
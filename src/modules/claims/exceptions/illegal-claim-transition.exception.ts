@@ -0,0 +1,17 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export class IllegalClaimTransitionException extends HttpException {
+  constructor(status: string, action: string, allowedActions: string[]) {
+    super(
+      {
+        statusCode: HttpStatus.BAD_REQUEST,
+        message: `Cannot ${action.replace(/_/g, ' ')} a claim in status "${status}". Allowed actions: ${allowedActions.length ? allowedActions.join(', ') : 'none'}`,
+        error: 'Illegal Claim Transition',
+        status,
+        action,
+        allowedActions,
+      },
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+}
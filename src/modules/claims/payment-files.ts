@@ -0,0 +1,150 @@
+import {
+  ClaimPaymentBatch,
+  PaymentBatchItem,
+} from './schemas/claim-payment-batch.schema';
+
+/**
+ * Bulk payment files for a claim payment batch. Bank files cover items paid
+ * by bank transfer; the M-Pesa B2C file covers items paid to a phone number.
+ */
+
+// Spreadsheets read a cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvValue = (value: unknown): string => {
+  const raw = value === undefined || value === null ? '' : String(value);
+  const text = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvLine = (values: unknown[]): string => values.map(csvValue).join(',');
+
+// Left-aligned, space-padded and truncated to the field width
+const alpha = (value: string | undefined, width: number): string =>
+  (value || '')
+    .replace(/[^\x20-\x7E]/g, '')
+    .toUpperCase()
+    .slice(0, width)
+    .padEnd(width, ' ');
+
+// Right-aligned and zero-padded
+const numeric = (value: number, width: number): string =>
+  String(value).padStart(width, '0').slice(-width);
+
+const toCents = (amount: number): number => Math.round(amount * 100);
+
+// Rounded to the cent, so each line and the batch totals add up
+export const roundAmount = (amount: number): number => toCents(amount) / 100;
+
+export const itemReference = (
+  batch: Pick<ClaimPaymentBatch, 'batchNumber'>,
+  index: number,
+): string => `${batch.batchNumber}/${index + 1}`;
+
+// Converts 07XXXXXXXX / +2547XXXXXXXX to the 2547XXXXXXXX form M-Pesa expects
+export const normalizeMpesaPhone = (phone: string): string => {
+  const digits = (phone || '').replace(/\D/g, '');
+  if (digits.startsWith('0')) return `254${digits.slice(1)}`;
+  if (digits.length === 9) return `254${digits}`;
+  return digits;
+};
+
+const bankItems = (batch: ClaimPaymentBatch) =>
+  batch.items
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => item.channel === 'bank');
+
+export const buildBankCsv = (batch: ClaimPaymentBatch): string => {
+  const lines = [
+    csvLine([
+      'Batch Number',
+      'Payee Name',
+      'Bank Name',
+      'Branch Code',
+      'Account Number',
+      'Amount',
+      'Currency',
+      'Reference',
+    ]),
+    ...bankItems(batch).map(({ item, index }) =>
+      csvLine([
+        batch.batchNumber,
+        item.payeeName,
+        item.bankName,
+        item.branchCode,
+        item.accountNumber,
+        roundAmount(item.amount).toFixed(2),
+        item.currency,
+        itemReference(batch, index),
+      ]),
+    ),
+  ];
+
+  return `${lines.join('\r\n')}\r\n`;
+};
+
+/**
+ * Fixed-width EFT layout, one file per currency:
+ *
+ *   H batch(20) date(8, YYYYMMDD) currency(3) count(6) total cents(15)
+ *   D branch(10) account(20) payee(35) amount cents(15) currency(3) reference(20)
+ *   T count(6) total cents(15)
+ */
+export const buildEftFile = (
+  batch: ClaimPaymentBatch,
+  currency: string,
+  valueDate: Date = new Date(),
+): string => {
+  const items = bankItems(batch).filter(
+    ({ item }) => item.currency === currency,
+  );
+  const totalCents = items.reduce(
+    (sum, { item }) => sum + toCents(item.amount),
+    0,
+  );
+  const date = valueDate.toISOString().slice(0, 10).replace(/-/g, '');
+
+  const lines = [
+    [
+      'H',
+      alpha(batch.batchNumber, 20),
+      date,
+      alpha(currency, 3),
+      numeric(items.length, 6),
+      numeric(totalCents, 15),
+    ].join(''),
+    ...items.map(({ item, index }) =>
+      [
+        'D',
+        alpha(item.branchCode, 10),
+        alpha(item.accountNumber, 20),
+        alpha(item.payeeName, 35),
+        numeric(toCents(item.amount), 15),
+        alpha(item.currency, 3),
+        alpha(itemReference(batch, index), 20),
+      ].join(''),
+    ),
+    ['T', numeric(items.length, 6), numeric(totalCents, 15)].join(''),
+  ];
+
+  return `${lines.join('\r\n')}\r\n`;
+};
+
+export const buildMpesaB2cCsv = (batch: ClaimPaymentBatch): string => {
+  const lines = [
+    csvLine(['Phone Number', 'Amount', 'Name', 'Reference']),
+    ...batch.items
+      .map((item: PaymentBatchItem, index) => ({ item, index }))
+      .filter(({ item }) => item.channel === 'mpesa')
+      .map(({ item, index }) =>
+        csvLine([
+          normalizeMpesaPhone(item.mpesaPhoneNumber),
+          Math.round(item.amount),
+          item.payeeName,
+          itemReference(batch, index),
+        ]),
+      ),
+  ];
+
+  return `${lines.join('\r\n')}\r\n`;
+};
@@ -2,12 +2,26 @@ import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
 import { ApiProperty } from '@nestjs/swagger';
 
+export interface ApprovalStepConditions {
+  // Inclusive lower bound on the claim amount
+  minAmount?: number;
+  // Inclusive upper bound on the claim amount
+  maxAmount?: number;
+  currencies?: string[];
+  // Contract types the step applies to, e.g. 'coach' or 'team_member'
+  contractTypes?: string[];
+  // Project departments the step applies to
+  departments?: string[];
+}
+
 export interface ApprovalStep {
   stepNumber: number;
   role: string;
   department: string;
   description: string;
   nextStatus: string;
+  // When set, the step only applies to claims matching every condition
+  conditions?: ApprovalStepConditions;
 }
 
 @Schema({ timestamps: true })
@@ -32,6 +46,17 @@ export class ApprovalFlow {
         department: { type: String, required: true },
         description: { type: String, required: true },
         nextStatus: { type: String, required: true },
+        conditions: {
+          type: {
+            minAmount: Number,
+            maxAmount: Number,
+            currencies: [String],
+            contractTypes: [String],
+            departments: [String],
+          },
+          required: false,
+          _id: false,
+        },
       },
     ],
   })
@@ -0,0 +1,140 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export enum PaymentBatchStatus {
+  DRAFT = 'draft',
+  CONFIRMED = 'confirmed',
+  CANCELLED = 'cancelled',
+}
+
+export type PaymentChannel = 'bank' | 'mpesa';
+
+@Schema({ _id: false })
+export class PaymentBatchItem {
+  @ApiProperty({ description: 'Claim being paid' })
+  @Prop({ type: Types.ObjectId, ref: 'Claim', required: true })
+  claimId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Claimant receiving the payment' })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  claimantId: Types.ObjectId;
+
+  @ApiProperty({ example: 'Jane Doe' })
+  @Prop({ required: true })
+  payeeName: string;
+
+  @ApiProperty({ example: 50000 })
+  @Prop({ required: true })
+  amount: number;
+
+  @ApiProperty({ example: 'KES' })
+  @Prop({ required: true })
+  currency: string;
+
+  @ApiProperty({ enum: ['bank', 'mpesa'] })
+  @Prop({ required: true, enum: ['bank', 'mpesa'] })
+  channel: PaymentChannel;
+
+  @ApiProperty({ required: false, example: 'Equity Bank' })
+  @Prop()
+  bankName?: string;
+
+  @ApiProperty({ required: false, example: '123' })
+  @Prop()
+  branchCode?: string;
+
+  @ApiProperty({ required: false, example: '1234567890' })
+  @Prop()
+  accountNumber?: string;
+
+  @ApiProperty({ required: false, example: '254712345678' })
+  @Prop()
+  mpesaPhoneNumber?: string;
+}
+
+export const PaymentBatchItemSchema =
+  SchemaFactory.createForClass(PaymentBatchItem);
+
+@Schema({ _id: false })
+export class PaymentBatchTotal {
+  @ApiProperty({ example: 'KES' })
+  @Prop({ required: true })
+  currency: string;
+
+  @ApiProperty({ example: 150000 })
+  @Prop({ required: true })
+  amount: number;
+
+  @ApiProperty({ example: 3 })
+  @Prop({ required: true })
+  count: number;
+}
+
+export const PaymentBatchTotalSchema =
+  SchemaFactory.createForClass(PaymentBatchTotal);
+
+export type ClaimPaymentBatchDocument = ClaimPaymentBatch & Document;
+
+@Schema({ timestamps: true })
+export class ClaimPaymentBatch {
+  @ApiProperty({ example: 'PB-2026-0001' })
+  @Prop({ required: true, unique: true })
+  batchNumber: string;
+
+  @ApiProperty({ type: [PaymentBatchItem] })
+  @Prop({ type: [PaymentBatchItemSchema], default: [] })
+  items: PaymentBatchItem[];
+
+  @ApiProperty({
+    type: [PaymentBatchTotal],
+    description: 'Totals per currency',
+  })
+  @Prop({ type: [PaymentBatchTotalSchema], default: [] })
+  totals: PaymentBatchTotal[];
+
+  @ApiProperty({ enum: PaymentBatchStatus })
+  @Prop({
+    type: String,
+    enum: PaymentBatchStatus,
+    default: PaymentBatchStatus.DRAFT,
+  })
+  status: string;
+
+  @ApiProperty({ required: false })
+  @Prop()
+  notes?: string;
+
+  @ApiProperty({ description: 'User who created the batch' })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  createdBy: Types.ObjectId;
+
+  @ApiProperty({
+    required: false,
+    description: 'Bank or M-Pesa reference for the batch payment',
+  })
+  @Prop()
+  paymentReference?: string;
+
+  @ApiProperty({ required: false })
+  @Prop()
+  paymentAdviceUrl?: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  confirmedBy?: Types.ObjectId;
+
+  @Prop()
+  confirmedAt?: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  cancelledBy?: Types.ObjectId;
+
+  @Prop()
+  cancelledAt?: Date;
+}
+
+export const ClaimPaymentBatchSchema =
+  SchemaFactory.createForClass(ClaimPaymentBatch);
+
+ClaimPaymentBatchSchema.index({ status: 1, createdAt: -1 });
+ClaimPaymentBatchSchema.index({ 'items.claimId': 1 });
@@ -0,0 +1,48 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type ClaimVersionReason =
+  | 'edit'
+  | 'revision_requested'
+  | 'resubmission'
+  | 'adjustment';
+
+export type ClaimVersionDocument = ClaimVersion & Document;
+
+// State of a claim at `version`, saved just before the change that replaced it
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class ClaimVersion {
+  @ApiProperty()
+  @Prop({ type: Types.ObjectId, ref: 'Claim', required: true })
+  claimId: Types.ObjectId;
+
+  @ApiProperty({ example: 2 })
+  @Prop({ required: true })
+  version: number;
+
+  @ApiProperty({
+    description: 'Change that ended this version',
+    enum: ['edit', 'revision_requested', 'resubmission', 'adjustment'],
+  })
+  @Prop({
+    required: true,
+    enum: ['edit', 'revision_requested', 'resubmission', 'adjustment'],
+  })
+  reason: ClaimVersionReason;
+
+  @ApiProperty({ description: 'Claim fields as they were at this version' })
+  @Prop({ type: MongooseSchema.Types.Mixed, required: true })
+  snapshot: Record<string, any>;
+
+  @ApiProperty({ description: 'User whose change ended this version' })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  createdBy: Types.ObjectId;
+
+  @ApiProperty()
+  createdAt?: Date;
+}
+
+export const ClaimVersionSchema = SchemaFactory.createForClass(ClaimVersion);
+
+ClaimVersionSchema.index({ claimId: 1, version: 1 }, { unique: true });
@@ -2,27 +2,139 @@ import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Schema as MongooseSchema } from 'mongoose';
 import { Types } from 'mongoose';
 import { ApiProperty } from '@nestjs/swagger';
+import {
+  ApprovalEscalation,
+  ApprovalEscalationSchema,
+  ApprovalSla,
+  ApprovalSlaSchema,
+} from '../../escalation/schemas/approval-escalation.schema';
+import { statusChangedAtPlugin } from '../../../common/utils/status-changed-at.plugin';
 
+// Pending states are derived from the department's ApprovalFlow steps
 export type ClaimStatus =
   | 'draft'
-  | 'pending_checker_approval'
-  | 'pending_reviewer_approval'
-  | 'pending_approver_approval'
-  | 'pending_srcc_checker_approval'
-  | 'pending_srcc_finance_approval'
-  | 'pending_director_approval'
-  | 'pending_academic_director_approval'
-  | 'pending_finance_approval'
+  | `pending_${string}_approval`
   | 'approved'
   | 'rejected'
   | 'paid'
   | 'cancelled'
   | 'revision_requested';
 
+export interface ClaimApprovalEntry {
+  approvedBy: Types.ObjectId;
+  approvedAt: Date;
+  comments?: string;
+  department: string;
+  // Principal the approver acted for under a delegation
+  onBehalfOf?: Types.ObjectId;
+  // e.g. "Jane Doe on behalf of John Smith"
+  approvedByName?: string;
+}
+
+@Schema({ _id: false })
+export class ClaimMilestoneAdjustment {
+  @ApiProperty()
+  @Prop({ required: true })
+  milestoneId: string;
+
+  @ApiProperty()
+  @Prop()
+  title: string;
+
+  @ApiProperty({ example: 50000 })
+  @Prop({ required: true })
+  previousClaim: number;
+
+  @ApiProperty({ example: 40000 })
+  @Prop({ required: true })
+  adjustedClaim: number;
+
+  @ApiProperty({ example: 50000 })
+  @Prop({ required: true })
+  previousRemainingClaimable: number;
+
+  @ApiProperty({ example: 60000 })
+  @Prop({ required: true })
+  adjustedRemainingClaimable: number;
+}
+
+export const ClaimMilestoneAdjustmentSchema = SchemaFactory.createForClass(
+  ClaimMilestoneAdjustment,
+);
+
+@Schema({ _id: false })
+export class ClaimAdjustment {
+  @ApiProperty({ description: 'Approver who reduced the claim' })
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User', required: true })
+  adjustedBy: Types.ObjectId;
+
+  @ApiProperty()
+  @Prop({ required: true })
+  adjustedAt: Date;
+
+  @ApiProperty({ description: 'Approval level the adjustment was made at' })
+  @Prop({ required: true })
+  level: string;
+
+  @ApiProperty({ example: 'Milestone 2 only partially delivered' })
+  @Prop({ required: true })
+  reason: string;
+
+  @ApiProperty({ example: 100000 })
+  @Prop({ required: true })
+  previousAmount: number;
+
+  @ApiProperty({ example: 90000 })
+  @Prop({ required: true })
+  adjustedAmount: number;
+
+  @ApiProperty({ type: [ClaimMilestoneAdjustment] })
+  @Prop({ type: [ClaimMilestoneAdjustmentSchema], default: [] })
+  milestones: ClaimMilestoneAdjustment[];
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User' })
+  onBehalfOf?: Types.ObjectId;
+}
+
+export const ClaimAdjustmentSchema =
+  SchemaFactory.createForClass(ClaimAdjustment);
+
+@Schema({ _id: false })
+export class ClaimWarning {
+  @ApiProperty({
+    enum: ['duplicate_document', 'duplicate_amount', 'over_claim'],
+  })
+  @Prop({ required: true })
+  code: string;
+
+  @ApiProperty({
+    example: 'Receipt "March Invoice" is also attached to claim 6512...',
+  })
+  @Prop({ required: true })
+  message: string;
+
+  @ApiProperty({ description: 'Other claims involved in the finding' })
+  @Prop({ type: [{ type: MongooseSchema.Types.ObjectId, ref: 'Claim' }] })
+  relatedClaimIds: Types.ObjectId[];
+
+  @ApiProperty()
+  @Prop({ default: Date.now })
+  detectedAt: Date;
+}
+
+export const ClaimWarningSchema = SchemaFactory.createForClass(ClaimWarning);
+
 export type ClaimDocument = Claim & Document;
 
 @Schema({ timestamps: true })
 export class Claim {
+  @ApiProperty({
+    description: 'Claim reference number',
+    example: 'CLM-2026-00001',
+  })
+  @Prop({ unique: true, sparse: true })
+  claimNumber?: string;
+
   @ApiProperty({ description: 'Reference to the project' })
   @Prop({ type: Types.ObjectId, ref: 'Project', required: true })
   projectId: Types.ObjectId;
@@ -110,6 +222,34 @@ export class Claim {
   })
   status: string;
 
+  @ApiProperty({
+    description:
+      'Claim attributes the approval route was chosen on when it was submitted',
+    required: false,
+  })
+  @Prop({
+    type: {
+      amount: Number,
+      currency: String,
+      contractType: String,
+      department: String,
+    },
+    _id: false,
+  })
+  routing?: {
+    amount?: number;
+    currency?: string;
+    contractType?: string;
+    department?: string;
+  };
+
+  @ApiProperty({
+    description: 'Reductions made by approvers, with the original figures',
+    type: [ClaimAdjustment],
+  })
+  @Prop({ type: [ClaimAdjustmentSchema], default: [] })
+  adjustments?: ClaimAdjustment[];
+
   @ApiProperty({ description: 'Current version of the claim' })
   @Prop({ type: Number, default: 1 })
   version: number;
@@ -118,6 +258,20 @@ export class Claim {
   @Prop({ type: Date })
   currentLevelDeadline?: Date;
 
+  @ApiProperty({
+    description: 'Missed deadlines at the current approval level',
+    required: false,
+  })
+  @Prop({ type: ApprovalSlaSchema })
+  sla?: ApprovalSla;
+
+  @ApiProperty({
+    description: 'Escalations raised for overdue approvals',
+    type: [ApprovalEscalation],
+  })
+  @Prop({ type: [ApprovalEscalationSchema], default: [] })
+  escalations?: ApprovalEscalation[];
+
   @ApiProperty({
     description: 'Revision request details if status is revision_requested',
   })
@@ -129,6 +283,7 @@ export class Claim {
       returnToStatus: String,
       returnToLevel: String,
       comments: String,
+      onBehalfOf: { type: MongooseSchema.ObjectId, ref: 'User' },
     },
     _id: false,
   })
@@ -139,6 +294,7 @@ export class Claim {
     returnToStatus: string;
     returnToLevel: string;
     comments?: string;
+    onBehalfOf?: Types.ObjectId;
   };
 
   @ApiProperty({ description: 'Supporting documents for the claim' })
@@ -154,6 +310,8 @@ export class Claim {
           ref: 'User',
           required: false,
         },
+        // SHA-256 of the file, filled in when the claim is submitted
+        hash: { type: String },
       },
     ],
     default: [],
@@ -164,112 +322,23 @@ export class Claim {
     type: string;
     uploadedAt: Date;
     uploadedBy?: Types.ObjectId;
+    hash?: string;
   }[];
 
-  @ApiProperty({ description: 'Approval details' })
-  @Prop({
-    type: {
-      checkerApproval: {
-        approvedBy: { type: MongooseSchema.ObjectId, ref: 'User' },
-        approvedAt: Date,
-        comments: String,
-        department: String,
-      },
-      reviewerApproval: {
-        approvedBy: { type: MongooseSchema.ObjectId, ref: 'User' },
-        approvedAt: Date,
-        comments: String,
-        department: String,
-      },
-      approverApproval: {
-        approvedBy: { type: MongooseSchema.ObjectId, ref: 'User' },
-        approvedAt: Date,
-        comments: String,
-        department: String,
-      },
-      srccCheckerApproval: {
-        approvedBy: { type: MongooseSchema.ObjectId, ref: 'User' },
-        approvedAt: Date,
-        comments: String,
-        department: String,
-      },
-      srccFinanceApproval: {
-        approvedBy: { type: MongooseSchema.ObjectId, ref: 'User' },
-        approvedAt: Date,
-        comments: String,
-        department: String,
-      },
-      directorApproval: {
-        approvedBy: { type: MongooseSchema.ObjectId, ref: 'User' },
-        approvedAt: Date,
-        comments: String,
-        department: String,
-      },
-      academicDirectorApproval: {
-        approvedBy: { type: MongooseSchema.ObjectId, ref: 'User' },
-        approvedAt: Date,
-        comments: String,
-        department: String,
-      },
-      financeApproval: {
-        approvedBy: { type: MongooseSchema.ObjectId, ref: 'User' },
-        approvedAt: Date,
-        comments: String,
-        department: String,
-      },
-    },
-    _id: false,
+  @ApiProperty({
+    description:
+      'Possible duplicates and over-claims found when the claim was submitted',
+    type: [ClaimWarning],
   })
-  approval?: {
-    checkerApproval?: {
-      approvedBy: Types.ObjectId;
-      approvedAt: Date;
-      comments?: string;
-      department: string;
-    };
-    reviewerApproval?: {
-      approvedBy: Types.ObjectId;
-      approvedAt: Date;
-      comments?: string;
-      department: string;
-    };
-    approverApproval?: {
-      approvedBy: Types.ObjectId;
-      approvedAt: Date;
-      comments?: string;
-      department: string;
-    };
-    srccCheckerApproval?: {
-      approvedBy: Types.ObjectId;
-      approvedAt: Date;
-      comments?: string;
-      department: string;
-    };
-    srccFinanceApproval?: {
-      approvedBy: Types.ObjectId;
-      approvedAt: Date;
-      comments?: string;
-      department: string;
-    };
-    directorApproval?: {
-      approvedBy: Types.ObjectId;
-      approvedAt: Date;
-      comments?: string;
-      department: string;
-    };
-    academicDirectorApproval?: {
-      approvedBy: Types.ObjectId;
-      approvedAt: Date;
-      comments?: string;
-      department: string;
-    };
-    financeApproval?: {
-      approvedBy: Types.ObjectId;
-      approvedAt: Date;
-      comments?: string;
-      department: string;
-    };
-  };
+  @Prop({ type: [ClaimWarningSchema], default: [] })
+  warnings?: ClaimWarning[];
+
+  @ApiProperty({
+    description:
+      'Approval details keyed by `<role>Approval`, one entry per approval flow step',
+  })
+  @Prop({ type: MongooseSchema.Types.Mixed, default: {} })
+  approval?: Record<string, ClaimApprovalEntry>;
 
   @ApiProperty({ description: 'Payment details once claim is paid' })
   @Prop({
@@ -304,6 +373,13 @@ export class Claim {
     };
   };
 
+  @ApiProperty({
+    description: 'Payment batch the claim is reserved in or was paid through',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'ClaimPaymentBatch' })
+  paymentBatchId?: Types.ObjectId;
+
   @ApiProperty({ description: 'Rejection details if claim was rejected' })
   @Prop({
     type: {
@@ -313,6 +389,7 @@ export class Claim {
       level: String,
       department: String,
       rejectedBy: MongooseSchema.Types.ObjectId,
+      onBehalfOf: { type: MongooseSchema.Types.ObjectId, ref: 'User' },
     },
     _id: false,
   })
@@ -323,6 +400,7 @@ export class Claim {
     level: string;
     department: string;
     rejectedBy: Types.ObjectId;
+    onBehalfOf?: Types.ObjectId;
   };
 
   @ApiProperty({ description: 'User who created the claim' })
@@ -358,6 +436,13 @@ export class Claim {
     details?: Record<string, any>;
     previousValues?: Record<string, any>;
   }[];
+
+  @ApiProperty()
+  createdAt?: Date;
 }
 
 export const ClaimSchema = SchemaFactory.createForClass(Claim);
+
+ClaimSchema.plugin(statusChangedAtPlugin);
+
+ClaimSchema.index({ 'documents.hash': 1 });
@@ -0,0 +1,76 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { DelegationService } from './delegation.service';
+import { CreateDelegationDto } from './dto/delegation.dto';
+
+@ApiTags('Delegations')
+@Controller('delegations')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class DelegationController {
+  constructor(private readonly delegationService: DelegationService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Delegate approvals to another user for a period',
+    description:
+      'Scoped to one or more modules and optionally a department. The delegate can act on approvals and is notified in place of the principal.',
+  })
+  @ApiResponse({ status: 201, description: 'Delegation registered' })
+  @ApiResponse({ status: 400, description: 'Invalid or overlapping period' })
+  create(
+    @Body(new ValidationPipe({ whitelist: true, transform: true }))
+    dto: CreateDelegationDto,
+    @Req() req: any,
+  ) {
+    return this.delegationService.create(dto, req.user.sub);
+  }
+
+  @Get('my-delegations')
+  @ApiOperation({
+    summary: 'Delegations given and received by the current user',
+  })
+  findMine(@Req() req: any) {
+    return this.delegationService.findMine(req.user.sub);
+  }
+
+  @Get()
+  @Roles('admin', 'super_admin')
+  @ApiOperation({ summary: 'List all delegations' })
+  @ApiQuery({ name: 'status', required: false })
+  @ApiQuery({ name: 'module', required: false })
+  @ApiQuery({ name: 'department', required: false })
+  findAll(
+    @Query('status') status?: string,
+    @Query('module') module?: string,
+    @Query('department') department?: string,
+  ) {
+    return this.delegationService.findAll({ status, module, department });
+  }
+
+  @Post(':id/revoke')
+  @ApiOperation({ summary: 'Revoke a delegation' })
+  @ApiResponse({ status: 200, description: 'Delegation revoked' })
+  revoke(@Param('id') id: string, @Req() req: any) {
+    return this.delegationService.revoke(id, req.user.sub);
+  }
+}
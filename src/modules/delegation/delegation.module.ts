@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Delegation, DelegationSchema } from './schemas/delegation.schema';
+import { DelegationService } from './delegation.service';
+import { DelegationController } from './delegation.controller';
+import { User, UserSchema } from '../auth/schemas/user.schema';
+import {
+  BudgetApproversConfig,
+  BudgetApproversConfigSchema,
+} from '../system-config/schemas/budget-approvers.schema';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Delegation.name, schema: DelegationSchema },
+      { name: User.name, schema: UserSchema },
+      { name: BudgetApproversConfig.name, schema: BudgetApproversConfigSchema },
+    ]),
+    NotificationsModule,
+  ],
+  controllers: [DelegationController],
+  providers: [DelegationService],
+  exports: [DelegationService],
+})
+export class DelegationModule {}
@@ -0,0 +1,459 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
+import {
+  Delegation,
+  DelegationDocument,
+  DelegationModuleName,
+  DelegationStatus,
+} from './schemas/delegation.schema';
+import { CreateDelegationDto } from './dto/delegation.dto';
+import { User, UserDocument } from '../auth/schemas/user.schema';
+import {
+  BudgetApproversConfig,
+  BudgetApproversConfigDocument,
+} from '../system-config/schemas/budget-approvers.schema';
+import { NotificationService } from '../notifications/services/notification.service';
+
+type Id = string | Types.ObjectId;
+
+export interface DelegationCriteria {
+  // The actor must hold one of these roles, directly or through a principal
+  roles?: string[];
+  // The actor must be one of these users, directly or through a principal
+  userIds?: Id[];
+  department?: string;
+}
+
+export interface ResolvedActor {
+  actor: UserDocument;
+  // Set when the actor is acting under a delegation
+  onBehalfOf?: UserDocument;
+}
+
+export const formatActingAs = (
+  actor: { firstName?: string; lastName?: string },
+  onBehalfOf?: { firstName?: string; lastName?: string },
+): string =>
+  onBehalfOf
+    ? `${actor.firstName} ${actor.lastName} on behalf of ${onBehalfOf.firstName} ${onBehalfOf.lastName}`
+    : `${actor.firstName} ${actor.lastName}`;
+
+@Injectable()
+export class DelegationService {
+  private readonly logger = new Logger(DelegationService.name);
+
+  constructor(
+    @InjectModel(Delegation.name)
+    private delegationModel: Model<DelegationDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectModel(BudgetApproversConfig.name)
+    private budgetApproversModel: Model<BudgetApproversConfigDocument>,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  async create(
+    dto: CreateDelegationDto,
+    userId: string,
+  ): Promise<DelegationDocument> {
+    const currentUser = await this.userModel.findById(userId);
+    if (!currentUser) {
+      throw new NotFoundException('User not found');
+    }
+
+    let principalId = userId;
+    if (dto.principalId && dto.principalId !== userId) {
+      if (!currentUser.roles?.includes('admin')) {
+        throw new ForbiddenException(
+          'Only admins can register delegations for other users',
+        );
+      }
+      principalId = dto.principalId;
+    }
+
+    const principal = await this.userModel.findById(principalId);
+    if (!principal) {
+      throw new NotFoundException('Principal not found');
+    }
+
+    const startDate = new Date(dto.startDate);
+    const endDate = new Date(dto.endDate);
+    if (endDate <= startDate) {
+      throw new BadRequestException('endDate must be after startDate');
+    }
+    if (endDate <= new Date()) {
+      throw new BadRequestException('endDate must be in the future');
+    }
+
+    let delegateId: Id = dto.delegateId;
+    if (!delegateId && dto.modules.includes('budgets')) {
+      delegateId = await this.getBudgetBackupApprover(principalId);
+    }
+    if (!delegateId) {
+      throw new BadRequestException(
+        'delegateId is required when no backup approver is configured',
+      );
+    }
+    if (delegateId.toString() === principalId.toString()) {
+      throw new BadRequestException('You cannot delegate to yourself');
+    }
+
+    const delegate = await this.userModel.findById(delegateId);
+    if (!delegate || delegate.status !== 'active') {
+      throw new BadRequestException('Delegate must be an active user');
+    }
+
+    const overlapping = await this.delegationModel.findOne({
+      principalId: new Types.ObjectId(principalId),
+      status: DelegationStatus.ACTIVE,
+      modules: { $in: dto.modules },
+      startDate: { $lt: endDate },
+      endDate: { $gt: startDate },
+      // A delegation without a department overlaps every scoped one
+      ...(dto.department && this.departmentFilter(dto.department)),
+    });
+    if (overlapping) {
+      throw new BadRequestException(
+        `An active delegation to another user already covers ${overlapping.modules.join(', ')} for this period`,
+      );
+    }
+
+    const delegation = await this.delegationModel.create({
+      principalId: new Types.ObjectId(principalId),
+      delegateId: new Types.ObjectId(delegateId),
+      modules: dto.modules,
+      department: dto.department,
+      startDate,
+      endDate,
+      reason: dto.reason,
+      createdBy: new Types.ObjectId(userId),
+    });
+
+    await this.notifyDelegationCreated(delegation, principal, delegate);
+
+    return delegation;
+  }
+
+  async findMine(userId: string) {
+    const id = new Types.ObjectId(userId);
+    const populate = [
+      { path: 'principalId', select: 'firstName lastName email department' },
+      { path: 'delegateId', select: 'firstName lastName email department' },
+    ];
+
+    const [given, received] = await Promise.all([
+      this.delegationModel
+        .find({ principalId: id })
+        .populate(populate)
+        .sort({ startDate: -1 }),
+      this.delegationModel
+        .find({ delegateId: id })
+        .populate(populate)
+        .sort({ startDate: -1 }),
+    ]);
+
+    return { given, received };
+  }
+
+  async findAll(filters: {
+    status?: string;
+    module?: string;
+    department?: string;
+  }): Promise<DelegationDocument[]> {
+    const query: FilterQuery<DelegationDocument> = {};
+    if (filters.status) query.status = filters.status;
+    if (filters.module) query.modules = filters.module;
+    if (filters.department) query.department = filters.department;
+
+    return this.delegationModel
+      .find(query)
+      .populate('principalId', 'firstName lastName email department')
+      .populate('delegateId', 'firstName lastName email department')
+      .sort({ startDate: -1 });
+  }
+
+  async revoke(id: string, userId: string): Promise<DelegationDocument> {
+    const delegation = await this.delegationModel.findById(id);
+    if (!delegation) {
+      throw new NotFoundException('Delegation not found');
+    }
+
+    const user = await this.userModel.findById(userId);
+    const isOwner =
+      delegation.principalId.toString() === userId ||
+      delegation.createdBy.toString() === userId;
+    if (!isOwner && !user?.roles?.includes('admin')) {
+      throw new ForbiddenException(
+        'Only the principal or an admin can revoke this delegation',
+      );
+    }
+
+    if (delegation.status === DelegationStatus.REVOKED) {
+      throw new BadRequestException('Delegation is already revoked');
+    }
+
+    delegation.status = DelegationStatus.REVOKED;
+    delegation.revokedBy = new Types.ObjectId(userId);
+    delegation.revokedAt = new Date();
+    return delegation.save();
+  }
+
+  /**
+   * Finds a principal the delegate is currently allowed to act for in
+   * `module` who satisfies `criteria`. Returns null when there is none.
+   */
+  async findPrincipal(
+    delegateId: Id,
+    module: DelegationModuleName,
+    criteria: DelegationCriteria = {},
+  ): Promise<UserDocument | null> {
+    const delegations = await this.delegationModel
+      .find({
+        ...this.activeFilter(module, criteria.department),
+        delegateId: new Types.ObjectId(delegateId),
+      })
+      .lean();
+
+    let principalIds = delegations.map((d) => d.principalId.toString());
+    if (criteria.userIds) {
+      const allowed = criteria.userIds.map((id) => id.toString());
+      principalIds = principalIds.filter((id) => allowed.includes(id));
+    }
+    if (!principalIds.length) {
+      return null;
+    }
+
+    const query: FilterQuery<UserDocument> = {
+      _id: { $in: principalIds.map((id) => new Types.ObjectId(id)) },
+    };
+    if (criteria.roles?.length) {
+      query.roles = { $in: criteria.roles };
+    }
+
+    return this.userModel.findOne(query);
+  }
+
+  /**
+   * Lists everyone who has currently delegated `module` to the user, with
+   * the department each delegation is limited to, if any.
+   */
+  async findPrincipals(
+    delegateId: Id,
+    module: DelegationModuleName,
+  ): Promise<{ principal: UserDocument; department?: string }[]> {
+    const now = new Date();
+    const delegations = await this.delegationModel
+      .find({
+        status: DelegationStatus.ACTIVE,
+        modules: module,
+        startDate: { $lte: now },
+        endDate: { $gte: now },
+        delegateId: new Types.ObjectId(delegateId),
+      })
+      .lean();
+    if (!delegations.length) {
+      return [];
+    }
+
+    const principals = await this.userModel.find({
+      _id: { $in: delegations.map((d) => d.principalId) },
+    });
+
+    return delegations
+      .map((delegation) => ({
+        principal: principals.find(
+          (p) => p._id.toString() === delegation.principalId.toString(),
+        ),
+        department: delegation.department || undefined,
+      }))
+      .filter(({ principal }) => principal);
+  }
+
+  /**
+   * Resolves who is acting: the user themselves when they satisfy
+   * `criteria`, otherwise a principal who delegated to them. Returns null
+   * when the user may not act at all.
+   */
+  async resolveActor(
+    userId: Id,
+    module: DelegationModuleName,
+    criteria: DelegationCriteria = {},
+  ): Promise<ResolvedActor | null> {
+    const actor = await this.userModel.findById(userId);
+    if (!actor) {
+      return null;
+    }
+
+    const hasRole =
+      !criteria.roles?.length ||
+      criteria.roles.some((role) => actor.roles?.includes(role));
+    const isListed =
+      !criteria.userIds ||
+      criteria.userIds.some((id) => id.toString() === userId.toString());
+    if (hasRole && isListed) {
+      return { actor };
+    }
+
+    const principal = await this.findPrincipal(userId, module, criteria);
+    if (!principal) {
+      return null;
+    }
+
+    this.logger.log(
+      `${actor.email} is acting for ${principal.email} in ${module}`,
+    );
+    return { actor, onBehalfOf: principal };
+  }
+
+  /**
+   * Replaces recipients who have delegated `module` with their delegates so
+   * notifications reach whoever is covering.
+   */
+  async substituteRecipients<T extends object>(
+    users: T[],
+    module: DelegationModuleName,
+    department?: string,
+  ): Promise<T[]> {
+    if (!users.length) {
+      return users;
+    }
+
+    const idOf = (user: T) => String((user as { _id?: unknown })._id);
+    const delegations = await this.delegationModel
+      .find({
+        ...this.activeFilter(module, department),
+        principalId: {
+          $in: users.map((u) => new Types.ObjectId(idOf(u))),
+        },
+      })
+      .lean();
+    if (!delegations.length) {
+      return users;
+    }
+
+    const delegates = await this.userModel
+      .find({
+        _id: { $in: delegations.map((d) => d.delegateId) },
+        status: 'active',
+      })
+      .lean();
+
+    const seen = new Set<string>();
+    const recipients: T[] = [];
+    for (const user of users) {
+      const delegation = delegations.find(
+        (d) => d.principalId.toString() === idOf(user),
+      );
+      const delegate = delegation
+        ? delegates.find(
+            (d) => d._id.toString() === delegation.delegateId.toString(),
+          )
+        : undefined;
+      const recipient = (delegate as unknown as T) || user;
+      const key = idOf(recipient);
+      if (!seen.has(key)) {
+        seen.add(key);
+        recipients.push(recipient);
+      }
+    }
+
+    return recipients;
+  }
+
+  private activeFilter(
+    module: DelegationModuleName,
+    department?: string,
+  ): FilterQuery<DelegationDocument> {
+    const now = new Date();
+    return {
+      status: DelegationStatus.ACTIVE,
+      modules: module,
+      startDate: { $lte: now },
+      endDate: { $gte: now },
+      ...this.departmentFilter(department),
+    };
+  }
+
+  // Department-scoped delegations only apply within their department
+  private departmentFilter(department?: string) {
+    return {
+      department: department
+        ? { $in: [null, '', department] }
+        : { $in: [null, ''] },
+    };
+  }
+
+  private async getBudgetBackupApprover(
+    principalId: Id,
+  ): Promise<string | undefined> {
+    const config = await this.budgetApproversModel
+      .findOne()
+      .sort({ updatedAt: -1 })
+      .lean();
+    if (!config) {
+      return undefined;
+    }
+
+    const entry = [
+      ...(config.checkers || []),
+      ...(config.approvers || []),
+      ...(config.financeApprovers || []),
+    ].find(
+      (approver) =>
+        approver.userId?.toString() === principalId.toString() &&
+        approver.backupApproverId,
+    );
+
+    return entry?.backupApproverId?.toString();
+  }
+
+  private async notifyDelegationCreated(
+    delegation: DelegationDocument,
+    principal: UserDocument,
+    delegate: UserDocument,
+  ): Promise<void> {
+    const period = `${delegation.startDate.toDateString()} to ${delegation.endDate.toDateString()}`;
+    const scope = `${delegation.modules.join(', ')}${delegation.department ? ` (${delegation.department} department)` : ''}`;
+
+    try {
+      await this.notificationService.sendEmail(
+        delegate.email,
+        'Approval Delegation Assigned',
+        `Dear ${delegate.firstName} ${delegate.lastName},
+
+${principal.firstName} ${principal.lastName} has delegated their approvals to you.
+
+Delegation Details:
+- Scope: ${scope}
+- Period: ${period}
+${delegation.reason ? `- Reason: ${delegation.reason}` : ''}
+
+Approvals you make during this period will be recorded as made on their behalf.
+
+Best regards,
+SRCC Finance Team`,
+      );
+
+      await this.notificationService.sendEmail(
+        principal.email,
+        'Approval Delegation Registered',
+        `Dear ${principal.firstName} ${principal.lastName},
+
+Your approvals for ${scope} will be handled by ${delegate.firstName} ${delegate.lastName} from ${period}.
+
+Best regards,
+SRCC Finance Team`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to send delegation notifications: ${error.message}`,
+      );
+    }
+  }
+}
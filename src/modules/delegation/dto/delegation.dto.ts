@@ -0,0 +1,62 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsDateString,
+  IsIn,
+  IsMongoId,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  DELEGATION_MODULES,
+  DelegationModuleName,
+} from '../schemas/delegation.schema';
+
+export class CreateDelegationDto {
+  @ApiProperty({
+    description:
+      'User to delegate to. For budgets it may be omitted to fall back to the configured backup approver.',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  delegateId?: string;
+
+  @ApiProperty({
+    description:
+      'Principal whose approvals are delegated. Admins only; defaults to the current user.',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  principalId?: string;
+
+  @ApiProperty({
+    enum: DELEGATION_MODULES,
+    isArray: true,
+    example: ['claims', 'imprest'],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(DELEGATION_MODULES, { each: true })
+  modules: DelegationModuleName[];
+
+  @ApiProperty({ required: false, example: 'SRCC' })
+  @IsOptional()
+  @IsString()
+  department?: string;
+
+  @ApiProperty({ example: '2026-11-01T00:00:00.000Z' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({ example: '2026-11-14T23:59:59.000Z' })
+  @IsDateString()
+  endDate: string;
+
+  @ApiProperty({ required: false, example: 'Annual leave' })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
@@ -0,0 +1,82 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export const DELEGATION_MODULES = [
+  'claims',
+  'imprest',
+  'budgets',
+  'contracts',
+  'invoices',
+  'payment_requests',
+] as const;
+
+export type DelegationModuleName = (typeof DELEGATION_MODULES)[number];
+
+export enum DelegationStatus {
+  ACTIVE = 'active',
+  REVOKED = 'revoked',
+}
+
+export type DelegationDocument = Delegation & Document;
+
+@Schema({ timestamps: true })
+export class Delegation {
+  @ApiProperty({ description: 'User whose approvals are being delegated' })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  principalId: Types.ObjectId;
+
+  @ApiProperty({ description: 'User acting on behalf of the principal' })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  delegateId: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Modules the delegation applies to',
+    enum: DELEGATION_MODULES,
+    isArray: true,
+  })
+  @Prop({ type: [String], enum: DELEGATION_MODULES, required: true })
+  modules: DelegationModuleName[];
+
+  @ApiProperty({
+    description: 'Limit the delegation to a single department',
+    required: false,
+  })
+  @Prop()
+  department?: string;
+
+  @ApiProperty({ description: 'Delegation start' })
+  @Prop({ required: true })
+  startDate: Date;
+
+  @ApiProperty({ description: 'Delegation end' })
+  @Prop({ required: true })
+  endDate: Date;
+
+  @ApiProperty({ example: 'Annual leave', required: false })
+  @Prop()
+  reason?: string;
+
+  @ApiProperty({ enum: DelegationStatus })
+  @Prop({
+    type: String,
+    enum: DelegationStatus,
+    default: DelegationStatus.ACTIVE,
+  })
+  status: string;
+
+  @ApiProperty({ description: 'User who registered the delegation' })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  createdBy: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  revokedBy?: Types.ObjectId;
+
+  @Prop()
+  revokedAt?: Date;
+}
+
+export const DelegationSchema = SchemaFactory.createForClass(Delegation);
+
+DelegationSchema.index({ delegateId: 1, status: 1, startDate: 1, endDate: 1 });
+DelegationSchema.index({ principalId: 1, status: 1, startDate: 1, endDate: 1 });
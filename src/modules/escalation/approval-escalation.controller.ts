@@ -0,0 +1,33 @@
+import { Controller, Post, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { ApprovalEscalationService } from './approval-escalation.service';
+
+@ApiTags('Approval Escalations')
+@Controller('approval-escalations')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class ApprovalEscalationController {
+  constructor(
+    private readonly approvalEscalationService: ApprovalEscalationService,
+  ) {}
+
+  @Post('run')
+  @Roles('admin', 'super_admin')
+  @ApiOperation({
+    summary: 'Run the overdue approval check now',
+    description:
+      'Runs hourly on a schedule. Policy is read from the approval_escalation_config system config.',
+  })
+  @ApiResponse({ status: 201, description: 'Reminders and escalations sent' })
+  run() {
+    return this.approvalEscalationService.run();
+  }
+}
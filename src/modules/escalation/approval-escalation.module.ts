@@ -0,0 +1,39 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ApprovalEscalationService } from './approval-escalation.service';
+import { ApprovalEscalationController } from './approval-escalation.controller';
+import { Claim, ClaimSchema } from '../claims/schemas/claim.schema';
+import { Contract, ContractSchema } from '../project/schemas/contract.schema';
+import { Budget, BudgetSchema } from '../project/schemas/budget.schema';
+import { Invoice, InvoiceSchema } from '../project/schemas/invoice.schema';
+import { Project, ProjectSchema } from '../project/schemas/project.schema';
+import {
+  PaymentRequest,
+  PaymentRequestSchema,
+} from '../payment-request/schemas/payment-request.schema';
+import { User, UserSchema } from '../auth/schemas/user.schema';
+import { SystemConfigModule } from '../system-config/system-config.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { DelegationModule } from '../delegation/delegation.module';
+import { ClaimsModule } from '../claims/claims.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Claim.name, schema: ClaimSchema },
+      { name: Contract.name, schema: ContractSchema },
+      { name: Budget.name, schema: BudgetSchema },
+      { name: Invoice.name, schema: InvoiceSchema },
+      { name: PaymentRequest.name, schema: PaymentRequestSchema },
+      { name: Project.name, schema: ProjectSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+    SystemConfigModule,
+    NotificationsModule,
+    DelegationModule,
+    ClaimsModule,
+  ],
+  controllers: [ApprovalEscalationController],
+  providers: [ApprovalEscalationService],
+})
+export class ApprovalEscalationModule {}
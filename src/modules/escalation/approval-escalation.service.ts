@@ -0,0 +1,368 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Model, UpdateQuery } from 'mongoose';
+import { Claim, ClaimDocument } from '../claims/schemas/claim.schema';
+import { ClaimsService } from '../claims/claims.service';
+import { Contract, ContractDocument } from '../project/schemas/contract.schema';
+import { Budget, BudgetDocument } from '../project/schemas/budget.schema';
+import { Invoice, InvoiceDocument } from '../project/schemas/invoice.schema';
+import { Project, ProjectDocument } from '../project/schemas/project.schema';
+import {
+  PaymentRequest,
+  PaymentRequestDocument,
+} from '../payment-request/schemas/payment-request.schema';
+import { User, UserDocument } from '../auth/schemas/user.schema';
+import { NotificationService } from '../notifications/services/notification.service';
+import { DelegationService } from '../delegation/delegation.service';
+import { DelegationModuleName } from '../delegation/schemas/delegation.schema';
+import { SystemConfigService } from '../system-config/services/system-config.service';
+import { ApprovalEscalationPolicy } from '../system-config/policies';
+import {
+  BUDGET_LEVEL_ROLES,
+  CONTRACT_LEVEL_ROLES,
+  DEPARTMENT_SCOPED_LEVELS,
+  INVOICE_LEVEL_ROLES,
+  PAYMENT_REQUEST_LEVEL_ROLES,
+} from '../approvals/approval-levels';
+
+interface EscalationTarget {
+  module: DelegationModuleName;
+  model: Model<any>;
+  pendingStatuses(): Promise<string[]>;
+  findApprovers(doc: any): Promise<UserDocument[]>;
+  describe(doc: any): string;
+}
+
+export interface EscalationRunSummary {
+  module: string;
+  reminded: number;
+  escalated: number;
+}
+
+@Injectable()
+export class ApprovalEscalationService {
+  private readonly logger = new Logger(ApprovalEscalationService.name);
+  private readonly targets: EscalationTarget[];
+  private running = false;
+
+  constructor(
+    @InjectModel(Claim.name) private claimModel: Model<ClaimDocument>,
+    @InjectModel(Contract.name) private contractModel: Model<ContractDocument>,
+    @InjectModel(Budget.name) private budgetModel: Model<BudgetDocument>,
+    @InjectModel(Invoice.name) private invoiceModel: Model<InvoiceDocument>,
+    @InjectModel(PaymentRequest.name)
+    private paymentRequestModel: Model<PaymentRequestDocument>,
+    @InjectModel(Project.name) private projectModel: Model<ProjectDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private readonly systemConfigService: SystemConfigService,
+    private readonly notificationService: NotificationService,
+    private readonly delegationService: DelegationService,
+    private readonly claimsService: ClaimsService,
+  ) {
+    this.targets = [
+      {
+        module: 'claims',
+        model: this.claimModel,
+        // Claim levels and their approvers come from the approval flows
+        pendingStatuses: () => this.claimsService.getPendingStatuses(),
+        findApprovers: (claim) =>
+          this.claimsService.findPendingApprovers(claim),
+        describe: (claim) =>
+          `Claim of ${claim.currency} ${claim.amount?.toLocaleString()}`,
+      },
+      this.levelTarget(
+        'contracts',
+        this.contractModel,
+        CONTRACT_LEVEL_ROLES,
+        (contract) => `Contract ${contract.contractNumber}`,
+      ),
+      this.levelTarget(
+        'budgets',
+        this.budgetModel,
+        BUDGET_LEVEL_ROLES,
+        (budget) => `Budget version ${budget.version}`,
+      ),
+      this.levelTarget(
+        'invoices',
+        this.invoiceModel,
+        INVOICE_LEVEL_ROLES,
+        (invoice) => `Invoice ${invoice.invoiceNumber}`,
+      ),
+      this.levelTarget(
+        'payment_requests',
+        this.paymentRequestModel,
+        PAYMENT_REQUEST_LEVEL_ROLES,
+        (request) =>
+          `Payment request of ${request.currency} ${request.amount?.toLocaleString()}`,
+      ),
+    ];
+  }
+
+  /**
+   * Modules whose levels map to a single role each. Department-scoped levels
+   * only go to role holders in the project's department.
+   */
+  private levelTarget(
+    module: DelegationModuleName,
+    model: Model<any>,
+    levelRoles: Record<string, string>,
+    describe: (doc: any) => string,
+  ): EscalationTarget {
+    const scoped = DEPARTMENT_SCOPED_LEVELS[module] || [];
+
+    return {
+      module,
+      model,
+      pendingStatuses: async () => Object.keys(levelRoles),
+      findApprovers: async (doc) => {
+        const project = doc.projectId
+          ? await this.projectModel
+              .findById(doc.projectId)
+              .select('department')
+              .lean()
+          : null;
+        return this.findUsers(
+          [levelRoles[doc.status]],
+          module,
+          project?.department,
+          scoped.includes(doc.status),
+        );
+      },
+      describe,
+    };
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async handleOverdueApprovals(): Promise<void> {
+    await this.run();
+  }
+
+  /**
+   * Once a level's deadline has passed, approvers are reminded every
+   * reminder interval and each reminder counts as a breach. The level
+   * deadline itself is left alone; the next reminder is tracked on `sla`.
+   * Once the breach count reaches the policy threshold the escalation role
+   * is notified too and the escalation is recorded on the document.
+   */
+  async run(): Promise<EscalationRunSummary[]> {
+    if (this.running) {
+      this.logger.warn('Escalation run already in progress, skipping');
+      return [];
+    }
+
+    this.running = true;
+    try {
+      const policy =
+        await this.systemConfigService.getApprovalEscalationPolicy();
+      if (!policy.enabled) {
+        return [];
+      }
+
+      const summaries: EscalationRunSummary[] = [];
+      for (const target of this.targets) {
+        if (!policy.modules.includes(target.module)) continue;
+        try {
+          summaries.push(await this.processTarget(target, policy));
+        } catch (error) {
+          this.logger.error(
+            `Escalation run failed for ${target.module}: ${error.message}`,
+          );
+        }
+      }
+      return summaries;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async processTarget(
+    target: EscalationTarget,
+    policy: ApprovalEscalationPolicy,
+  ): Promise<EscalationRunSummary> {
+    const now = new Date();
+    const summary = { module: target.module, reminded: 0, escalated: 0 };
+
+    const overdue = await target.model
+      .find({
+        status: { $in: await target.pendingStatuses() },
+        currentLevelDeadline: { $lte: now },
+        $or: [
+          { 'sla.nextReminderAt': { $lte: now } },
+          // Not yet reminded at this level
+          {
+            $expr: {
+              $or: [
+                { $ne: ['$sla.status', '$status'] },
+                { $ne: ['$sla.deadline', '$currentLevelDeadline'] },
+              ],
+            },
+          },
+        ],
+      })
+      .lean();
+
+    for (const doc of overdue) {
+      const sameLevel =
+        doc.sla?.status === doc.status &&
+        new Date(doc.sla.deadline).getTime() ===
+          new Date(doc.currentLevelDeadline).getTime();
+      const breaches = (sameLevel ? doc.sla.breaches || 0 : 0) + 1;
+      const shouldEscalate = breaches >= policy.escalateAfterBreaches;
+
+      const approvers = await target.findApprovers(doc);
+      const escalationUsers = shouldEscalate
+        ? await this.findUsers([policy.escalationRole], target.module)
+        : [];
+
+      const update: UpdateQuery<any> = {
+        sla: {
+          status: doc.status,
+          breaches,
+          lastReminderAt: now,
+          deadline: doc.currentLevelDeadline,
+          nextReminderAt: new Date(
+            now.getTime() + policy.reminderIntervalHours * 60 * 60 * 1000,
+          ),
+        },
+      };
+      if (shouldEscalate) {
+        update.$push = {
+          escalations: {
+            status: doc.status,
+            deadline: doc.currentLevelDeadline,
+            breaches,
+            escalationRole: policy.escalationRole,
+            notifiedUsers: escalationUsers.map((u) => u._id),
+            escalatedAt: now,
+          },
+        };
+      }
+
+      // Matching on the last reminder keeps a breach from being counted twice
+      const result = await target.model.updateOne(
+        {
+          _id: doc._id,
+          status: doc.status,
+          currentLevelDeadline: doc.currentLevelDeadline,
+          'sla.lastReminderAt': doc.sla?.lastReminderAt ?? { $exists: false },
+        },
+        update,
+      );
+      if (!result.modifiedCount) continue;
+
+      const description = target.describe(doc);
+      await this.sendReminders(approvers, description, doc, breaches);
+      summary.reminded++;
+
+      if (shouldEscalate) {
+        await this.sendEscalations(
+          escalationUsers,
+          description,
+          doc,
+          breaches,
+          approvers,
+        );
+        summary.escalated++;
+      }
+    }
+
+    if (summary.reminded) {
+      this.logger.log(
+        `${target.module}: reminded ${summary.reminded}, escalated ${summary.escalated}`,
+      );
+    }
+    return summary;
+  }
+
+  private async findUsers(
+    roles: string[],
+    module: DelegationModuleName,
+    department?: string,
+    sameDepartment = false,
+  ): Promise<UserDocument[]> {
+    const users = await this.userModel.find({
+      roles: { $in: roles.filter(Boolean) },
+      status: 'active',
+      ...(sameDepartment && department && { department }),
+    });
+    return this.delegationService.substituteRecipients(
+      users,
+      module,
+      department,
+    );
+  }
+
+  private async sendReminders(
+    approvers: UserDocument[],
+    description: string,
+    doc: any,
+    breaches: number,
+  ): Promise<void> {
+    for (const approver of approvers) {
+      try {
+        await this.notificationService.sendEmail(
+          approver.email,
+          `Reminder: ${description} is awaiting your approval`,
+          `Dear ${approver.firstName} ${approver.lastName},
+
+${description} has been waiting at the ${this.formatStatus(doc.status)} stage past its deadline of ${new Date(doc.currentLevelDeadline).toLocaleString()}.
+
+Missed deadlines at this stage: ${breaches}
+
+Please log in to the SRCC Portal to review and take action.
+
+Best regards,
+SRCC Finance Team`,
+        );
+      } catch (error) {
+        this.logger.error(
+          `Failed to send reminder to ${approver.email}: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  private async sendEscalations(
+    recipients: UserDocument[],
+    description: string,
+    doc: any,
+    breaches: number,
+    approvers: UserDocument[],
+  ): Promise<void> {
+    const approverNames = approvers.length
+      ? approvers.map((a) => `${a.firstName} ${a.lastName}`).join(', ')
+      : 'None found';
+
+    for (const recipient of recipients) {
+      try {
+        await this.notificationService.sendEmail(
+          recipient.email,
+          `Escalation: ${description} is overdue for approval`,
+          `Dear ${recipient.firstName} ${recipient.lastName},
+
+${description} has missed ${breaches} approval deadlines at the ${this.formatStatus(doc.status)} stage and has been escalated to you.
+
+Current approvers: ${approverNames}
+
+Please follow up or take action in the SRCC Portal.
+
+Best regards,
+SRCC Finance Team`,
+        );
+      } catch (error) {
+        this.logger.error(
+          `Failed to send escalation to ${recipient.email}: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  private formatStatus(status: string): string {
+    return status
+      .replace(/^pending_/, '')
+      .split('_')
+      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+  }
+}
@@ -0,0 +1,60 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Schema as MongooseSchema } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+@Schema({ _id: false })
+export class ApprovalSla {
+  @ApiProperty({ description: 'Approval status the breach count applies to' })
+  @Prop({ required: true })
+  status: string;
+
+  @ApiProperty({ description: 'Deadlines missed at this approval level' })
+  @Prop({ default: 0 })
+  breaches: number;
+
+  @ApiProperty({ description: 'When approvers were last reminded' })
+  @Prop()
+  lastReminderAt?: Date;
+
+  // Level deadline the count applies to; a workflow setting a different one
+  // means the level was re-entered and the count starts over
+  @ApiProperty({ description: 'Level deadline the breaches were counted on' })
+  @Prop()
+  deadline?: Date;
+
+  @ApiProperty({ description: 'When approvers are next reminded' })
+  @Prop()
+  nextReminderAt?: Date;
+}
+
+export const ApprovalSlaSchema = SchemaFactory.createForClass(ApprovalSla);
+
+@Schema({ _id: false })
+export class ApprovalEscalation {
+  @ApiProperty({ description: 'Approval status that was escalated' })
+  @Prop({ required: true })
+  status: string;
+
+  @ApiProperty({ description: 'Deadline that was missed' })
+  @Prop()
+  deadline?: Date;
+
+  @ApiProperty({ description: 'Breach count at the time of escalation' })
+  @Prop({ required: true })
+  breaches: number;
+
+  @ApiProperty({ description: 'Role the approval was escalated to' })
+  @Prop({ required: true })
+  escalationRole: string;
+
+  @ApiProperty({ description: 'Users notified of the escalation' })
+  @Prop({ type: [{ type: MongooseSchema.Types.ObjectId, ref: 'User' }] })
+  notifiedUsers: MongooseSchema.Types.ObjectId[];
+
+  @ApiProperty({ description: 'When the escalation happened' })
+  @Prop({ default: Date.now })
+  escalatedAt: Date;
+}
+
+export const ApprovalEscalationSchema =
+  SchemaFactory.createForClass(ApprovalEscalation);
@@ -6,7 +6,95 @@ import {
   Min,
   IsNotEmpty,
   IsOptional,
+  IsIn,
+  ValidateNested,
+  IsInt,
+  IsDateString,
+  IsArray,
 } from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  TRAVEL_TRANSPORT_MODES,
+  TravelTransportMode,
+} from '../../system-config/policies';
+
+export class TravelLegDto {
+  @ApiProperty({ example: 'Nairobi' })
+  @IsString()
+  @IsNotEmpty()
+  from: string;
+
+  @ApiProperty({ example: 'Mombasa' })
+  @IsString()
+  @IsNotEmpty()
+  to: string;
+
+  @ApiProperty({ example: '2025-03-10' })
+  @IsDateString()
+  departureDate: string;
+
+  @ApiProperty({ example: 3, description: 'Nights spent at the destination' })
+  @IsInt()
+  @Min(0)
+  nights: number;
+
+  @ApiProperty({
+    example: 'major_city',
+    description: 'Destination class from the per-diem rate table',
+  })
+  @IsString()
+  @IsNotEmpty()
+  destinationClass: string;
+
+  @ApiProperty({ enum: TRAVEL_TRANSPORT_MODES, example: 'road' })
+  @IsIn(TRAVEL_TRANSPORT_MODES)
+  transportMode: TravelTransportMode;
+
+  @ApiProperty({
+    example: 4500,
+    description: 'Quoted fare, used when the mode has no configured rate',
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  transportCost?: number;
+}
+
+export class TravelEntitlementPreviewDto {
+  @ApiProperty({ example: 'KES' })
+  @IsString()
+  @IsNotEmpty()
+  currency: string;
+
+  @ApiProperty({ type: [TravelLegDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TravelLegDto)
+  itinerary: TravelLegDto[];
+}
+
+export class ImprestBudgetLineDto {
+  @ApiProperty({ enum: ['internal', 'external'], example: 'internal' })
+  @IsIn(['internal', 'external'])
+  budgetType: 'internal' | 'external';
+
+  @ApiProperty({
+    example: 'Human Resources',
+    description: 'Budget category the imprest is charged to',
+  })
+  @IsString()
+  @IsNotEmpty()
+  categoryName: string;
+
+  @ApiProperty({
+    example: 'Field Allowances',
+    description: 'Budget item within the category',
+  })
+  @IsString()
+  @IsNotEmpty()
+  itemName: string;
+}
 
 export class CreateImprestDto {
   @ApiProperty({
@@ -72,4 +160,26 @@ export class CreateImprestDto {
   @IsOptional()
   @IsString()
   projectId?: string;
+
+  @ApiProperty({
+    description:
+      "Line of the project's approved budget to charge; required with projectId",
+    type: ImprestBudgetLineDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ImprestBudgetLineDto)
+  budgetLine?: ImprestBudgetLineDto;
+
+  @ApiProperty({
+    description: 'Travel itinerary; required for Travel Cash',
+    type: [TravelLegDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TravelLegDto)
+  itinerary?: TravelLegDto[];
 }
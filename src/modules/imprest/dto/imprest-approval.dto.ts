@@ -67,6 +67,23 @@ export class ReceiptDto {
   })
   @IsString()
   receiptUrl: string;
+
+  @ApiProperty({
+    example: '265',
+    description: 'Budget object code the expense is charged to',
+  })
+  @IsString()
+  objectCode: string;
+
+  @ApiProperty({
+    example: 'SR',
+    description:
+      'Chart of accounts holding the object code, searched across all charts if omitted',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  chartCode?: string;
 }
 
 export class ImprestAccountingDto {
@@ -104,6 +121,15 @@ export class ImprestAcknowledgmentDto {
   @IsOptional()
   @IsString()
   comments?: string;
+
+  @ApiProperty({
+    description: 'Evidence file URLs when reporting the money as not received',
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ each: true })
+  attachmentUrls?: string[];
 }
 
 export class ImprestDisputeResolutionDto {
@@ -124,6 +150,15 @@ export class ImprestDisputeResolutionDto {
   @IsOptional()
   @IsString()
   adminComments?: string;
+
+  @ApiProperty({
+    description: 'Evidence file URLs, e.g. proof of re-disbursement',
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ each: true })
+  attachmentUrls?: string[];
 }
 
 export class ImprestRevisionDto {
@@ -143,3 +178,28 @@ export class ImprestAccountingRevisionDto {
   @IsString()
   reason: string;
 }
+
+export class ImprestCashReturnAcknowledgementDto {
+  @ApiProperty({
+    example: 'Cash',
+    description: 'How the money was returned',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  method?: string;
+
+  @ApiProperty({
+    example: 'RCT-00123',
+    description: 'Receipt or transaction reference',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  reference?: string;
+
+  @ApiProperty({ required: false, example: 'Full balance returned' })
+  @IsString()
+  @IsOptional()
+  comments?: string;
+}
@@ -0,0 +1,35 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsMongoId, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class ImprestDisputeMessageDto {
+  @ApiProperty({
+    example: 'Attached is the M-Pesa statement showing no deposit',
+  })
+  @IsString()
+  @IsNotEmpty()
+  message: string;
+
+  @ApiProperty({
+    description: 'Evidence file URLs from Cloudinary',
+    type: [String],
+    required: false,
+    example: ['https://res.cloudinary.com/...'],
+  })
+  @IsOptional()
+  @IsString({ each: true })
+  attachmentUrls?: string[];
+}
+
+export class AssignImprestDisputeDto {
+  @ApiProperty({
+    description: 'Admin or accountant who will resolve the dispute',
+    example: '65f1234567890abcdef12345',
+  })
+  @IsMongoId()
+  resolverId: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  comments?: string;
+}
@@ -0,0 +1,34 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+
+export class CreateImprestPolicyOverrideDto {
+  @ApiProperty({
+    description: 'User allowed to submit one request outside the policy',
+    example: '65f1234567890abcdef12345',
+  })
+  @IsMongoId()
+  userId: string;
+
+  @ApiProperty({
+    description: 'Reason for the override',
+    example: 'Field trip approved by the Director',
+  })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+
+  @ApiProperty({
+    description: 'Date after which the override can no longer be used',
+    required: false,
+    example: '2025-01-31',
+  })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
@@ -0,0 +1,33 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+
+export class ConfirmImprestRecoveryDto {
+  @ApiProperty({
+    description: 'Payroll run or deduction reference',
+    example: 'PAYROLL-2025-03',
+  })
+  @IsString()
+  @IsNotEmpty()
+  payrollReference: string;
+
+  @ApiProperty({
+    description: 'Amount deducted, defaults to the full recovery amount',
+    required: false,
+    example: 15000,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  recoveredAmount?: number;
+
+  @ApiProperty({ required: false, example: 'Deducted in March payroll' })
+  @IsOptional()
+  @IsString()
+  comments?: string;
+}
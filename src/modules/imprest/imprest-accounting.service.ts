@@ -0,0 +1,339 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Imprest, ImprestDocument } from './schemas/imprest.schema';
+import {
+  ImprestCashReturn,
+  ImprestCashReturnDocument,
+} from './schemas/imprest-cash-return.schema';
+import { ImprestCashReturnAcknowledgementDto } from './dto/imprest-approval.dto';
+import {
+  PaymentVoucher,
+  PaymentVoucherDocument,
+  PaymentVoucherStatus,
+} from '../payment-request/schemas/payment-voucher.schema';
+import { User, UserDocument } from '../auth/schemas/user.schema';
+import { NotificationService } from '../notifications/services/notification.service';
+import { ChartsOfAccountsService } from '../system-config/services/charts-of-accounts.service';
+import { NumberingService } from '../numbering/numbering.service';
+
+type AccountingLine = Imprest['accounting']['receipts'][number];
+type Settlement = Imprest['accounting']['settlement'];
+
+export interface ImprestSettlementSummary {
+  // Disbursed minus spent, as submitted in the accounting
+  balance: number;
+  cashReturned: number;
+  reimbursed: number;
+  // Still to be returned (positive) or reimbursed (negative)
+  outstanding: number;
+  cashReturns: ImprestCashReturnDocument[];
+  vouchers: PaymentVoucherDocument[];
+}
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Codes accounting lines to budget object codes and settles whatever the
+ * accounting leaves over: unspent cash is returned to finance and overspend
+ * is reimbursed through a payment voucher.
+ */
+@Injectable()
+export class ImprestAccountingService {
+  private readonly logger = new Logger(ImprestAccountingService.name);
+
+  constructor(
+    @InjectModel(ImprestCashReturn.name)
+    private cashReturnModel: Model<ImprestCashReturnDocument>,
+    @InjectModel(PaymentVoucher.name)
+    private paymentVoucherModel: Model<PaymentVoucherDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private readonly notificationService: NotificationService,
+    private readonly chartsOfAccountsService: ChartsOfAccountsService,
+    private readonly numberingService: NumberingService,
+  ) {}
+
+  // Fills in each line's object code name, rejecting codes not in the charts
+  async codeLines(lines: AccountingLine[]): Promise<AccountingLine[]> {
+    const charts = await this.chartsOfAccountsService.findAll();
+
+    return lines.map((line, index) => {
+      if (!line.objectCode) {
+        throw new BadRequestException(
+          `Receipt ${index + 1} must be charged to an object code`,
+        );
+      }
+
+      const candidates = line.chartCode
+        ? charts.filter((c) => c.chartCode === line.chartCode)
+        : charts;
+      for (const chart of candidates) {
+        const code = chart.data?.objectCodes?.find(
+          (c) => c.objectCode === line.objectCode,
+        );
+        if (code) {
+          return {
+            ...line,
+            chartCode: chart.chartCode,
+            objectCodeName: code.objectCodeName,
+          };
+        }
+      }
+
+      throw new BadRequestException(
+        `Receipt ${index + 1}: object code ${line.objectCode} not found${line.chartCode ? ` in chart ${line.chartCode}` : ''}`,
+      );
+    });
+  }
+
+  async getSettlement(
+    imprest: ImprestDocument,
+  ): Promise<ImprestSettlementSummary> {
+    const [cashReturns, vouchers] = await Promise.all([
+      this.cashReturnModel
+        .find({ imprestId: imprest._id })
+        .sort({ createdAt: -1 }),
+      this.paymentVoucherModel
+        .find({ imprestId: imprest._id })
+        .sort({ createdAt: -1 }),
+    ]);
+
+    const balance = imprest.accounting?.balance ?? 0;
+    const cashReturned = round(
+      cashReturns
+        .filter((r) => r.status === 'received')
+        .reduce((sum, r) => sum + r.amount, 0),
+    );
+    const reimbursed = round(
+      vouchers
+        .filter((v) => v.status === PaymentVoucherStatus.PAID)
+        .reduce((sum, v) => sum + v.amount, 0),
+    );
+
+    return {
+      balance,
+      cashReturned,
+      reimbursed,
+      outstanding: round(balance - cashReturned + reimbursed),
+      cashReturns,
+      vouchers,
+    };
+  }
+
+  /**
+   * Replaces any unsettled cash return or voucher from an earlier submission
+   * with one for the balance still left after this submission.
+   */
+  async openSettlement(
+    imprest: ImprestDocument,
+    userId: string,
+  ): Promise<Settlement | undefined> {
+    await this.cashReturnModel.updateMany(
+      { imprestId: imprest._id, status: 'pending' },
+      { status: 'cancelled' },
+    );
+    await this.paymentVoucherModel.updateMany(
+      {
+        imprestId: imprest._id,
+        status: {
+          $in: [
+            PaymentVoucherStatus.PENDING_FINANCE_APPROVAL,
+            PaymentVoucherStatus.REVISION_REQUESTED,
+          ],
+        },
+      },
+      {
+        status: PaymentVoucherStatus.REJECTED,
+        rejection: {
+          rejectedBy: new Types.ObjectId(userId),
+          rejectedAt: new Date(),
+          reason: 'Superseded by resubmitted imprest accounting',
+        },
+      },
+    );
+
+    const { outstanding, vouchers } = await this.getSettlement(imprest);
+    // Approved vouchers are already on their way to being paid
+    const approved = vouchers
+      .filter((v) => v.status === PaymentVoucherStatus.APPROVED)
+      .reduce((sum, v) => sum + v.amount, 0);
+    const remaining = round(outstanding + approved);
+
+    if (remaining > 0) {
+      const cashReturn = await this.cashReturnModel.create({
+        imprestId: imprest._id,
+        employeeId: imprest.requestedBy,
+        currency: imprest.currency,
+        amount: remaining,
+      });
+      await this.notifyCashReturn(imprest, remaining);
+      return {
+        kind: 'cash_return',
+        amount: remaining,
+        cashReturnId: cashReturn._id as Types.ObjectId,
+      };
+    }
+
+    if (remaining < 0) {
+      const amount = -remaining;
+      const voucher = await this.paymentVoucherModel.create({
+        voucherNo: await this.numberingService.next('payment_voucher', {
+          department: imprest.department,
+        }),
+        imprestId: imprest._id,
+        payeeId: imprest.requestedBy,
+        amount,
+        description: `Imprest overspend reimbursement for ${imprest.employeeName}: ${imprest.paymentReason}`,
+        preparedBy: new Types.ObjectId(userId),
+        status: PaymentVoucherStatus.PENDING_FINANCE_APPROVAL,
+        auditTrail: [
+          {
+            actionBy: new Types.ObjectId(userId),
+            action: 'Created Voucher',
+            actionAt: new Date(),
+            comments: 'Generated from imprest accounting overspend',
+          },
+        ],
+      });
+      await this.notifyReimbursement(imprest, voucher);
+      return {
+        kind: 'reimbursement',
+        amount,
+        voucherId: voucher._id as Types.ObjectId,
+      };
+    }
+
+    return undefined;
+  }
+
+  async assertSettled(imprest: ImprestDocument): Promise<void> {
+    const { outstanding } = await this.getSettlement(imprest);
+    if (outstanding > 0) {
+      throw new BadRequestException(
+        `Imprest cannot be closed until the unspent ${imprest.currency} ${outstanding.toFixed(2)} has been returned`,
+      );
+    }
+    if (outstanding < 0) {
+      throw new BadRequestException(
+        `Imprest cannot be closed until the overspend of ${imprest.currency} ${(-outstanding).toFixed(2)} has been reimbursed`,
+      );
+    }
+  }
+
+  async acknowledgeCashReturn(
+    imprest: ImprestDocument,
+    userId: string,
+    dto: ImprestCashReturnAcknowledgementDto,
+  ): Promise<ImprestCashReturnDocument> {
+    const user = await this.userModel.findById(userId);
+    if (!user || !user.roles.includes('accountant')) {
+      throw new BadRequestException('User is not an accountant');
+    }
+
+    const cashReturn = await this.cashReturnModel.findOneAndUpdate(
+      { imprestId: imprest._id, status: 'pending' },
+      {
+        status: 'received',
+        acknowledgement: {
+          receivedBy: new Types.ObjectId(userId),
+          receivedAt: new Date(),
+          method: dto.method,
+          reference: dto.reference,
+          comments: dto.comments,
+        },
+      },
+      { new: true },
+    );
+    if (!cashReturn) {
+      throw new NotFoundException('No pending cash return for this imprest');
+    }
+
+    const requester = await this.userModel.findById(imprest.requestedBy);
+    if (requester) {
+      await this.notificationService.sendEmail(
+        requester.email,
+        'Imprest Cash Return Received',
+        `Dear ${imprest.employeeName},
+
+Finance has received your returned imprest balance of ${cashReturn.currency} ${cashReturn.amount.toFixed(2)}.${dto.reference ? `\n\nReference: ${dto.reference}` : ''}
+
+Best regards,
+SRCC Finance Team`,
+      );
+    }
+    return cashReturn;
+  }
+
+  async notifyReimbursementPaid(
+    imprest: ImprestDocument,
+    voucher: PaymentVoucherDocument,
+  ): Promise<void> {
+    const requester = await this.userModel.findById(imprest.requestedBy);
+    if (!requester) return;
+
+    await this.notificationService.sendEmail(
+      requester.email,
+      'Imprest Overspend Reimbursed',
+      `Dear ${imprest.employeeName},
+
+Finance has paid your imprest overspend reimbursement of ${imprest.currency} ${voucher.amount.toFixed(2)} under voucher ${voucher.voucherNo}.${voucher.payment?.reference ? `\n\nReference: ${voucher.payment.reference}` : ''}
+
+Best regards,
+SRCC Finance Team`,
+    );
+  }
+
+  private async notifyCashReturn(
+    imprest: ImprestDocument,
+    amount: number,
+  ): Promise<void> {
+    const requester = await this.userModel.findById(imprest.requestedBy);
+    if (!requester) return;
+
+    await this.notificationService.sendEmail(
+      requester.email,
+      'Imprest Balance To Be Returned',
+      `Dear ${imprest.employeeName},
+
+Your imprest accounting shows an unspent balance of ${imprest.currency} ${amount.toFixed(2)}.
+
+Please return this amount to the Finance office. Your imprest will be closed once the accountant acknowledges receipt.
+
+Best regards,
+SRCC Finance Team`,
+    );
+  }
+
+  private async notifyReimbursement(
+    imprest: ImprestDocument,
+    voucher: PaymentVoucherDocument,
+  ): Promise<void> {
+    const approvers = await this.userModel.find({
+      roles: { $in: ['srcc_finance'] },
+      status: 'active',
+    });
+    for (const approver of approvers) {
+      try {
+        await this.notificationService.sendEmail(
+          approver.email,
+          'Payment Voucher Pending Approval',
+          `Dear ${approver.firstName} ${approver.lastName},
+
+Payment voucher ${voucher.voucherNo} for ${imprest.currency} ${voucher.amount.toFixed(2)} has been generated to reimburse ${imprest.employeeName} for imprest overspend and requires your approval.
+
+Best regards,
+SRCC Finance Team`,
+        );
+      } catch (error) {
+        this.logger.error(
+          `Failed to notify ${approver.email} of voucher ${voucher.voucherNo}: ${error.message}`,
+        );
+      }
+    }
+  }
+}
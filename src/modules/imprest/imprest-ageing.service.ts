@@ -0,0 +1,288 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Workbook } from 'exceljs';
+import { Imprest, ImprestDocument } from './schemas/imprest.schema';
+
+// Disbursed and not yet accounted for
+const UNACCOUNTED_STATUSES = [
+  'pending_acknowledgment',
+  'disbursed',
+  'resolved_dispute',
+  'overdue',
+  'pending_accounting_approval',
+];
+
+export const IMPREST_AGEING_BUCKETS = [
+  { key: 'current', label: 'Not yet due', maxDays: -1 },
+  { key: 'days_0_3', label: '0-3 days', maxDays: 3 },
+  { key: 'days_4_7', label: '4-7 days', maxDays: 7 },
+  { key: 'days_8_30', label: '8-30 days', maxDays: 30 },
+  { key: 'over_30', label: 'Over 30 days', maxDays: Infinity },
+] as const;
+
+export type ImprestAgeingBucket =
+  (typeof IMPREST_AGEING_BUCKETS)[number]['key'];
+
+// Outstanding amount per bucket, plus `total`, keyed by currency
+export type ImprestAgeingTotals = Record<
+  string,
+  Record<ImprestAgeingBucket | 'total', number>
+>;
+
+export interface ImprestAgeingLine {
+  imprestId: string;
+  paymentReason: string;
+  status: string;
+  currency: string;
+  amount: number;
+  dueDate: string;
+  daysPastDue: number;
+  bucket: ImprestAgeingBucket;
+}
+
+export interface ImprestAgeingEmployee {
+  employeeId: string;
+  employeeName: string;
+  totals: ImprestAgeingTotals;
+  imprests: ImprestAgeingLine[];
+}
+
+export interface ImprestAgeingDepartment {
+  department: string;
+  totals: ImprestAgeingTotals;
+  employees: ImprestAgeingEmployee[];
+}
+
+export interface ImprestAgeingReport {
+  asOf: Date;
+  totals: ImprestAgeingTotals;
+  departments: ImprestAgeingDepartment[];
+}
+
+export interface ImprestAgeingExport {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+const csvValue = (value: unknown): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Outstanding imprest grouped by department and employee, bucketed by how
+ * far past the due date the accounting is.
+ */
+@Injectable()
+export class ImprestAgeingService {
+  constructor(
+    @InjectModel(Imprest.name) private imprestModel: Model<ImprestDocument>,
+  ) {}
+
+  async getReport(
+    filters: { asOf?: Date; department?: string } = {},
+  ): Promise<ImprestAgeingReport> {
+    const asOf = filters.asOf || new Date();
+    const imprests = await this.imprestModel
+      .find({
+        status: { $in: UNACCOUNTED_STATUSES },
+        ...(filters.department && { department: filters.department }),
+      })
+      .sort({ department: 1, employeeName: 1, dueDate: 1 })
+      .lean();
+
+    const report: ImprestAgeingReport = { asOf, totals: {}, departments: [] };
+    for (const imprest of imprests) {
+      const line = this.toLine(imprest, asOf);
+      const departmentName = imprest.department || 'Unassigned';
+      const employeeId = String(imprest.requestedBy);
+
+      let department = report.departments.find(
+        (d) => d.department === departmentName,
+      );
+      if (!department) {
+        department = { department: departmentName, totals: {}, employees: [] };
+        report.departments.push(department);
+      }
+      let employee = department.employees.find(
+        (e) => e.employeeId === employeeId,
+      );
+      if (!employee) {
+        employee = {
+          employeeId,
+          employeeName: imprest.employeeName,
+          totals: {},
+          imprests: [],
+        };
+        department.employees.push(employee);
+      }
+
+      employee.imprests.push(line);
+      for (const totals of [
+        report.totals,
+        department.totals,
+        employee.totals,
+      ]) {
+        this.addTo(totals, line);
+      }
+    }
+
+    return report;
+  }
+
+  async export(
+    format: 'csv' | 'xlsx',
+    filters: { asOf?: Date; department?: string } = {},
+  ): Promise<ImprestAgeingExport> {
+    const report = await this.getReport(filters);
+    const date = report.asOf.toISOString().split('T')[0];
+    const summary = this.summaryRows(report);
+
+    if (format === 'csv') {
+      const lines = summary.map((values) => values.map(csvValue).join(','));
+      return {
+        filename: `imprest-ageing-${date}.csv`,
+        contentType: 'text/csv',
+        content: Buffer.from(`${lines.join('\r\n')}\r\n`, 'utf8'),
+      };
+    }
+
+    const workbook = new Workbook();
+    const summarySheet = workbook.addWorksheet('Ageing');
+    summarySheet.addRows(summary);
+    summarySheet.getRow(1).font = { bold: true };
+
+    const detailSheet = workbook.addWorksheet('Imprests');
+    detailSheet.addRows(this.detailRows(report));
+    detailSheet.getRow(1).font = { bold: true };
+
+    for (const sheet of [summarySheet, detailSheet]) {
+      sheet.columns.forEach((column) => (column.width = 18));
+    }
+
+    return {
+      filename: `imprest-ageing-${date}.xlsx`,
+      contentType:
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      content: Buffer.from(await workbook.xlsx.writeBuffer()),
+    };
+  }
+
+  private toLine(
+    imprest: Imprest & { _id: unknown },
+    asOf: Date,
+  ): ImprestAgeingLine {
+    const amount = imprest.disbursement?.amount ?? imprest.amount;
+    const daysPastDue = Math.floor(
+      (asOf.getTime() - new Date(imprest.dueDate).getTime()) / DAY_MS,
+    );
+    const bucket = IMPREST_AGEING_BUCKETS.find(
+      (b) => daysPastDue <= b.maxDays,
+    ).key;
+
+    return {
+      imprestId: String(imprest._id),
+      paymentReason: imprest.paymentReason,
+      status: imprest.status,
+      currency: imprest.currency,
+      amount,
+      dueDate: imprest.dueDate,
+      daysPastDue,
+      bucket,
+    };
+  }
+
+  private addTo(totals: ImprestAgeingTotals, line: ImprestAgeingLine): void {
+    if (!totals[line.currency]) {
+      totals[line.currency] = Object.fromEntries(
+        [...IMPREST_AGEING_BUCKETS.map((b) => b.key), 'total'].map((key) => [
+          key,
+          0,
+        ]),
+      ) as ImprestAgeingTotals[string];
+    }
+    const currency = totals[line.currency];
+    currency[line.bucket] = round(currency[line.bucket] + line.amount);
+    currency.total = round(currency.total + line.amount);
+  }
+
+  // One row per employee and currency, then department and overall totals
+  private summaryRows(report: ImprestAgeingReport): unknown[][] {
+    const totalsRows = (
+      department: string,
+      employee: string,
+      totals: ImprestAgeingTotals,
+    ) =>
+      Object.entries(totals).map(([currency, amounts]) => [
+        department,
+        employee,
+        currency,
+        ...IMPREST_AGEING_BUCKETS.map((b) => amounts[b.key]),
+        amounts.total,
+      ]);
+
+    return [
+      [
+        'Department',
+        'Employee',
+        'Currency',
+        ...IMPREST_AGEING_BUCKETS.map((b) => b.label),
+        'Total',
+      ],
+      ...report.departments.flatMap((department) => [
+        ...department.employees.flatMap((employee) =>
+          totalsRows(
+            department.department,
+            employee.employeeName,
+            employee.totals,
+          ),
+        ),
+        ...totalsRows(
+          department.department,
+          'Department total',
+          department.totals,
+        ),
+      ]),
+      ...totalsRows('All departments', 'Grand total', report.totals),
+    ];
+  }
+
+  private detailRows(report: ImprestAgeingReport): unknown[][] {
+    return [
+      [
+        'Department',
+        'Employee',
+        'Imprest ID',
+        'Purpose',
+        'Status',
+        'Currency',
+        'Amount',
+        'Due Date',
+        'Days Past Due',
+        'Bucket',
+      ],
+      ...report.departments.flatMap((department) =>
+        department.employees.flatMap((employee) =>
+          employee.imprests.map((line) => [
+            department.department,
+            employee.employeeName,
+            line.imprestId,
+            line.paymentReason,
+            line.status,
+            line.currency,
+            line.amount,
+            line.dueDate,
+            line.daysPastDue,
+            IMPREST_AGEING_BUCKETS.find((b) => b.key === line.bucket).label,
+          ]),
+        ),
+      ),
+    ];
+  }
+}
@@ -0,0 +1,303 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Imprest, ImprestDocument } from './schemas/imprest.schema';
+import { ImprestBudgetLineDto } from './dto/create-imprest.dto';
+import { Budget, BudgetDocument } from '../project/schemas/budget.schema';
+import {
+  BudgetVersion,
+  BudgetVersionDocument,
+} from '../project/schemas/budget-version.schema';
+import { Project, ProjectDocument } from '../project/schemas/project.schema';
+
+type BudgetLine = Imprest['budgetLine'];
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+// A revision in progress leaves the previously approved version in force
+const hasApprovedVersion = (budget: Budget): boolean =>
+  budget.status === 'approved' || !!budget.baselineVersion;
+
+/**
+ * Charges project-linked imprests to a line of the project's approved
+ * budget: the amount is reserved when the imprest is approved, and turned
+ * into actual spend when its accounting is approved.
+ */
+@Injectable()
+export class ImprestBudgetService {
+  constructor(
+    @InjectModel(Budget.name) private budgetModel: Model<BudgetDocument>,
+    @InjectModel(BudgetVersion.name)
+    private budgetVersionModel: Model<BudgetVersionDocument>,
+    @InjectModel(Project.name) private projectModel: Model<ProjectDocument>,
+  ) {}
+
+  // Checks the requested line exists on the project's approved budget
+  async selectLine(
+    projectId: string | undefined,
+    line: ImprestBudgetLineDto | undefined,
+    currency: string,
+  ): Promise<BudgetLine | undefined> {
+    if (!projectId) {
+      if (line) {
+        throw new BadRequestException(
+          'A budget line can only be charged on a project-linked imprest',
+        );
+      }
+      return undefined;
+    }
+    if (!line) {
+      throw new BadRequestException(
+        'Project-linked imprests must name the budget category and item to charge',
+      );
+    }
+
+    const project = await this.projectModel
+      .findById(projectId)
+      .select('budgetId')
+      .lean();
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+    const budget = project.budgetId
+      ? await this.budgetModel.findById(project.budgetId)
+      : null;
+    if (!budget || !hasApprovedVersion(budget)) {
+      throw new BadRequestException(
+        'The project has no approved budget to charge the imprest to',
+      );
+    }
+    if (budget.currency !== currency) {
+      throw new BadRequestException(
+        `The project budget is in ${budget.currency}; the imprest must use the same currency`,
+      );
+    }
+
+    const selected: BudgetLine = {
+      budgetId: budget._id as Types.ObjectId,
+      budgetType: line.budgetType,
+      categoryName: line.categoryName,
+      itemName: line.itemName,
+      status: 'selected',
+    };
+    this.findItem(budget, selected);
+    await this.approvedEstimate(budget, selected);
+    return selected;
+  }
+
+  // Refuses the imprest if its amount no longer fits in the budget line
+  async assertAvailable(imprest: ImprestDocument): Promise<void> {
+    const line = imprest.budgetLine;
+    if (!line || line.status !== 'selected') return;
+
+    await this.checkAvailable(imprest);
+  }
+
+  // Returns the line's approved estimate once the imprest is known to fit
+  private async checkAvailable(imprest: ImprestDocument): Promise<number> {
+    const line = imprest.budgetLine;
+    const budget = await this.budgetModel.findById(line.budgetId);
+    if (!budget || !hasApprovedVersion(budget)) {
+      throw new BadRequestException(
+        'The budget this imprest is charged to is no longer approved',
+      );
+    }
+
+    const item = this.findItem(budget, line);
+    const estimate = await this.approvedEstimate(budget, line);
+    const available = round(
+      estimate - (item.actualAmount || 0) - (item.reservedAmount || 0),
+    );
+    if (imprest.amount > available) {
+      throw new BadRequestException(
+        `Budget line "${line.categoryName} / ${line.itemName}" has ${budget.currency} ${available.toLocaleString()} available, less than the ${imprest.currency} ${imprest.amount.toLocaleString()} requested`,
+      );
+    }
+    return estimate;
+  }
+
+  async reserve(imprest: ImprestDocument): Promise<void> {
+    const line = imprest.budgetLine;
+    if (!line || line.status !== 'selected') return;
+
+    const estimate = await this.checkAvailable(imprest);
+    // Checked again in the write, so concurrent approvals cannot over-reserve
+    await this.adjust(line, { reserved: imprest.amount }, estimate);
+
+    imprest.budgetLine = {
+      ...line,
+      status: 'reserved',
+      reservedAmount: imprest.amount,
+      reservedAt: new Date(),
+    };
+  }
+
+  // Moves the reservation to actual spend, releasing whatever was not spent
+  async convert(imprest: ImprestDocument): Promise<void> {
+    const line = imprest.budgetLine;
+    if (!line || line.status !== 'reserved') return;
+
+    const spent = round(imprest.accounting?.totalAmount || 0);
+    await this.adjust(line, { reserved: -line.reservedAmount, spent });
+    await this.projectModel.updateOne(
+      { _id: imprest.projectId },
+      { $inc: { amountSpent: spent } },
+    );
+
+    imprest.budgetLine = {
+      ...line,
+      status: 'converted',
+      spentAmount: spent,
+      settledAt: new Date(),
+    };
+  }
+
+  // Hands the reservation back when the imprest ends without project spend
+  async release(imprest: ImprestDocument): Promise<void> {
+    const line = imprest.budgetLine;
+    if (!line || line.status !== 'reserved') return;
+
+    await this.adjust(line, { reserved: -line.reservedAmount });
+    imprest.budgetLine = { ...line, status: 'released', settledAt: new Date() };
+  }
+
+  // Until a revision is approved, the estimate of the approved version applies
+  private async approvedEstimate(
+    budget: BudgetDocument,
+    line: BudgetLine,
+  ): Promise<number> {
+    if (budget.status === 'approved') {
+      return this.findItem(budget, line).estimatedAmount;
+    }
+
+    const baseline = await this.budgetVersionModel
+      .findOne({ budgetId: budget._id, version: budget.baselineVersion })
+      .lean();
+    if (!baseline) {
+      throw new BadRequestException(
+        `Approved version ${budget.baselineVersion} of the project budget was not found`,
+      );
+    }
+    return this.findItem(baseline, line).estimatedAmount;
+  }
+
+  private findItem(
+    budget: Pick<Budget, 'internalCategories' | 'externalCategories'>,
+    line: BudgetLine,
+  ) {
+    const categories =
+      line.budgetType === 'internal'
+        ? budget.internalCategories
+        : budget.externalCategories;
+    const matches = (categories || [])
+      .filter((c) => c.name === line.categoryName)
+      .flatMap((c) => (c.items || []).filter((i) => i.name === line.itemName));
+
+    if (!matches.length) {
+      throw new BadRequestException(
+        `Budget line "${line.categoryName} / ${line.itemName}" not found in the ${line.budgetType} budget`,
+      );
+    }
+    if (matches.length > 1) {
+      throw new BadRequestException(
+        `Budget line "${line.categoryName} / ${line.itemName}" is ambiguous in the ${line.budgetType} budget`,
+      );
+    }
+    return matches[0];
+  }
+
+  /**
+   * Applies the change to the line and its budget totals. With `estimate`,
+   * the write only happens while the line's actual and reserved amounts stay
+   * within it.
+   */
+  private async adjust(
+    line: BudgetLine,
+    { reserved = 0, spent = 0 }: { reserved?: number; spent?: number },
+    estimate?: number,
+  ): Promise<void> {
+    const [categories, totalReserved, totalSpent] =
+      line.budgetType === 'internal'
+        ? ['internalCategories', 'totalInternalReserved', 'totalInternalSpent']
+        : ['externalCategories', 'totalExternalReserved', 'totalExternalSpent'];
+    const item = `${categories}.$[category].items.$[item]`;
+
+    const lineItems = {
+      $reduce: {
+        input: {
+          $filter: {
+            input: `$${categories}`,
+            as: 'category',
+            cond: { $eq: ['$$category.name', line.categoryName] },
+          },
+        },
+        initialValue: [],
+        in: {
+          $concatArrays: [
+            '$$value',
+            {
+              $filter: {
+                input: { $ifNull: ['$$this.items', []] },
+                as: 'item',
+                cond: { $eq: ['$$item.name', line.itemName] },
+              },
+            },
+          ],
+        },
+      },
+    };
+    const committed = {
+      $sum: {
+        $map: {
+          input: lineItems,
+          as: 'item',
+          in: {
+            $add: [
+              { $ifNull: ['$$item.actualAmount', 0] },
+              { $ifNull: ['$$item.reservedAmount', 0] },
+            ],
+          },
+        },
+      },
+    };
+
+    const result = await this.budgetModel.updateOne(
+      {
+        _id: line.budgetId,
+        ...(estimate != null && {
+          $expr: {
+            $lte: [
+              { $round: [{ $add: [committed, reserved + spent] }, 2] },
+              estimate,
+            ],
+          },
+        }),
+      },
+      {
+        $inc: {
+          [`${item}.reservedAmount`]: reserved,
+          [`${item}.actualAmount`]: spent,
+          [totalReserved]: reserved,
+          [totalSpent]: spent,
+        },
+      },
+      {
+        arrayFilters: [
+          { 'category.name': line.categoryName },
+          { 'item.name': line.itemName },
+        ],
+      },
+    );
+    if (!result.modifiedCount) {
+      throw new BadRequestException(
+        estimate != null
+          ? `Budget line "${line.categoryName} / ${line.itemName}" no longer has enough available for this imprest`
+          : `Budget line "${line.categoryName} / ${line.itemName}" could not be updated`,
+      );
+    }
+  }
+}
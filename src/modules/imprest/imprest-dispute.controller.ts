@@ -0,0 +1,87 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { ImprestDisputeService } from './imprest-dispute.service';
+import {
+  AssignImprestDisputeDto,
+  ImprestDisputeMessageDto,
+} from './dto/imprest-dispute.dto';
+import {
+  IMPREST_DISPUTE_STATUSES,
+  ImprestDisputeStatus,
+} from './schemas/imprest-dispute.schema';
+
+@ApiTags('Imprest Disputes')
+@Controller('imprest-disputes')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class ImprestDisputeController {
+  constructor(private readonly imprestDisputeService: ImprestDisputeService) {}
+
+  @Get()
+  @Roles('admin', 'accountant')
+  @ApiOperation({ summary: 'List imprest dispute cases' })
+  @ApiQuery({ name: 'status', required: false, enum: IMPREST_DISPUTE_STATUSES })
+  @ApiQuery({ name: 'assignedTo', required: false })
+  findAll(
+    @Query('status') status?: ImprestDisputeStatus,
+    @Query('assignedTo') assignedTo?: string,
+  ) {
+    return this.imprestDisputeService.findAll({ status, assignedTo });
+  }
+
+  @Get('imprest/:imprestId')
+  @ApiOperation({ summary: 'Get the dispute case for an imprest' })
+  @ApiResponse({ status: 404, description: 'The imprest was never disputed' })
+  findForImprest(@Param('imprestId') imprestId: string, @Req() req: any) {
+    return this.imprestDisputeService.findForImprest(imprestId, req.user.sub);
+  }
+
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get a dispute case with its rounds, messages and timeline',
+  })
+  findOne(@Param('id') id: string, @Req() req: any) {
+    return this.imprestDisputeService.findOne(id, req.user.sub);
+  }
+
+  @Post(':id/messages')
+  @ApiOperation({ summary: 'Post a message or evidence on a dispute case' })
+  @ApiResponse({ status: 201, description: 'Message added' })
+  addMessage(
+    @Param('id') id: string,
+    @Body() dto: ImprestDisputeMessageDto,
+    @Req() req: any,
+  ) {
+    return this.imprestDisputeService.addMessage(id, req.user.sub, dto);
+  }
+
+  @Post(':id/assign')
+  @Roles('admin')
+  @ApiOperation({ summary: 'Assign a resolver to a dispute case' })
+  @ApiResponse({ status: 201, description: 'Resolver assigned' })
+  assign(
+    @Param('id') id: string,
+    @Body() dto: AssignImprestDisputeDto,
+    @Req() req: any,
+  ) {
+    return this.imprestDisputeService.assign(id, req.user.sub, dto);
+  }
+}
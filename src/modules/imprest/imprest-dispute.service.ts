@@ -0,0 +1,352 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { ImprestDocument } from './schemas/imprest.schema';
+import {
+  ImprestDispute,
+  ImprestDisputeAttachment,
+  ImprestDisputeDocument,
+  ImprestDisputeEvent,
+  ImprestDisputeStatus,
+} from './schemas/imprest-dispute.schema';
+import {
+  AssignImprestDisputeDto,
+  ImprestDisputeMessageDto,
+} from './dto/imprest-dispute.dto';
+import { User, UserDocument } from '../auth/schemas/user.schema';
+import { NotificationService } from '../notifications/services/notification.service';
+
+const RESOLVER_ROLES = ['admin', 'accountant'];
+const CLOSED_STATUSES: ImprestDisputeStatus[] = ['accepted', 'cancelled'];
+
+const fullName = (user: User) => `${user.firstName} ${user.lastName}`;
+
+const toAttachments = (urls: string[] = []): ImprestDisputeAttachment[] =>
+  urls.map((fileUrl, i) => ({ fileName: `Evidence ${i + 1}`, fileUrl }));
+
+/**
+ * Disbursement disputes as threaded cases. Each "money not received" report
+ * opens a round on the imprest's case, so repeat disputes keep the history
+ * of every earlier round.
+ */
+@Injectable()
+export class ImprestDisputeService {
+  private readonly logger = new Logger(ImprestDisputeService.name);
+
+  constructor(
+    @InjectModel(ImprestDispute.name)
+    private disputeModel: Model<ImprestDisputeDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  // Starts the case on the first report, or a new round on a repeat one
+  async openRound(
+    imprest: ImprestDocument,
+    userId: string,
+    reason?: string,
+    attachmentUrls: string[] = [],
+  ): Promise<ImprestDisputeDocument> {
+    const user = await this.getUser(userId);
+    const dispute = await this.findOrCreate(imprest);
+    const number = dispute.rounds.length + 1;
+
+    dispute.rounds.push({
+      number,
+      openedBy: user._id as Types.ObjectId,
+      openedAt: new Date(),
+      reason,
+    });
+    dispute.status = dispute.assignedTo ? 'under_review' : 'open';
+    this.record(dispute, number > 1 ? 'reopened' : 'opened', user, reason);
+    if (reason || attachmentUrls.length) {
+      this.post(dispute, user, reason || 'Evidence attached', attachmentUrls);
+    }
+
+    return dispute.save();
+  }
+
+  async resolveRound(
+    imprest: ImprestDocument,
+    userId: string,
+    resolution: string,
+    comments?: string,
+    attachmentUrls: string[] = [],
+  ): Promise<ImprestDisputeDocument> {
+    const user = await this.getUser(userId);
+    const dispute = await this.findOrCreate(imprest);
+    if (!dispute.rounds.length) {
+      // Disputed before cases were kept
+      dispute.rounds.push({
+        number: 1,
+        openedBy: dispute.requesterId,
+        openedAt: imprest.acknowledgment?.acknowledgedAt || new Date(),
+        reason: imprest.acknowledgment?.comments,
+      });
+    }
+
+    const round = dispute.rounds[dispute.rounds.length - 1];
+    round.resolution = resolution;
+    round.resolvedBy = user._id as Types.ObjectId;
+    round.resolvedAt = new Date();
+    round.resolverComments = comments;
+    dispute.markModified('rounds');
+
+    dispute.status =
+      resolution === 'cancelled' ? 'cancelled' : 'awaiting_requester';
+    this.record(
+      dispute,
+      resolution === 'cancelled' ? 'cancelled' : 'resolved',
+      user,
+      comments,
+    );
+    if (comments || attachmentUrls.length) {
+      this.post(dispute, user, comments || 'Evidence attached', attachmentUrls);
+    }
+
+    return dispute.save();
+  }
+
+  async accept(imprest: ImprestDocument, userId: string): Promise<void> {
+    const dispute = await this.disputeModel.findOne({
+      imprestId: imprest._id,
+    });
+    if (!dispute) return;
+
+    dispute.status = 'accepted';
+    this.record(dispute, 'accepted', await this.getUser(userId));
+    await dispute.save();
+  }
+
+  // Admins, or the resolver the case is assigned to
+  async assertCanResolve(
+    imprest: ImprestDocument,
+    userId: string,
+  ): Promise<void> {
+    const user = await this.getUser(userId);
+    if (user.roles.includes('admin')) return;
+
+    const dispute = await this.disputeModel
+      .findOne({ imprestId: imprest._id })
+      .select('assignedTo')
+      .lean();
+    if (dispute?.assignedTo?.toString() !== userId) {
+      throw new BadRequestException(
+        'Only administrators or the assigned resolver can resolve disputes',
+      );
+    }
+  }
+
+  async findAll(filters: {
+    status?: ImprestDisputeStatus;
+    assignedTo?: string;
+  }): Promise<ImprestDisputeDocument[]> {
+    return this.disputeModel
+      .find({
+        ...(filters.status && { status: filters.status }),
+        ...(filters.assignedTo && {
+          assignedTo: new Types.ObjectId(filters.assignedTo),
+        }),
+      })
+      .populate('imprestId', 'paymentReason amount currency department status')
+      .populate('requesterId', 'firstName lastName email')
+      .populate('assignedTo', 'firstName lastName email')
+      .sort({ updatedAt: -1 });
+  }
+
+  async findOne(id: string, userId: string): Promise<ImprestDisputeDocument> {
+    const dispute = await this.disputeModel.findById(id);
+    if (!dispute) {
+      throw new NotFoundException('Dispute not found');
+    }
+    this.assertCanView(dispute, await this.getUser(userId));
+    return dispute;
+  }
+
+  async findForImprest(
+    imprestId: string,
+    userId: string,
+  ): Promise<ImprestDisputeDocument> {
+    const dispute = await this.disputeModel.findOne({
+      imprestId: new Types.ObjectId(imprestId),
+    });
+    if (!dispute) {
+      throw new NotFoundException('This imprest has no dispute');
+    }
+    this.assertCanView(dispute, await this.getUser(userId));
+    return dispute;
+  }
+
+  async addMessage(
+    id: string,
+    userId: string,
+    dto: ImprestDisputeMessageDto,
+  ): Promise<ImprestDisputeDocument> {
+    const user = await this.getUser(userId);
+    const dispute = await this.findOne(id, userId);
+    if (CLOSED_STATUSES.includes(dispute.status)) {
+      throw new BadRequestException(`Dispute is already ${dispute.status}`);
+    }
+
+    this.post(dispute, user, dto.message, dto.attachmentUrls);
+    this.record(dispute, 'message', user);
+    const saved = await dispute.save();
+
+    // Tell the other side of the case
+    const isRequester = dispute.requesterId.toString() === userId;
+    const recipients = isRequester
+      ? dispute.assignedTo
+        ? await this.userModel.find({ _id: dispute.assignedTo })
+        : await this.userModel.find({
+            roles: { $in: ['admin'] },
+            status: 'active',
+          })
+      : await this.userModel.find({ _id: dispute.requesterId });
+    for (const recipient of recipients) {
+      await this.notificationService.sendEmail(
+        recipient.email,
+        'New Message on Imprest Dispute',
+        `Dear ${fullName(recipient)},
+
+${fullName(user)} posted on the imprest dispute:
+
+"${dto.message}"
+
+Please reply through the SRCC portal.
+
+Best regards,
+SRCC Finance Team`,
+      );
+    }
+
+    return saved;
+  }
+
+  async assign(
+    id: string,
+    userId: string,
+    dto: AssignImprestDisputeDto,
+  ): Promise<ImprestDisputeDocument> {
+    const user = await this.getUser(userId);
+    const dispute = await this.findOne(id, userId);
+    if (CLOSED_STATUSES.includes(dispute.status)) {
+      throw new BadRequestException(`Dispute is already ${dispute.status}`);
+    }
+
+    const resolver = await this.userModel.findById(dto.resolverId);
+    if (
+      !resolver ||
+      resolver.status !== 'active' ||
+      !resolver.roles.some((r) => RESOLVER_ROLES.includes(r))
+    ) {
+      throw new BadRequestException(
+        'Disputes can only be assigned to an active admin or accountant',
+      );
+    }
+
+    dispute.assignedTo = resolver._id as Types.ObjectId;
+    if (dispute.status === 'open') {
+      dispute.status = 'under_review';
+    }
+    this.record(
+      dispute,
+      'assigned',
+      user,
+      `Assigned to ${fullName(resolver)}${dto.comments ? `: ${dto.comments}` : ''}`,
+    );
+    const saved = await dispute.save();
+
+    await this.notificationService.sendEmail(
+      resolver.email,
+      'Imprest Dispute Assigned to You',
+      `Dear ${fullName(resolver)},
+
+${fullName(user)} has assigned you an imprest disbursement dispute to resolve.
+${dto.comments ? `\nComments: ${dto.comments}\n` : ''}
+Please review the case through the SRCC portal.
+
+Best regards,
+SRCC Finance Team`,
+    );
+    this.logger.log(`Dispute ${dispute._id} assigned to ${resolver.email}`);
+
+    return saved;
+  }
+
+  private async findOrCreate(
+    imprest: ImprestDocument,
+  ): Promise<ImprestDisputeDocument> {
+    const existing = await this.disputeModel.findOne({
+      imprestId: imprest._id,
+    });
+    if (existing) return existing;
+
+    const requestedBy = imprest.requestedBy as unknown as {
+      _id?: Types.ObjectId;
+    };
+    return new this.disputeModel({
+      imprestId: imprest._id,
+      requesterId: requestedBy._id || imprest.requestedBy,
+    });
+  }
+
+  private assertCanView(
+    dispute: ImprestDisputeDocument,
+    user: UserDocument,
+  ): void {
+    const userId = user._id.toString();
+    if (
+      user.roles.some((r) => RESOLVER_ROLES.includes(r)) ||
+      dispute.requesterId.toString() === userId ||
+      dispute.assignedTo?.toString() === userId
+    ) {
+      return;
+    }
+    throw new ForbiddenException('You are not a party to this dispute');
+  }
+
+  private async getUser(userId: string): Promise<UserDocument> {
+    const user = await this.userModel.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+
+  private post(
+    dispute: ImprestDisputeDocument,
+    author: UserDocument,
+    body: string,
+    attachmentUrls?: string[],
+  ): void {
+    dispute.messages.push({
+      round: Math.max(dispute.rounds.length, 1),
+      author: author._id as Types.ObjectId,
+      authorName: fullName(author),
+      body,
+      attachments: toAttachments(attachmentUrls),
+    });
+  }
+
+  private record(
+    dispute: ImprestDisputeDocument,
+    event: ImprestDisputeEvent,
+    actor: UserDocument,
+    details?: string,
+  ): void {
+    dispute.timeline.push({
+      event,
+      round: Math.max(dispute.rounds.length, 1),
+      actor: actor._id as Types.ObjectId,
+      actorName: fullName(actor),
+      at: new Date(),
+      details,
+    });
+  }
+}
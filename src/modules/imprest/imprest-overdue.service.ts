@@ -0,0 +1,257 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Model } from 'mongoose';
+import { Imprest, ImprestDocument } from './schemas/imprest.schema';
+import { ImprestRecoveryService } from './imprest-recovery.service';
+import { User, UserDocument } from '../auth/schemas/user.schema';
+import { NotificationService } from '../notifications/services/notification.service';
+import { DelegationService } from '../delegation/delegation.service';
+import { SystemConfigService } from '../system-config/services/system-config.service';
+import { ImprestPolicy } from '../system-config/policies';
+import { DepartmentHodService } from '../system-config/services/department-hod.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ImprestOverdueRunSummary {
+  flagged: number;
+  reminded: number;
+  recoveriesOpened: number;
+}
+
+@Injectable()
+export class ImprestOverdueService {
+  private readonly logger = new Logger(ImprestOverdueService.name);
+  private running = false;
+
+  constructor(
+    @InjectModel(Imprest.name) private imprestModel: Model<ImprestDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private readonly imprestRecoveryService: ImprestRecoveryService,
+    private readonly notificationService: NotificationService,
+    private readonly delegationService: DelegationService,
+    private readonly systemConfigService: SystemConfigService,
+    private readonly departmentHodService: DepartmentHodService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_DAY_AT_7AM)
+  async handleOverdueImprests(): Promise<void> {
+    await this.run();
+  }
+
+  /**
+   * Flags disbursed imprests past their due date as overdue, sends the
+   * reminder for each reminder day reached and opens a salary recovery once
+   * the grace period has passed.
+   */
+  async run(): Promise<ImprestOverdueRunSummary> {
+    const summary = { flagged: 0, reminded: 0, recoveriesOpened: 0 };
+    if (this.running) {
+      this.logger.warn('Overdue imprest run already in progress, skipping');
+      return summary;
+    }
+
+    this.running = true;
+    try {
+      const policy = await this.systemConfigService.getImprestPolicy();
+      const today = new Date().toISOString().split('T')[0];
+
+      const flagged = await this.imprestModel.updateMany(
+        { status: 'disbursed', dueDate: { $lt: today } },
+        { status: 'overdue' },
+      );
+      summary.flagged = flagged.modifiedCount;
+
+      const overdue = await this.imprestModel.find({ status: 'overdue' });
+      for (const imprest of overdue) {
+        try {
+          const daysOverdue = Math.floor(
+            (Date.parse(today) - Date.parse(imprest.dueDate)) / DAY_MS,
+          );
+          if (await this.remind(imprest, daysOverdue, policy)) {
+            summary.reminded++;
+          }
+          if (
+            daysOverdue >= policy.recoveryGraceDays &&
+            !imprest.recoveryId &&
+            (await this.imprestRecoveryService.open(imprest, daysOverdue))
+          ) {
+            summary.recoveriesOpened++;
+          }
+        } catch (error) {
+          this.logger.error(
+            `Overdue processing failed for imprest ${imprest._id}: ${error.message}`,
+          );
+        }
+      }
+
+      if (summary.flagged || summary.reminded || summary.recoveriesOpened) {
+        this.logger.log(
+          `Imprests flagged ${summary.flagged}, reminded ${summary.reminded}, recoveries opened ${summary.recoveriesOpened}`,
+        );
+      }
+      return summary;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Sends at most one reminder per run, for the latest reminder day reached
+  private async remind(
+    imprest: ImprestDocument,
+    daysOverdue: number,
+    policy: ImprestPolicy,
+  ): Promise<boolean> {
+    const sent = new Set((imprest.overdueReminders || []).map((r) => r.day));
+    const due = policy.overdueReminderDays.filter(
+      (day) => day <= daysOverdue && !sent.has(day),
+    );
+    if (!due.length) return false;
+
+    const day = due[due.length - 1];
+    const now = new Date();
+    const result = await this.imprestModel.updateOne(
+      { _id: imprest._id, 'overdueReminders.day': { $nin: due } },
+      {
+        $push: {
+          overdueReminders: {
+            $each: due.map((d) => ({ day: d, sentAt: now })),
+          },
+        },
+      },
+    );
+    if (!result.modifiedCount) return false;
+
+    // Later reminders go to more people: the HOD from the second, finance from the third
+    const stage = policy.overdueReminderDays.indexOf(day);
+    const recoveryDate = new Date(
+      Date.parse(imprest.dueDate) + policy.recoveryGraceDays * DAY_MS,
+    )
+      .toISOString()
+      .split('T')[0];
+
+    await this.notifyRequester(imprest, daysOverdue, stage, recoveryDate);
+    if (stage >= 1) {
+      await this.notifyHods(imprest, daysOverdue);
+    }
+    if (stage >= 2) {
+      await this.notifyAccountants(imprest, daysOverdue, recoveryDate);
+    }
+    return true;
+  }
+
+  private async notifyRequester(
+    imprest: ImprestDocument,
+    daysOverdue: number,
+    stage: number,
+    recoveryDate: string,
+  ): Promise<void> {
+    const requester = await this.userModel.findById(imprest.requestedBy);
+    if (!requester) return;
+
+    const amount = `${imprest.currency} ${imprest.amount.toFixed(2)}`;
+    const subject =
+      stage === 0
+        ? 'Reminder: Imprest Accounting Overdue'
+        : stage === 1
+          ? 'Second Notice: Imprest Accounting Overdue'
+          : 'FINAL NOTICE: Imprest Accounting Overdue';
+
+    await this.notificationService.sendEmail(
+      requester.email,
+      subject,
+      `Dear ${imprest.employeeName},
+
+Your imprest accounting is ${daysOverdue} day(s) overdue:
+
+Request Details:
+- Amount: ${amount}
+- Purpose: ${imprest.paymentReason}
+- Due Date: ${imprest.dueDate}
+
+Please submit your accounting through the SRCC portal. If it is not submitted and approved by ${recoveryDate}, the outstanding balance will be referred to HR for recovery from your salary.${stage >= 1 ? '\n\nYour Head of Department has been informed.' : ''}
+
+If you have already submitted your accounting, please disregard this message.
+
+Best regards,
+SRCC Finance Team`,
+    );
+
+    if (requester.phoneNumber) {
+      await this.notificationService.sendSMS(
+        requester.phoneNumber,
+        `SRCC: Your imprest accounting (${amount}) is ${daysOverdue} day(s) overdue. Account by ${recoveryDate} to avoid salary recovery.`,
+      );
+    }
+  }
+
+  private async notifyHods(
+    imprest: ImprestDocument,
+    daysOverdue: number,
+  ): Promise<void> {
+    if (!imprest.department) return;
+
+    const hodUsers = await this.departmentHodService.findHods(
+      imprest.department,
+    );
+    const hods = await this.delegationService.substituteRecipients(
+      hodUsers,
+      'imprest',
+      imprest.department,
+    );
+
+    for (const hod of hods) {
+      await this.notificationService.sendEmail(
+        hod.email,
+        'Employee Imprest Accounting Overdue',
+        `Dear ${hod.firstName} ${hod.lastName},
+
+An imprest from your department is ${daysOverdue} day(s) overdue for accounting:
+
+Employee Details:
+- Name: ${imprest.employeeName}
+- Department: ${imprest.department}
+- Amount: ${imprest.currency} ${imprest.amount.toFixed(2)}
+- Due Date: ${imprest.dueDate}
+
+Please follow up with the employee to ensure immediate submission of the accounting.
+
+Best regards,
+SRCC Finance Team`,
+      );
+
+      if (hod.phoneNumber) {
+        await this.notificationService.sendSMS(
+          hod.phoneNumber,
+          `SRCC: Employee ${imprest.employeeName} has overdue imprest accounting (${imprest.currency} ${imprest.amount.toFixed(2)}). Please follow up.`,
+        );
+      }
+    }
+  }
+
+  private async notifyAccountants(
+    imprest: ImprestDocument,
+    daysOverdue: number,
+    recoveryDate: string,
+  ): Promise<void> {
+    const accountants = await this.userModel.find({
+      roles: { $in: ['accountant'] },
+      status: 'active',
+    });
+
+    for (const accountant of accountants) {
+      await this.notificationService.sendEmail(
+        accountant.email,
+        'Imprest Accounting Overdue - Final Notice Sent',
+        `Dear ${accountant.firstName} ${accountant.lastName},
+
+${imprest.employeeName} (${imprest.department || 'no department'}) has not accounted for an imprest of ${imprest.currency} ${imprest.amount.toFixed(2)}, now ${daysOverdue} day(s) overdue.
+
+A final notice has been sent. A salary recovery will be opened on ${recoveryDate} if the imprest is still unaccounted.
+
+Best regards,
+SRCC Finance Team`,
+      );
+    }
+  }
+}
@@ -0,0 +1,212 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Imprest, ImprestDocument } from './schemas/imprest.schema';
+import {
+  ImprestPolicyOverride,
+  ImprestPolicyOverrideDocument,
+} from './schemas/imprest-policy-override.schema';
+import { CreateImprestDto } from './dto/create-imprest.dto';
+import { CreateImprestPolicyOverrideDto } from './dto/imprest-policy-override.dto';
+import { User } from '../auth/schemas/user.schema';
+import { SystemConfigService } from '../system-config/services/system-config.service';
+
+// Imprests that are finished with and no longer held against the requester
+const CLOSED_STATUSES = ['rejected', 'accounted', 'recovered', 'cancelled'];
+
+export type ImprestPolicyViolationCode =
+  | 'overdue_imprest'
+  | 'max_open_imprests'
+  | 'user_ceiling'
+  | 'department_ceiling'
+  | 'payment_type_limit';
+
+export interface ImprestPolicyViolation {
+  code: ImprestPolicyViolationCode;
+  message: string;
+  limit?: number;
+  current?: number;
+}
+
+@Injectable()
+export class ImprestPolicyService {
+  private readonly logger = new Logger(ImprestPolicyService.name);
+
+  constructor(
+    @InjectModel(Imprest.name) private imprestModel: Model<ImprestDocument>,
+    @InjectModel(ImprestPolicyOverride.name)
+    private overrideModel: Model<ImprestPolicyOverrideDocument>,
+    private readonly systemConfigService: SystemConfigService,
+  ) {}
+
+  async evaluate(
+    user: User & { _id: Types.ObjectId },
+    dto: CreateImprestDto,
+  ): Promise<ImprestPolicyViolation[]> {
+    const policy = await this.systemConfigService.getImprestPolicy();
+    const violations: ImprestPolicyViolation[] = [];
+
+    const open = await this.imprestModel
+      .find({
+        requestedBy: user._id,
+        status: { $nin: CLOSED_STATUSES },
+      })
+      .select('status amount disbursement.amount')
+      .lean();
+
+    const overdue = open.filter((i) => i.status === 'overdue');
+    if (policy.blockWhenOverdue && overdue.length) {
+      violations.push({
+        code: 'overdue_imprest',
+        message: `You have ${overdue.length} overdue imprest(s) that must be accounted for first`,
+        current: overdue.length,
+      });
+    }
+
+    if (
+      policy.maxOpenImprests !== null &&
+      open.length >= policy.maxOpenImprests
+    ) {
+      violations.push({
+        code: 'max_open_imprests',
+        message: `You already have ${open.length} open imprest(s); the limit is ${policy.maxOpenImprests}`,
+        limit: policy.maxOpenImprests,
+        current: open.length,
+      });
+    }
+
+    if (policy.userCeiling !== null) {
+      const outstanding = this.outstanding(open) + dto.amount;
+      if (outstanding > policy.userCeiling) {
+        violations.push({
+          code: 'user_ceiling',
+          message: `This request brings your unaccounted imprests to ${outstanding}, above the limit of ${policy.userCeiling}`,
+          limit: policy.userCeiling,
+          current: outstanding,
+        });
+      }
+    }
+
+    const departmentCeiling = user.department
+      ? policy.departmentCeilings[user.department]
+      : undefined;
+    if (departmentCeiling !== undefined) {
+      const departmentOpen = await this.imprestModel
+        .find({
+          department: user.department,
+          status: { $nin: CLOSED_STATUSES },
+        })
+        .select('amount disbursement.amount')
+        .lean();
+      const outstanding = this.outstanding(departmentOpen) + dto.amount;
+      if (outstanding > departmentCeiling) {
+        violations.push({
+          code: 'department_ceiling',
+          message: `This request brings unaccounted imprests in ${user.department} to ${outstanding}, above the limit of ${departmentCeiling}`,
+          limit: departmentCeiling,
+          current: outstanding,
+        });
+      }
+    }
+
+    const typeLimit = policy.paymentTypeLimits[dto.paymentType];
+    if (typeLimit !== undefined && dto.amount > typeLimit) {
+      violations.push({
+        code: 'payment_type_limit',
+        message: `${dto.paymentType} requests are limited to ${typeLimit}`,
+        limit: typeLimit,
+        current: dto.amount,
+      });
+    }
+
+    return violations;
+  }
+
+  /**
+   * Checks a new request against the imprest policy. Violations are let
+   * through only by an unused admin override, which is used up and
+   * returned so it can be recorded on the imprest.
+   */
+  async enforce(
+    user: User & { _id: Types.ObjectId },
+    dto: CreateImprestDto,
+    imprestId: Types.ObjectId,
+  ): Promise<Imprest['policyOverride'] | undefined> {
+    const violations = await this.evaluate(user, dto);
+    if (!violations.length) return undefined;
+
+    const override = await this.overrideModel.findOneAndUpdate(
+      {
+        userId: user._id,
+        usedAt: { $exists: false },
+        $or: [
+          { expiresAt: { $exists: false } },
+          { expiresAt: { $gte: new Date() } },
+        ],
+      },
+      { usedAt: new Date(), imprestId },
+      { new: true, sort: { createdAt: 1 } },
+    );
+
+    if (!override) {
+      throw new BadRequestException({
+        message: 'Imprest request does not meet the imprest policy',
+        errors: violations,
+      });
+    }
+
+    this.logger.log(
+      `Imprest ${imprestId} for ${user.email} allowed by override ${override._id}: ${violations.map((v) => v.code).join(', ')}`,
+    );
+    return {
+      overrideId: override._id as Types.ObjectId,
+      grantedBy: override.grantedBy,
+      reason: override.reason,
+      violations: violations.map(({ code, message }) => ({ code, message })),
+      appliedAt: override.usedAt,
+    };
+  }
+
+  // Hands an override back when the imprest it was used for is not saved
+  async releaseOverride(
+    overrideId: Types.ObjectId,
+    imprestId: Types.ObjectId,
+  ): Promise<void> {
+    await this.overrideModel.updateOne(
+      { _id: overrideId, imprestId },
+      { $unset: { usedAt: 1, imprestId: 1 } },
+    );
+  }
+
+  async grantOverride(
+    dto: CreateImprestPolicyOverrideDto,
+    adminId: string,
+  ): Promise<ImprestPolicyOverrideDocument> {
+    return this.overrideModel.create({
+      userId: new Types.ObjectId(dto.userId),
+      grantedBy: new Types.ObjectId(adminId),
+      reason: dto.reason,
+      ...(dto.expiresAt && { expiresAt: new Date(dto.expiresAt) }),
+    });
+  }
+
+  async findOverrides(
+    userId?: string,
+  ): Promise<ImprestPolicyOverrideDocument[]> {
+    return this.overrideModel
+      .find(userId ? { userId: new Types.ObjectId(userId) } : {})
+      .populate('userId', 'firstName lastName email')
+      .populate('grantedBy', 'firstName lastName email')
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
+  private outstanding(
+    imprests: { amount: number; disbursement?: { amount: number } }[],
+  ): number {
+    return imprests.reduce(
+      (sum, i) => sum + (i.disbursement?.amount ?? i.amount ?? 0),
+      0,
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  Req,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { ImprestRecoveryService } from './imprest-recovery.service';
+import { ImprestOverdueService } from './imprest-overdue.service';
+import { ConfirmImprestRecoveryDto } from './dto/imprest-recovery.dto';
+import {
+  IMPREST_RECOVERY_STATUSES,
+  ImprestRecoveryStatus,
+} from './schemas/imprest-recovery.schema';
+
+@ApiTags('Imprest Recoveries')
+@Controller('imprest-recoveries')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+@Roles('admin', 'hr', 'accountant')
+export class ImprestRecoveryController {
+  constructor(
+    private readonly imprestRecoveryService: ImprestRecoveryService,
+    private readonly imprestOverdueService: ImprestOverdueService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List salary recoveries for overdue imprests' })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: IMPREST_RECOVERY_STATUSES,
+  })
+  findAll(@Query('status') status?: ImprestRecoveryStatus) {
+    return this.imprestRecoveryService.findAll(status);
+  }
+
+  @Get('export')
+  @ApiOperation({
+    summary: 'Download pending recoveries as a payroll CSV',
+    description: 'Exported recoveries are marked as exported.',
+  })
+  async export(@Req() req: any) {
+    const file = await this.imprestRecoveryService.exportPending(req.user.sub);
+    return new StreamableFile(Buffer.from(file.content, 'utf8'), {
+      type: file.contentType,
+      disposition: `attachment; filename="${file.filename}"`,
+    });
+  }
+
+  @Post('run')
+  @Roles('admin')
+  @ApiOperation({
+    summary: 'Run the overdue imprest check now',
+    description:
+      'Runs daily on a schedule. Reminder days and the recovery grace period are read from the imprest_policy_config system config.',
+  })
+  @ApiResponse({ status: 201, description: 'Overdue imprests processed' })
+  run() {
+    return this.imprestOverdueService.run();
+  }
+
+  @Post(':id/confirm')
+  @ApiOperation({ summary: 'Confirm a recovery was deducted through payroll' })
+  @ApiResponse({ status: 201, description: 'Recovery confirmed' })
+  confirm(
+    @Param('id') id: string,
+    @Body() dto: ConfirmImprestRecoveryDto,
+    @Req() req: any,
+  ) {
+    return this.imprestRecoveryService.confirm(id, req.user.sub, dto);
+  }
+}
@@ -0,0 +1,271 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Imprest, ImprestDocument } from './schemas/imprest.schema';
+import {
+  ImprestRecovery,
+  ImprestRecoveryDocument,
+  ImprestRecoveryStatus,
+} from './schemas/imprest-recovery.schema';
+import { ConfirmImprestRecoveryDto } from './dto/imprest-recovery.dto';
+import { User, UserDocument } from '../auth/schemas/user.schema';
+import { NotificationService } from '../notifications/services/notification.service';
+import { ImprestBudgetService } from './imprest-budget.service';
+
+export interface ImprestRecoveryExport {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+const csvValue = (value: unknown): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+@Injectable()
+export class ImprestRecoveryService {
+  private readonly logger = new Logger(ImprestRecoveryService.name);
+
+  constructor(
+    @InjectModel(ImprestRecovery.name)
+    private recoveryModel: Model<ImprestRecoveryDocument>,
+    @InjectModel(Imprest.name) private imprestModel: Model<ImprestDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private readonly notificationService: NotificationService,
+    private readonly imprestBudgetService: ImprestBudgetService,
+  ) {}
+
+  /**
+   * Opens a recovery for the imprest's unaccounted balance and tells the
+   * employee and HR. Returns null if one was already opened.
+   */
+  async open(
+    imprest: ImprestDocument,
+    daysOverdue: number,
+  ): Promise<ImprestRecoveryDocument | null> {
+    if (await this.recoveryModel.exists({ imprestId: imprest._id })) {
+      return null;
+    }
+
+    const employee = await this.userModel.findById(imprest.requestedBy);
+    const recovery = await this.recoveryModel.create({
+      imprestId: imprest._id,
+      employeeId: imprest.requestedBy,
+      employeeName: imprest.employeeName,
+      employeeNumber: employee?.employeeId,
+      department: imprest.department,
+      currency: imprest.currency,
+      amount: imprest.disbursement?.amount ?? imprest.amount,
+      daysOverdue,
+    });
+    await this.imprestModel.updateOne(
+      { _id: imprest._id },
+      { recoveryId: recovery._id },
+    );
+
+    this.logger.log(
+      `Opened recovery ${recovery._id} for imprest ${imprest._id} (${recovery.currency} ${recovery.amount})`,
+    );
+    await this.notifyOpened(recovery, employee);
+    return recovery;
+  }
+
+  async findAll(status?: ImprestRecoveryStatus) {
+    return this.recoveryModel
+      .find(status ? { status } : {})
+      .populate('employeeId', 'firstName lastName email employeeId')
+      .populate('imprestId', 'paymentReason dueDate status')
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
+  async findOne(id: string): Promise<ImprestRecoveryDocument> {
+    const recovery = await this.recoveryModel.findById(id);
+    if (!recovery) {
+      throw new NotFoundException('Imprest recovery not found');
+    }
+    return recovery;
+  }
+
+  /**
+   * Payroll deduction file for every pending recovery. Exported recoveries
+   * are left out of the next export.
+   */
+  async exportPending(userId: string): Promise<ImprestRecoveryExport> {
+    const recoveries = await this.recoveryModel
+      .find({ status: 'pending' })
+      .populate('imprestId', 'paymentReason dueDate')
+      .sort({ createdAt: 1 });
+
+    const lines = [
+      [
+        'Recovery ID',
+        'Employee Number',
+        'Employee Name',
+        'Department',
+        'Currency',
+        'Amount',
+        'Imprest Purpose',
+        'Imprest Due Date',
+        'Days Overdue',
+      ],
+      ...recoveries.map((r) => {
+        const imprest = r.imprestId as unknown as Imprest;
+        return [
+          r._id,
+          r.employeeNumber,
+          r.employeeName,
+          r.department,
+          r.currency,
+          r.amount.toFixed(2),
+          imprest?.paymentReason,
+          imprest?.dueDate,
+          r.daysOverdue,
+        ];
+      }),
+    ].map((values) => values.map(csvValue).join(','));
+
+    await this.recoveryModel.updateMany(
+      { _id: { $in: recoveries.map((r) => r._id) }, status: 'pending' },
+      {
+        status: 'exported',
+        exportedAt: new Date(),
+        exportedBy: new Types.ObjectId(userId),
+      },
+    );
+
+    const date = new Date().toISOString().split('T')[0];
+    return {
+      filename: `imprest-recoveries-${date}.csv`,
+      contentType: 'text/csv',
+      content: `${lines.join('\r\n')}\r\n`,
+    };
+  }
+
+  // Records the payroll deduction and closes the imprest as recovered
+  async confirm(
+    id: string,
+    userId: string,
+    dto: ConfirmImprestRecoveryDto,
+  ): Promise<ImprestRecoveryDocument> {
+    const recovery = await this.findOne(id);
+    if (!['pending', 'exported'].includes(recovery.status)) {
+      throw new BadRequestException(`Recovery is already ${recovery.status}`);
+    }
+
+    recovery.status = 'confirmed';
+    recovery.confirmedAt = new Date();
+    recovery.confirmedBy = new Types.ObjectId(userId);
+    recovery.payrollReference = dto.payrollReference;
+    recovery.recoveredAmount = dto.recoveredAmount ?? recovery.amount;
+    recovery.comments = dto.comments;
+    const saved = await recovery.save();
+
+    const imprest = await this.imprestModel.findOneAndUpdate(
+      { _id: recovery.imprestId, status: 'overdue' },
+      { status: 'recovered' },
+      { new: true },
+    );
+    // Payroll repaid the advance, so none of it is project spend
+    if (imprest) {
+      await this.imprestBudgetService.release(imprest);
+      await imprest.save();
+    }
+
+    const employee = await this.userModel.findById(recovery.employeeId);
+    if (employee) {
+      await this.notificationService.sendEmail(
+        employee.email,
+        'Imprest Salary Recovery Processed',
+        `Dear ${recovery.employeeName},
+
+${recovery.currency} ${saved.recoveredAmount.toFixed(2)} has been recovered through payroll for your unaccounted imprest.
+
+Payroll Reference: ${recovery.payrollReference}
+
+Best regards,
+SRCC Finance Team`,
+      );
+    }
+    return saved;
+  }
+
+  // The imprest was accounted for before payroll confirmed the deduction
+  async cancelForImprest(
+    imprestId: Types.ObjectId,
+    reason: string,
+  ): Promise<void> {
+    const recovery = await this.recoveryModel.findOneAndUpdate(
+      { imprestId, status: { $in: ['pending', 'exported'] } },
+      {
+        status: 'cancelled',
+        cancelledAt: new Date(),
+        cancellationReason: reason,
+      },
+      { new: false },
+    );
+    if (recovery?.status === 'exported') {
+      this.logger.warn(
+        `Recovery ${recovery._id} was cancelled after being exported to payroll`,
+      );
+    }
+  }
+
+  private async notifyOpened(
+    recovery: ImprestRecoveryDocument,
+    employee: UserDocument | null,
+  ): Promise<void> {
+    const amount = `${recovery.currency} ${recovery.amount.toFixed(2)}`;
+
+    if (employee) {
+      await this.notificationService.sendEmail(
+        employee.email,
+        'Imprest Salary Recovery Opened',
+        `Dear ${recovery.employeeName},
+
+Your imprest of ${amount} is ${recovery.daysOverdue} days past its accounting due date. The balance has been referred to HR for recovery from your salary.
+
+If you submit and have your accounting approved before payroll processes the deduction, the recovery will be cancelled.
+
+Best regards,
+SRCC Finance Team`,
+      );
+      if (employee.phoneNumber) {
+        await this.notificationService.sendSMS(
+          employee.phoneNumber,
+          `SRCC: Your overdue imprest (${amount}) has been referred for salary recovery.`,
+        );
+      }
+    }
+
+    const hrUsers = await this.userModel.find({
+      roles: { $in: ['hr'] },
+      status: 'active',
+    });
+    for (const hr of hrUsers) {
+      await this.notificationService.sendEmail(
+        hr.email,
+        'Imprest Salary Recovery Pending',
+        `Dear ${hr.firstName} ${hr.lastName},
+
+A salary recovery has been opened for an unaccounted imprest:
+
+- Employee: ${recovery.employeeName}${recovery.employeeNumber ? ` (${recovery.employeeNumber})` : ''}
+- Department: ${recovery.department || 'N/A'}
+- Amount: ${amount}
+- Days Overdue: ${recovery.daysOverdue}
+
+Please include it in the next payroll export from the SRCC portal.
+
+Best regards,
+SRCC Finance Team`,
+      );
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { Imprest } from './schemas/imprest.schema';
+import { CreateImprestDto, TravelLegDto } from './dto/create-imprest.dto';
+import { User } from '../auth/schemas/user.schema';
+import { SystemConfigService } from '../system-config/services/system-config.service';
+import { PerDiemPolicy } from '../system-config/policies';
+
+type Travel = Imprest['travel'];
+
+const TRAVEL_CASH = 'Travel Cash';
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Works out what a Travel Cash imprest is entitled to from its itinerary:
+ * nights at the per-diem rate for the destination class and staff grade,
+ * plus transport at the configured rate for the mode or the quoted fare.
+ */
+@Injectable()
+export class ImprestTravelService {
+  constructor(private readonly systemConfigService: SystemConfigService) {}
+
+  // Travel details for the imprest, or undefined for other payment types
+  async apply(
+    user: User,
+    dto: Pick<
+      CreateImprestDto,
+      'paymentType' | 'currency' | 'amount' | 'itinerary'
+    >,
+  ): Promise<Travel | undefined> {
+    if (dto.paymentType !== TRAVEL_CASH) {
+      return undefined;
+    }
+    if (!dto.itinerary?.length) {
+      throw new BadRequestException(
+        'Travel Cash imprests must include the travel itinerary',
+      );
+    }
+
+    const policy = await this.systemConfigService.getPerDiemPolicy();
+    const travel = this.compute(policy, user, dto.currency, dto.itinerary);
+    travel.excessAmount = round(
+      Math.max(dto.amount - travel.entitlement.total, 0),
+    );
+    travel.exceedsEntitlement = travel.excessAmount > 0;
+
+    if (travel.exceedsEntitlement && policy.blockOverEntitlement) {
+      throw new BadRequestException({
+        message: 'Imprest request does not meet the imprest policy',
+        errors: [
+          {
+            code: 'travel_entitlement',
+            message: `Requested ${dto.currency} ${dto.amount.toLocaleString()} is ${dto.currency} ${travel.excessAmount.toLocaleString()} above the travel entitlement of ${dto.currency} ${travel.entitlement.total.toLocaleString()}`,
+          },
+        ],
+      });
+    }
+    return travel;
+  }
+
+  // Entitlement for an itinerary without creating an imprest
+  async preview(
+    user: User,
+    currency: string,
+    itinerary: TravelLegDto[],
+  ): Promise<Travel> {
+    const policy = await this.systemConfigService.getPerDiemPolicy();
+    return this.compute(policy, user, currency, itinerary);
+  }
+
+  private compute(
+    policy: PerDiemPolicy,
+    user: User,
+    currency: string,
+    itinerary: TravelLegDto[],
+  ): Travel {
+    const legs = itinerary.map((leg, index) => {
+      const rate =
+        policy.rates.find(
+          (r) =>
+            r.destinationClass === leg.destinationClass &&
+            r.currency === currency &&
+            !!user.staffGrade &&
+            r.staffGrade === user.staffGrade,
+        ) ||
+        policy.rates.find(
+          (r) =>
+            r.destinationClass === leg.destinationClass &&
+            r.currency === currency &&
+            r.staffGrade === '*',
+        );
+      if (!rate) {
+        throw new BadRequestException(
+          `Leg ${index + 1}: no ${currency} per-diem rate for destination class "${leg.destinationClass}"${user.staffGrade ? ` and grade ${user.staffGrade}` : ''}`,
+        );
+      }
+
+      const transportRate = policy.transportRates.find(
+        (r) => r.mode === leg.transportMode && r.currency === currency,
+      );
+      return {
+        from: leg.from,
+        to: leg.to,
+        departureDate: new Date(leg.departureDate),
+        nights: leg.nights,
+        destinationClass: leg.destinationClass,
+        transportMode: leg.transportMode,
+        transportCost: leg.transportCost,
+        nightlyRate: rate.nightlyRate,
+        perDiemAmount: round(leg.nights * rate.nightlyRate),
+        transportAmount: round(
+          transportRate ? transportRate.ratePerLeg : leg.transportCost || 0,
+        ),
+      };
+    });
+
+    const perDiem = round(legs.reduce((sum, l) => sum + l.perDiemAmount, 0));
+    const transport = round(
+      legs.reduce((sum, l) => sum + l.transportAmount, 0),
+    );
+    return {
+      itinerary: legs,
+      entitlement: {
+        currency,
+        staffGrade: user.staffGrade,
+        perDiem,
+        transport,
+        total: round(perDiem + transport),
+        computedAt: new Date(),
+      },
+      exceedsEntitlement: false,
+      excessAmount: 0,
+    };
+  }
+}
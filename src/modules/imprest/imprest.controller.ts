@@ -9,6 +9,7 @@ import {
   BadRequestException,
   Req,
   Query,
+  StreamableFile,
 } from '@nestjs/common';
 import {
   ApiBearerAuth,
@@ -16,9 +17,13 @@ import {
   ApiResponse,
   ApiTags,
   ApiBody,
+  ApiQuery,
 } from '@nestjs/swagger';
 import { ImprestService } from './imprest.service';
-import { CreateImprestDto } from './dto/create-imprest.dto';
+import {
+  CreateImprestDto,
+  TravelEntitlementPreviewDto,
+} from './dto/create-imprest.dto';
 import {
   ImprestApprovalDto,
   ImprestRejectionDto,
@@ -28,16 +33,25 @@ import {
   ImprestDisputeResolutionDto,
   ImprestRevisionDto,
   ImprestAccountingRevisionDto,
+  ImprestCashReturnAcknowledgementDto,
 } from './dto/imprest-approval.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { ImprestPolicyService } from './imprest-policy.service';
+import { CreateImprestPolicyOverrideDto } from './dto/imprest-policy-override.dto';
+import { ImprestAgeingService } from './imprest-ageing.service';
 
 @ApiTags('Imprest')
 @Controller('imprest')
 @UseGuards(JwtAuthGuard, RolesGuard)
 @ApiBearerAuth()
 export class ImprestController {
-  constructor(private readonly imprestService: ImprestService) {}
+  constructor(
+    private readonly imprestService: ImprestService,
+    private readonly imprestPolicyService: ImprestPolicyService,
+    private readonly imprestAgeingService: ImprestAgeingService,
+  ) {}
 
   @Post()
   @ApiOperation({ summary: 'Create a new imprest request' })
@@ -64,6 +78,16 @@ export class ImprestController {
           },
           example: ['https://res.cloudinary.com/...'],
         },
+        projectId: { type: 'string', example: '65f1234567890abcdef12345' },
+        budgetLine: {
+          type: 'object',
+          description: 'Project budget line to charge; required with projectId',
+          properties: {
+            budgetType: { type: 'string', enum: ['internal', 'external'] },
+            categoryName: { type: 'string', example: 'Human Resources' },
+            itemName: { type: 'string', example: 'Field Allowances' },
+          },
+        },
       },
       required: [
         'paymentReason',
@@ -78,6 +102,11 @@ export class ImprestController {
     status: 201,
     description: 'Imprest request created successfully.',
   })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Request breaks the imprest policy; `errors` lists each violation.',
+  })
   async create(@Body() createImprestDto: CreateImprestDto, @Req() req: any) {
     const attachments = [];
 
@@ -123,6 +152,84 @@ export class ImprestController {
     return this.imprestService.findMyImprests(req.user.sub);
   }
 
+  @Post('policy-overrides')
+  @Roles('admin')
+  @ApiOperation({
+    summary: "Allow a user's next imprest request through the imprest policy",
+  })
+  @ApiResponse({ status: 201, description: 'Override granted.' })
+  async grantPolicyOverride(
+    @Body() dto: CreateImprestPolicyOverrideDto,
+    @Req() req: any,
+  ) {
+    return this.imprestPolicyService.grantOverride(dto, req.user.sub);
+  }
+
+  @Get('policy-overrides')
+  @Roles('admin')
+  @ApiOperation({ summary: 'List imprest policy overrides' })
+  @ApiResponse({ status: 200, description: 'Returns policy overrides.' })
+  async findPolicyOverrides(@Query('userId') userId?: string) {
+    return this.imprestPolicyService.findOverrides(userId);
+  }
+
+  @Post('travel/entitlement')
+  @ApiOperation({
+    summary: 'Compute the per-diem and transport entitlement for an itinerary',
+    description:
+      "Uses the per_diem_config system config and the caller's staff grade.",
+  })
+  @ApiResponse({ status: 201, description: 'Computed travel entitlement' })
+  previewTravelEntitlement(
+    @Body() dto: TravelEntitlementPreviewDto,
+    @Req() req: any,
+  ) {
+    return this.imprestService.previewTravelEntitlement(req.user.sub, dto);
+  }
+
+  @Get('reports/ageing')
+  @Roles('admin', 'accountant')
+  @ApiOperation({
+    summary: 'Outstanding imprest by days past the due date',
+    description:
+      'Disbursed imprests not yet accounted for, grouped by department and employee with totals per currency.',
+  })
+  @ApiQuery({ name: 'asOf', required: false, example: '2025-01-31' })
+  @ApiQuery({ name: 'department', required: false })
+  getAgeingReport(
+    @Query('asOf') asOf?: string,
+    @Query('department') department?: string,
+  ) {
+    return this.imprestAgeingService.getReport({
+      asOf: this.parseAsOf(asOf),
+      department,
+    });
+  }
+
+  @Get('reports/ageing/export')
+  @Roles('admin', 'accountant')
+  @ApiOperation({ summary: 'Download the imprest ageing report' })
+  @ApiQuery({ name: 'format', required: false, enum: ['csv', 'xlsx'] })
+  @ApiQuery({ name: 'asOf', required: false, example: '2025-01-31' })
+  @ApiQuery({ name: 'department', required: false })
+  async exportAgeingReport(
+    @Query('format') format = 'xlsx',
+    @Query('asOf') asOf?: string,
+    @Query('department') department?: string,
+  ) {
+    if (!['csv', 'xlsx'].includes(format)) {
+      throw new BadRequestException('format must be csv or xlsx');
+    }
+    const file = await this.imprestAgeingService.export(
+      format as 'csv' | 'xlsx',
+      { asOf: this.parseAsOf(asOf), department },
+    );
+    return new StreamableFile(file.content, {
+      type: file.contentType,
+      disposition: `attachment; filename="${file.filename}"`,
+    });
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get a specific imprest request' })
   @ApiResponse({ status: 200, description: 'Returns the imprest request.' })
@@ -143,6 +250,26 @@ export class ImprestController {
     return this.imprestService.approveByHod(id, req.user.sub, approvalDto);
   }
 
+  @Post(':id/approve/project-manager')
+  @ApiOperation({
+    summary: 'Approve a project-linked imprest request by project manager',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Imprest request approved by project manager.',
+  })
+  async approveByProjectManager(
+    @Param('id') id: string,
+    @Req() req: any,
+    @Body() approvalDto: ImprestApprovalDto,
+  ) {
+    return this.imprestService.approveByProjectManager(
+      id,
+      req.user.sub,
+      approvalDto,
+    );
+  }
+
   @Post(':id/approve/accountant')
   // @Roles('accountant')
   @ApiOperation({ summary: 'Approve imprest request by accountant' })
@@ -210,8 +337,10 @@ export class ImprestController {
                 type: 'string',
                 example: 'https://res.cloudinary.com/...',
               },
+              objectCode: { type: 'string', example: '265' },
+              chartCode: { type: 'string', example: 'SR' },
             },
-            required: ['description', 'amount', 'receiptUrl'],
+            required: ['description', 'amount', 'receiptUrl', 'objectCode'],
           },
         },
         comments: { type: 'string' },
@@ -235,6 +364,11 @@ export class ImprestController {
       if (!receipt.receiptUrl) {
         throw new BadRequestException('Each receipt must include a receiptUrl');
       }
+      if (!receipt.objectCode) {
+        throw new BadRequestException(
+          'Each receipt must include an objectCode',
+        );
+      }
     }
 
     const processedReceipts = receipts.map((receipt) => ({
@@ -242,6 +376,8 @@ export class ImprestController {
       amount: receipt.amount,
       receiptUrl: receipt.receiptUrl,
       uploadedAt: new Date(),
+      objectCode: receipt.objectCode,
+      chartCode: receipt.chartCode,
     }));
 
     return this.imprestService.submitAccounting(
@@ -252,6 +388,31 @@ export class ImprestController {
     );
   }
 
+  @Get(':id/settlement')
+  @ApiOperation({
+    summary: 'Get how the accounting balance is being settled',
+    description:
+      'Positive outstanding is unspent cash still to be returned; negative is overspend still to be reimbursed.',
+  })
+  @ApiResponse({ status: 200, description: 'Returns the settlement status.' })
+  async getSettlement(@Param('id') id: string) {
+    return this.imprestService.getSettlement(id);
+  }
+
+  @Post(':id/cash-return/acknowledge')
+  // @Roles('accountant')
+  @ApiOperation({
+    summary: 'Acknowledge unspent imprest cash returned (accountant only)',
+  })
+  @ApiResponse({ status: 200, description: 'Cash return acknowledged.' })
+  async acknowledgeCashReturn(
+    @Param('id') id: string,
+    @Req() req: any,
+    @Body() dto: ImprestCashReturnAcknowledgementDto,
+  ) {
+    return this.imprestService.acknowledgeCashReturn(id, req.user.sub, dto);
+  }
+
   @Post(':id/accounting/approve')
   // @Roles('accountant')
   @ApiOperation({ summary: 'Approve imprest accounting (accountant only)' })
@@ -267,6 +428,11 @@ export class ImprestController {
     },
   })
   @ApiResponse({ status: 200, description: 'Imprest accounting approved.' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Unspent cash not yet returned or overspend not yet reimbursed.',
+  })
   async approveAccounting(
     @Param('id') id: string,
     @Req() req: any,
@@ -318,7 +484,8 @@ export class ImprestController {
   @Post(':id/resolve-dispute')
   // @Roles('admin')
   @ApiOperation({
-    summary: 'Resolve imprest disbursement dispute (admin only)',
+    summary:
+      'Resolve the current round of an imprest disbursement dispute (admin or assigned resolver)',
   })
   @ApiBody({
     schema: {
@@ -335,6 +502,11 @@ export class ImprestController {
           example: 'Issue resolved, money re-disbursed',
           description: 'Admin comments about the resolution',
         },
+        attachmentUrls: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Evidence file URLs',
+        },
       },
       required: ['resolution'],
     },
@@ -483,4 +655,13 @@ export class ImprestController {
       revisionDto,
     );
   }
+
+  private parseAsOf(asOf?: string): Date | undefined {
+    if (!asOf) return undefined;
+    const date = new Date(asOf);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException('asOf must be a valid date');
+    }
+    return date;
+  }
 }
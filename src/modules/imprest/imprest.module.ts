@@ -5,16 +5,81 @@ import { ImprestController } from './imprest.controller';
 import { Imprest, ImprestSchema } from './schemas/imprest.schema';
 import { User, UserSchema } from '../auth/schemas/user.schema';
 import { NotificationService } from '../notifications/services/notification.service';
+import { DelegationModule } from '../delegation/delegation.module';
+import { SystemConfigModule } from '../system-config/system-config.module';
+import { NumberingModule } from '../numbering/numbering.module';
+import {
+  ImprestPolicyOverride,
+  ImprestPolicyOverrideSchema,
+} from './schemas/imprest-policy-override.schema';
+import { ImprestPolicyService } from './imprest-policy.service';
+import {
+  ImprestRecovery,
+  ImprestRecoverySchema,
+} from './schemas/imprest-recovery.schema';
+import { ImprestRecoveryService } from './imprest-recovery.service';
+import { ImprestOverdueService } from './imprest-overdue.service';
+import { ImprestRecoveryController } from './imprest-recovery.controller';
+import {
+  ImprestCashReturn,
+  ImprestCashReturnSchema,
+} from './schemas/imprest-cash-return.schema';
+import { ImprestAccountingService } from './imprest-accounting.service';
+import {
+  PaymentVoucher,
+  PaymentVoucherSchema,
+} from '../payment-request/schemas/payment-voucher.schema';
+import { Project, ProjectSchema } from '../project/schemas/project.schema';
+import { Budget, BudgetSchema } from '../project/schemas/budget.schema';
+import {
+  BudgetVersion,
+  BudgetVersionSchema,
+} from '../project/schemas/budget-version.schema';
+import { ImprestBudgetService } from './imprest-budget.service';
+import { ImprestAgeingService } from './imprest-ageing.service';
+import {
+  ImprestDispute,
+  ImprestDisputeSchema,
+} from './schemas/imprest-dispute.schema';
+import { ImprestDisputeService } from './imprest-dispute.service';
+import { ImprestDisputeController } from './imprest-dispute.controller';
+import { ImprestTravelService } from './imprest-travel.service';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: Imprest.name, schema: ImprestSchema },
       { name: User.name, schema: UserSchema },
+      { name: ImprestPolicyOverride.name, schema: ImprestPolicyOverrideSchema },
+      { name: ImprestRecovery.name, schema: ImprestRecoverySchema },
+      { name: ImprestCashReturn.name, schema: ImprestCashReturnSchema },
+      { name: PaymentVoucher.name, schema: PaymentVoucherSchema },
+      { name: Project.name, schema: ProjectSchema },
+      { name: Budget.name, schema: BudgetSchema },
+      { name: BudgetVersion.name, schema: BudgetVersionSchema },
+      { name: ImprestDispute.name, schema: ImprestDisputeSchema },
     ]),
+    DelegationModule,
+    SystemConfigModule,
+    NumberingModule,
+  ],
+  controllers: [
+    ImprestController,
+    ImprestRecoveryController,
+    ImprestDisputeController,
+  ],
+  providers: [
+    ImprestService,
+    ImprestPolicyService,
+    ImprestRecoveryService,
+    ImprestOverdueService,
+    ImprestAccountingService,
+    ImprestBudgetService,
+    ImprestAgeingService,
+    ImprestDisputeService,
+    ImprestTravelService,
+    NotificationService,
   ],
-  controllers: [ImprestController],
-  providers: [ImprestService, NotificationService],
   exports: [ImprestService],
 })
 export class ImprestModule {}
@@ -6,7 +6,10 @@ import {
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { Imprest, ImprestDocument } from './schemas/imprest.schema';
-import { CreateImprestDto } from './dto/create-imprest.dto';
+import {
+  CreateImprestDto,
+  TravelEntitlementPreviewDto,
+} from './dto/create-imprest.dto';
 import {
   ImprestApprovalDto,
   ImprestRejectionDto,
@@ -16,16 +19,43 @@ import {
   ImprestDisputeResolutionDto,
   ImprestRevisionDto,
   ImprestAccountingRevisionDto,
+  ImprestCashReturnAcknowledgementDto,
 } from './dto/imprest-approval.dto';
 import { NotificationService } from '../notifications/services/notification.service';
 import { User } from '../auth/schemas/user.schema';
+import {
+  DelegationService,
+  ResolvedActor,
+  formatActingAs,
+} from '../delegation/delegation.service';
+import { Project, ProjectDocument } from '../project/schemas/project.schema';
+import { DepartmentHodService } from '../system-config/services/department-hod.service';
+import { ImprestPolicyService } from './imprest-policy.service';
+import { ImprestRecoveryService } from './imprest-recovery.service';
+import { ImprestBudgetService } from './imprest-budget.service';
+import { ImprestDisputeService } from './imprest-dispute.service';
+import { ImprestTravelService } from './imprest-travel.service';
+import {
+  ImprestAccountingService,
+  ImprestSettlementSummary,
+} from './imprest-accounting.service';
+import { PaymentVoucherDocument } from '../payment-request/schemas/payment-voucher.schema';
 
 @Injectable()
 export class ImprestService {
   constructor(
     @InjectModel(Imprest.name) private imprestModel: Model<ImprestDocument>,
     @InjectModel(User.name) private userModel: Model<User>,
+    @InjectModel(Project.name) private projectModel: Model<ProjectDocument>,
     private notificationService: NotificationService,
+    private delegationService: DelegationService,
+    private imprestPolicyService: ImprestPolicyService,
+    private imprestRecoveryService: ImprestRecoveryService,
+    private imprestAccountingService: ImprestAccountingService,
+    private departmentHodService: DepartmentHodService,
+    private imprestBudgetService: ImprestBudgetService,
+    private imprestDisputeService: ImprestDisputeService,
+    private imprestTravelService: ImprestTravelService,
   ) {}
 
   async create(
@@ -38,11 +68,39 @@ export class ImprestService {
       throw new NotFoundException('User not found');
     }
 
+    const departmentHods = await this.departmentHodService.findHods(
+      user.department,
+    );
+    if (!departmentHods.length) {
+      throw new BadRequestException(
+        `No HOD is set up to approve imprests for ${user.department ? `the ${user.department} department` : 'users without a department'}`,
+      );
+    }
+
+    const budgetLine = await this.imprestBudgetService.selectLine(
+      createImprestDto.projectId,
+      createImprestDto.budgetLine,
+      createImprestDto.currency,
+    );
+
+    const travel = await this.imprestTravelService.apply(
+      user,
+      createImprestDto,
+    );
+
+    const imprestId = new Types.ObjectId();
+    const policyOverride = await this.imprestPolicyService.enforce(
+      user,
+      createImprestDto,
+      imprestId,
+    );
+
     const dueDate = new Date();
     dueDate.setHours(dueDate.getHours() + 72);
 
     const imprest = new this.imprestModel({
       ...createImprestDto,
+      _id: imprestId,
       employeeName: `${user.firstName} ${user.lastName}`,
       department: user.department,
       requestedBy: new Types.ObjectId(userId),
@@ -50,16 +108,31 @@ export class ImprestService {
       dueDate: dueDate.toISOString().split('T')[0],
       status: 'pending_hod',
       attachments: attachments,
+      budgetLine,
+      travel,
+      ...(policyOverride && { policyOverride }),
     });
 
-    const savedImprest = await imprest.save();
+    let savedImprest: ImprestDocument;
+    try {
+      savedImprest = await imprest.save();
+    } catch (error) {
+      if (policyOverride) {
+        await this.imprestPolicyService.releaseOverride(
+          policyOverride.overrideId,
+          imprestId,
+        );
+      }
+      throw error;
+    }
 
-    // Notify HOD about new imprest request
-    const hod = await this.userModel.findOne({
-      roles: { $in: ['hod'] },
-      status: 'active',
-    });
-    if (hod) {
+    // Notify the department's HODs, or whoever is covering for them
+    const hods = await this.delegationService.substituteRecipients(
+      departmentHods,
+      'imprest',
+      user.department,
+    );
+    for (const hod of hods) {
       // Send detailed email
       await this.notificationService.sendEmail(
         hod.email,
@@ -71,7 +144,7 @@ A new imprest request requires your approval:
 Request Details:
 - Employee: ${user.firstName} ${user.lastName}
 - Department: ${user.department}
-- Amount: ${createImprestDto.currency} ${createImprestDto.amount}
+- Amount: ${createImprestDto.currency} ${createImprestDto.amount}${this.entitlementLine(savedImprest)}
 - Purpose: ${createImprestDto.paymentReason}
 - Type: ${createImprestDto.paymentType}
 ${attachments.length > 0 ? `- Attachments: ${attachments.length} file(s) attached` : ''}
@@ -245,10 +318,12 @@ SRCC Finance Team`,
     approvalDto: ImprestApprovalDto,
   ): Promise<ImprestDocument> {
     const imprest = await this.findOne(id);
-    const isHod = await this.userModel.findById(userId);
+    const resolved = await this.resolveHodApprover(imprest, userId);
 
-    if (!isHod || !isHod.roles.includes('hod')) {
-      throw new BadRequestException('User is not a HOD');
+    if (!resolved) {
+      throw new BadRequestException(
+        `Only the HOD of ${imprest.department || "the requester's department"} can approve this imprest`,
+      );
     }
 
     if (imprest.status !== 'pending_hod') {
@@ -256,87 +331,307 @@ SRCC Finance Team`,
         'Imprest request is not pending HOD approval',
       );
     }
+    await this.imprestBudgetService.assertAvailable(imprest);
 
     imprest.hodApproval = {
       approvedBy: new Types.ObjectId(userId),
       approvedAt: new Date(),
       comments: approvalDto.comments,
+      onBehalfOf: resolved.onBehalfOf?._id as Types.ObjectId,
+      approvedByName: formatActingAs(resolved.actor, resolved.onBehalfOf),
     };
-    imprest.status = 'pending_accountant';
+
+    // Project-linked imprests also need the project manager, unless they
+    // are the requester or have just approved as HOD
+    const projectManagerId = await this.findProjectManagerId(imprest);
+    const hodId = String(resolved.onBehalfOf?._id ?? resolved.actor._id);
+    const needsProjectManager =
+      !!projectManagerId &&
+      ![this.requesterIdOf(imprest), hodId].includes(
+        projectManagerId.toString(),
+      );
+    imprest.status = needsProjectManager
+      ? 'pending_project_manager'
+      : 'pending_accountant';
 
     const savedImprest = await imprest.save();
 
-    // Get user data for notifications
     const requester = await this.userModel.findById(imprest.requestedBy);
-    // const approver = await this.userModel.findById(userId);
+    if (needsProjectManager) {
+      await this.notifyProjectManager(imprest, projectManagerId, requester);
+    } else {
+      await this.notifyAccountantsPending(imprest, requester);
+    }
 
-    // Notify accountants
-    const accountants = await this.userModel.find({
-      roles: { $in: ['accountant'] },
-      status: 'active',
-    });
-    for (const accountant of accountants) {
+    // Notify requester
+    if (requester) {
+      const nextStep = needsProjectManager
+        ? 'project manager approval'
+        : 'accountant review';
       // Send detailed email
       await this.notificationService.sendEmail(
-        accountant.email,
-        'Imprest Request Pending Accountant Approval',
-        `Dear ${accountant.firstName} ${accountant.lastName},
+        requester.email,
+        'Imprest Request Approved by HOD',
+        `Dear ${requester.firstName} ${requester.lastName},
 
-An imprest request has been approved by HOD and requires your review:
+Your imprest request has been approved by your HOD and is now pending ${nextStep}:
 
 Request Details:
-- Employee: ${requester.firstName} ${requester.lastName}
-- Department: ${requester.department}
 - Amount: ${imprest.currency} ${imprest.amount.toFixed(2)}
 - Purpose: ${imprest.paymentReason}
 - HOD Comments: ${imprest.hodApproval.comments || 'No comments provided'}
 
-Please review and process the request through the SRCC portal.
+You will be notified once your request moves forward.
 
 Best regards,
 SRCC Finance Team`,
       );
 
       // Send brief SMS
-      if (accountant.phoneNumber) {
+      if (requester.phoneNumber) {
         await this.notificationService.sendSMS(
-          accountant.phoneNumber,
-          `SRCC: Imprest request from ${requester.firstName} ${requester.lastName} (${imprest.currency} ${imprest.amount.toFixed(2)}) approved by HOD, pending your review.`,
+          requester.phoneNumber,
+          `SRCC: Your imprest request (${imprest.currency} ${imprest.amount.toFixed(2)}) approved by HOD, now pending ${nextStep}.`,
         );
       }
     }
 
-    // Notify requester
+    return savedImprest;
+  }
+
+  async approveByProjectManager(
+    id: string,
+    userId: string,
+    approvalDto: ImprestApprovalDto,
+  ): Promise<ImprestDocument> {
+    const imprest = await this.findOne(id);
+
+    if (imprest.status !== 'pending_project_manager') {
+      throw new BadRequestException(
+        'Imprest request is not pending project manager approval',
+      );
+    }
+
+    const resolved = await this.resolveProjectManagerApprover(imprest, userId);
+    if (!resolved) {
+      throw new BadRequestException(
+        "Only the project's manager can approve this imprest",
+      );
+    }
+    await this.imprestBudgetService.assertAvailable(imprest);
+
+    imprest.projectManagerApproval = {
+      approvedBy: new Types.ObjectId(userId),
+      approvedAt: new Date(),
+      comments: approvalDto.comments,
+      onBehalfOf: resolved.onBehalfOf?._id as Types.ObjectId,
+      approvedByName: formatActingAs(resolved.actor, resolved.onBehalfOf),
+    };
+    imprest.status = 'pending_accountant';
+
+    const savedImprest = await imprest.save();
+
+    const requester = await this.userModel.findById(imprest.requestedBy);
+    await this.notifyAccountantsPending(imprest, requester);
+
     if (requester) {
-      // Send detailed email
       await this.notificationService.sendEmail(
         requester.email,
-        'Imprest Request Approved by HOD',
+        'Imprest Request Approved by Project Manager',
         `Dear ${requester.firstName} ${requester.lastName},
 
-Your imprest request has been approved by your HOD and is now pending accountant review:
+Your imprest request has been approved by the project manager and is now pending accountant review:
 
 Request Details:
 - Amount: ${imprest.currency} ${imprest.amount.toFixed(2)}
 - Purpose: ${imprest.paymentReason}
-- HOD Comments: ${imprest.hodApproval.comments || 'No comments provided'}
+- Project Manager Comments: ${approvalDto.comments || 'No comments provided'}
+
+Best regards,
+SRCC Finance Team`,
+      );
+    }
+
+    return savedImprest;
+  }
+
+  // The department's HODs, directly or through a delegation
+  private async resolveHodApprover(
+    imprest: ImprestDocument,
+    userId: string,
+  ): Promise<ResolvedActor | null> {
+    const hods = await this.departmentHodService.findHods(imprest.department);
+    if (!hods.length) {
+      return null;
+    }
+    return this.delegationService.resolveActor(userId, 'imprest', {
+      userIds: hods.map((hod) => hod._id as Types.ObjectId),
+      department: imprest.department,
+    });
+  }
+
+  private async resolveProjectManagerApprover(
+    imprest: ImprestDocument,
+    userId: string,
+  ): Promise<ResolvedActor | null> {
+    const projectManagerId = await this.findProjectManagerId(imprest);
+    if (!projectManagerId) {
+      return null;
+    }
+    return this.delegationService.resolveActor(userId, 'imprest', {
+      userIds: [projectManagerId],
+    });
+  }
+
+  private async findProjectManagerId(
+    imprest: ImprestDocument,
+  ): Promise<Types.ObjectId | undefined> {
+    if (!imprest.projectId) {
+      return undefined;
+    }
+    const projectId =
+      (imprest.projectId as unknown as { _id?: Types.ObjectId })._id ||
+      imprest.projectId;
+    const project = await this.projectModel
+      .findById(projectId)
+      .select('projectManagerId')
+      .lean();
+    return project?.projectManagerId as unknown as Types.ObjectId | undefined;
+  }
+
+  // Whoever must decide on the imprest at its current approval level
+  private async assertIsRoutedApprover(
+    imprest: ImprestDocument,
+    userId: string,
+  ): Promise<void> {
+    const user = await this.userModel.findById(userId);
+    if (user?.roles?.includes('admin')) {
+      return;
+    }
+
+    if (
+      imprest.status === 'pending_hod' &&
+      !(await this.resolveHodApprover(imprest, userId))
+    ) {
+      throw new BadRequestException(
+        `Only the HOD of ${imprest.department || "the requester's department"} can act on this imprest`,
+      );
+    }
+    if (
+      imprest.status === 'pending_project_manager' &&
+      !(await this.resolveProjectManagerApprover(imprest, userId))
+    ) {
+      throw new BadRequestException(
+        "Only the project's manager can act on this imprest",
+      );
+    }
+  }
+
+  // Shown to approvers next to the requested amount
+  private entitlementLine(imprest: ImprestDocument): string {
+    const travel = imprest.travel;
+    if (!travel?.entitlement) return '';
+    const { currency, total } = travel.entitlement;
+    return `\n- Travel Entitlement: ${currency} ${total.toFixed(2)}${travel.exceedsEntitlement ? ` (request exceeds it by ${currency} ${travel.excessAmount.toFixed(2)})` : ''}`;
+  }
+
+  private requesterIdOf(imprest: ImprestDocument): string {
+    const requestedBy = imprest.requestedBy as unknown as {
+      _id?: Types.ObjectId;
+    };
+    return String(requestedBy._id || imprest.requestedBy);
+  }
+
+  private async notifyProjectManager(
+    imprest: ImprestDocument,
+    projectManagerId: Types.ObjectId,
+    requester: User | null,
+  ): Promise<void> {
+    const projectManager = await this.userModel.findById(projectManagerId);
+    if (!projectManager) {
+      return;
+    }
+    const [recipient] = await this.delegationService.substituteRecipients(
+      [projectManager],
+      'imprest',
+    );
+    const employee = requester
+      ? `${requester.firstName} ${requester.lastName}`
+      : imprest.employeeName;
+
+    await this.notificationService.sendEmail(
+      recipient.email,
+      'Project Imprest Pending Your Approval',
+      `Dear ${recipient.firstName} ${recipient.lastName},
+
+An imprest request linked to your project has been approved by the HOD and requires your approval:
+
+Request Details:
+- Employee: ${employee}
+- Department: ${imprest.department}
+- Amount: ${imprest.currency} ${imprest.amount.toFixed(2)}
+- Purpose: ${imprest.paymentReason}
+
+Please review and take appropriate action through the SRCC portal.
+
+Best regards,
+SRCC Finance Team`,
+    );
 
-You will be notified once the accountant reviews your request.
+    if (recipient.phoneNumber) {
+      await this.notificationService.sendSMS(
+        recipient.phoneNumber,
+        `SRCC: Project imprest request from ${employee} (${imprest.currency} ${imprest.amount.toFixed(2)}) pending your approval.`,
+      );
+    }
+  }
+
+  private async notifyAccountantsPending(
+    imprest: ImprestDocument,
+    requester: User | null,
+  ): Promise<void> {
+    const accountants = await this.delegationService.substituteRecipients(
+      await this.userModel.find({
+        roles: { $in: ['accountant'] },
+        status: 'active',
+      }),
+      'imprest',
+      imprest.department,
+    );
+    const employee = requester
+      ? `${requester.firstName} ${requester.lastName}`
+      : imprest.employeeName;
+
+    for (const accountant of accountants) {
+      // Send detailed email
+      await this.notificationService.sendEmail(
+        accountant.email,
+        'Imprest Request Pending Accountant Approval',
+        `Dear ${accountant.firstName} ${accountant.lastName},
+
+An imprest request has been approved by HOD and requires your review:
+
+Request Details:
+- Employee: ${employee}
+- Department: ${imprest.department}
+- Amount: ${imprest.currency} ${imprest.amount.toFixed(2)}${this.entitlementLine(imprest)}
+- Purpose: ${imprest.paymentReason}
+- HOD Comments: ${imprest.hodApproval?.comments || 'No comments provided'}${imprest.projectManagerApproval ? `\n- Project Manager Comments: ${imprest.projectManagerApproval.comments || 'No comments provided'}` : ''}
+
+Please review and process the request through the SRCC portal.
 
 Best regards,
 SRCC Finance Team`,
       );
 
       // Send brief SMS
-      if (requester.phoneNumber) {
+      if (accountant.phoneNumber) {
         await this.notificationService.sendSMS(
-          requester.phoneNumber,
-          `SRCC: Your imprest request (${imprest.currency} ${imprest.amount.toFixed(2)}) approved by HOD, now pending accountant review.`,
+          accountant.phoneNumber,
+          `SRCC: Imprest request from ${employee} (${imprest.currency} ${imprest.amount.toFixed(2)}) approved by HOD, pending your review.`,
         );
       }
     }
-
-    return savedImprest;
   }
 
   async approveByAccountant(
@@ -345,9 +640,13 @@ SRCC Finance Team`,
     approvalDto: ImprestApprovalDto,
   ): Promise<ImprestDocument> {
     const imprest = await this.findOne(id);
-    const isAccountant = await this.userModel.findById(userId);
+    const resolved = await this.delegationService.resolveActor(
+      userId,
+      'imprest',
+      { roles: ['accountant'], department: imprest.department },
+    );
 
-    if (!isAccountant || !isAccountant.roles.includes('accountant')) {
+    if (!resolved) {
       throw new BadRequestException('User is not an accountant');
     }
 
@@ -361,10 +660,20 @@ SRCC Finance Team`,
       approvedBy: new Types.ObjectId(userId),
       approvedAt: new Date(),
       comments: approvalDto.comments,
+      onBehalfOf: resolved.onBehalfOf?._id as Types.ObjectId,
+      approvedByName: formatActingAs(resolved.actor, resolved.onBehalfOf),
     };
+    await this.imprestBudgetService.reserve(imprest);
     imprest.status = 'approved';
 
-    const savedImprest = await imprest.save();
+    let savedImprest: ImprestDocument;
+    try {
+      savedImprest = await imprest.save();
+    } catch (error) {
+      // The imprest is still unapproved, so it must not hold the budget
+      await this.imprestBudgetService.release(imprest);
+      throw error;
+    }
 
     // Notify requester
     const requester = await this.userModel.findById(imprest.requestedBy);
@@ -407,11 +716,18 @@ SRCC Finance Team`,
   ): Promise<ImprestDocument> {
     const imprest = await this.findOne(id);
 
-    if (!['pending_hod', 'pending_accountant'].includes(imprest.status)) {
+    if (
+      ![
+        'pending_hod',
+        'pending_project_manager',
+        'pending_accountant',
+      ].includes(imprest.status)
+    ) {
       throw new BadRequestException(
         'Imprest request cannot be rejected in its current state',
       );
     }
+    await this.assertIsRoutedApprover(imprest, userId);
 
     imprest.rejection = {
       rejectedBy: new Types.ObjectId(userId),
@@ -532,6 +848,8 @@ SRCC Finance Team`,
       amount: number;
       receiptUrl: string;
       uploadedAt: Date;
+      objectCode?: string;
+      chartCode?: string;
     }[] = [],
   ): Promise<ImprestDocument> {
     const imprest = await this.imprestModel.findById(id);
@@ -539,7 +857,7 @@ SRCC Finance Team`,
       throw new NotFoundException('Imprest request not found');
     }
 
-    if (imprest.status !== 'disbursed') {
+    if (!['disbursed', 'overdue'].includes(imprest.status)) {
       throw new BadRequestException(
         'Imprest must be disbursed before accounting',
       );
@@ -549,8 +867,11 @@ SRCC Finance Team`,
       throw new BadRequestException('Only the requester can submit accounting');
     }
 
+    const receipts =
+      await this.imprestAccountingService.codeLines(processedReceipts);
+
     // Calculate total amount and balance
-    const totalAmount = processedReceipts.reduce(
+    const totalAmount = receipts.reduce(
       (sum, receipt) => sum + receipt.amount,
       0,
     );
@@ -560,14 +881,24 @@ SRCC Finance Team`,
     imprest.accounting = {
       verifiedBy: new Types.ObjectId(userId),
       verifiedAt: new Date(),
-      receipts: processedReceipts,
+      receipts,
       totalAmount,
       balance,
       comments: accountingDto.comments,
     };
     imprest.status = 'pending_accounting_approval';
 
-    const savedImprest = await imprest.save();
+    let savedImprest = await imprest.save();
+
+    // The cash return or voucher is only raised for an accounting that saved
+    const settlement = await this.imprestAccountingService.openSettlement(
+      savedImprest,
+      userId,
+    );
+    if (settlement) {
+      savedImprest.accounting.settlement = settlement;
+      savedImprest = await savedImprest.save();
+    }
 
     // Notify accountants about the accounting submission
     const accountants = await this.userModel.find({
@@ -625,6 +956,7 @@ SRCC Finance Team`,
         'Imprest accounting is not pending approval',
       );
     }
+    await this.imprestAccountingService.assertSettled(imprest);
     //  append approval comments
     if (comments) {
       imprest.accounting.comments =
@@ -634,8 +966,45 @@ SRCC Finance Team`,
         '[Accountant Approval] ' +
         comments;
     }
+    return this.closeAccounting(imprest);
+  }
+
+  /**
+   * Closes the accounting once an overspend reimbursement voucher has been
+   * paid, provided nothing else is left to settle.
+   */
+  async settleReimbursement(
+    id: string,
+    voucher: PaymentVoucherDocument,
+  ): Promise<ImprestDocument> {
+    const imprest = await this.findOne(id);
+    await this.imprestAccountingService.notifyReimbursementPaid(
+      imprest,
+      voucher,
+    );
+    if (imprest.status !== 'pending_accounting_approval') {
+      return imprest;
+    }
+    const { outstanding } =
+      await this.imprestAccountingService.getSettlement(imprest);
+    if (outstanding !== 0) {
+      return imprest;
+    }
+    return this.closeAccounting(imprest);
+  }
+
+  private async closeAccounting(
+    imprest: ImprestDocument,
+  ): Promise<ImprestDocument> {
+    await this.imprestBudgetService.convert(imprest);
     imprest.status = 'accounted';
     const savedImprest = await imprest.save();
+    if (imprest.recoveryId) {
+      await this.imprestRecoveryService.cancelForImprest(
+        imprest._id as Types.ObjectId,
+        'Imprest accounted for',
+      );
+    }
     // Notify requester
     const requester = await this.userModel.findById(imprest.requestedBy);
     if (requester) {
@@ -657,6 +1026,41 @@ SRCC Finance Team`,
     return savedImprest;
   }
 
+  async previewTravelEntitlement(
+    userId: string,
+    dto: TravelEntitlementPreviewDto,
+  ): Promise<Imprest['travel']> {
+    const user = await this.userModel.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return this.imprestTravelService.preview(user, dto.currency, dto.itinerary);
+  }
+
+  async getSettlement(id: string): Promise<ImprestSettlementSummary> {
+    const imprest = await this.findOne(id);
+    return this.imprestAccountingService.getSettlement(imprest);
+  }
+
+  async acknowledgeCashReturn(
+    id: string,
+    userId: string,
+    dto: ImprestCashReturnAcknowledgementDto,
+  ): Promise<ImprestSettlementSummary> {
+    const imprest = await this.findOne(id);
+    if (imprest.status !== 'pending_accounting_approval') {
+      throw new BadRequestException(
+        'Imprest accounting is not pending approval',
+      );
+    }
+    await this.imprestAccountingService.acknowledgeCashReturn(
+      imprest,
+      userId,
+      dto,
+    );
+    return this.imprestAccountingService.getSettlement(imprest);
+  }
+
   async acknowledgeReceipt(
     id: string,
     userId: string,
@@ -728,7 +1132,14 @@ SRCC Finance Team`,
 
       return savedImprest;
     } else {
-      // Money not received - create dispute
+      // Money not received - open a dispute round on the imprest's case
+      const dispute = await this.imprestDisputeService.openRound(
+        imprest,
+        userId,
+        acknowledgmentDto.comments,
+        acknowledgmentDto.attachmentUrls,
+      );
+      imprest.disputeId = dispute._id as Types.ObjectId;
       imprest.status = 'disputed';
       imprest.hasDisputeHistory = true;
 
@@ -814,16 +1225,21 @@ SRCC Finance Team`,
     resolutionDto: ImprestDisputeResolutionDto,
   ): Promise<ImprestDocument> {
     const imprest = await this.findOne(id);
-    const admin = await this.userModel.findById(userId);
-
-    if (!admin || !admin.roles.includes('admin')) {
-      throw new BadRequestException('Only administrators can resolve disputes');
-    }
+    await this.imprestDisputeService.assertCanResolve(imprest, userId);
 
     if (imprest.status !== 'disputed') {
       throw new BadRequestException('Imprest is not in disputed status');
     }
 
+    const dispute = await this.imprestDisputeService.resolveRound(
+      imprest,
+      userId,
+      resolutionDto.resolution,
+      resolutionDto.adminComments,
+      resolutionDto.attachmentUrls,
+    );
+    imprest.disputeId = dispute._id as Types.ObjectId;
+
     imprest.disputeResolution = {
       resolvedBy: new Types.ObjectId(userId),
       resolvedAt: new Date(),
@@ -842,7 +1258,12 @@ SRCC Finance Team`,
       imprest.status = 'cancelled';
     }
 
-    const savedImprest = await imprest.save();
+    let savedImprest = await imprest.save();
+    if (savedImprest.status === 'cancelled') {
+      // The reservation is only given back once the cancellation is saved
+      await this.imprestBudgetService.release(savedImprest);
+      savedImprest = await savedImprest.save();
+    }
 
     // Notify requester about resolution
     const requester = await this.userModel.findById(imprest.requestedBy);
@@ -907,93 +1328,6 @@ SRCC Finance Team`,
     return savedImprest;
   }
 
-  async checkOverdueImprests(): Promise<void> {
-    const today = new Date().toISOString().split('T')[0];
-    const overdueImprests = await this.imprestModel
-      .find({
-        status: 'disbursed',
-        dueDate: { $lt: today },
-      })
-      .populate('requestedBy', 'name email');
-
-    for (const imprest of overdueImprests) {
-      // Update status to overdue
-      imprest.status = 'overdue';
-      await imprest.save();
-
-      // Notify requester and their HOD
-      const requester = await this.userModel.findById(imprest.requestedBy);
-      const hod = await this.userModel.findOne({
-        role: 'hod',
-        department: imprest.department,
-      });
-
-      if (requester) {
-        // Send detailed email
-        await this.notificationService.sendEmail(
-          requester.email,
-          'URGENT: Imprest Accounting Overdue',
-          `Dear ${imprest.employeeName},
-
-This is an urgent reminder that your imprest accounting is overdue:
-
-Request Details:
-- Amount: ${imprest.currency} ${imprest.amount.toFixed(2)}
-- Purpose: ${imprest.paymentReason}
-- Due Date: ${imprest.dueDate}
-
-Please submit your accounting immediately through the SRCC portal. Failure to account for imprest funds may result in:
-1. Automatic salary recovery
-2. Suspension of future imprest privileges
-3. Disciplinary action as per HR policy
-
-If you have already submitted your accounting, please disregard this message.
-
-Best regards,
-SRCC Finance Team`,
-        );
-
-        // Send urgent SMS
-        if (requester.phoneNumber) {
-          await this.notificationService.sendSMS(
-            requester.phoneNumber,
-            `URGENT SRCC: Your imprest accounting is OVERDUE (${imprest.currency} ${imprest.amount.toFixed(2)}). Submit immediately to avoid penalties.`,
-          );
-        }
-      }
-
-      if (hod) {
-        // Send detailed email
-        await this.notificationService.sendEmail(
-          hod.email,
-          'Employee Imprest Accounting Overdue',
-          `Dear ${hod.firstName} ${hod.lastName},
-
-This is to inform you that an imprest accounting from your department is overdue:
-
-Employee Details:
-- Name: ${imprest.employeeName}
-- Department: ${imprest.department}
-- Amount: ${imprest.currency} ${imprest.amount.toFixed(2)}
-- Due Date: ${imprest.dueDate}
-
-Please follow up with the employee to ensure immediate submission of the accounting.
-
-Best regards,
-SRCC Finance Team`,
-        );
-
-        // Send brief SMS
-        if (hod.phoneNumber) {
-          await this.notificationService.sendSMS(
-            hod.phoneNumber,
-            `SRCC: Employee ${imprest.employeeName} has overdue imprest accounting (${imprest.currency} ${imprest.amount.toFixed(2)}). Please follow up.`,
-          );
-        }
-      }
-    }
-  }
-
   async requestRevision(
     id: string,
     userId: string,
@@ -1002,20 +1336,29 @@ SRCC Finance Team`,
     const imprest = await this.findOne(id);
     const reviewer = await this.userModel.findById(userId);
 
+    // HOD and project manager levels are checked against the routed approvers
     if (
       !reviewer ||
-      !reviewer.roles.some((r) => ['admin', 'hod', 'accountant'].includes(r))
+      (imprest.status === 'pending_accountant' &&
+        !reviewer.roles.some((r) => ['admin', 'hod', 'accountant'].includes(r)))
     ) {
       throw new BadRequestException(
         'Only admins, HODs, or accountants can request revisions',
       );
     }
 
-    if (!['pending_hod', 'pending_accountant'].includes(imprest.status)) {
+    if (
+      ![
+        'pending_hod',
+        'pending_project_manager',
+        'pending_accountant',
+      ].includes(imprest.status)
+    ) {
       throw new BadRequestException(
         'Imprest can only be sent for revision when pending approval',
       );
     }
+    await this.assertIsRoutedApprover(imprest, userId);
 
     // Store revision info
     imprest.revision = {
@@ -1026,6 +1369,7 @@ SRCC Finance Team`,
 
     // Clear previous approvals so it goes through the full flow on resubmission
     imprest.hodApproval = undefined;
+    imprest.projectManagerApproval = undefined;
     imprest.accountantApproval = undefined;
     imprest.status = 'revision_requested';
 
@@ -1096,6 +1440,15 @@ SRCC Finance Team`,
     imprest.amount = updateDto.amount;
     imprest.paymentType = updateDto.paymentType;
     imprest.explanation = updateDto.explanation;
+    imprest.travel = await this.imprestTravelService.apply(
+      await this.userModel.findById(userId),
+      updateDto,
+    );
+    imprest.budgetLine = await this.imprestBudgetService.selectLine(
+      imprest.projectId?.toString(),
+      updateDto.budgetLine,
+      updateDto.currency,
+    );
 
     // Update attachments if provided
     if (attachments.length > 0) {
@@ -1114,14 +1467,15 @@ SRCC Finance Team`,
 
     const savedImprest = await imprest.save();
 
-    // Notify HOD about the resubmitted request
+    // Notify the department's HODs about the resubmitted request
     const user = await this.userModel.findById(userId);
-    const hod = await this.userModel.findOne({
-      roles: { $in: ['hod'] },
-      status: 'active',
-    });
+    const hods = await this.delegationService.substituteRecipients(
+      await this.departmentHodService.findHods(imprest.department),
+      'imprest',
+      imprest.department,
+    );
 
-    if (hod) {
+    for (const hod of hods) {
       await this.notificationService.sendEmail(
         hod.email,
         'Revised Imprest Request Pending Approval',
@@ -1132,7 +1486,7 @@ A revised imprest request requires your approval:
 Request Details:
 - Employee: ${user.firstName} ${user.lastName}
 - Department: ${user.department}
-- Amount: ${updateDto.currency} ${updateDto.amount}
+- Amount: ${updateDto.currency} ${updateDto.amount}${this.entitlementLine(savedImprest)}
 - Purpose: ${updateDto.paymentReason}
 - Type: ${updateDto.paymentType}
 
@@ -1180,6 +1534,7 @@ SRCC Finance Team`,
 
     imprest.status = 'disbursed';
     const savedImprest = await imprest.save();
+    await this.imprestDisputeService.accept(imprest, userId);
 
     // Notify admins/accountants that user accepted the resolution
     const admins = await this.userModel.find({
@@ -0,0 +1,60 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import { Document, Types } from 'mongoose';
+
+export type ImprestCashReturnDocument = ImprestCashReturn & Document;
+
+// Unspent imprest money the employee owes back to finance
+@Schema({ timestamps: true })
+export class ImprestCashReturn {
+  @ApiProperty()
+  @Prop({ type: Types.ObjectId, ref: 'Imprest', required: true })
+  imprestId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Employee returning the cash' })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  employeeId: Types.ObjectId;
+
+  @ApiProperty({ example: 'KES' })
+  @Prop({ required: true })
+  currency: string;
+
+  @ApiProperty({ description: 'Amount to be returned' })
+  @Prop({ required: true, type: Number })
+  amount: number;
+
+  @ApiProperty({ enum: ['pending', 'received', 'cancelled'] })
+  @Prop({
+    required: true,
+    enum: ['pending', 'received', 'cancelled'],
+    default: 'pending',
+  })
+  status: string;
+
+  @ApiProperty({
+    description: 'Accountant acknowledgement of the returned cash',
+    required: false,
+  })
+  @Prop({
+    type: {
+      receivedBy: { type: Types.ObjectId, ref: 'User' },
+      receivedAt: Date,
+      method: String,
+      reference: String,
+      comments: String,
+    },
+    _id: false,
+  })
+  acknowledgement?: {
+    receivedBy: Types.ObjectId;
+    receivedAt: Date;
+    method?: string;
+    reference?: string;
+    comments?: string;
+  };
+}
+
+export const ImprestCashReturnSchema =
+  SchemaFactory.createForClass(ImprestCashReturn);
+
+ImprestCashReturnSchema.index({ imprestId: 1, status: 1 });
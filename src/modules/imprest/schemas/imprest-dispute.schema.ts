@@ -0,0 +1,165 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import { Document, Types } from 'mongoose';
+
+export const IMPREST_DISPUTE_STATUSES = [
+  'open',
+  'under_review',
+  'awaiting_requester',
+  'accepted',
+  'cancelled',
+] as const;
+export type ImprestDisputeStatus = (typeof IMPREST_DISPUTE_STATUSES)[number];
+
+export const IMPREST_DISPUTE_EVENTS = [
+  'opened',
+  'reopened',
+  'assigned',
+  'message',
+  'resolved',
+  'accepted',
+  'cancelled',
+] as const;
+export type ImprestDisputeEvent = (typeof IMPREST_DISPUTE_EVENTS)[number];
+
+export type ImprestDisputeDocument = ImprestDispute & Document;
+
+@Schema({ _id: false })
+export class ImprestDisputeAttachment {
+  @ApiProperty({ example: 'Bank statement' })
+  @Prop({ required: true })
+  fileName: string;
+
+  @ApiProperty({ example: 'https://res.cloudinary.com/...' })
+  @Prop({ required: true })
+  fileUrl: string;
+}
+
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class ImprestDisputeMessage {
+  @ApiProperty({ description: 'Round the message was posted in' })
+  @Prop({ required: true })
+  round: number;
+
+  @ApiProperty()
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  author: Types.ObjectId;
+
+  @ApiProperty({ example: 'Jane Doe' })
+  @Prop({ required: true })
+  authorName: string;
+
+  @ApiProperty()
+  @Prop({ required: true })
+  body: string;
+
+  @ApiProperty({ type: [ImprestDisputeAttachment] })
+  @Prop({ type: [ImprestDisputeAttachment], default: [] })
+  attachments: ImprestDisputeAttachment[];
+
+  @ApiProperty()
+  createdAt?: Date;
+}
+
+// One "money not received" report and the resolution that answered it
+@Schema({ _id: false })
+export class ImprestDisputeRound {
+  @ApiProperty({ example: 1 })
+  @Prop({ required: true })
+  number: number;
+
+  @ApiProperty()
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  openedBy: Types.ObjectId;
+
+  @ApiProperty()
+  @Prop({ required: true })
+  openedAt: Date;
+
+  @ApiProperty({ description: "Requester's account of the problem" })
+  @Prop()
+  reason?: string;
+
+  @ApiProperty({ enum: ['disbursed', 'cancelled'], required: false })
+  @Prop({ enum: ['disbursed', 'cancelled'] })
+  resolution?: string;
+
+  @ApiProperty({ required: false })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  resolvedBy?: Types.ObjectId;
+
+  @ApiProperty({ required: false })
+  @Prop()
+  resolvedAt?: Date;
+
+  @ApiProperty({ required: false })
+  @Prop()
+  resolverComments?: string;
+}
+
+@Schema({ _id: false })
+export class ImprestDisputeTimelineEntry {
+  @ApiProperty({ enum: IMPREST_DISPUTE_EVENTS })
+  @Prop({ required: true, enum: IMPREST_DISPUTE_EVENTS })
+  event: ImprestDisputeEvent;
+
+  @ApiProperty()
+  @Prop({ required: true })
+  round: number;
+
+  @ApiProperty()
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  actor: Types.ObjectId;
+
+  @ApiProperty({ example: 'Jane Doe' })
+  @Prop()
+  actorName?: string;
+
+  @ApiProperty()
+  @Prop({ required: true })
+  at: Date;
+
+  @ApiProperty({ required: false })
+  @Prop()
+  details?: string;
+}
+
+// Case file for every disbursement dispute raised on one imprest
+@Schema({ timestamps: true })
+export class ImprestDispute {
+  @ApiProperty()
+  @Prop({ type: Types.ObjectId, ref: 'Imprest', required: true, unique: true })
+  imprestId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Employee who raised the dispute' })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  requesterId: Types.ObjectId;
+
+  @ApiProperty({ enum: IMPREST_DISPUTE_STATUSES })
+  @Prop({ required: true, enum: IMPREST_DISPUTE_STATUSES, default: 'open' })
+  status: ImprestDisputeStatus;
+
+  @ApiProperty({ description: 'Admin or accountant resolving the case' })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  assignedTo?: Types.ObjectId;
+
+  @ApiProperty({ type: [ImprestDisputeRound] })
+  @Prop({ type: [ImprestDisputeRound], default: [] })
+  rounds: ImprestDisputeRound[];
+
+  @ApiProperty({ type: [ImprestDisputeMessage] })
+  @Prop({
+    type: [SchemaFactory.createForClass(ImprestDisputeMessage)],
+    default: [],
+  })
+  messages: ImprestDisputeMessage[];
+
+  @ApiProperty({ type: [ImprestDisputeTimelineEntry] })
+  @Prop({ type: [ImprestDisputeTimelineEntry], default: [] })
+  timeline: ImprestDisputeTimelineEntry[];
+}
+
+export const ImprestDisputeSchema =
+  SchemaFactory.createForClass(ImprestDispute);
+
+ImprestDisputeSchema.index({ status: 1, assignedTo: 1 });
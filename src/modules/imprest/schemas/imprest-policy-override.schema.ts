@@ -0,0 +1,45 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import { Document, Types } from 'mongoose';
+
+export type ImprestPolicyOverrideDocument = ImprestPolicyOverride & Document;
+
+// Lets one imprest request through the imprest policy checks
+@Schema({ timestamps: true })
+export class ImprestPolicyOverride {
+  @ApiProperty({ description: 'User the override was granted to' })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Admin who granted the override' })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  grantedBy: Types.ObjectId;
+
+  @ApiProperty({ description: 'Why the override was granted' })
+  @Prop({ required: true, trim: true })
+  reason: string;
+
+  @ApiProperty({
+    description: 'Override lapses if not used by this date',
+    required: false,
+  })
+  @Prop()
+  expiresAt?: Date;
+
+  @ApiProperty({ description: 'When the override was used', required: false })
+  @Prop()
+  usedAt?: Date;
+
+  @ApiProperty({
+    description: 'Imprest the override was used on',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'Imprest' })
+  imprestId?: Types.ObjectId;
+}
+
+export const ImprestPolicyOverrideSchema = SchemaFactory.createForClass(
+  ImprestPolicyOverride,
+);
+
+ImprestPolicyOverrideSchema.index({ userId: 1, usedAt: 1 });
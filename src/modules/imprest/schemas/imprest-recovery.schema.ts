@@ -0,0 +1,101 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import { Document, Types } from 'mongoose';
+
+export type ImprestRecoveryDocument = ImprestRecovery & Document;
+
+export const IMPREST_RECOVERY_STATUSES = [
+  'pending',
+  'exported',
+  'confirmed',
+  'cancelled',
+] as const;
+
+export type ImprestRecoveryStatus = (typeof IMPREST_RECOVERY_STATUSES)[number];
+
+// Salary deduction for an imprest that was not accounted for in time
+@Schema({ timestamps: true })
+export class ImprestRecovery {
+  @ApiProperty({ description: 'Imprest being recovered' })
+  @Prop({ type: Types.ObjectId, ref: 'Imprest', required: true, unique: true })
+  imprestId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Employee the amount is recovered from' })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  employeeId: Types.ObjectId;
+
+  @ApiProperty()
+  @Prop({ required: true, trim: true })
+  employeeName: string;
+
+  @ApiProperty({ description: 'Payroll employee number', required: false })
+  @Prop({ trim: true })
+  employeeNumber?: string;
+
+  @ApiProperty({ required: false })
+  @Prop({ trim: true })
+  department?: string;
+
+  @ApiProperty({ example: 'KES' })
+  @Prop({ required: true })
+  currency: string;
+
+  @ApiProperty({ description: 'Unaccounted balance to deduct' })
+  @Prop({ required: true, type: Number })
+  amount: number;
+
+  @ApiProperty({ description: 'Days past the due date when opened' })
+  @Prop({ required: true })
+  daysOverdue: number;
+
+  @ApiProperty({ enum: IMPREST_RECOVERY_STATUSES })
+  @Prop({ required: true, enum: IMPREST_RECOVERY_STATUSES, default: 'pending' })
+  status: ImprestRecoveryStatus;
+
+  @ApiProperty({ required: false })
+  @Prop()
+  exportedAt?: Date;
+
+  @ApiProperty({ required: false })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  exportedBy?: Types.ObjectId;
+
+  @ApiProperty({ required: false })
+  @Prop()
+  confirmedAt?: Date;
+
+  @ApiProperty({ required: false })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  confirmedBy?: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Payroll run or deduction reference',
+    required: false,
+  })
+  @Prop({ trim: true })
+  payrollReference?: string;
+
+  @ApiProperty({ description: 'Amount actually deducted', required: false })
+  @Prop({ type: Number })
+  recoveredAmount?: number;
+
+  @ApiProperty({ required: false })
+  @Prop({ trim: true })
+  comments?: string;
+
+  @ApiProperty({ required: false })
+  @Prop()
+  cancelledAt?: Date;
+
+  @ApiProperty({ required: false })
+  @Prop({ trim: true })
+  cancellationReason?: string;
+
+  @ApiProperty()
+  createdAt?: Date;
+}
+
+export const ImprestRecoverySchema =
+  SchemaFactory.createForClass(ImprestRecovery);
+
+ImprestRecoverySchema.index({ status: 1, createdAt: 1 });
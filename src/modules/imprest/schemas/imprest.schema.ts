@@ -1,9 +1,20 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { ApiProperty } from '@nestjs/swagger';
 import { Document, Types } from 'mongoose';
+import { statusChangedAtPlugin } from '../../../common/utils/status-changed-at.plugin';
 
 export type ImprestDocument = Imprest & Document;
 
+// selected on request, reserved at approval, converted to spend at accounting
+export const IMPREST_BUDGET_LINE_STATUSES = [
+  'selected',
+  'reserved',
+  'converted',
+  'released',
+] as const;
+export type ImprestBudgetLineStatus =
+  (typeof IMPREST_BUDGET_LINE_STATUSES)[number];
+
 @Schema({ timestamps: true })
 export class Imprest {
   @ApiProperty({
@@ -69,6 +80,7 @@ export class Imprest {
     enum: [
       'revision_requested',
       'pending_hod',
+      'pending_project_manager',
       'pending_accountant',
       'approved',
       'rejected',
@@ -79,6 +91,8 @@ export class Imprest {
       'pending_accounting_approval',
       'accounted',
       'overdue',
+      'recovered',
+      'cancelled',
     ],
   })
   @Prop({
@@ -86,6 +100,7 @@ export class Imprest {
     enum: [
       'revision_requested',
       'pending_hod',
+      'pending_project_manager',
       'pending_accountant',
       'approved',
       'rejected',
@@ -96,6 +111,8 @@ export class Imprest {
       'pending_accounting_approval',
       'accounted',
       'overdue',
+      'recovered',
+      'cancelled',
     ],
     default: 'pending_hod',
   })
@@ -117,6 +134,8 @@ export class Imprest {
       approvedBy: { type: Types.ObjectId, ref: 'User' },
       approvedAt: Date,
       comments: String,
+      onBehalfOf: { type: Types.ObjectId, ref: 'User' },
+      approvedByName: String,
     },
     _id: false,
   })
@@ -124,6 +143,29 @@ export class Imprest {
     approvedBy: Types.ObjectId;
     approvedAt: Date;
     comments?: string;
+    onBehalfOf?: Types.ObjectId;
+    approvedByName?: string;
+  };
+
+  @ApiProperty({
+    description: 'Project manager approval, for imprests linked to a project',
+  })
+  @Prop({
+    type: {
+      approvedBy: { type: Types.ObjectId, ref: 'User' },
+      approvedAt: Date,
+      comments: String,
+      onBehalfOf: { type: Types.ObjectId, ref: 'User' },
+      approvedByName: String,
+    },
+    _id: false,
+  })
+  projectManagerApproval?: {
+    approvedBy: Types.ObjectId;
+    approvedAt: Date;
+    comments?: string;
+    onBehalfOf?: Types.ObjectId;
+    approvedByName?: string;
   };
 
   @ApiProperty({ description: 'Accountant approval details' })
@@ -132,6 +174,8 @@ export class Imprest {
       approvedBy: { type: Types.ObjectId, ref: 'User' },
       approvedAt: Date,
       comments: String,
+      onBehalfOf: { type: Types.ObjectId, ref: 'User' },
+      approvedByName: String,
     },
     _id: false,
   })
@@ -139,6 +183,8 @@ export class Imprest {
     approvedBy: Types.ObjectId;
     approvedAt: Date;
     comments?: string;
+    onBehalfOf?: Types.ObjectId;
+    approvedByName?: string;
   };
 
   @ApiProperty({ description: 'Rejection details if request is rejected' })
@@ -184,26 +230,50 @@ export class Imprest {
           amount: Number,
           receiptUrl: String,
           uploadedAt: Date,
+          objectCode: String,
+          objectCodeName: String,
+          chartCode: String,
         },
       ],
       totalAmount: Number,
       balance: Number,
       comments: String,
+      settlement: {
+        type: {
+          kind: { type: String, enum: ['cash_return', 'reimbursement'] },
+          amount: Number,
+          cashReturnId: { type: Types.ObjectId, ref: 'ImprestCashReturn' },
+          voucherId: { type: Types.ObjectId, ref: 'PaymentVoucher' },
+        },
+        _id: false,
+      },
     },
     _id: false,
   })
   accounting?: {
     verifiedBy: Types.ObjectId;
     verifiedAt: Date;
+    // One line per receipt, coded to a budget object code
     receipts: {
       description: string;
       amount: number;
       receiptUrl: string;
       uploadedAt: Date;
+      objectCode?: string;
+      objectCodeName?: string;
+      chartCode?: string;
     }[];
     totalAmount: number;
+    // Disbursed minus spent: positive is unspent cash, negative is overspend
     balance: number;
     comments?: string;
+    // How the balance left after this submission is being settled
+    settlement?: {
+      kind: 'cash_return' | 'reimbursement';
+      amount: number;
+      cashReturnId?: Types.ObjectId;
+      voucherId?: Types.ObjectId;
+    };
   };
 
   @ApiProperty({ description: 'Money acknowledgment details' })
@@ -223,7 +293,17 @@ export class Imprest {
     comments?: string;
   };
 
-  @ApiProperty({ description: 'Dispute resolution details' })
+  @ApiProperty({
+    description: 'Dispute case holding every round, message and timeline entry',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'ImprestDispute' })
+  disputeId?: Types.ObjectId;
+
+  @ApiProperty({
+    description:
+      'Latest dispute resolution; earlier rounds are kept on the dispute case',
+  })
   @Prop({
     type: {
       resolvedBy: { type: Types.ObjectId, ref: 'User' },
@@ -270,6 +350,45 @@ export class Imprest {
     reason: string;
   };
 
+  @ApiProperty({
+    description: 'Admin override used to submit this request outside policy',
+    required: false,
+  })
+  @Prop({
+    type: {
+      overrideId: { type: Types.ObjectId, ref: 'ImprestPolicyOverride' },
+      grantedBy: { type: Types.ObjectId, ref: 'User' },
+      reason: String,
+      violations: [{ code: String, message: String, _id: false }],
+      appliedAt: Date,
+    },
+    _id: false,
+  })
+  policyOverride?: {
+    overrideId: Types.ObjectId;
+    grantedBy: Types.ObjectId;
+    reason: string;
+    violations: { code: string; message: string }[];
+    appliedAt: Date;
+  };
+
+  @ApiProperty({
+    description: 'Overdue reminders sent, by days past the due date',
+    required: false,
+  })
+  @Prop({
+    type: [{ day: Number, sentAt: Date, _id: false }],
+    default: [],
+  })
+  overdueReminders?: { day: number; sentAt: Date }[];
+
+  @ApiProperty({
+    description: 'Salary recovery opened for the unaccounted balance',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'ImprestRecovery' })
+  recoveryId?: Types.ObjectId;
+
   @ApiProperty({
     description: 'Optional Project ID to link this imprest to',
     required: false,
@@ -277,6 +396,101 @@ export class Imprest {
   @Prop({ type: Types.ObjectId, ref: 'Project', required: false })
   projectId?: Types.ObjectId;
 
+  @ApiProperty({
+    description:
+      'Travel Cash itinerary with the per-diem entitlement computed from it',
+    required: false,
+  })
+  @Prop({
+    type: {
+      itinerary: [
+        {
+          from: String,
+          to: String,
+          departureDate: Date,
+          nights: Number,
+          destinationClass: String,
+          transportMode: String,
+          transportCost: Number,
+          nightlyRate: Number,
+          perDiemAmount: Number,
+          transportAmount: Number,
+          _id: false,
+        },
+      ],
+      entitlement: {
+        currency: String,
+        staffGrade: String,
+        perDiem: Number,
+        transport: Number,
+        total: Number,
+        computedAt: Date,
+      },
+      exceedsEntitlement: Boolean,
+      excessAmount: Number,
+    },
+    _id: false,
+  })
+  travel?: {
+    itinerary: {
+      from: string;
+      to: string;
+      departureDate: Date;
+      nights: number;
+      destinationClass: string;
+      transportMode: string;
+      transportCost?: number;
+      nightlyRate: number;
+      perDiemAmount: number;
+      transportAmount: number;
+    }[];
+    entitlement: {
+      currency: string;
+      staffGrade?: string;
+      perDiem: number;
+      transport: number;
+      total: number;
+      computedAt: Date;
+    };
+    exceedsEntitlement: boolean;
+    excessAmount: number;
+  };
+
+  @ApiProperty({
+    description:
+      'Project budget line the imprest is charged to, and its reservation',
+    required: false,
+  })
+  @Prop({
+    type: {
+      budgetId: { type: Types.ObjectId, ref: 'Budget' },
+      budgetType: { type: String, enum: ['internal', 'external'] },
+      categoryName: String,
+      itemName: String,
+      status: {
+        type: String,
+        enum: IMPREST_BUDGET_LINE_STATUSES,
+        default: 'selected',
+      },
+      reservedAmount: Number,
+      reservedAt: Date,
+      spentAmount: Number,
+      settledAt: Date,
+    },
+    _id: false,
+  })
+  budgetLine?: {
+    budgetId: Types.ObjectId;
+    budgetType: 'internal' | 'external';
+    categoryName: string;
+    itemName: string;
+    status: ImprestBudgetLineStatus;
+    reservedAmount?: number;
+    reservedAt?: Date;
+    spentAmount?: number;
+    settledAt?: Date;
+  };
+
   @ApiProperty({
     description: 'Optional file attachments for the imprest request',
     type: [Object],
@@ -299,3 +513,5 @@ export class Imprest {
 }
 
 export const ImprestSchema = SchemaFactory.createForClass(Imprest);
+
+ImprestSchema.plugin(statusChangedAtPlugin);
@@ -6,6 +6,7 @@ import { Lpo, LpoSchema } from './schemas/lpo.schema';
 import { NotificationsModule } from '../notifications/notifications.module';
 import { User, UserSchema } from '../auth/schemas/user.schema';
 import { Project, ProjectSchema } from '../project/schemas/project.schema';
+import { NumberingModule } from '../numbering/numbering.module';
 
 @Module({
   imports: [
@@ -15,6 +16,7 @@ import { Project, ProjectSchema } from '../project/schemas/project.schema';
       { name: Project.name, schema: ProjectSchema },
     ]),
     NotificationsModule,
+    NumberingModule,
   ],
   controllers: [LpoController],
   providers: [LpoService],
@@ -11,6 +11,7 @@ import { CreateLpoDto, SendLpoEmailDto } from './dto/lpo.dto';
 import { User, UserDocument } from '../auth/schemas/user.schema';
 import { Project } from '../project/schemas/project.schema';
 import { NotificationService } from '../notifications/services/notification.service';
+import { NumberingService } from '../numbering/numbering.service';
 
 @Injectable()
 export class LpoService {
@@ -21,11 +22,18 @@ export class LpoService {
     @InjectModel(User.name) private userModel: Model<UserDocument>,
     @InjectModel(Project.name) private projectModel: Model<Project>,
     private readonly notificationService: NotificationService,
+    private readonly numberingService: NumberingService,
   ) {}
 
   async create(createLpoDto: CreateLpoDto, userId: string): Promise<Lpo> {
+    const project = await this.projectModel
+      .findById(createLpoDto.projectId)
+      .exec();
     const newLpo = new this.lpoModel({
       ...createLpoDto,
+      lpoNo: await this.numberingService.next('lpo', {
+        department: project?.department,
+      }),
       preparedBy: userId,
       status: LpoStatus.SUBMITTED,
     });
@@ -33,7 +41,6 @@ export class LpoService {
     const savedLpo = await newLpo.save();
 
     // Notify HODs of the project's department
-    const project = await this.projectModel.findById(savedLpo.projectId).exec();
     if (project) {
       const hods = await this.userModel
         .find({
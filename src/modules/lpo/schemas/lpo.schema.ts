@@ -1,6 +1,7 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Schema as MongooseSchema } from 'mongoose';
 import { ApiProperty } from '@nestjs/swagger';
+import { statusChangedAtPlugin } from '../../../common/utils/status-changed-at.plugin';
 
 export type LpoDocument = Lpo & Document;
 
@@ -113,14 +114,4 @@ export class Lpo {
 
 export const LpoSchema = SchemaFactory.createForClass(Lpo);
 
-// Auto-generate LPO Number before validate or save
-LpoSchema.pre('validate', async function (next) {
-  if (this.isNew && !this.lpoNo) {
-    const date = new Date();
-    const month = (date.getMonth() + 1).toString().padStart(2, '0');
-    // Using a random alphanumeric or count for simplicity without a seq collection
-    const randomCounter = Math.floor(100 + Math.random() * 900);
-    this.lpoNo = `LPO/${month}/${randomCounter}`;
-  }
-  next();
-});
+LpoSchema.plugin(statusChangedAtPlugin);
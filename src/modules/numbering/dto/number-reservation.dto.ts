@@ -0,0 +1,63 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import {
+  DOCUMENT_NUMBER_TYPES,
+  DocumentNumberType,
+} from '../../system-config/policies';
+
+export class ReserveNumberDto {
+  @ApiProperty({ enum: DOCUMENT_NUMBER_TYPES, example: 'lpo' })
+  @IsIn(DOCUMENT_NUMBER_TYPES)
+  documentType: DocumentNumberType;
+
+  @ApiProperty({
+    description:
+      'Sequence to reserve, such as a gap left in the series. Omit to reserve the next number.',
+    required: false,
+    example: 17,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  sequence?: number;
+
+  @ApiProperty({
+    description: 'Year of the series, defaults to the current year',
+    required: false,
+    example: 2026,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(2000)
+  @Max(9999)
+  year?: number;
+
+  @ApiProperty({
+    description: 'Department, for types numbered per department',
+    required: false,
+    example: 'SRCC',
+  })
+  @IsOptional()
+  @IsString()
+  department?: string;
+
+  @ApiProperty({ example: 'Issued on a manual LPO book during the outage' })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
+
+export class ReleaseNumberDto {
+  @ApiProperty({ example: 'Manual LPO was never issued' })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
@@ -0,0 +1,78 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { NumberingService } from './numbering.service';
+import {
+  ReleaseNumberDto,
+  ReserveNumberDto,
+} from './dto/number-reservation.dto';
+import { NumberReservationStatus } from './schemas/number-reservation.schema';
+import {
+  DOCUMENT_NUMBER_TYPES,
+  DocumentNumberType,
+} from '../system-config/policies';
+
+@ApiTags('Document Numbering')
+@Controller('numbering')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('admin', 'super_admin')
+@ApiBearerAuth()
+export class NumberingController {
+  constructor(private readonly numberingService: NumberingService) {}
+
+  @Post('reservations')
+  @ApiOperation({
+    summary: 'Reserve a document number',
+    description:
+      'Reserves a specific sequence, such as a gap in the series, or the next number. Automatic numbering skips reserved numbers.',
+  })
+  @ApiResponse({ status: 201, description: 'Number reserved' })
+  @ApiResponse({ status: 409, description: 'Number already reserved or used' })
+  reserve(@Body() dto: ReserveNumberDto, @Req() req: any) {
+    return this.numberingService.reserve(dto, req.user.sub);
+  }
+
+  @Get('reservations')
+  @ApiOperation({ summary: 'List number reservations' })
+  @ApiQuery({
+    name: 'documentType',
+    required: false,
+    enum: DOCUMENT_NUMBER_TYPES,
+  })
+  @ApiQuery({ name: 'status', required: false, enum: NumberReservationStatus })
+  findReservations(
+    @Query('documentType') documentType?: DocumentNumberType,
+    @Query('status') status?: NumberReservationStatus,
+  ) {
+    return this.numberingService.findReservations({ documentType, status });
+  }
+
+  @Post('reservations/:id/release')
+  @ApiOperation({ summary: 'Release a reserved number' })
+  @ApiResponse({ status: 201, description: 'Reservation released' })
+  @ApiResponse({ status: 400, description: 'Reservation already released' })
+  release(
+    @Param('id') id: string,
+    @Body() dto: ReleaseNumberDto,
+    @Req() req: any,
+  ) {
+    return this.numberingService.release(id, req.user.sub, dto);
+  }
+}
@@ -0,0 +1,45 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  DocumentCounter,
+  DocumentCounterSchema,
+} from './schemas/document-counter.schema';
+import {
+  NumberReservation,
+  NumberReservationSchema,
+} from './schemas/number-reservation.schema';
+import { NumberingService } from './numbering.service';
+import { NumberingController } from './numbering.controller';
+import { Contract, ContractSchema } from '../project/schemas/contract.schema';
+import { Invoice, InvoiceSchema } from '../project/schemas/invoice.schema';
+import { Lpo, LpoSchema } from '../lpo/schemas/lpo.schema';
+import {
+  PaymentVoucher,
+  PaymentVoucherSchema,
+} from '../payment-request/schemas/payment-voucher.schema';
+import { Claim, ClaimSchema } from '../claims/schemas/claim.schema';
+import {
+  ClaimPaymentBatch,
+  ClaimPaymentBatchSchema,
+} from '../claims/schemas/claim-payment-batch.schema';
+import { SystemConfigModule } from '../system-config/system-config.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: DocumentCounter.name, schema: DocumentCounterSchema },
+      { name: NumberReservation.name, schema: NumberReservationSchema },
+      { name: Contract.name, schema: ContractSchema },
+      { name: Invoice.name, schema: InvoiceSchema },
+      { name: Lpo.name, schema: LpoSchema },
+      { name: PaymentVoucher.name, schema: PaymentVoucherSchema },
+      { name: Claim.name, schema: ClaimSchema },
+      { name: ClaimPaymentBatch.name, schema: ClaimPaymentBatchSchema },
+    ]),
+    SystemConfigModule,
+  ],
+  controllers: [NumberingController],
+  providers: [NumberingService],
+  exports: [NumberingService],
+})
+export class NumberingModule {}
@@ -0,0 +1,246 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  DocumentCounter,
+  DocumentCounterDocument,
+} from './schemas/document-counter.schema';
+import {
+  NumberReservation,
+  NumberReservationDocument,
+  NumberReservationStatus,
+} from './schemas/number-reservation.schema';
+import {
+  ReleaseNumberDto,
+  ReserveNumberDto,
+} from './dto/number-reservation.dto';
+import { Contract } from '../project/schemas/contract.schema';
+import { Invoice } from '../project/schemas/invoice.schema';
+import { Lpo } from '../lpo/schemas/lpo.schema';
+import { PaymentVoucher } from '../payment-request/schemas/payment-voucher.schema';
+import { Claim } from '../claims/schemas/claim.schema';
+import { ClaimPaymentBatch } from '../claims/schemas/claim-payment-batch.schema';
+import { SystemConfigService } from '../system-config/services/system-config.service';
+import {
+  DocumentNumberFormat,
+  DocumentNumberType,
+} from '../system-config/policies';
+
+interface NumberSeries {
+  documentType: DocumentNumberType;
+  format: DocumentNumberFormat;
+  year: number;
+  period: string;
+  scope: string;
+}
+
+/**
+ * Hands out document numbers from an atomic counter per document type, year
+ * and department. Numbers that are reserved by hand, or already carried by a
+ * document from before the counters existed, are skipped.
+ */
+@Injectable()
+export class NumberingService {
+  private readonly logger = new Logger(NumberingService.name);
+
+  constructor(
+    @InjectModel(DocumentCounter.name)
+    private counterModel: Model<DocumentCounterDocument>,
+    @InjectModel(NumberReservation.name)
+    private reservationModel: Model<NumberReservationDocument>,
+    @InjectModel(Contract.name) private contractModel: Model<Contract>,
+    @InjectModel(Invoice.name) private invoiceModel: Model<Invoice>,
+    @InjectModel(Lpo.name) private lpoModel: Model<Lpo>,
+    @InjectModel(PaymentVoucher.name)
+    private paymentVoucherModel: Model<PaymentVoucher>,
+    @InjectModel(Claim.name) private claimModel: Model<Claim>,
+    @InjectModel(ClaimPaymentBatch.name)
+    private paymentBatchModel: Model<ClaimPaymentBatch>,
+    private readonly systemConfigService: SystemConfigService,
+  ) {}
+
+  async next(
+    documentType: DocumentNumberType,
+    options: { department?: string; year?: number } = {},
+  ): Promise<string> {
+    const series = await this.getSeries(documentType, options);
+    return (await this.allocate(series)).number;
+  }
+
+  async reserve(
+    dto: ReserveNumberDto,
+    userId: string,
+  ): Promise<NumberReservationDocument> {
+    const series = await this.getSeries(dto.documentType, dto);
+
+    let sequence = dto.sequence;
+    let number: string;
+    if (sequence) {
+      number = this.format(series, sequence);
+      if (await this.isTaken(series.documentType, number)) {
+        throw new ConflictException(`${number} is already reserved or in use`);
+      }
+    } else {
+      ({ number, sequence } = await this.allocate(series));
+    }
+
+    try {
+      const reservation = await this.reservationModel.create({
+        documentType: series.documentType,
+        number,
+        sequence,
+        period: series.period,
+        scope: series.scope,
+        reason: dto.reason,
+        reservedBy: new Types.ObjectId(userId),
+        reservedAt: new Date(),
+      });
+      this.logger.log(`Reserved ${number} for user ${userId}: ${dto.reason}`);
+      return reservation;
+    } catch (error) {
+      if (error.code === 11000) {
+        throw new ConflictException(`${number} is already reserved`);
+      }
+      throw error;
+    }
+  }
+
+  async findReservations(filters: {
+    documentType?: DocumentNumberType;
+    status?: NumberReservationStatus;
+  }): Promise<NumberReservationDocument[]> {
+    return this.reservationModel
+      .find({
+        ...(filters.documentType && { documentType: filters.documentType }),
+        ...(filters.status && { status: filters.status }),
+      })
+      .populate('reservedBy', 'firstName lastName email')
+      .populate('releasedBy', 'firstName lastName email')
+      .sort({ reservedAt: -1 });
+  }
+
+  // Gives up a reservation; the number is left as a gap in the series
+  async release(
+    id: string,
+    userId: string,
+    dto: ReleaseNumberDto,
+  ): Promise<NumberReservationDocument> {
+    const reservation = await this.reservationModel.findById(id);
+    if (!reservation) {
+      throw new NotFoundException('Reservation not found');
+    }
+    if (reservation.status !== NumberReservationStatus.RESERVED) {
+      throw new BadRequestException(
+        `Reservation is already ${reservation.status}`,
+      );
+    }
+
+    reservation.status = NumberReservationStatus.RELEASED;
+    reservation.releasedBy = new Types.ObjectId(userId);
+    reservation.releasedAt = new Date();
+    reservation.releaseReason = dto.reason;
+    const saved = await reservation.save();
+    this.logger.log(
+      `Released ${reservation.number} for user ${userId}: ${dto.reason}`,
+    );
+    return saved;
+  }
+
+  private async getSeries(
+    documentType: DocumentNumberType,
+    options: { department?: string; year?: number },
+  ): Promise<NumberSeries> {
+    const policy = await this.systemConfigService.getDocumentNumberingPolicy();
+    const format = policy.formats[documentType];
+    const year = options.year || new Date().getFullYear();
+
+    let scope = '';
+    if (format.includeDepartment) {
+      if (!options.department) {
+        throw new BadRequestException(
+          `A department is required to number this ${documentType.replace('_', ' ')}`,
+        );
+      }
+      scope =
+        policy.departmentCodes[options.department] ||
+        options.department.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    }
+
+    return {
+      documentType,
+      format,
+      year,
+      period: format.resetYearly ? String(year) : 'all',
+      scope,
+    };
+  }
+
+  private async allocate(
+    series: NumberSeries,
+  ): Promise<{ number: string; sequence: number }> {
+    for (;;) {
+      const counter = await this.counterModel
+        .findOneAndUpdate(
+          {
+            documentType: series.documentType,
+            period: series.period,
+            scope: series.scope,
+          },
+          { $inc: { seq: 1 } },
+          { upsert: true, new: true },
+        )
+        .lean();
+
+      const number = this.format(series, counter.seq);
+      if (!(await this.isTaken(series.documentType, number))) {
+        return { number, sequence: counter.seq };
+      }
+      this.logger.warn(`Skipping ${number}, already reserved or in use`);
+    }
+  }
+
+  private format(series: NumberSeries, sequence: number): string {
+    const { format } = series;
+    return [
+      format.prefix,
+      format.includeYear && String(series.year),
+      series.scope,
+      String(sequence).padStart(format.padding, '0'),
+    ]
+      .filter(Boolean)
+      .join(format.separator);
+  }
+
+  private async isTaken(
+    documentType: DocumentNumberType,
+    number: string,
+  ): Promise<boolean> {
+    const reserved = await this.reservationModel.exists({
+      documentType,
+      number,
+      status: NumberReservationStatus.RESERVED,
+    });
+    if (reserved) return true;
+
+    switch (documentType) {
+      case 'contract':
+        return !!(await this.contractModel.exists({ contractNumber: number }));
+      case 'invoice':
+        return !!(await this.invoiceModel.exists({ invoiceNumber: number }));
+      case 'lpo':
+        return !!(await this.lpoModel.exists({ lpoNo: number }));
+      case 'payment_voucher':
+        return !!(await this.paymentVoucherModel.exists({ voucherNo: number }));
+      case 'claim':
+        return !!(await this.claimModel.exists({ claimNumber: number }));
+      case 'payment_batch':
+        return !!(await this.paymentBatchModel.exists({ batchNumber: number }));
+    }
+  }
+}
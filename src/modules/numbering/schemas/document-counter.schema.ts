@@ -0,0 +1,43 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  DOCUMENT_NUMBER_TYPES,
+  DocumentNumberType,
+} from '../../system-config/policies';
+
+export type DocumentCounterDocument = DocumentCounter & Document;
+
+// Last sequence handed out for a document type, period and department
+@Schema({ timestamps: true })
+export class DocumentCounter {
+  @ApiProperty({ enum: DOCUMENT_NUMBER_TYPES })
+  @Prop({ required: true, enum: DOCUMENT_NUMBER_TYPES })
+  documentType: DocumentNumberType;
+
+  @ApiProperty({
+    description: "Year the sequence belongs to, or 'all' when it never resets",
+    example: '2026',
+  })
+  @Prop({ required: true })
+  period: string;
+
+  @ApiProperty({
+    description: "Department code for per-department sequences, '' otherwise",
+    example: '',
+  })
+  @Prop({ default: '' })
+  scope: string;
+
+  @ApiProperty({ example: 42 })
+  @Prop({ required: true, default: 0 })
+  seq: number;
+}
+
+export const DocumentCounterSchema =
+  SchemaFactory.createForClass(DocumentCounter);
+
+DocumentCounterSchema.index(
+  { documentType: 1, period: 1, scope: 1 },
+  { unique: true },
+);
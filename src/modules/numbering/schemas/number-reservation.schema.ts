@@ -0,0 +1,82 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  DOCUMENT_NUMBER_TYPES,
+  DocumentNumberType,
+} from '../../system-config/policies';
+
+export enum NumberReservationStatus {
+  RESERVED = 'reserved',
+  RELEASED = 'released',
+}
+
+export type NumberReservationDocument = NumberReservation & Document;
+
+// A number set aside by hand, which automatic numbering will skip
+@Schema({ timestamps: true })
+export class NumberReservation {
+  @ApiProperty({ enum: DOCUMENT_NUMBER_TYPES })
+  @Prop({ required: true, enum: DOCUMENT_NUMBER_TYPES })
+  documentType: DocumentNumberType;
+
+  @ApiProperty({ example: 'LPO/2026/0017' })
+  @Prop({ required: true })
+  number: string;
+
+  @ApiProperty({ example: 17 })
+  @Prop({ required: true })
+  sequence: number;
+
+  @ApiProperty({ example: '2026' })
+  @Prop({ required: true })
+  period: string;
+
+  @ApiProperty({ example: '' })
+  @Prop({ default: '' })
+  scope: string;
+
+  @ApiProperty({ enum: NumberReservationStatus })
+  @Prop({
+    required: true,
+    enum: NumberReservationStatus,
+    default: NumberReservationStatus.RESERVED,
+  })
+  status: NumberReservationStatus;
+
+  @ApiProperty({ example: 'Issued on a manual LPO book during the outage' })
+  @Prop({ required: true })
+  reason: string;
+
+  @ApiProperty()
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  reservedBy: Types.ObjectId;
+
+  @ApiProperty()
+  @Prop({ required: true })
+  reservedAt: Date;
+
+  @ApiProperty({ required: false })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  releasedBy?: Types.ObjectId;
+
+  @ApiProperty({ required: false })
+  @Prop()
+  releasedAt?: Date;
+
+  @ApiProperty({ required: false })
+  @Prop()
+  releaseReason?: string;
+}
+
+export const NumberReservationSchema =
+  SchemaFactory.createForClass(NumberReservation);
+
+// One live reservation per number
+NumberReservationSchema.index(
+  { documentType: 1, number: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { status: NumberReservationStatus.RESERVED },
+  },
+);
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  OtpChallenge,
+  OtpChallengeSchema,
+} from './schemas/otp-challenge.schema';
+import { OtpService } from './otp.service';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: OtpChallenge.name, schema: OtpChallengeSchema },
+    ]),
+  ],
+  providers: [OtpService],
+  exports: [OtpService],
+})
+export class OtpModule {}
@@ -0,0 +1,187 @@
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { OtpService } from './otp.service';
+
+type Doc = Record<string, any>;
+
+// Evaluates the subset of MongoDB filters the service uses
+function matches(doc: Doc, filter: Doc): boolean {
+  return Object.entries(filter).every(([field, condition]) => {
+    const value = doc[field];
+    if (
+      condition &&
+      typeof condition === 'object' &&
+      !(condition instanceof Date) &&
+      !(condition instanceof Types.ObjectId)
+    ) {
+      return Object.entries(condition).every(([op, operand]: [string, any]) => {
+        switch (op) {
+          case '$exists':
+            return (value !== undefined) === operand;
+          case '$lt':
+            return value !== undefined && value < operand;
+          case '$gt':
+            return value !== undefined && value > operand;
+          case '$gte':
+            return value !== undefined && value >= operand;
+          case '$not':
+            return !matches(doc, { [field]: operand });
+          default:
+            throw new Error(`Unsupported operator ${op}`);
+        }
+      });
+    }
+    return String(value) === String(condition);
+  });
+}
+
+function apply(doc: Doc, update: Doc): void {
+  const { $set = {}, $unset = {}, $inc = {}, ...plain } = update;
+  Object.assign(doc, plain, $set);
+  Object.keys($unset).forEach((field) => delete doc[field]);
+  Object.entries($inc).forEach(([field, by]: [string, number]) => {
+    doc[field] = (doc[field] || 0) + by;
+  });
+}
+
+/**
+ * Stores challenges in memory. Every call yields before it runs, so
+ * concurrent verifications interleave, but each update applies atomically
+ * as it would in MongoDB.
+ */
+class FakeChallengeModel {
+  docs: Doc[] = [];
+
+  private query<T>(run: () => T) {
+    const result = Promise.resolve().then(run);
+    const query: any = {
+      select: () => query,
+      lean: () => query,
+      then: (resolve: any, reject: any) => result.then(resolve, reject),
+    };
+    return query;
+  }
+
+  findOne(filter: Doc) {
+    return this.query(() => {
+      const doc = this.docs.find((d) => matches(d, filter));
+      return doc && { ...doc };
+    });
+  }
+
+  findOneAndUpdate(filter: Doc, update: Doc) {
+    return this.query(() => {
+      const doc = this.docs.find((d) => matches(d, filter));
+      if (!doc) return null;
+      apply(doc, update);
+      return { ...doc };
+    });
+  }
+
+  updateOne(filter: Doc, update: Doc, options: Doc = {}) {
+    return this.query(() => {
+      let doc = this.docs.find((d) => matches(d, filter));
+      if (!doc && options.upsert) {
+        doc = { _id: new Types.ObjectId(), ...filter };
+        this.docs.push(doc);
+      }
+      if (doc) apply(doc, update);
+      return { modifiedCount: doc ? 1 : 0 };
+    });
+  }
+}
+
+describe('OtpService', () => {
+  const subject = 'contract-1';
+  const purpose = 'contract_acceptance';
+  let model: FakeChallengeModel;
+  let service: OtpService;
+
+  beforeEach(() => {
+    model = new FakeChallengeModel();
+    const config = {
+      get: (key: string) =>
+        ({ OTP_MAX_ATTEMPTS: '3', OTP_SECRET: 'test-secret' })[key],
+    } as unknown as ConfigService;
+    service = new OtpService(model as any, config);
+  });
+
+  const wrongCode = (code: string) =>
+    String((Number(code) + 1) % 10000).padStart(4, '0');
+
+  it('verifies the issued code once and records where it came from', async () => {
+    const { code } = await service.issue(purpose, subject, { digits: 4 });
+
+    const verified = await service.verify(purpose, subject, code, {
+      ipAddress: '10.0.0.1',
+    });
+    expect(verified.verifiedAt).toBeInstanceOf(Date);
+    expect(verified.ipAddress).toBe('10.0.0.1');
+
+    await expect(service.verify(purpose, subject, code)).rejects.toMatchObject({
+      status: 404,
+    });
+  });
+
+  it('counts wrong codes and locks the subject at the limit', async () => {
+    const { code } = await service.issue(purpose, subject, { digits: 4 });
+
+    await expect(
+      service.verify(purpose, subject, wrongCode(code)),
+    ).rejects.toThrow('2 attempts remaining');
+    await expect(
+      service.verify(purpose, subject, wrongCode(code)),
+    ).rejects.toThrow('1 attempts remaining');
+    await expect(
+      service.verify(purpose, subject, wrongCode(code)),
+    ).rejects.toMatchObject({ status: 429 });
+
+    // The right code no longer helps once locked
+    await expect(service.verify(purpose, subject, code)).rejects.toMatchObject({
+      status: 429,
+    });
+    expect(model.docs[0].verifiedAt).toBeUndefined();
+    await expect(service.issue(purpose, subject)).rejects.toMatchObject({
+      status: 429,
+    });
+  });
+
+  it('refuses expired codes', async () => {
+    const { code } = await service.issue(purpose, subject, { digits: 4 });
+    model.docs[0].expiresAt = new Date(Date.now() - 1000);
+
+    await expect(service.verify(purpose, subject, code)).rejects.toThrow(
+      'OTP has expired',
+    );
+  });
+
+  it('lets no more than the allowed guesses through a concurrent burst', async () => {
+    const { code } = await service.issue(purpose, subject, { digits: 4 });
+    const guesses = Array.from({ length: 20 }, (_, i) =>
+      String((Number(code) + 1 + i) % 10000).padStart(4, '0'),
+    );
+    // The right code arrives after the attempts are used up
+    guesses.push(code);
+
+    const results = await Promise.allSettled(
+      guesses.map((guess) => service.verify(purpose, subject, guess)),
+    );
+
+    expect(results.every((r) => r.status === 'rejected')).toBe(true);
+    expect(model.docs[0].attempts).toBe(3);
+    expect(model.docs[0].lockedUntil).toBeInstanceOf(Date);
+    expect(model.docs[0].verifiedAt).toBeUndefined();
+  });
+
+  it('accepts the right code only once when submitted concurrently', async () => {
+    const { code } = await service.issue(purpose, subject, { digits: 4 });
+
+    const results = await Promise.allSettled([
+      service.verify(purpose, subject, code),
+      service.verify(purpose, subject, code),
+      service.verify(purpose, subject, code),
+    ]);
+
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,266 @@
+import {
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import * as crypto from 'crypto';
+import {
+  OtpChallenge,
+  OtpChallengeDocument,
+  OtpPurpose,
+} from './schemas/otp-challenge.schema';
+
+export interface OtpIssueOptions {
+  digits?: number;
+  expiryMinutes?: number;
+}
+
+// Where a code was entered from, kept with the verified challenge
+export interface OtpRequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface IssuedOtp {
+  code: string;
+  expiresAt: Date;
+  expiryMinutes: number;
+}
+
+const RETENTION_HOURS = 24;
+
+const addMinutes = (date: Date, minutes: number) =>
+  new Date(date.getTime() + minutes * 60 * 1000);
+
+/**
+ * One-time codes kept in MongoDB so they survive restarts and work across
+ * instances. Codes are stored as keyed hashes; a subject is locked out after
+ * too many wrong codes and cannot be sent a new code during the cooldown.
+ */
+@Injectable()
+export class OtpService {
+  private readonly logger = new Logger(OtpService.name);
+  private readonly expiryMinutes: number;
+  private readonly maxAttempts: number;
+  private readonly lockoutMinutes: number;
+  private readonly cooldownMinutes: number;
+  private readonly secret: string;
+
+  constructor(
+    @InjectModel(OtpChallenge.name)
+    private challengeModel: Model<OtpChallengeDocument>,
+    private readonly configService: ConfigService,
+  ) {
+    this.expiryMinutes =
+      Number(this.configService.get('OTP_EXPIRY_MINUTES')) || 30;
+    this.maxAttempts = Number(this.configService.get('OTP_MAX_ATTEMPTS')) || 5;
+    this.lockoutMinutes =
+      Number(this.configService.get('OTP_LOCKOUT_MINUTES')) || 30;
+    this.cooldownMinutes =
+      Number(this.configService.get('OTP_COOLDOWN_MINUTES')) || 2;
+    this.secret =
+      this.configService.get<string>('OTP_SECRET') ||
+      this.configService.get<string>('JWT_SECRET');
+  }
+
+  // Replaces any earlier code for the same purpose and subject
+  async issue(
+    purpose: OtpPurpose,
+    subject: string,
+    options: OtpIssueOptions = {},
+  ): Promise<IssuedOtp> {
+    const now = new Date();
+    const existing = await this.challengeModel
+      .findOne({ purpose, subject })
+      .lean();
+
+    if (existing?.lockedUntil > now) {
+      throw this.lockedOut(existing.lockedUntil, now);
+    }
+    if (
+      existing &&
+      !existing.verifiedAt &&
+      existing.expiresAt > now &&
+      addMinutes(existing.lastSentAt, this.cooldownMinutes) > now
+    ) {
+      throw new ConflictException(
+        `Please wait ${this.cooldownMinutes} minutes before requesting a new OTP`,
+      );
+    }
+
+    const digits = options.digits || 6;
+    const expiryMinutes = options.expiryMinutes || this.expiryMinutes;
+    const code = crypto.randomInt(10 ** (digits - 1), 10 ** digits).toString();
+    const expiresAt = addMinutes(now, expiryMinutes);
+
+    await this.challengeModel.updateOne(
+      { purpose, subject },
+      {
+        $set: {
+          codeHash: this.hash(purpose, subject, code),
+          expiresAt,
+          attempts: 0,
+          lastSentAt: now,
+          purgeAt: addMinutes(expiresAt, RETENTION_HOURS * 60),
+        },
+        $unset: {
+          lockedUntil: 1,
+          verifiedAt: 1,
+          ipAddress: 1,
+          userAgent: 1,
+        },
+      },
+      { upsert: true },
+    );
+    this.logger.log(
+      `Issued ${purpose} OTP for ${subject}, expires at ${expiresAt.toISOString()}`,
+    );
+
+    return { code, expiresAt, expiryMinutes };
+  }
+
+  /**
+   * Throws unless the code matches; a matched code cannot be used again.
+   * Each guess claims an attempt in one atomic update before the code is
+   * compared, so concurrent guesses cannot get past the attempt limit.
+   */
+  async verify(
+    purpose: OtpPurpose,
+    subject: string,
+    code: string,
+    context: OtpRequestContext = {},
+  ): Promise<OtpChallengeDocument> {
+    const now = new Date();
+    const challenge = await this.challengeModel
+      .findOneAndUpdate(
+        {
+          purpose,
+          subject,
+          verifiedAt: { $exists: false },
+          expiresAt: { $gte: now },
+          attempts: { $lt: this.maxAttempts },
+          lockedUntil: { $not: { $gt: now } },
+        },
+        { $inc: { attempts: 1 } },
+        { new: true },
+      )
+      .select('+codeHash');
+    if (!challenge) {
+      throw await this.refusal(purpose, subject, now);
+    }
+
+    if (this.matches(challenge.codeHash, purpose, subject, String(code))) {
+      // Only the code that claimed this attempt, and only while not locked
+      const verified = await this.challengeModel.findOneAndUpdate(
+        {
+          _id: challenge._id,
+          codeHash: challenge.codeHash,
+          verifiedAt: { $exists: false },
+          lockedUntil: { $not: { $gt: now } },
+        },
+        {
+          verifiedAt: now,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+        },
+        { new: true },
+      );
+      if (!verified) {
+        throw await this.refusal(purpose, subject, now);
+      }
+      return verified;
+    }
+
+    if (challenge.attempts >= this.maxAttempts) {
+      const lockedUntil = await this.lock(challenge, now);
+      this.logger.warn(
+        `Locked ${purpose} OTP for ${subject} after ${challenge.attempts} failed attempts`,
+      );
+      throw this.lockedOut(lockedUntil, now);
+    }
+
+    throw new BadRequestException(
+      `Invalid OTP. You have ${this.maxAttempts - challenge.attempts} attempts remaining.`,
+    );
+  }
+
+  // Explains why no attempt could be claimed on the subject's challenge
+  private async refusal(
+    purpose: OtpPurpose,
+    subject: string,
+    now: Date,
+  ): Promise<HttpException> {
+    const challenge = await this.challengeModel.findOne({ purpose, subject });
+
+    if (!challenge || challenge.verifiedAt) {
+      return new NotFoundException(
+        'OTP not found or expired. Please request a new OTP.',
+      );
+    }
+    if (challenge.lockedUntil > now) {
+      return this.lockedOut(challenge.lockedUntil, now);
+    }
+    if (challenge.expiresAt < now) {
+      return new NotFoundException(
+        'OTP has expired. Please request a new OTP.',
+      );
+    }
+    // Attempts ran out in a concurrent guess that has not locked it yet
+    return this.lockedOut(await this.lock(challenge, now), now);
+  }
+
+  private async lock(
+    challenge: OtpChallengeDocument,
+    now: Date,
+  ): Promise<Date> {
+    const lockedUntil = addMinutes(now, this.lockoutMinutes);
+    await this.challengeModel.updateOne(
+      { _id: challenge._id, lockedUntil: { $not: { $gt: now } } },
+      {
+        lockedUntil,
+        purgeAt: new Date(
+          Math.max(challenge.purgeAt.getTime(), lockedUntil.getTime()),
+        ),
+      },
+    );
+    return lockedUntil;
+  }
+
+  private hash(purpose: string, subject: string, code: string): string {
+    return crypto
+      .createHmac('sha256', this.secret)
+      .update(`${purpose}:${subject}:${code}`)
+      .digest('hex');
+  }
+
+  private matches(
+    codeHash: string,
+    purpose: string,
+    subject: string,
+    code: string,
+  ): boolean {
+    const expected = Buffer.from(codeHash, 'hex');
+    const actual = Buffer.from(this.hash(purpose, subject, code), 'hex');
+    return (
+      expected.length === actual.length &&
+      crypto.timingSafeEqual(expected, actual)
+    );
+  }
+
+  private lockedOut(lockedUntil: Date, now: Date): HttpException {
+    const minutes = Math.ceil(
+      (lockedUntil.getTime() - now.getTime()) / (60 * 1000),
+    );
+    return new HttpException(
+      `Too many failed attempts. Please try again in ${minutes} minutes.`,
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export const OTP_PURPOSES = [
+  'contract_acceptance',
+  'contract_amendment',
+  'user_phone_verification',
+  'user_email_verification',
+  'organization_phone_verification',
+  'organization_email_verification',
+] as const;
+export type OtpPurpose = (typeof OTP_PURPOSES)[number];
+
+export type OtpChallengeDocument = OtpChallenge & Document;
+
+/**
+ * One outstanding code per purpose and subject. Only a hash of the code is
+ * stored; the document is removed by its TTL index once `purgeAt` passes.
+ */
+@Schema({ timestamps: true })
+export class OtpChallenge {
+  @ApiProperty({ enum: OTP_PURPOSES })
+  @Prop({ required: true, enum: OTP_PURPOSES })
+  purpose: OtpPurpose;
+
+  @ApiProperty({
+    description: 'What the code confirms, such as a contract or user ID',
+  })
+  @Prop({ required: true })
+  subject: string;
+
+  @Prop({ required: true, select: false })
+  codeHash: string;
+
+  @ApiProperty()
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @ApiProperty({ description: 'Failed attempts on the current code' })
+  @Prop({ default: 0 })
+  attempts: number;
+
+  @ApiProperty({ required: false })
+  @Prop()
+  lockedUntil?: Date;
+
+  @ApiProperty()
+  @Prop({ required: true })
+  lastSentAt: Date;
+
+  @ApiProperty({ required: false })
+  @Prop()
+  verifiedAt?: Date;
+
+  @ApiProperty({ required: false })
+  @Prop()
+  ipAddress?: string;
+
+  @ApiProperty({ required: false })
+  @Prop()
+  userAgent?: string;
+
+  // Kept past expiry so lockouts and verification records outlive the code
+  @Prop({ required: true })
+  purgeAt: Date;
+}
+
+export const OtpChallengeSchema = SchemaFactory.createForClass(OtpChallenge);
+
+OtpChallengeSchema.index({ purpose: 1, subject: 1 }, { unique: true });
+OtpChallengeSchema.index({ purgeAt: 1 }, { expireAfterSeconds: 0 });
@@ -14,6 +14,7 @@ import { PaymentRequestService } from './payment-request.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { AllowDelegation } from '../auth/decorators/allow-delegation.decorator';
 import {
   CreatePaymentRequestDto,
   ApproveRequestDto,
@@ -86,6 +87,7 @@ export class PaymentRequestController {
 
   @Post(':id/approve')
   @Roles('hod', 'admin')
+  @AllowDelegation('payment_requests')
   @ApiOperation({ summary: 'Approve a Payment Request (HOD only)' })
   async approveRequest(
     @Param('id') id: string,
@@ -98,6 +100,7 @@ export class PaymentRequestController {
 
   @Post(':id/reject')
   @Roles('hod', 'admin')
+  @AllowDelegation('payment_requests')
   @ApiOperation({ summary: 'Reject a Payment Request (HOD only)' })
   async rejectRequest(
     @Param('id') id: string,
@@ -110,6 +113,7 @@ export class PaymentRequestController {
 
   @Post(':id/request-revision')
   @Roles('hod', 'admin')
+  @AllowDelegation('payment_requests')
   @ApiOperation({ summary: 'Request revision for a Payment Request (HOD only)' })
   async requestRequestRevision(
     @Param('id') id: string,
@@ -167,6 +171,7 @@ export class PaymentRequestController {
 
   @Post('vouchers/:id/approve')
   @Roles('srcc_finance', 'admin')
+  @AllowDelegation('payment_requests')
   @ApiOperation({ summary: 'Approve a Payment Voucher (Finance Approver only)' })
   async approveVoucher(
     @Param('id') id: string,
@@ -179,6 +184,7 @@ export class PaymentRequestController {
 
   @Post('vouchers/:id/reject')
   @Roles('srcc_finance', 'admin')
+  @AllowDelegation('payment_requests')
   @ApiOperation({ summary: 'Reject a Payment Voucher (Finance Approver only)' })
   async rejectVoucher(
     @Param('id') id: string,
@@ -191,6 +197,7 @@ export class PaymentRequestController {
 
   @Post('vouchers/:id/request-revision')
   @Roles('srcc_finance', 'admin')
+  @AllowDelegation('payment_requests')
   @ApiOperation({ summary: 'Request revision for a Payment Voucher (Finance Approver only)' })
   async requestVoucherRevision(
     @Param('id') id: string,
@@ -8,6 +8,9 @@ import { Project, ProjectSchema } from '../project/schemas/project.schema';
 import { Lpo, LpoSchema } from '../lpo/schemas/lpo.schema';
 import { User, UserSchema } from '../auth/schemas/user.schema';
 import { NotificationsModule } from '../notifications/notifications.module';
+import { DelegationModule } from '../delegation/delegation.module';
+import { NumberingModule } from '../numbering/numbering.module';
+import { ImprestModule } from '../imprest/imprest.module';
 
 @Module({
   imports: [
@@ -19,6 +22,9 @@ import { NotificationsModule } from '../notifications/notifications.module';
       { name: User.name, schema: UserSchema },
     ]),
     NotificationsModule,
+    DelegationModule,
+    NumberingModule,
+    ImprestModule,
   ],
   controllers: [PaymentRequestController],
   providers: [PaymentRequestService],
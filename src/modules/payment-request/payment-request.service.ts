@@ -32,10 +32,18 @@ import { Project, ProjectDocument } from '../project/schemas/project.schema';
 import { Lpo, LpoDocument, LpoStatus } from '../lpo/schemas/lpo.schema';
 import { User, UserDocument } from '../auth/schemas/user.schema';
 import { NotificationService } from '../notifications/services/notification.service';
+import {
+  DelegationService,
+  ResolvedActor,
+  formatActingAs,
+} from '../delegation/delegation.service';
+import { NumberingService } from '../numbering/numbering.service';
+import { ImprestService } from '../imprest/imprest.service';
 
 @Injectable()
 export class PaymentRequestService {
   private readonly logger = new Logger(PaymentRequestService.name);
+  private readonly HOD_APPROVAL_HOURS = 48;
 
   constructor(
     @InjectModel(PaymentRequest.name)
@@ -49,11 +57,17 @@ export class PaymentRequestService {
     @InjectModel(User.name)
     private userModel: Model<UserDocument>,
     private readonly notificationService: NotificationService,
+    private readonly delegationService: DelegationService,
+    private readonly numberingService: NumberingService,
+    private readonly imprestService: ImprestService,
   ) {}
 
   private async notifyRole(role: string, subject: string, message: string) {
     try {
-      const users = await this.userModel.find({ roles: role }).exec();
+      const users = await this.delegationService.substituteRecipients(
+        await this.userModel.find({ roles: role }).exec(),
+        'payment_requests',
+      );
       for (const user of users) {
         if (user.email) {
           await this.notificationService.sendEmail(user.email, subject, message);
@@ -87,6 +101,26 @@ export class PaymentRequestService {
     }
   }
 
+  private hodApprovalDeadline(): Date {
+    return new Date(Date.now() + this.HOD_APPROVAL_HOURS * 60 * 60 * 1000);
+  }
+
+  // The guard lets delegates through; record whose authority they used
+  private async resolveActor(
+    userId: string,
+    roles: string[],
+  ): Promise<ResolvedActor | null> {
+    return this.delegationService.resolveActor(userId, 'payment_requests', {
+      roles: [...roles, 'admin'],
+    });
+  }
+
+  private actingAsSuffix(resolved: ResolvedActor | null): string {
+    return resolved?.onBehalfOf
+      ? ` (${formatActingAs(resolved.actor, resolved.onBehalfOf)})`
+      : '';
+  }
+
   // Calculate LPO remaining balance
   async getLpoRemainingBalance(lpoId: string, excludeRequestId?: string): Promise<number> {
     const lpo = await this.lpoModel.findById(lpoId).exec();
@@ -134,6 +168,7 @@ export class PaymentRequestService {
       ...createDto,
       requestedBy: new Types.ObjectId(userId) as any,
       status: PaymentRequestStatus.PENDING_HOD_APPROVAL,
+      currentLevelDeadline: this.hodApprovalDeadline(),
       auditTrail: [
         {
           actionBy: new Types.ObjectId(userId) as any,
@@ -191,6 +226,7 @@ export class PaymentRequestService {
     request.attachments = updateDto.attachments;
     if (updateDto.currency) request.currency = updateDto.currency;
     request.status = PaymentRequestStatus.PENDING_HOD_APPROVAL; // reset to pending HOD approval
+    request.currentLevelDeadline = this.hodApprovalDeadline();
     request.auditTrail.push({
       actionBy: new Types.ObjectId(userId) as any,
       action: 'Revised',
@@ -275,15 +311,19 @@ export class PaymentRequestService {
       throw new BadRequestException('Request is not pending HOD approval');
     }
 
+    const resolved = await this.resolveActor(userId, ['hod']);
+
     request.status = PaymentRequestStatus.HOD_APPROVED;
+    request.currentLevelDeadline = null;
     request.approval = {
       approvedBy: new Types.ObjectId(userId) as any,
       approvedAt: new Date(),
       comments: dto.comments,
+      onBehalfOf: resolved?.onBehalfOf?._id as any,
     };
     request.auditTrail.push({
       actionBy: new Types.ObjectId(userId) as any,
-      action: 'Approved by HOD',
+      action: `Approved by HOD${this.actingAsSuffix(resolved)}`,
       actionAt: new Date(),
       comments: dto.comments,
     });
@@ -308,15 +348,19 @@ export class PaymentRequestService {
       throw new BadRequestException('Request is not pending HOD approval');
     }
 
+    const resolved = await this.resolveActor(userId, ['hod']);
+
     request.status = PaymentRequestStatus.REJECTED;
+    request.currentLevelDeadline = null;
     request.rejection = {
       rejectedBy: new Types.ObjectId(userId) as any,
       rejectedAt: new Date(),
       reason: dto.reason,
+      onBehalfOf: resolved?.onBehalfOf?._id as any,
     };
     request.auditTrail.push({
       actionBy: new Types.ObjectId(userId) as any,
-      action: 'Rejected by HOD',
+      action: `Rejected by HOD${this.actingAsSuffix(resolved)}`,
       actionAt: new Date(),
       comments: dto.reason,
     });
@@ -344,7 +388,10 @@ export class PaymentRequestService {
       throw new BadRequestException('Request is not pending HOD approval');
     }
 
+    const resolved = await this.resolveActor(userId, ['hod']);
+
     request.status = PaymentRequestStatus.REVISION_REQUESTED;
+    request.currentLevelDeadline = null;
     request.revision = {
       requestedBy: new Types.ObjectId(userId) as any,
       requestedAt: new Date(),
@@ -352,7 +399,7 @@ export class PaymentRequestService {
     };
     request.auditTrail.push({
       actionBy: new Types.ObjectId(userId) as any,
-      action: 'Revision Requested by HOD',
+      action: `Revision Requested by HOD${this.actingAsSuffix(resolved)}`,
       actionAt: new Date(),
       comments: dto.comment,
     });
@@ -394,6 +441,9 @@ export class PaymentRequestService {
     }
 
     const newVoucher = new this.paymentVoucherModel({
+      voucherNo: await this.numberingService.next('payment_voucher', {
+        department: (request.projectId as any)?.department,
+      }),
       paymentRequestId: new Types.ObjectId(dto.paymentRequestId) as any,
       amount: dto.amount,
       preparedBy: new Types.ObjectId(userId) as any,
@@ -554,15 +604,18 @@ export class PaymentRequestService {
       throw new BadRequestException('Voucher is not pending approval');
     }
 
+    const resolved = await this.resolveActor(userId, ['srcc_finance']);
+
     voucher.status = PaymentVoucherStatus.APPROVED;
     voucher.approval = {
       approvedBy: new Types.ObjectId(userId) as any,
       approvedAt: new Date(),
       comments: dto.comments,
+      onBehalfOf: resolved?.onBehalfOf?._id as any,
     };
     voucher.auditTrail.push({
       actionBy: new Types.ObjectId(userId) as any,
-      action: 'Approved by Finance Approver',
+      action: `Approved by Finance Approver${this.actingAsSuffix(resolved)}`,
       actionAt: new Date(),
       comments: dto.comments,
     });
@@ -596,15 +649,18 @@ export class PaymentRequestService {
       throw new BadRequestException('Voucher is not pending approval');
     }
 
+    const resolved = await this.resolveActor(userId, ['srcc_finance']);
+
     voucher.status = PaymentVoucherStatus.REJECTED;
     voucher.rejection = {
       rejectedBy: new Types.ObjectId(userId) as any,
       rejectedAt: new Date(),
       reason: dto.reason,
+      onBehalfOf: resolved?.onBehalfOf?._id as any,
     };
     voucher.auditTrail.push({
       actionBy: new Types.ObjectId(userId) as any,
-      action: 'Rejected by Finance Approver',
+      action: `Rejected by Finance Approver${this.actingAsSuffix(resolved)}`,
       actionAt: new Date(),
       comments: dto.reason,
     });
@@ -634,6 +690,8 @@ export class PaymentRequestService {
       throw new BadRequestException('Voucher is not pending approval');
     }
 
+    const resolved = await this.resolveActor(userId, ['srcc_finance']);
+
     voucher.status = PaymentVoucherStatus.REVISION_REQUESTED;
     voucher.revision = {
       requestedBy: new Types.ObjectId(userId) as any,
@@ -642,7 +700,7 @@ export class PaymentRequestService {
     };
     voucher.auditTrail.push({
       actionBy: new Types.ObjectId(userId) as any,
-      action: 'Revision Requested by Finance Approver',
+      action: `Revision Requested by Finance Approver${this.actingAsSuffix(resolved)}`,
       actionAt: new Date(),
       comments: dto.comment,
     });
@@ -697,6 +755,14 @@ export class PaymentRequestService {
       );
     }
 
+    // Imprest overspend reimbursement: notify the employee and close the imprest once settled
+    if (savedVoucher.imprestId) {
+      await this.imprestService.settleReimbursement(
+        savedVoucher.imprestId.toString(),
+        savedVoucher,
+      );
+    }
+
     // Notify HODs
     await this.notifyRole(
       'hod',
@@ -1,6 +1,13 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Schema as MongooseSchema } from 'mongoose';
 import { ApiProperty } from '@nestjs/swagger';
+import {
+  ApprovalEscalation,
+  ApprovalEscalationSchema,
+  ApprovalSla,
+  ApprovalSlaSchema,
+} from '../../escalation/schemas/approval-escalation.schema';
+import { statusChangedAtPlugin } from '../../../common/utils/status-changed-at.plugin';
 
 export type PaymentRequestDocument = PaymentRequest & Document;
 
@@ -65,12 +72,31 @@ export class PaymentRequest {
   })
   status: string;
 
+  @ApiProperty({ description: 'Current approval level deadline' })
+  @Prop()
+  currentLevelDeadline?: Date;
+
+  @ApiProperty({
+    description: 'Missed deadlines at the current approval level',
+    required: false,
+  })
+  @Prop({ type: ApprovalSlaSchema })
+  sla?: ApprovalSla;
+
+  @ApiProperty({
+    description: 'Escalations raised for overdue approvals',
+    type: [ApprovalEscalation],
+  })
+  @Prop({ type: [ApprovalEscalationSchema], default: [] })
+  escalations?: ApprovalEscalation[];
+
   @ApiProperty()
   @Prop({
     type: {
       approvedBy: { type: MongooseSchema.Types.ObjectId, ref: 'User' },
       approvedAt: Date,
       comments: String,
+      onBehalfOf: { type: MongooseSchema.Types.ObjectId, ref: 'User' },
     },
     _id: false,
   })
@@ -78,6 +104,7 @@ export class PaymentRequest {
     approvedBy: MongooseSchema.Types.ObjectId;
     approvedAt: Date;
     comments?: string;
+    onBehalfOf?: MongooseSchema.Types.ObjectId;
   };
 
   @ApiProperty()
@@ -86,6 +113,7 @@ export class PaymentRequest {
       rejectedBy: { type: MongooseSchema.Types.ObjectId, ref: 'User' },
       rejectedAt: Date,
       reason: String,
+      onBehalfOf: { type: MongooseSchema.Types.ObjectId, ref: 'User' },
     },
     _id: false,
   })
@@ -93,6 +121,7 @@ export class PaymentRequest {
     rejectedBy: MongooseSchema.Types.ObjectId;
     rejectedAt: Date;
     reason: string;
+    onBehalfOf?: MongooseSchema.Types.ObjectId;
   };
 
   @ApiProperty()
@@ -115,4 +144,7 @@ export class PaymentRequest {
   auditTrail: RequestAuditLog[];
 }
 
-export const PaymentRequestSchema = SchemaFactory.createForClass(PaymentRequest);
+export const PaymentRequestSchema =
+  SchemaFactory.createForClass(PaymentRequest);
+
+PaymentRequestSchema.plugin(statusChangedAtPlugin);
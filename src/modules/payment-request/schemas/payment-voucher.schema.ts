@@ -1,6 +1,7 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Schema as MongooseSchema } from 'mongoose';
 import { ApiProperty } from '@nestjs/swagger';
+import { statusChangedAtPlugin } from '../../../common/utils/status-changed-at.plugin';
 
 export type PaymentVoucherDocument = PaymentVoucher & Document;
 
@@ -30,13 +31,31 @@ const VoucherAuditLogSchema = SchemaFactory.createForClass(VoucherAuditLog);
 
 @Schema({ timestamps: true })
 export class PaymentVoucher {
-  @ApiProperty()
+  @ApiProperty({
+    description:
+      'Payment request paid by this voucher, unset for imprest reimbursements',
+  })
   @Prop({
     type: MongooseSchema.Types.ObjectId,
     ref: 'PaymentRequest',
-    required: true,
+    required: false,
+  })
+  paymentRequestId?: MongooseSchema.Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Imprest whose overspend this voucher reimburses',
+    required: false,
   })
-  paymentRequestId: MongooseSchema.Types.ObjectId;
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'Imprest' })
+  imprestId?: MongooseSchema.Types.ObjectId;
+
+  @ApiProperty({ description: 'Person being paid', required: false })
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User' })
+  payeeId?: MongooseSchema.Types.ObjectId;
+
+  @ApiProperty({ required: false })
+  @Prop()
+  description?: string;
 
   @ApiProperty()
   @Prop({ required: true, unique: true })
@@ -64,6 +83,7 @@ export class PaymentVoucher {
       approvedBy: { type: MongooseSchema.Types.ObjectId, ref: 'User' },
       approvedAt: Date,
       comments: String,
+      onBehalfOf: { type: MongooseSchema.Types.ObjectId, ref: 'User' },
     },
     _id: false,
   })
@@ -71,6 +91,7 @@ export class PaymentVoucher {
     approvedBy: MongooseSchema.Types.ObjectId;
     approvedAt: Date;
     comments?: string;
+    onBehalfOf?: MongooseSchema.Types.ObjectId;
   };
 
   @ApiProperty()
@@ -79,6 +100,7 @@ export class PaymentVoucher {
       rejectedBy: { type: MongooseSchema.Types.ObjectId, ref: 'User' },
       rejectedAt: Date,
       reason: String,
+      onBehalfOf: { type: MongooseSchema.Types.ObjectId, ref: 'User' },
     },
     _id: false,
   })
@@ -86,6 +108,7 @@ export class PaymentVoucher {
     rejectedBy: MongooseSchema.Types.ObjectId;
     rejectedAt: Date;
     reason: string;
+    onBehalfOf?: MongooseSchema.Types.ObjectId;
   };
 
   @ApiProperty()
@@ -129,15 +152,7 @@ export class PaymentVoucher {
   auditTrail: VoucherAuditLog[];
 }
 
-export const PaymentVoucherSchema = SchemaFactory.createForClass(PaymentVoucher);
-
-// Auto-generate Payment Voucher number before validation
-PaymentVoucherSchema.pre('validate', async function (next) {
-  if (this.isNew && !this.voucherNo) {
-    const date = new Date();
-    const month = (date.getMonth() + 1).toString().padStart(2, '0');
-    const randomCounter = Math.floor(1000 + Math.random() * 9000);
-    this.voucherNo = `PV/${month}/${randomCounter}`;
-  }
-  next();
-});
+export const PaymentVoucherSchema =
+  SchemaFactory.createForClass(PaymentVoucher);
+
+PaymentVoucherSchema.plugin(statusChangedAtPlugin);
@@ -0,0 +1,131 @@
+import { carryOverSpend, compareBudgets } from './budget-versions';
+
+describe('budget versions', () => {
+  const approved = {
+    internalCategories: [
+      {
+        name: 'Human Resources',
+        items: [
+          {
+            name: 'Facilitators',
+            estimatedAmount: 300000,
+            actualAmount: 50000,
+          },
+          {
+            name: 'Coordinator',
+            estimatedAmount: 80000,
+            reservedAmount: 10000,
+          },
+          { name: 'Interns', estimatedAmount: 20000 },
+        ],
+      },
+    ],
+    externalCategories: [
+      { name: 'Venue', items: [{ name: 'Hall hire', estimatedAmount: 45000 }] },
+    ],
+  };
+
+  it('compares estimated amounts line by line per category', () => {
+    const comparison = compareBudgets(approved, {
+      internalCategories: [
+        {
+          name: 'Human Resources',
+          items: [
+            { name: 'Facilitators', estimatedAmount: 350000 },
+            { name: 'Coordinator', estimatedAmount: 80000 },
+            { name: 'Travel', estimatedAmount: 15000 },
+          ],
+        },
+      ],
+      externalCategories: approved.externalCategories,
+    });
+
+    expect(comparison.categories[0].items).toEqual([
+      {
+        itemName: 'Facilitators',
+        fromAmount: 300000,
+        toAmount: 350000,
+        difference: 50000,
+        change: 'changed',
+      },
+      {
+        itemName: 'Coordinator',
+        fromAmount: 80000,
+        toAmount: 80000,
+        difference: 0,
+        change: 'unchanged',
+      },
+      {
+        itemName: 'Interns',
+        fromAmount: 20000,
+        toAmount: null,
+        difference: -20000,
+        change: 'removed',
+      },
+      {
+        itemName: 'Travel',
+        fromAmount: null,
+        toAmount: 15000,
+        difference: 15000,
+        change: 'added',
+      },
+    ]);
+    expect(comparison.categories[0].difference).toBe(45000);
+    expect(comparison.totals.external.difference).toBe(0);
+    expect(comparison.totals.overall).toEqual({
+      from: 445000,
+      to: 490000,
+      difference: 45000,
+    });
+  });
+
+  it('keeps recorded spend on lines an edit replaces', () => {
+    const edit = {
+      internalCategories: [
+        {
+          name: 'Human Resources',
+          items: [
+            {
+              name: 'Facilitators',
+              estimatedAmount: 350000,
+              actualAmount: 0,
+            },
+            {
+              name: 'Coordinator',
+              estimatedAmount: 90000,
+              reservedAmount: 0,
+            },
+            { name: 'Travel', estimatedAmount: 15000, actualAmount: 4000 },
+          ],
+        },
+      ],
+    };
+
+    expect(carryOverSpend(approved, edit)).toEqual({
+      dropped: [],
+      totals: { internal: { reserved: 10000, spent: 50000 } },
+    });
+    expect(edit.internalCategories[0].items[0]).toMatchObject({
+      actualAmount: 50000,
+      reservedAmount: 0,
+    });
+    expect(edit.internalCategories[0].items[1].reservedAmount).toBe(10000);
+    expect(edit.internalCategories[0].items[2].actualAmount).toBe(0);
+  });
+
+  it('reports lines with spend that an edit drops', () => {
+    const edit = {
+      internalCategories: [
+        {
+          name: 'Human Resources',
+          items: [{ name: 'Interns', estimatedAmount: 20000 }],
+        },
+      ],
+    };
+
+    expect(carryOverSpend(approved, edit).dropped).toEqual([
+      'Human Resources / Facilitators',
+      'Human Resources / Coordinator',
+    ]);
+  });
+});
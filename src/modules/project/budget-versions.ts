@@ -0,0 +1,222 @@
+export type BudgetType = 'internal' | 'external';
+
+interface BudgetLineContent {
+  name: string;
+  estimatedAmount?: number;
+  actualAmount?: number;
+  reservedAmount?: number;
+}
+
+interface BudgetCategoryContent<T extends BudgetLineContent> {
+  name: string;
+  items?: T[];
+}
+
+export interface BudgetContent<
+  T extends BudgetLineContent = BudgetLineContent,
+> {
+  internalCategories?: BudgetCategoryContent<T>[];
+  externalCategories?: BudgetCategoryContent<T>[];
+}
+
+export interface BudgetLineComparison {
+  itemName: string;
+  fromAmount: number | null;
+  toAmount: number | null;
+  difference: number;
+  change: 'added' | 'removed' | 'changed' | 'unchanged';
+}
+
+export interface BudgetCategoryComparison {
+  budgetType: BudgetType;
+  categoryName: string;
+  fromTotal: number;
+  toTotal: number;
+  difference: number;
+  items: BudgetLineComparison[];
+}
+
+export interface BudgetTotalComparison {
+  from: number;
+  to: number;
+  difference: number;
+}
+
+export interface BudgetComparison {
+  categories: BudgetCategoryComparison[];
+  totals: Record<BudgetType | 'overall', BudgetTotalComparison>;
+}
+
+const BUDGET_TYPES: BudgetType[] = ['internal', 'external'];
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+const categoriesOf = <T extends BudgetLineContent>(
+  content: BudgetContent<T>,
+  budgetType: BudgetType,
+) =>
+  (budgetType === 'internal'
+    ? content.internalCategories
+    : content.externalCategories) || [];
+
+// Lines keyed by category and item name; repeated names are told apart by position
+const linesOf = <T extends BudgetLineContent>(
+  content: BudgetContent<T>,
+  budgetType: BudgetType,
+) => {
+  const lines = new Map<
+    string,
+    { categoryName: string; itemName: string; item: T }
+  >();
+  for (const category of categoriesOf(content, budgetType)) {
+    for (const item of category.items || []) {
+      let key: string;
+      let n = 0;
+      do {
+        key = JSON.stringify([category.name, item.name, n++]);
+      } while (lines.has(key));
+      lines.set(key, {
+        categoryName: category.name,
+        itemName: item.name,
+        item,
+      });
+    }
+  }
+  return lines;
+};
+
+const total = (from: number, to: number): BudgetTotalComparison => ({
+  from: round(from),
+  to: round(to),
+  difference: round(to - from),
+});
+
+/**
+ * Compares estimated amounts line by line. Categories and items keep the
+ * order of the earlier version, with additions after them.
+ */
+export const compareBudgets = (
+  from: BudgetContent,
+  to: BudgetContent,
+): BudgetComparison => {
+  const categories: BudgetCategoryComparison[] = [];
+  const sums = { internal: [0, 0], external: [0, 0] };
+
+  for (const budgetType of BUDGET_TYPES) {
+    const before = linesOf(from, budgetType);
+    const after = linesOf(to, budgetType);
+    const byCategory = new Map<string, BudgetCategoryComparison>();
+
+    for (const key of new Set([...before.keys(), ...after.keys()])) {
+      const line = before.get(key) || after.get(key);
+      const fromAmount = before.has(key)
+        ? before.get(key).item.estimatedAmount || 0
+        : null;
+      const toAmount = after.has(key)
+        ? after.get(key).item.estimatedAmount || 0
+        : null;
+
+      let category = byCategory.get(line.categoryName);
+      if (!category) {
+        category = {
+          budgetType,
+          categoryName: line.categoryName,
+          fromTotal: 0,
+          toTotal: 0,
+          difference: 0,
+          items: [],
+        };
+        byCategory.set(line.categoryName, category);
+      }
+      category.fromTotal += fromAmount || 0;
+      category.toTotal += toAmount || 0;
+      category.items.push({
+        itemName: line.itemName,
+        fromAmount,
+        toAmount,
+        difference: round((toAmount || 0) - (fromAmount || 0)),
+        change:
+          fromAmount === null
+            ? 'added'
+            : toAmount === null
+              ? 'removed'
+              : fromAmount === toAmount
+                ? 'unchanged'
+                : 'changed',
+      });
+    }
+
+    for (const category of byCategory.values()) {
+      category.fromTotal = round(category.fromTotal);
+      category.toTotal = round(category.toTotal);
+      category.difference = round(category.toTotal - category.fromTotal);
+      sums[budgetType][0] += category.fromTotal;
+      sums[budgetType][1] += category.toTotal;
+      categories.push(category);
+    }
+  }
+
+  return {
+    categories,
+    totals: {
+      internal: total(sums.internal[0], sums.internal[1]),
+      external: total(sums.external[0], sums.external[1]),
+      overall: total(
+        sums.internal[0] + sums.external[0],
+        sums.internal[1] + sums.external[1],
+      ),
+    },
+  };
+};
+
+export interface CarriedSpend {
+  // Lines the edit drops even though money is held or spent against them
+  dropped: string[];
+  // Reserved and spent totals for the budget types the edit replaces
+  totals: Partial<Record<BudgetType, { reserved: number; spent: number }>>;
+}
+
+/**
+ * Keeps the imprest reservations and actual spend recorded on the current
+ * lines when categories are replaced by an edit. Both come from the stored
+ * lines only; lines new to the edit start with nothing reserved or spent.
+ */
+export const carryOverSpend = <T extends BudgetLineContent>(
+  current: BudgetContent,
+  next: BudgetContent<T>,
+): CarriedSpend => {
+  const carried: CarriedSpend = { dropped: [], totals: {} };
+
+  for (const budgetType of BUDGET_TYPES) {
+    const replaced =
+      budgetType === 'internal'
+        ? next.internalCategories
+        : next.externalCategories;
+    if (!replaced) continue;
+
+    const before = linesOf(current, budgetType);
+    const after = linesOf(next, budgetType);
+    const totals = { reserved: 0, spent: 0 };
+    for (const [key, { item }] of after) {
+      const previous = before.get(key)?.item;
+      item.reservedAmount = previous?.reservedAmount || 0;
+      item.actualAmount = previous?.actualAmount || 0;
+      totals.reserved += item.reservedAmount;
+      totals.spent += item.actualAmount;
+    }
+    carried.totals[budgetType] = {
+      reserved: round(totals.reserved),
+      spent: round(totals.spent),
+    };
+
+    for (const [key, line] of before) {
+      if (
+        !after.has(key) &&
+        (line.item.reservedAmount || line.item.actualAmount)
+      ) {
+        carried.dropped.push(`${line.categoryName} / ${line.itemName}`);
+      }
+    }
+  }
+  return carried;
+};
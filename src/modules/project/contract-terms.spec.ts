@@ -0,0 +1,53 @@
+import { diffTerms, termsInForce } from './contract-terms';
+
+describe('contract terms', () => {
+  const original = {
+    contractValue: 100000,
+    startDate: new Date('2026-01-01'),
+    endDate: new Date('2026-06-30'),
+    description: 'Facilitation',
+  };
+  const extended = {
+    ...original,
+    contractValue: 150000,
+    endDate: new Date('2026-09-30'),
+  };
+
+  it('lists only the fields a proposal changes', () => {
+    const changes = diffTerms(original, {
+      contractValue: 150000,
+      startDate: '2026-01-01',
+      endDate: '2026-09-30',
+      description: ' Facilitation ',
+    });
+
+    expect(changes.map((change) => change.field)).toEqual([
+      'contractValue',
+      'endDate',
+    ]);
+    expect(changes[1].to).toEqual(new Date('2026-09-30'));
+  });
+
+  it('applies amendments from their effective date', () => {
+    const applied = [
+      {
+        version: 1,
+        previousTerms: original,
+        terms: extended,
+        effectiveDate: new Date('2026-04-01'),
+        appliedAt: new Date('2026-03-15'),
+      },
+    ];
+
+    expect(
+      termsInForce(extended, applied, new Date('2026-03-20')).contractValue,
+    ).toBe(100000);
+    expect(
+      termsInForce(extended, applied, new Date('2026-04-01')).contractValue,
+    ).toBe(150000);
+  });
+
+  it('uses the contract terms when nothing was amended', () => {
+    expect(termsInForce(original, [], new Date())).toEqual(original);
+  });
+});
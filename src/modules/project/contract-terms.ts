@@ -0,0 +1,91 @@
+// Contract fields an amendment may change
+export const AMENDABLE_CONTRACT_FIELDS = [
+  'contractValue',
+  'startDate',
+  'endDate',
+  'description',
+] as const;
+
+export type AmendableContractField = (typeof AMENDABLE_CONTRACT_FIELDS)[number];
+
+export interface ContractTerms {
+  contractValue: number;
+  startDate: Date;
+  endDate: Date;
+  // Scope of work
+  description: string;
+}
+
+export interface ContractTermChange {
+  field: AmendableContractField;
+  from: unknown;
+  to: unknown;
+}
+
+// What an applied amendment needs for working out past terms
+export interface AppliedAmendment {
+  version: number;
+  previousTerms: ContractTerms;
+  terms: ContractTerms;
+  effectiveDate?: Date;
+  appliedAt?: Date;
+}
+
+const comparable = (value: unknown): unknown =>
+  value instanceof Date ||
+  (typeof value === 'string' && !isNaN(Date.parse(value)))
+    ? new Date(value as string).getTime()
+    : value;
+
+export const pickTerms = (contract: ContractTerms): ContractTerms => ({
+  contractValue: contract.contractValue,
+  startDate: contract.startDate,
+  endDate: contract.endDate,
+  description: contract.description,
+});
+
+// Fields the proposal would change, with their old and new values
+export const diffTerms = (
+  current: ContractTerms,
+  proposed: Partial<Record<AmendableContractField, unknown>>,
+): ContractTermChange[] =>
+  AMENDABLE_CONTRACT_FIELDS.filter(
+    (field) =>
+      proposed[field] !== undefined &&
+      (field === 'description'
+        ? String(proposed[field]).trim() !== (current[field] || '').trim()
+        : comparable(proposed[field]) !== comparable(current[field])),
+  ).map((field) => ({
+    field,
+    from: current[field],
+    to:
+      field === 'startDate' || field === 'endDate'
+        ? new Date(proposed[field] as string)
+        : field === 'description'
+          ? String(proposed[field]).trim()
+          : proposed[field],
+  }));
+
+/**
+ * Terms of the contract as they stood on a date: the original terms, with
+ * every applied amendment that had taken effect by then laid on top in order.
+ */
+export const termsInForce = (
+  contract: ContractTerms,
+  applied: AppliedAmendment[],
+  at: Date,
+): ContractTerms => {
+  const ordered = [...applied].sort((a, b) => a.version - b.version);
+  if (!ordered.length) {
+    return pickTerms(contract);
+  }
+
+  let terms = ordered[0].previousTerms;
+  for (const amendment of ordered) {
+    const effective = amendment.effectiveDate || amendment.appliedAt;
+    if (effective && new Date(effective) <= at) {
+      terms = amendment.terms;
+    }
+  }
+  return pickTerms(terms);
+};
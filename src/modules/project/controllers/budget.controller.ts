@@ -8,16 +8,22 @@ import {
   Req,
   Patch,
   Delete,
+  ParseIntPipe,
+  Query,
 } from '@nestjs/common';
 import {
   ApiBearerAuth,
   ApiOperation,
+  ApiQuery,
   ApiResponse,
   ApiTags,
 } from '@nestjs/swagger';
 import { Types } from 'mongoose';
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
-import { BudgetService } from '../services/budget.service';
+import {
+  BudgetService,
+  BudgetVersionComparison,
+} from '../services/budget.service';
 import {
   CreateBudgetDto,
   UpdateBudgetDto,
@@ -26,6 +32,7 @@ import {
   BudgetRevisionDto,
 } from '../dto/budget.dto';
 import { Budget } from '../schemas/budget.schema';
+import { BudgetVersion } from '../schemas/budget-version.schema';
 
 @ApiTags('Budgets')
 @Controller('budgets')
@@ -228,6 +235,44 @@ export class BudgetController {
     return this.budgetService.findByProject(new Types.ObjectId(projectId));
   }
 
+  @Get(':id/versions')
+  @ApiOperation({
+    summary: 'List the submitted versions of a budget, newest first',
+  })
+  @ApiResponse({ status: 200, type: [BudgetVersion] })
+  async findVersions(@Param('id') id: string): Promise<BudgetVersion[]> {
+    return this.budgetService.findVersions(new Types.ObjectId(id));
+  }
+
+  @Get(':id/versions/:version')
+  @ApiOperation({ summary: 'Get a submitted budget version as it was frozen' })
+  @ApiResponse({ status: 200, type: BudgetVersion })
+  @ApiResponse({ status: 404, description: 'Budget version not found' })
+  async findVersion(
+    @Param('id') id: string,
+    @Param('version', ParseIntPipe) version: number,
+  ): Promise<BudgetVersion> {
+    return this.budgetService.findVersion(new Types.ObjectId(id), version);
+  }
+
+  @Get(':id/compare')
+  @ApiOperation({
+    summary: 'Compare estimated amounts between two budget versions',
+    description:
+      'Line-by-line comparison per category and item. Defaults to the current version against the approved baseline.',
+  })
+  @ApiQuery({ name: 'from', required: false, type: Number })
+  @ApiQuery({ name: 'to', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Version comparison' })
+  @ApiResponse({ status: 404, description: 'Budget version not found' })
+  async compareVersions(
+    @Param('id') id: string,
+    @Query('from', new ParseIntPipe({ optional: true })) from?: number,
+    @Query('to', new ParseIntPipe({ optional: true })) to?: number,
+  ): Promise<BudgetVersionComparison> {
+    return this.budgetService.compareVersions(new Types.ObjectId(id), from, to);
+  }
+
   @Delete(':id')
   @ApiOperation({
     summary: 'Delete a budget',
@@ -12,6 +12,7 @@ import {
   Query,
   Logger,
   BadRequestException,
+  StreamableFile,
 } from '@nestjs/common';
 import {
   ApiBearerAuth,
@@ -21,15 +22,30 @@ import {
   ApiQuery,
 } from '@nestjs/swagger';
 import { ContractService } from '../services/contract.service';
+import { ContractDocumentService } from '../services/contract-document.service';
+import { ContractAmendmentService } from '../services/contract-amendment.service';
+import { ContractLifecycleService } from '../services/contract-lifecycle.service';
 import { CreateContractDto } from '../dto/create-contract.dto';
 import { UpdateContractDto } from '../dto/update-contract.dto';
 import { VerifyContractOtpDto } from '../dto/verify-contract-otp.dto';
+import { OtpRequestContext } from '../../otp/otp.service';
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../../auth/guards/roles.guard';
+import { Roles } from '../../auth/decorators/roles.decorator';
 import {
   ContractApprovalDto,
   ContractRejectionDto,
 } from '../dto/contract-approval.dto';
+import {
+  ProposeContractAmendmentDto,
+  RejectContractAmendmentDto,
+} from '../dto/contract-amendment.dto';
+import {
+  RenewContractDto,
+  ResumeContractDto,
+  SuspendContractDto,
+  TerminateContractDto,
+} from '../dto/contract-lifecycle.dto';
 
 @ApiTags('contracts')
 @Controller('contracts')
@@ -38,7 +54,12 @@ import {
 export class ContractController {
   private readonly logger = new Logger(ContractController.name);
 
-  constructor(private readonly contractService: ContractService) {}
+  constructor(
+    private readonly contractService: ContractService,
+    private readonly contractDocumentService: ContractDocumentService,
+    private readonly contractAmendmentService: ContractAmendmentService,
+    private readonly contractLifecycleService: ContractLifecycleService,
+  ) {}
 
   @Post()
   // @Roles('admin', 'project_manager')
@@ -188,28 +209,64 @@ export class ContractController {
   async findOne(@Param('id') id: string, @Req() req) {
     this.logger.log(`Retrieving contract ${id}`);
     const contract = await this.contractService.findOne(id);
+    this.assertCanView(contract, req, id);
 
-    // For team members, only allow them to see their own contracts
-    const contractedUserId = (contract.contractedUserId as any)?._id
-      ? (contract.contractedUserId as any)._id.toString()
-      : contract.contractedUserId?.toString();
+    return contract;
+  }
 
-    const loggedInEmail = req.user.email || req.user.businessEmail;
-    const contractedEmail = (contract.contractedUserId as any)?.email;
-    const matchesEmail = loggedInEmail && contractedEmail && loggedInEmail.toLowerCase() === contractedEmail.toLowerCase();
+  @Get(':id/document/preview')
+  @ApiOperation({
+    summary: 'Preview the contract rendered from its template',
+    description:
+      'Fills the {{variable}} placeholders with values from the contract, project and contracted party.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Rendered content and the values used.',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'No template, or variables without a value.',
+  })
+  async previewDocument(@Param('id') id: string, @Req() req) {
+    const contract = await this.contractService.findOne(id);
+    this.assertCanView(contract, req, id);
+    return this.contractDocumentService.render(contract);
+  }
 
-    if (
-      req.user.roles.includes('team_member') &&
-      contractedUserId !== req.user.sub &&
-      !matchesEmail
-    ) {
-      this.logger.warn(
-        `User ${req.user.sub} attempted to access contract ${id}`,
-      );
-      throw new BadRequestException('You can only view your own contracts');
-    }
+  @Get(':id/document/pdf')
+  @ApiOperation({ summary: 'Download the rendered contract as a PDF' })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'No template, or variables without a value.',
+  })
+  async downloadDocument(@Param('id') id: string, @Req() req) {
+    const contract = await this.contractService.findOne(id);
+    this.assertCanView(contract, req, id);
+    const pdf = await this.contractDocumentService.toPdf(contract);
+    return new StreamableFile(pdf.content, {
+      type: pdf.contentType,
+      disposition: `attachment; filename="${pdf.filename}"`,
+    });
+  }
 
-    return contract;
+  @Post(':id/document')
+  @ApiOperation({
+    summary: 'Generate the contract PDF and store it as an attachment',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'PDF generated and attached to the contract.',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'No template, or variables without a value.',
+  })
+  async generateDocument(@Param('id') id: string, @Req() req) {
+    const contract = await this.contractService.findOne(id);
+    this.assertCanView(contract, req, id);
+    const pdf = await this.contractDocumentService.generate(contract);
+    return { filename: pdf.filename, url: pdf.url };
   }
 
   @Patch(':id')
@@ -342,6 +399,10 @@ export class ContractController {
     description: 'Contract accepted successfully.',
   })
   @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Invalid OTP.' })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Too many failed attempts, acceptance is locked.',
+  })
   @ApiResponse({
     status: HttpStatus.NOT_FOUND,
     description: 'Contract not found or OTP expired.',
@@ -388,6 +449,7 @@ export class ContractController {
         id,
         verifyContractOtpDto.otp,
         req.user.sub,
+        this.requestContext(req),
       );
 
     return {
@@ -434,4 +496,289 @@ export class ContractController {
   ) {
     return await this.contractService.reject(id, req.user.sub, rejectionDto);
   }
+
+  @Post(':id/amendments')
+  @ApiOperation({
+    summary: 'Propose an amendment to an active contract',
+    description:
+      'Changes to value, dates or scope go through finance and MD approval and apply once the contracted party accepts them by OTP.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Amendment proposed and sent for finance approval.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Another amendment is already in progress.',
+  })
+  async proposeAmendment(
+    @Param('id') id: string,
+    @Body() dto: ProposeContractAmendmentDto,
+    @Req() req,
+  ) {
+    return await this.contractAmendmentService.propose(id, dto, req.user.sub);
+  }
+
+  @Get(':id/amendments')
+  @ApiOperation({ summary: 'List amendments to a contract, newest first' })
+  async findAmendments(@Param('id') id: string, @Req() req) {
+    const contract = await this.contractService.findOne(id);
+    this.assertCanView(contract, req, id);
+    return await this.contractAmendmentService.findForContract(id);
+  }
+
+  @Get('amendments/:amendmentId')
+  @ApiOperation({ summary: 'Get a contract amendment' })
+  async findAmendment(@Param('amendmentId') amendmentId: string, @Req() req) {
+    const amendment = await this.contractAmendmentService.findOne(amendmentId);
+    const contractId = amendment.contractId.toString();
+    this.assertCanView(
+      await this.contractService.findOne(contractId),
+      req,
+      contractId,
+    );
+    return amendment;
+  }
+
+  @Post('amendments/:amendmentId/approve')
+  @ApiOperation({ summary: 'Approve a contract amendment' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Amendment approved at the current level.',
+  })
+  async approveAmendment(
+    @Param('amendmentId') amendmentId: string,
+    @Body() approvalDto: ContractApprovalDto,
+    @Req() req,
+  ) {
+    return await this.contractAmendmentService.approve(
+      amendmentId,
+      req.user.sub,
+      approvalDto,
+    );
+  }
+
+  @Post('amendments/:amendmentId/reject')
+  @ApiOperation({ summary: 'Reject a contract amendment' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Amendment rejected; the contract terms are unchanged.',
+  })
+  async rejectAmendment(
+    @Param('amendmentId') amendmentId: string,
+    @Body() rejectionDto: RejectContractAmendmentDto,
+    @Req() req,
+  ) {
+    return await this.contractAmendmentService.reject(
+      amendmentId,
+      req.user.sub,
+      rejectionDto,
+    );
+  }
+
+  @Post('amendments/:amendmentId/cancel')
+  @ApiOperation({ summary: 'Withdraw a contract amendment before it applies' })
+  async cancelAmendment(@Param('amendmentId') amendmentId: string, @Req() req) {
+    return await this.contractAmendmentService.cancel(
+      amendmentId,
+      req.user.sub,
+    );
+  }
+
+  @Post('amendments/:amendmentId/generate-otp')
+  @ApiOperation({ summary: 'Generate OTP for accepting a contract amendment' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'OTP generated and sent to the contracted party.',
+  })
+  async generateAmendmentOTP(
+    @Param('amendmentId') amendmentId: string,
+    @Req() req,
+  ) {
+    const amendment = await this.contractAmendmentService.findOne(amendmentId);
+    const contractId = amendment.contractId.toString();
+    this.assertCanView(
+      await this.contractService.findOne(contractId),
+      req,
+      contractId,
+    );
+
+    await this.contractAmendmentService.generateOtp(amendmentId);
+    return {
+      message: 'OTP has been sent to your phone and email',
+      expiresIn: '30 minutes',
+    };
+  }
+
+  @Post('amendments/:amendmentId/accept')
+  @ApiOperation({ summary: 'Verify OTP and accept a contract amendment' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Amendment accepted and the new terms applied.',
+  })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Invalid OTP.' })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Too many failed attempts, acceptance is locked.',
+  })
+  async acceptAmendment(
+    @Param('amendmentId') amendmentId: string,
+    @Body() verifyContractOtpDto: VerifyContractOtpDto,
+    @Req() req,
+  ) {
+    const amendment = await this.contractAmendmentService.findOne(amendmentId);
+    const contractId = amendment.contractId.toString();
+    this.assertCanView(
+      await this.contractService.findOne(contractId),
+      req,
+      contractId,
+    );
+
+    const applied = await this.contractAmendmentService.accept(
+      amendmentId,
+      verifyContractOtpDto.otp,
+      req.user.sub,
+      this.requestContext(req),
+    );
+    return {
+      message: 'Contract amendment accepted successfully',
+      amendment: applied,
+    };
+  }
+
+  @Post('lifecycle/run')
+  @Roles('admin')
+  @ApiOperation({
+    summary: 'Run the contract lifecycle check now',
+    description:
+      'Runs daily on a schedule. Expiry reminder days and auto-completion are read from the contract_lifecycle_config system config.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Contracts processed',
+  })
+  async runLifecycle() {
+    return await this.contractLifecycleService.run();
+  }
+
+  @Post(':id/renew')
+  @ApiOperation({
+    summary: 'Start a renewal of a contract',
+    description:
+      'Clones the contract into a new draft linked to the original. Dates default to the same duration starting the day after the current end date.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Renewal draft created.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'The contract is already being renewed.',
+  })
+  async renew(
+    @Param('id') id: string,
+    @Body() dto: RenewContractDto,
+    @Req() req,
+  ) {
+    return await this.contractLifecycleService.renew(id, req.user.sub, dto);
+  }
+
+  @Post(':id/terminate')
+  @ApiOperation({
+    summary: 'Terminate a contract',
+    description:
+      'Records the reason, effective date and final settlement amount. A future effective date schedules the termination.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Termination recorded.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'A termination is already scheduled.',
+  })
+  async terminate(
+    @Param('id') id: string,
+    @Body() dto: TerminateContractDto,
+    @Req() req,
+  ) {
+    return await this.contractLifecycleService.terminate(id, req.user.sub, dto);
+  }
+
+  @Post(':id/suspend')
+  @ApiOperation({
+    summary: 'Suspend a contract',
+    description:
+      'No claims can be created or submitted while the contract is suspended. A future start date schedules the suspension and an end date resumes the contract by itself.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Suspension recorded.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'A suspension is already in effect or scheduled.',
+  })
+  async suspend(
+    @Param('id') id: string,
+    @Body() dto: SuspendContractDto,
+    @Req() req,
+  ) {
+    return await this.contractLifecycleService.suspend(id, req.user.sub, dto);
+  }
+
+  @Post(':id/resume')
+  @ApiOperation({
+    summary: 'Resume a suspended contract',
+    description:
+      'A future effective date schedules the resumption. Resuming before a scheduled suspension starts cancels it.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Resumption recorded.',
+  })
+  async resume(
+    @Param('id') id: string,
+    @Body() dto: ResumeContractDto,
+    @Req() req,
+  ) {
+    return await this.contractLifecycleService.resume(id, req.user.sub, dto);
+  }
+
+  @Get(':id/timeline')
+  @ApiOperation({
+    summary: 'Get the contract history with its suspension periods',
+  })
+  async getTimeline(@Param('id') id: string, @Req() req) {
+    const contract = await this.contractService.findOne(id);
+    this.assertCanView(contract, req, id);
+    return await this.contractLifecycleService.getTimeline(id);
+  }
+
+  // Team members may only see their own contracts
+  private assertCanView(contract: any, req: any, id: string) {
+    const contractedUserId = (contract.contractedUserId as any)?._id
+      ? (contract.contractedUserId as any)._id.toString()
+      : contract.contractedUserId?.toString();
+
+    const loggedInEmail = req.user.email || req.user.businessEmail;
+    const contractedEmail = (contract.contractedUserId as any)?.email;
+    const matchesEmail = loggedInEmail && contractedEmail && loggedInEmail.toLowerCase() === contractedEmail.toLowerCase();
+
+    if (
+      req.user.roles.includes('team_member') &&
+      contractedUserId !== req.user.sub &&
+      !matchesEmail
+    ) {
+      this.logger.warn(
+        `User ${req.user.sub} attempted to access contract ${id}`,
+      );
+      throw new BadRequestException('You can only view your own contracts');
+    }
+  }
+
+  // Recorded with an OTP acceptance
+  private requestContext(req: any): OtpRequestContext {
+    return { ipAddress: req.ip, userAgent: req.headers?.['user-agent'] };
+  }
 }
@@ -0,0 +1,54 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+
+export class ProposeContractAmendmentDto {
+  @ApiProperty({ example: 'Additional training sessions requested by client' })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+
+  @ApiProperty({ required: false, example: 180000 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  contractValue?: number;
+
+  @ApiProperty({ required: false, example: '2026-01-01' })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiProperty({ required: false, example: '2026-09-30' })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @ApiProperty({ description: 'Revised scope of work', required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({
+    description:
+      'Date the new terms take effect; defaults to when the amendment is accepted',
+    required: false,
+    example: '2026-07-01',
+  })
+  @IsOptional()
+  @IsDateString()
+  effectiveDate?: string;
+}
+
+export class RejectContractAmendmentDto {
+  @ApiProperty({ example: 'Budget line cannot absorb the increase' })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
@@ -0,0 +1,110 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+
+export class RenewContractDto {
+  @ApiProperty({
+    description: 'Defaults to the day after the current contract ends',
+    required: false,
+    example: '2027-01-01',
+  })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiProperty({
+    description: 'Defaults to the same duration as the current contract',
+    required: false,
+    example: '2027-12-31',
+  })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @ApiProperty({
+    description: 'Defaults to the current contract value',
+    required: false,
+    example: 120000,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  contractValue?: number;
+
+  @ApiProperty({
+    description: 'Scope of the renewed contract',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
+
+export class TerminateContractDto {
+  @ApiProperty({ example: 'Project funding withdrawn by the client' })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+
+  @ApiProperty({
+    description: 'Date the contract ends; a future date schedules it',
+    example: '2026-11-30',
+  })
+  @IsDateString()
+  effectiveDate: string;
+
+  @ApiProperty({
+    description: 'Amount still to be paid to the contracted party',
+    example: 15000,
+  })
+  @IsNumber()
+  @Min(0)
+  finalSettlementAmount: number;
+}
+
+export class SuspendContractDto {
+  @ApiProperty({ example: 'Client paused the programme pending a review' })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+
+  @ApiProperty({
+    description: 'Date the suspension starts; defaults to now',
+    required: false,
+    example: '2026-11-01',
+  })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiProperty({
+    description: 'Date the contract resumes by itself, if known',
+    required: false,
+    example: '2026-12-01',
+  })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+}
+
+export class ResumeContractDto {
+  @ApiProperty({ example: 'Review completed, work can continue' })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+
+  @ApiProperty({
+    description: 'Date the contract resumes; defaults to now',
+    required: false,
+    example: '2026-11-15',
+  })
+  @IsOptional()
+  @IsDateString()
+  effectiveDate?: string;
+}
@@ -17,9 +17,20 @@ import {
 } from '../auth/schemas/organization.schema';
 import { NotificationService } from '../notifications/services/notification.service';
 import { Budget, BudgetSchema } from './schemas/budget.schema';
+import {
+  BudgetVersion,
+  BudgetVersionSchema,
+} from './schemas/budget-version.schema';
 import { Contract, ContractSchema } from './schemas/contract.schema';
 import { ContractController } from './controllers/contract.controller';
 import { ContractService } from './services/contract.service';
+import { ContractDocumentService } from './services/contract-document.service';
+import { ContractAmendmentService } from './services/contract-amendment.service';
+import { ContractLifecycleService } from './services/contract-lifecycle.service';
+import {
+  ContractAmendment,
+  ContractAmendmentSchema,
+} from './schemas/contract-amendment.schema';
 import {
   ContractTemplate,
   ContractTemplateSchema,
@@ -27,6 +38,13 @@ import {
 import { ContractTemplateController } from './controllers/contract-template.controller';
 import { ContractTemplateService } from './services/contract-template.service';
 import { Claim, ClaimSchema } from '../claims/schemas/claim.schema';
+import { DelegationModule } from '../delegation/delegation.module';
+import { NumberingModule } from '../numbering/numbering.module';
+import { OtpModule } from '../otp/otp.module';
+import {
+  BudgetApproversConfig,
+  BudgetApproversConfigSchema,
+} from '../system-config/schemas/budget-approvers.schema';
 
 @Module({
   imports: [
@@ -35,13 +53,19 @@ import { Claim, ClaimSchema } from '../claims/schemas/claim.schema';
       { name: Contract.name, schema: ContractSchema },
       { name: Invoice.name, schema: InvoiceSchema },
       { name: Budget.name, schema: BudgetSchema },
+      { name: BudgetVersion.name, schema: BudgetVersionSchema },
       { name: User.name, schema: UserSchema },
       { name: ContractTemplate.name, schema: ContractTemplateSchema },
       { name: Organization.name, schema: OrganizationSchema },
       { name: Claim.name, schema: ClaimSchema },
+      { name: BudgetApproversConfig.name, schema: BudgetApproversConfigSchema },
+      { name: ContractAmendment.name, schema: ContractAmendmentSchema },
     ]),
     CloudinaryModule,
     SystemConfigModule,
+    DelegationModule,
+    NumberingModule,
+    OtpModule,
   ],
   controllers: [
     ProjectController,
@@ -56,6 +80,9 @@ import { Claim, ClaimSchema } from '../claims/schemas/claim.schema';
     BudgetService,
     NotificationService,
     ContractService,
+    ContractDocumentService,
+    ContractAmendmentService,
+    ContractLifecycleService,
     ContractTemplateService,
   ],
   exports: [ProjectService, ContractService],
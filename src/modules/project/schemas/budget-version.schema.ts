@@ -0,0 +1,77 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import { Document, Types } from 'mongoose';
+import { BudgetCategory } from './budget.schema';
+
+export const BUDGET_VERSION_OUTCOMES = [
+  'pending',
+  'approved',
+  'rejected',
+  'revision_requested',
+  'superseded',
+] as const;
+
+export type BudgetVersionDocument = BudgetVersion & Document;
+
+/**
+ * A budget as it stood when submitted for approval. The categories and
+ * totals never change once written; only the outcome is updated.
+ */
+@Schema({ timestamps: true })
+export class BudgetVersion {
+  @ApiProperty({ description: 'Budget this version belongs to' })
+  @Prop({ type: Types.ObjectId, ref: 'Budget', required: true })
+  budgetId: Types.ObjectId;
+
+  @ApiProperty({ description: 'Reference to the project' })
+  @Prop({ type: Types.ObjectId, ref: 'Project', required: true })
+  projectId: Types.ObjectId;
+
+  @ApiProperty({ example: 2 })
+  @Prop({ required: true })
+  version: number;
+
+  @ApiProperty({ example: 'KES' })
+  @Prop({ required: true })
+  currency: string;
+
+  @ApiProperty({ type: [BudgetCategory] })
+  @Prop({ type: [BudgetCategory], default: [] })
+  internalCategories: BudgetCategory[];
+
+  @ApiProperty({ type: [BudgetCategory] })
+  @Prop({ type: [BudgetCategory], default: [] })
+  externalCategories: BudgetCategory[];
+
+  @ApiProperty()
+  @Prop({ default: 0 })
+  totalInternalBudget: number;
+
+  @ApiProperty()
+  @Prop({ default: 0 })
+  totalExternalBudget: number;
+
+  @ApiProperty({ required: false })
+  @Prop()
+  notes?: string;
+
+  @ApiProperty({ enum: BUDGET_VERSION_OUTCOMES })
+  @Prop({ required: true, enum: BUDGET_VERSION_OUTCOMES, default: 'pending' })
+  outcome: string;
+
+  @ApiProperty()
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  submittedBy: Types.ObjectId;
+
+  @ApiProperty()
+  @Prop({ required: true })
+  submittedAt: Date;
+
+  @ApiProperty({ required: false })
+  @Prop()
+  decidedAt?: Date;
+}
+
+export const BudgetVersionSchema = SchemaFactory.createForClass(BudgetVersion);
+
+BudgetVersionSchema.index({ budgetId: 1, version: 1 }, { unique: true });
@@ -1,12 +1,19 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { ApiProperty } from '@nestjs/swagger';
 import { Document, Types as MongooseSchema } from 'mongoose';
+import {
+  ApprovalEscalation,
+  ApprovalEscalationSchema,
+  ApprovalSla,
+  ApprovalSlaSchema,
+} from '../../escalation/schemas/approval-escalation.schema';
+import { statusChangedAtPlugin } from '../../../common/utils/status-changed-at.plugin';
 
 export type BudgetDocument = Budget & Document;
 
 // Budget Item Schema for both internal and external items
 @Schema({ _id: false })
-class BudgetItem {
+export class BudgetItem {
   @ApiProperty({
     example: 'Employee Salary',
     description: 'Name of the budget item',
@@ -32,6 +39,13 @@ class BudgetItem {
   @Prop({ default: 0 })
   actualAmount: number;
 
+  @ApiProperty({
+    example: 20000,
+    description: 'Amount held by approved imprests not yet accounted for',
+  })
+  @Prop({ default: 0 })
+  reservedAmount: number;
+
   @ApiProperty({
     example: ['salary', 'internal'],
     description: 'Tags to categorize the budget item',
@@ -84,7 +98,7 @@ class BudgetItem {
 
 // Budget Category Schema to group related items
 @Schema({ _id: false })
-class BudgetCategory {
+export class BudgetCategory {
   @ApiProperty({
     example: 'Human Resources',
     description: 'Name of the budget category',
@@ -139,10 +153,26 @@ export class Budget extends Document {
   @Prop({ required: true, default: 0 })
   totalExternalSpent: number;
 
+  @ApiProperty({ description: 'Total internal amount reserved by imprests' })
+  @Prop({ default: 0 })
+  totalInternalReserved: number;
+
+  @ApiProperty({ description: 'Total external amount reserved by imprests' })
+  @Prop({ default: 0 })
+  totalExternalReserved: number;
+
   @ApiProperty({ description: 'Budget version number' })
   @Prop({ required: true, default: 1 })
   version: number;
 
+  @ApiProperty({
+    description:
+      'Approved version spend is tracked against while a revision is in progress',
+    required: false,
+  })
+  @Prop()
+  baselineVersion?: number;
+
   @ApiProperty({ description: 'Budget status' })
   @Prop({
     required: true,
@@ -172,6 +202,8 @@ export class Budget extends Document {
           approvedAt: { type: Date, required: true },
           comments: String,
           attachments: [String],
+          onBehalfOf: { type: MongooseSchema.ObjectId, ref: 'User' },
+          approvedByName: String,
         },
       ],
       managerApprovals: [
@@ -184,6 +216,8 @@ export class Budget extends Document {
           approvedAt: { type: Date, required: true },
           comments: String,
           attachments: [String],
+          onBehalfOf: { type: MongooseSchema.ObjectId, ref: 'User' },
+          approvedByName: String,
         },
       ],
       financeApprovals: [
@@ -196,6 +230,8 @@ export class Budget extends Document {
           approvedAt: { type: Date, required: true },
           comments: String,
           attachments: [String],
+          onBehalfOf: { type: MongooseSchema.ObjectId, ref: 'User' },
+          approvedByName: String,
         },
       ],
     },
@@ -207,18 +243,24 @@ export class Budget extends Document {
       approvedAt: Date;
       comments?: string;
       attachments?: string[];
+      onBehalfOf?: MongooseSchema.ObjectId;
+      approvedByName?: string;
     }[];
     managerApprovals: {
       approverId: MongooseSchema.ObjectId;
       approvedAt: Date;
       comments?: string;
       attachments?: string[];
+      onBehalfOf?: MongooseSchema.ObjectId;
+      approvedByName?: string;
     }[];
     financeApprovals: {
       approverId: MongooseSchema.ObjectId;
       approvedAt: Date;
       comments?: string;
       attachments?: string[];
+      onBehalfOf?: MongooseSchema.ObjectId;
+      approvedByName?: string;
     }[];
   };
 
@@ -226,6 +268,20 @@ export class Budget extends Document {
   @Prop()
   currentLevelDeadline?: Date;
 
+  @ApiProperty({
+    description: 'Missed deadlines at the current approval level',
+    required: false,
+  })
+  @Prop({ type: ApprovalSlaSchema })
+  sla?: ApprovalSla;
+
+  @ApiProperty({
+    description: 'Escalations raised for overdue approvals',
+    type: [ApprovalEscalation],
+  })
+  @Prop({ type: [ApprovalEscalationSchema], default: [] })
+  escalations?: ApprovalEscalation[];
+
   @ApiProperty({ description: 'Rejection details if budget was rejected' })
   @Prop({
     type: {
@@ -319,6 +375,11 @@ export class Budget extends Document {
   @ApiProperty({ description: 'Approval date' })
   @Prop()
   approvedAt?: Date;
+
+  @ApiProperty()
+  updatedAt?: Date;
 }
 
 export const BudgetSchema = SchemaFactory.createForClass(Budget);
+
+BudgetSchema.plugin(statusChangedAtPlugin);
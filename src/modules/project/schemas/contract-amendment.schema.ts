@@ -0,0 +1,203 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import { Document, Schema as MongooseSchema, Types } from 'mongoose';
+import { AMENDABLE_CONTRACT_FIELDS } from '../contract-terms';
+
+export const CONTRACT_AMENDMENT_STATUSES = [
+  'pending_finance_approval',
+  'pending_md_approval',
+  'pending_acceptance',
+  'applied',
+  'rejected',
+  'cancelled',
+] as const;
+export type ContractAmendmentStatus =
+  (typeof CONTRACT_AMENDMENT_STATUSES)[number];
+
+// Statuses of an amendment that is still in progress
+export const OPEN_AMENDMENT_STATUSES: ContractAmendmentStatus[] = [
+  'pending_finance_approval',
+  'pending_md_approval',
+  'pending_acceptance',
+];
+
+export type ContractAmendmentDocument = ContractAmendment & Document;
+
+@Schema({ _id: false })
+export class ContractAmendmentTerms {
+  @ApiProperty({ example: 150000 })
+  @Prop({ required: true })
+  contractValue: number;
+
+  @ApiProperty()
+  @Prop({ required: true })
+  startDate: Date;
+
+  @ApiProperty()
+  @Prop({ required: true })
+  endDate: Date;
+
+  @ApiProperty({ description: 'Scope of work' })
+  @Prop()
+  description: string;
+}
+
+@Schema({ _id: false })
+export class ContractAmendmentChange {
+  @ApiProperty({ enum: AMENDABLE_CONTRACT_FIELDS })
+  @Prop({ required: true, enum: AMENDABLE_CONTRACT_FIELDS })
+  field: string;
+
+  @ApiProperty()
+  @Prop({ type: MongooseSchema.Types.Mixed })
+  from: unknown;
+
+  @ApiProperty()
+  @Prop({ type: MongooseSchema.Types.Mixed })
+  to: unknown;
+}
+
+@Schema({ _id: false })
+export class ContractAmendmentApproval {
+  @ApiProperty({ enum: ['finance', 'md'] })
+  @Prop({ required: true, enum: ['finance', 'md'] })
+  level: string;
+
+  @ApiProperty()
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  approverId: Types.ObjectId;
+
+  @ApiProperty()
+  @Prop({ required: true })
+  approvedAt: Date;
+
+  @ApiProperty({ required: false })
+  @Prop()
+  comments?: string;
+
+  @ApiProperty({ required: false })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  onBehalfOf?: Types.ObjectId;
+
+  @ApiProperty({ required: false })
+  @Prop()
+  approvedByName?: string;
+}
+
+// A proposed change to the terms of an active contract
+@Schema({ timestamps: true })
+export class ContractAmendment {
+  @ApiProperty()
+  @Prop({ type: Types.ObjectId, ref: 'Contract', required: true })
+  contractId: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Amendment number on the contract, starting at 1',
+    example: 1,
+  })
+  @Prop({ required: true })
+  version: number;
+
+  @ApiProperty({ enum: CONTRACT_AMENDMENT_STATUSES })
+  @Prop({
+    required: true,
+    enum: CONTRACT_AMENDMENT_STATUSES,
+    default: 'pending_finance_approval',
+  })
+  status: ContractAmendmentStatus;
+
+  @ApiProperty({ example: 'Additional training sessions requested by client' })
+  @Prop({ required: true })
+  reason: string;
+
+  @ApiProperty({ description: 'Terms before the amendment' })
+  @Prop({ type: ContractAmendmentTerms, required: true })
+  previousTerms: ContractAmendmentTerms;
+
+  @ApiProperty({ description: 'Terms once the amendment applies' })
+  @Prop({ type: ContractAmendmentTerms, required: true })
+  terms: ContractAmendmentTerms;
+
+  @ApiProperty({ type: [ContractAmendmentChange] })
+  @Prop({ type: [ContractAmendmentChange], default: [] })
+  changes: ContractAmendmentChange[];
+
+  @ApiProperty({ type: [String], example: ['contractValue', 'endDate'] })
+  @Prop({ type: [String], default: [] })
+  changedFields: string[];
+
+  @ApiProperty({
+    description:
+      'Date the new terms take effect; defaults to when the amendment is accepted',
+    required: false,
+  })
+  @Prop()
+  effectiveDate?: Date;
+
+  @ApiProperty()
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  proposedBy: Types.ObjectId;
+
+  @ApiProperty({ type: [ContractAmendmentApproval] })
+  @Prop({ type: [ContractAmendmentApproval], default: [] })
+  approvals: ContractAmendmentApproval[];
+
+  @ApiProperty({ required: false })
+  @Prop()
+  currentLevelDeadline?: Date;
+
+  @ApiProperty({ required: false })
+  @Prop({
+    type: {
+      rejectedBy: { type: Types.ObjectId, ref: 'User' },
+      rejectedAt: Date,
+      reason: String,
+      level: String,
+    },
+    _id: false,
+  })
+  rejection?: {
+    rejectedBy: Types.ObjectId;
+    rejectedAt: Date;
+    reason: string;
+    level: string;
+  };
+
+  @ApiProperty({ required: false })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  cancelledBy?: Types.ObjectId;
+
+  @ApiProperty({ required: false })
+  @Prop()
+  cancelledAt?: Date;
+
+  @ApiProperty({
+    description: 'OTP acceptance by the contracted party',
+    required: false,
+  })
+  @Prop({
+    type: {
+      acceptedBy: { type: Types.ObjectId, ref: 'User' },
+      acceptedAt: Date,
+      ipAddress: String,
+      userAgent: String,
+    },
+    _id: false,
+  })
+  acceptance?: {
+    acceptedBy: Types.ObjectId;
+    acceptedAt: Date;
+    ipAddress?: string;
+    userAgent?: string;
+  };
+
+  @ApiProperty({ required: false })
+  @Prop()
+  appliedAt?: Date;
+}
+
+export const ContractAmendmentSchema =
+  SchemaFactory.createForClass(ContractAmendment);
+
+ContractAmendmentSchema.index({ contractId: 1, version: 1 }, { unique: true });
+ContractAmendmentSchema.index({ contractId: 1, status: 1 });
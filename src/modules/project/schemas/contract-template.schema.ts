@@ -34,13 +34,14 @@ export class ContractTemplate extends Document {
 
   @ApiProperty({
     description:
-      'Raw template content. Can be HTML/Markdown/Text or JSON string.',
+      'Raw template content. Can be HTML/Markdown/Text or JSON string. Values are inserted where the content has {{variableName}}.',
   })
   @Prop({ required: true })
   content: string;
 
   @ApiProperty({
-    description: 'Optional list of variable keys used in the template',
+    description:
+      'Variable keys the template needs, such as partyName, contractValue, currency, startDate, endDate, projectName or milestoneTitle. Rendering fails when any has no value.',
   })
   @Prop({ type: [String], required: false, default: [] })
   variables?: string[];
@@ -1,6 +1,13 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { ApiProperty } from '@nestjs/swagger';
 import { Document, Schema as MongooseSchema } from 'mongoose';
+import {
+  ApprovalEscalation,
+  ApprovalEscalationSchema,
+  ApprovalSla,
+  ApprovalSlaSchema,
+} from '../../escalation/schemas/approval-escalation.schema';
+import { statusChangedAtPlugin } from '../../../common/utils/status-changed-at.plugin';
 
 export type ContractDocument = Contract & Document;
 
@@ -149,6 +156,13 @@ export class Contract extends Document {
     approvedBy?: MongooseSchema.Types.ObjectId;
   }[];
 
+  @ApiProperty({
+    description: 'Version of the latest applied term amendment, 0 if none',
+    example: 0,
+  })
+  @Prop({ default: 0 })
+  amendmentVersion: number;
+
   @ApiProperty({ description: 'Approval workflow tracking' })
   @Prop({
     type: {
@@ -157,6 +171,8 @@ export class Contract extends Document {
           approverId: { type: MongooseSchema.Types.ObjectId, ref: 'User' },
           approvedAt: Date,
           comments: String,
+          onBehalfOf: { type: MongooseSchema.Types.ObjectId, ref: 'User' },
+          approvedByName: String,
         },
       ],
       mdApprovals: [
@@ -164,6 +180,8 @@ export class Contract extends Document {
           approverId: { type: MongooseSchema.Types.ObjectId, ref: 'User' },
           approvedAt: Date,
           comments: String,
+          onBehalfOf: { type: MongooseSchema.Types.ObjectId, ref: 'User' },
+          approvedByName: String,
         },
       ],
       coachAdminApprovals: [
@@ -171,6 +189,8 @@ export class Contract extends Document {
           approverId: { type: MongooseSchema.Types.ObjectId, ref: 'User' },
           approvedAt: Date,
           comments: String,
+          onBehalfOf: { type: MongooseSchema.Types.ObjectId, ref: 'User' },
+          approvedByName: String,
         },
       ],
       coachManagerApprovals: [
@@ -178,6 +198,8 @@ export class Contract extends Document {
           approverId: { type: MongooseSchema.Types.ObjectId, ref: 'User' },
           approvedAt: Date,
           comments: String,
+          onBehalfOf: { type: MongooseSchema.Types.ObjectId, ref: 'User' },
+          approvedByName: String,
         },
       ],
       coachFinanceApprovals: [
@@ -185,6 +207,8 @@ export class Contract extends Document {
           approverId: { type: MongooseSchema.Types.ObjectId, ref: 'User' },
           approvedAt: Date,
           comments: String,
+          onBehalfOf: { type: MongooseSchema.Types.ObjectId, ref: 'User' },
+          approvedByName: String,
         },
       ],
       srccCheckerApprovals: [
@@ -192,6 +216,8 @@ export class Contract extends Document {
           approverId: { type: MongooseSchema.Types.ObjectId, ref: 'User' },
           approvedAt: Date,
           comments: String,
+          onBehalfOf: { type: MongooseSchema.Types.ObjectId, ref: 'User' },
+          approvedByName: String,
         },
       ],
       srccFinanceApprovals: [
@@ -199,6 +225,8 @@ export class Contract extends Document {
           approverId: { type: MongooseSchema.Types.ObjectId, ref: 'User' },
           approvedAt: Date,
           comments: String,
+          onBehalfOf: { type: MongooseSchema.Types.ObjectId, ref: 'User' },
+          approvedByName: String,
         },
       ],
     },
@@ -208,36 +236,50 @@ export class Contract extends Document {
       approverId: MongooseSchema.Types.ObjectId;
       approvedAt: Date;
       comments?: string;
+      onBehalfOf?: MongooseSchema.Types.ObjectId;
+      approvedByName?: string;
     }[];
     mdApprovals?: {
       approverId: MongooseSchema.Types.ObjectId;
       approvedAt: Date;
       comments?: string;
+      onBehalfOf?: MongooseSchema.Types.ObjectId;
+      approvedByName?: string;
     }[];
     coachAdminApprovals?: {
       approverId: MongooseSchema.Types.ObjectId;
       approvedAt: Date;
       comments?: string;
+      onBehalfOf?: MongooseSchema.Types.ObjectId;
+      approvedByName?: string;
     }[];
     coachManagerApprovals?: {
       approverId: MongooseSchema.Types.ObjectId;
       approvedAt: Date;
       comments?: string;
+      onBehalfOf?: MongooseSchema.Types.ObjectId;
+      approvedByName?: string;
     }[];
     coachFinanceApprovals?: {
       approverId: MongooseSchema.Types.ObjectId;
       approvedAt: Date;
       comments?: string;
+      onBehalfOf?: MongooseSchema.Types.ObjectId;
+      approvedByName?: string;
     }[];
     srccCheckerApprovals?: {
       approverId: MongooseSchema.Types.ObjectId;
       approvedAt: Date;
       comments?: string;
+      onBehalfOf?: MongooseSchema.Types.ObjectId;
+      approvedByName?: string;
     }[];
     srccFinanceApprovals?: {
       approverId: MongooseSchema.Types.ObjectId;
       approvedAt: Date;
       comments?: string;
+      onBehalfOf?: MongooseSchema.Types.ObjectId;
+      approvedByName?: string;
     }[];
   };
 
@@ -245,6 +287,20 @@ export class Contract extends Document {
   @Prop()
   currentLevelDeadline?: Date;
 
+  @ApiProperty({
+    description: 'Missed deadlines at the current approval level',
+    required: false,
+  })
+  @Prop({ type: ApprovalSlaSchema })
+  sla?: ApprovalSla;
+
+  @ApiProperty({
+    description: 'Escalations raised for overdue approvals',
+    type: [ApprovalEscalation],
+  })
+  @Prop({ type: [ApprovalEscalationSchema], default: [] })
+  escalations?: ApprovalEscalation[];
+
   @ApiProperty({ description: 'Final approval details' })
   @Prop({
     type: {
@@ -257,6 +313,111 @@ export class Contract extends Document {
     approvedAt: Date;
   };
 
+  @ApiProperty({
+    description: 'OTP acceptance by the contracted party',
+    required: false,
+  })
+  @Prop({
+    type: {
+      acceptedBy: { type: MongooseSchema.Types.ObjectId, ref: 'User' },
+      acceptedAt: Date,
+      ipAddress: String,
+      userAgent: String,
+    },
+  })
+  acceptance?: {
+    acceptedBy: MongooseSchema.Types.ObjectId;
+    acceptedAt: Date;
+    ipAddress?: string;
+    userAgent?: string;
+  };
+
+  @ApiProperty({
+    description: 'Expiry warnings sent, by days before the end date',
+    required: false,
+  })
+  @Prop({
+    type: [{ day: Number, sentAt: Date, _id: false }],
+    default: [],
+  })
+  expiryReminders?: { day: number; sentAt: Date }[];
+
+  @ApiProperty({
+    description: 'When the contract was completed after its end date',
+    required: false,
+  })
+  @Prop()
+  completedAt?: Date;
+
+  @ApiProperty({
+    description: 'Contract this one renews',
+    required: false,
+  })
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'Contract' })
+  renewalOf?: MongooseSchema.Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Draft contract started as the renewal of this one',
+    required: false,
+  })
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'Contract' })
+  renewedBy?: MongooseSchema.Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Termination details; the contract ends on the effective date',
+    required: false,
+  })
+  @Prop({
+    type: {
+      terminatedBy: { type: MongooseSchema.Types.ObjectId, ref: 'User' },
+      requestedAt: Date,
+      effectiveDate: Date,
+      reason: String,
+      finalSettlementAmount: Number,
+      terminatedAt: Date,
+    },
+  })
+  termination?: {
+    terminatedBy: MongooseSchema.Types.ObjectId;
+    requestedAt: Date;
+    effectiveDate: Date;
+    reason: string;
+    finalSettlementAmount: number;
+    terminatedAt?: Date;
+  };
+
+  @ApiProperty({
+    description:
+      'Suspension periods, oldest first; the open one has no resumedAt',
+    required: false,
+  })
+  @Prop({
+    type: [
+      {
+        reason: String,
+        startDate: Date,
+        endDate: Date,
+        suspendedBy: { type: MongooseSchema.Types.ObjectId, ref: 'User' },
+        requestedAt: Date,
+        resumedBy: { type: MongooseSchema.Types.ObjectId, ref: 'User' },
+        resumedAt: Date,
+        resumeReason: String,
+      },
+    ],
+    default: [],
+  })
+  suspensions?: {
+    reason: string;
+    startDate: Date;
+    // Planned resumption, if one was set
+    endDate?: Date;
+    suspendedBy: MongooseSchema.Types.ObjectId;
+    requestedAt: Date;
+    resumedBy?: MongooseSchema.Types.ObjectId;
+    resumedAt?: Date;
+    resumeReason?: string;
+  }[];
+
   @ApiProperty({ description: 'Rejection details if contract is rejected' })
   @Prop({
     type: {
@@ -264,6 +425,7 @@ export class Contract extends Document {
       rejectedAt: Date,
       reason: String,
       level: String,
+      onBehalfOf: { type: MongooseSchema.Types.ObjectId, ref: 'User' },
     },
   })
   rejectionDetails?: {
@@ -271,6 +433,7 @@ export class Contract extends Document {
     rejectedAt: Date;
     reason: string;
     level: string;
+    onBehalfOf?: MongooseSchema.Types.ObjectId;
   };
 
   @ApiProperty({
@@ -329,3 +492,5 @@ export class Contract extends Document {
 }
 
 export const ContractSchema = SchemaFactory.createForClass(Contract);
+
+ContractSchema.plugin(statusChangedAtPlugin);
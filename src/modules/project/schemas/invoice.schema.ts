@@ -1,6 +1,13 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { ApiProperty } from '@nestjs/swagger';
 import { Document, Schema as MongooseSchema, Types } from 'mongoose';
+import {
+  ApprovalEscalation,
+  ApprovalEscalationSchema,
+  ApprovalSla,
+  ApprovalSlaSchema,
+} from '../../escalation/schemas/approval-escalation.schema';
+import { statusChangedAtPlugin } from '../../../common/utils/status-changed-at.plugin';
 
 export type InvoiceDocument = Invoice & Document;
 
@@ -229,6 +236,24 @@ export class Invoice extends Document {
   })
   status: string;
 
+  @ApiProperty({ description: 'Current approval level deadline' })
+  @Prop()
+  currentLevelDeadline?: Date;
+
+  @ApiProperty({
+    description: 'Missed deadlines at the current approval level',
+    required: false,
+  })
+  @Prop({ type: ApprovalSlaSchema })
+  sla?: ApprovalSla;
+
+  @ApiProperty({
+    description: 'Escalations raised for overdue approvals',
+    type: [ApprovalEscalation],
+  })
+  @Prop({ type: [ApprovalEscalationSchema], default: [] })
+  escalations?: ApprovalEscalation[];
+
   @ApiProperty({ description: 'Payment terms', example: 'Net 30' })
   @Prop({ required: true })
   paymentTerms: string;
@@ -341,6 +366,8 @@ export class Invoice extends Document {
 
 export const InvoiceSchema = SchemaFactory.createForClass(Invoice);
 
+InvoiceSchema.plugin(statusChangedAtPlugin);
+
 // Add indexes for better query performance
 InvoiceSchema.index({ projectId: 1, invoiceNumber: 1 });
 InvoiceSchema.index({ issuedBy: 1, invoiceDate: -1 });
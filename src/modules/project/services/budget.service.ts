@@ -15,7 +15,33 @@ import {
 import { Project } from '../schemas/project.schema';
 import { NotificationService } from '../../notifications/services/notification.service';
 import { Budget, BudgetDocument } from '../schemas/budget.schema';
+import {
+  BudgetVersion,
+  BudgetVersionDocument,
+} from '../schemas/budget-version.schema';
+import {
+  BudgetComparison,
+  BudgetContent,
+  carryOverSpend,
+  compareBudgets,
+} from '../budget-versions';
 import { User, UserDocument } from 'src/modules/auth/schemas/user.schema';
+import {
+  BudgetApproversConfig,
+  BudgetApproversConfigDocument,
+} from 'src/modules/system-config/schemas/budget-approvers.schema';
+import {
+  DelegationService,
+  formatActingAs,
+} from '../../delegation/delegation.service';
+
+export interface BudgetVersionComparison extends BudgetComparison {
+  budgetId: string;
+  currency: string;
+  // 'working' for the current version when it has not been submitted yet
+  from: { version: number; outcome: string };
+  to: { version: number; outcome: string };
+}
 
 @Injectable()
 export class BudgetService {
@@ -27,11 +53,33 @@ export class BudgetService {
 
   constructor(
     @InjectModel(Budget.name) private budgetModel: Model<BudgetDocument>,
+    @InjectModel(BudgetVersion.name)
+    private budgetVersionModel: Model<BudgetVersionDocument>,
     @InjectModel(Project.name) private projectModel: Model<Project>,
     @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectModel(BudgetApproversConfig.name)
+    private budgetApproversModel: Model<BudgetApproversConfigDocument>,
     private readonly notificationService: NotificationService,
+    private readonly delegationService: DelegationService,
   ) {}
 
+  // Uses the configured approvalTimeouts, falling back to the defaults
+  private async getLevelDeadline(level: string): Promise<Date> {
+    const config = await this.budgetApproversModel
+      .findOne()
+      .sort({ updatedAt: -1 })
+      .lean();
+    const timeouts = config?.approvalTimeouts;
+    const hours =
+      {
+        checker: timeouts?.checker ?? 24,
+        manager: timeouts?.approver ?? 48,
+        finance: timeouts?.finance ?? 72,
+      }[level] ?? 24;
+
+    return new Date(Date.now() + hours * 60 * 60 * 1000);
+  }
+
   private async notifyStakeholders(
     budget: Budget,
     action: string,
@@ -196,7 +244,7 @@ export class BudgetService {
       );
     }
 
-    return approvers;
+    return this.delegationService.substituteRecipients(approvers, 'budgets');
   }
 
   private async notifyApprovers(
@@ -294,7 +342,7 @@ export class BudgetService {
       {
         status: nextStatus,
         updatedBy: userId,
-        currentLevelDeadline: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours deadline
+        currentLevelDeadline: await this.getLevelDeadline(nextLevel),
         $unset: { revisionRequest: 1 },
         $push: {
           auditTrail: {
@@ -316,6 +364,7 @@ export class BudgetService {
       },
       { new: true },
     );
+    await this.freeze(updatedBudget, 'pending', userId);
 
     const project = await this.projectModel.findById(budget.projectId);
     if (!project) {
@@ -382,19 +431,17 @@ export class BudgetService {
       //   );
       // }
 
-      // Increment version when significant changes are made
-      const shouldIncrementVersion =
-        dto.internalCategories?.length > 0 ||
-        dto.externalCategories?.length > 0 ||
-        dto.totalInternalBudget !== undefined ||
-        dto.totalExternalBudget !== undefined;
+      const revision = await this.startRevision(budget);
+      const spend = this.keepRecordedSpend(budget, dto);
 
-      const updatedBudget = await this.budgetModel.findByIdAndUpdate(
-        id,
+      // Imprest reservations landing meanwhile would otherwise be overwritten
+      const updatedBudget = await this.budgetModel.findOneAndUpdate(
+        { _id: id, version: budget.version, updatedAt: budget.updatedAt },
         {
           ...dto,
           updatedBy: userId,
-          ...(shouldIncrementVersion && { version: budget.version + 1 }),
+          ...revision,
+          ...spend,
           $push: {
             auditTrail: {
               action: 'UPDATED',
@@ -405,15 +452,18 @@ export class BudgetService {
                 externalCategories: dto.externalCategories,
                 totalInternalBudget: dto.totalInternalBudget,
                 totalExternalBudget: dto.totalExternalBudget,
-                version: shouldIncrementVersion
-                  ? budget.version + 1
-                  : budget.version,
+                version: revision.version ?? budget.version,
               },
             },
           },
         },
         { new: true },
       );
+      if (!updatedBudget) {
+        throw new BadRequestException(
+          'Budget was updated by someone else. Please reload and try again.',
+        );
+      }
 
       return updatedBudget;
     } catch (error) {
@@ -435,8 +485,15 @@ export class BudgetService {
       roles: { $in: [this.roleMap[level]] },
       isActive: true,
     });
+    if (!approver) {
+      return approver;
+    }
 
-    return approver;
+    const [recipient] = await this.delegationService.substituteRecipients(
+      [approver],
+      'budgets',
+    );
+    return recipient;
   }
 
   async create(userId: Types.ObjectId, dto: CreateBudgetDto): Promise<Budget> {
@@ -455,6 +512,8 @@ export class BudgetService {
 
     if (existingBudget) {
       console.log('Found existing budget:', existingBudget._id);
+      const revision = await this.startRevision(existingBudget);
+      const spend = this.keepRecordedSpend(existingBudget, dto);
 
       // Create update object with only the fields that are provided
       const updateFields: any = {};
@@ -501,11 +560,17 @@ export class BudgetService {
 
       // Use $set to update only the provided fields
       const updatedBudget = await this.budgetModel
-        .findByIdAndUpdate(
-          existingBudget._id,
+        .findOneAndUpdate(
+          {
+            _id: existingBudget._id,
+            version: existingBudget.version,
+            updatedAt: existingBudget.updatedAt,
+          },
           {
             $set: {
               ...updateFields,
+              ...revision,
+              ...spend,
               updatedBy: userId,
               updatedAt: new Date(),
             },
@@ -527,7 +592,9 @@ export class BudgetService {
         .select('-__v');
 
       if (!updatedBudget) {
-        throw new BadRequestException('Failed to update budget');
+        throw new BadRequestException(
+          'Budget was updated by someone else. Please reload and try again.',
+        );
       }
 
       return updatedBudget;
@@ -571,12 +638,12 @@ export class BudgetService {
       case 'pending_checker_approval':
         nextStatus = 'pending_manager_approval';
         nextLevel = 'manager';
-        nextDeadline = new Date(Date.now() + 48 * 60 * 60 * 1000); // 48 hours
+        nextDeadline = await this.getLevelDeadline(nextLevel);
         break;
       case 'pending_manager_approval':
         nextStatus = 'pending_finance_approval';
         nextLevel = 'finance';
-        nextDeadline = new Date(Date.now() + 72 * 60 * 60 * 1000); // 72 hours
+        nextDeadline = await this.getLevelDeadline(nextLevel);
         break;
       case 'pending_finance_approval':
         nextStatus = 'approved';
@@ -590,6 +657,13 @@ export class BudgetService {
     const approvalLevel = budget.status.split('_')[1];
     const approvalField = `${approvalLevel}Approvals`;
 
+    // Record when the approver is covering for someone under a delegation
+    const resolved = await this.delegationService.resolveActor(
+      userId,
+      'budgets',
+      { roles: [this.roleMap[approvalLevel]] },
+    );
+
     let nextApprover = null;
     if (nextLevel) {
       nextApprover = await this.getNextApprover(nextLevel);
@@ -604,6 +678,10 @@ export class BudgetService {
           approverId: userId,
           approvedAt: new Date(),
           comments: dto.comments,
+          ...(resolved && {
+            onBehalfOf: resolved.onBehalfOf?._id,
+            approvedByName: formatActingAs(resolved.actor, resolved.onBehalfOf),
+          }),
         },
         auditTrail: {
           action: 'APPROVED',
@@ -613,6 +691,9 @@ export class BudgetService {
             level: approvalLevel,
             from: budget.status,
             to: nextStatus,
+            ...(resolved?.onBehalfOf && {
+              onBehalfOf: resolved.onBehalfOf._id,
+            }),
           },
         },
       },
@@ -621,12 +702,23 @@ export class BudgetService {
     if (nextStatus === 'approved') {
       update.approvedBy = userId;
       update.approvedAt = new Date();
+      update.baselineVersion = budget.version;
     }
 
     const updatedBudget = await this.budgetModel.findByIdAndUpdate(id, update, {
       new: true,
     });
 
+    if (nextStatus === 'approved') {
+      await this.freeze(updatedBudget, 'approved', budget.createdBy);
+      if (budget.baselineVersion && budget.baselineVersion !== budget.version) {
+        await this.budgetVersionModel.updateOne(
+          { budgetId: budget._id, version: budget.baselineVersion },
+          { outcome: 'superseded', decidedAt: new Date() },
+        );
+      }
+    }
+
     // Notify stakeholders
     await this.notifyStakeholders(
       updatedBudget,
@@ -674,6 +766,7 @@ export class BudgetService {
       },
       { new: true },
     );
+    await this.freeze(updatedBudget, 'rejected', budget.createdBy);
 
     // Notify stakeholders
     await this.notifyStakeholders(updatedBudget, 'Rejected', null, dto.reason);
@@ -722,6 +815,7 @@ export class BudgetService {
       },
       { new: true },
     );
+    await this.freeze(updatedBudget, 'revision_requested', budget.createdBy);
 
     // Notify stakeholders
     await this.notifyStakeholders(
@@ -794,14 +888,15 @@ export class BudgetService {
       throw new NotFoundException('Budget not found');
     }
 
-    // Prevent deletion of approved budgets
-    if (budget.status === 'approved') {
+    // Prevent deletion of approved budgets, including ones under revision
+    if (budget.status === 'approved' || budget.baselineVersion) {
       throw new BadRequestException(
         'Cannot delete approved budgets. Please contact system administrator.',
       );
     }
 
     await this.budgetModel.deleteOne({ _id: id }).exec();
+    await this.budgetVersionModel.deleteMany({ budgetId: id });
 
     // Remove budget reference from project
     await this.projectModel.findByIdAndUpdate(budget.projectId, {
@@ -809,6 +904,187 @@ export class BudgetService {
     });
   }
 
+  async findVersions(id: Types.ObjectId): Promise<BudgetVersion[]> {
+    return this.budgetVersionModel
+      .find({ budgetId: id })
+      .populate('submittedBy', 'firstName lastName email')
+      .sort({ version: -1 })
+      .lean();
+  }
+
+  async findVersion(
+    id: Types.ObjectId,
+    version: number,
+  ): Promise<BudgetVersion> {
+    const snapshot = await this.budgetVersionModel
+      .findOne({ budgetId: id, version })
+      .populate('submittedBy', 'firstName lastName email')
+      .lean();
+    if (!snapshot) {
+      throw new NotFoundException(`Budget version ${version} not found`);
+    }
+    return snapshot;
+  }
+
+  /**
+   * Compares estimated amounts between two versions. By default the current
+   * version is compared with the approved baseline, or the one before it.
+   */
+  async compareVersions(
+    id: Types.ObjectId,
+    fromVersion?: number,
+    toVersion?: number,
+  ): Promise<BudgetVersionComparison> {
+    const budget = await this.budgetModel.findById(id).lean();
+    if (!budget) {
+      throw new NotFoundException('Budget not found');
+    }
+
+    const to = toVersion ?? budget.version;
+    const from =
+      fromVersion ??
+      (budget.baselineVersion && budget.baselineVersion !== to
+        ? budget.baselineVersion
+        : to - 1);
+    const [before, after] = await Promise.all([
+      this.resolveVersion(budget, from),
+      this.resolveVersion(budget, to),
+    ]);
+
+    return {
+      budgetId: String(budget._id),
+      currency: budget.currency,
+      from: { version: from, outcome: before.outcome },
+      to: { version: to, outcome: after.outcome },
+      ...compareBudgets(before.content, after.content),
+    };
+  }
+
+  // A submitted version comes from its snapshot, the unsubmitted one from the budget
+  private async resolveVersion(
+    budget: Budget,
+    version: number,
+  ): Promise<{ outcome: string; content: BudgetContent }> {
+    const snapshot = await this.budgetVersionModel
+      .findOne({ budgetId: budget._id, version })
+      .lean();
+    if (snapshot) {
+      return { outcome: snapshot.outcome, content: snapshot };
+    }
+    if (version === budget.version) {
+      return { outcome: 'working', content: budget };
+    }
+    throw new NotFoundException(`Budget version ${version} not found`);
+  }
+
+  // Writes the snapshot of the current version once; later calls only set the outcome
+  private async freeze(
+    budget: Budget,
+    outcome: string,
+    submittedBy: unknown,
+  ): Promise<void> {
+    await this.budgetVersionModel.updateOne(
+      { budgetId: budget._id, version: budget.version },
+      {
+        $setOnInsert: {
+          projectId: (budget.projectId as any)?._id || budget.projectId,
+          currency: budget.currency,
+          internalCategories: budget.internalCategories,
+          externalCategories: budget.externalCategories,
+          totalInternalBudget: budget.totalInternalBudget,
+          totalExternalBudget: budget.totalExternalBudget,
+          notes: budget.notes,
+          submittedBy: (submittedBy as any)?._id || submittedBy,
+          submittedAt: new Date(),
+        },
+        $set: {
+          outcome,
+          ...(outcome !== 'pending' && { decidedAt: new Date() }),
+        },
+      },
+      { upsert: true },
+    );
+  }
+
+  /**
+   * Submitted versions are never edited. The first edit after a submission
+   * starts the next version, and an approved budget reopens as a draft while
+   * the approved version stays the baseline for spend tracking.
+   */
+  private async startRevision(
+    budget: Budget,
+  ): Promise<{ version?: number; status?: string; baselineVersion?: number }> {
+    if (budget.status.startsWith('pending_')) {
+      throw new BadRequestException(
+        `Budget version ${budget.version} is awaiting approval and cannot be edited`,
+      );
+    }
+
+    // Budgets approved before versioning get their baseline snapshot here
+    if (
+      budget.status === 'approved' &&
+      budget.baselineVersion !== budget.version
+    ) {
+      await this.freeze(
+        budget,
+        'approved',
+        budget.approvedBy || budget.createdBy,
+      );
+    }
+
+    const frozen = await this.budgetVersionModel.exists({
+      budgetId: budget._id,
+      version: budget.version,
+    });
+    if (!frozen) return {};
+
+    return {
+      version: budget.version + 1,
+      ...(['approved', 'rejected'].includes(budget.status) && {
+        status: 'draft',
+      }),
+      ...(budget.status === 'approved' && {
+        baselineVersion: budget.version,
+      }),
+    };
+  }
+
+  /**
+   * Imprests hold money against budget lines, so those lines must stay. The
+   * lines' reserved and spent amounts are copied from the stored budget onto
+   * `dto`, and the matching totals are returned for the same write.
+   */
+  private keepRecordedSpend(
+    budget: Budget,
+    dto: BudgetContent,
+  ): Partial<
+    Pick<
+      Budget,
+      | 'totalInternalReserved'
+      | 'totalInternalSpent'
+      | 'totalExternalReserved'
+      | 'totalExternalSpent'
+    >
+  > {
+    const { dropped, totals } = carryOverSpend(budget, dto);
+    if (dropped.length) {
+      throw new BadRequestException(
+        `Budget lines with reserved or spent amounts cannot be removed: ${dropped.join(', ')}`,
+      );
+    }
+
+    return {
+      ...(totals.internal && {
+        totalInternalReserved: totals.internal.reserved,
+        totalInternalSpent: totals.internal.spent,
+      }),
+      ...(totals.external && {
+        totalExternalReserved: totals.external.reserved,
+        totalExternalSpent: totals.external.spent,
+      }),
+    };
+  }
+
   private async generateBaseEmailMessage(
     budget: Budget,
     project: Project,
@@ -0,0 +1,650 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  ContractAmendment,
+  ContractAmendmentDocument,
+  OPEN_AMENDMENT_STATUSES,
+} from '../schemas/contract-amendment.schema';
+import { Contract, ContractDocument } from '../schemas/contract.schema';
+import { Project } from '../schemas/project.schema';
+import { User } from '../../auth/schemas/user.schema';
+import { Claim, ClaimDocument } from '../../claims/schemas/claim.schema';
+import {
+  ProposeContractAmendmentDto,
+  RejectContractAmendmentDto,
+} from '../dto/contract-amendment.dto';
+import { ContractApprovalDto } from '../dto/contract-approval.dto';
+import { ContractService } from './contract.service';
+import { ContractDocumentService } from './contract-document.service';
+import { NotificationService } from '../../notifications/services/notification.service';
+import {
+  DelegationService,
+  formatActingAs,
+} from '../../delegation/delegation.service';
+import { CONTRACT_LEVEL_ROLES } from '../../approvals/approval-levels';
+import { diffTerms, pickTerms } from '../contract-terms';
+import { OtpRequestContext, OtpService } from '../../otp/otp.service';
+
+const LEVELS = {
+  pending_finance_approval: {
+    level: 'finance',
+    label: 'Finance',
+    nextStatus: 'pending_md_approval',
+    deadlineHours: 48,
+  },
+  pending_md_approval: {
+    level: 'md',
+    label: 'Managing Director',
+    nextStatus: 'pending_acceptance',
+    deadlineHours: 72,
+  },
+} as const;
+
+const formatDate = (date: Date) => new Date(date).toLocaleDateString();
+
+/**
+ * Changes to the value, dates or scope of an active contract. An amendment
+ * goes through the same finance and MD approvals as a new contract and the
+ * contracted party accepts it by OTP before the new terms apply.
+ */
+@Injectable()
+export class ContractAmendmentService {
+  private readonly logger = new Logger(ContractAmendmentService.name);
+
+  constructor(
+    @InjectModel(ContractAmendment.name)
+    private amendmentModel: Model<ContractAmendmentDocument>,
+    @InjectModel(Contract.name) private contractModel: Model<ContractDocument>,
+    @InjectModel(Project.name) private projectModel: Model<Project>,
+    @InjectModel(User.name) private userModel: Model<User>,
+    @InjectModel(Claim.name) private claimModel: Model<ClaimDocument>,
+    private readonly contractService: ContractService,
+    private readonly contractDocumentService: ContractDocumentService,
+    private readonly notificationService: NotificationService,
+    private readonly delegationService: DelegationService,
+    private readonly otpService: OtpService,
+  ) {}
+
+  async propose(
+    contractId: string,
+    dto: ProposeContractAmendmentDto,
+    userId: string,
+  ): Promise<ContractAmendmentDocument> {
+    const contract = await this.getContract(contractId);
+    if (contract.status !== 'active') {
+      throw new BadRequestException('Only active contracts can be amended');
+    }
+
+    const open = await this.amendmentModel.exists({
+      contractId: contract._id,
+      status: { $in: OPEN_AMENDMENT_STATUSES },
+    });
+    if (open) {
+      throw new ConflictException(
+        'This contract already has an amendment in progress',
+      );
+    }
+
+    const previousTerms = pickTerms(contract);
+    const changes = diffTerms(previousTerms, dto);
+    if (!changes.length) {
+      throw new BadRequestException(
+        'The amendment does not change any contract terms',
+      );
+    }
+
+    const terms = { ...previousTerms };
+    for (const change of changes) {
+      (terms as Record<string, unknown>)[change.field] = change.to;
+    }
+    if (new Date(terms.startDate) > new Date(terms.endDate)) {
+      throw new BadRequestException('Start date cannot be after end date');
+    }
+
+    const claimed = await this.getClaimedAmount(contract._id as Types.ObjectId);
+    if (terms.contractValue < claimed) {
+      throw new BadRequestException(
+        `The contract value cannot go below the ${contract.currency} ${claimed.toLocaleString()} already claimed`,
+      );
+    }
+
+    const version = (contract.amendmentVersion || 0) + 1;
+    const amendment = await this.amendmentModel.create({
+      contractId: contract._id,
+      version,
+      reason: dto.reason,
+      previousTerms,
+      terms,
+      changes,
+      changedFields: changes.map((change) => change.field),
+      effectiveDate: dto.effectiveDate
+        ? new Date(dto.effectiveDate)
+        : undefined,
+      proposedBy: new Types.ObjectId(userId),
+      currentLevelDeadline: this.calculateDeadline(
+        LEVELS.pending_finance_approval.deadlineHours,
+      ),
+    });
+
+    await this.logOnContract(
+      contract._id as Types.ObjectId,
+      `Amendment v${version} proposed: ${dto.reason}`,
+      amendment.changedFields,
+      userId,
+    );
+    this.logger.log(
+      `Amendment v${version} proposed on contract ${contract.contractNumber}`,
+    );
+
+    await this.notifyApprovers(amendment, contract).catch((error) =>
+      this.logger.error(
+        `Failed to notify amendment approvers: ${error.message}`,
+        error.stack,
+      ),
+    );
+    return amendment;
+  }
+
+  async findForContract(
+    contractId: string,
+  ): Promise<ContractAmendmentDocument[]> {
+    return this.amendmentModel
+      .find({ contractId: new Types.ObjectId(contractId) })
+      .populate('proposedBy', 'firstName lastName email')
+      .populate('approvals.approverId', 'firstName lastName email')
+      .populate('rejection.rejectedBy', 'firstName lastName email')
+      .sort({ version: -1 });
+  }
+
+  async findOne(id: string): Promise<ContractAmendmentDocument> {
+    const amendment = await this.amendmentModel
+      .findById(id)
+      .populate('proposedBy', 'firstName lastName email')
+      .populate('approvals.approverId', 'firstName lastName email')
+      .populate('rejection.rejectedBy', 'firstName lastName email');
+    if (!amendment) {
+      throw new NotFoundException(`Contract amendment ${id} not found`);
+    }
+    return amendment;
+  }
+
+  async approve(
+    id: string,
+    userId: string,
+    dto: ContractApprovalDto,
+  ): Promise<ContractAmendmentDocument> {
+    const amendment = await this.getAmendment(id);
+    const step = LEVELS[amendment.status as keyof typeof LEVELS];
+    if (!step) {
+      throw new BadRequestException(
+        `Amendment is ${amendment.status.replace(/_/g, ' ')} and cannot be approved`,
+      );
+    }
+
+    const contract = await this.getContract(amendment.contractId);
+    const resolved = await this.resolveApprover(
+      amendment.status,
+      contract,
+      userId,
+      'approve',
+    );
+
+    amendment.approvals.push({
+      level: step.level,
+      approverId: new Types.ObjectId(userId),
+      approvedAt: new Date(),
+      comments: dto.comments,
+      onBehalfOf: resolved.onBehalfOf?._id as Types.ObjectId,
+      approvedByName: formatActingAs(resolved.actor, resolved.onBehalfOf),
+    });
+    amendment.status = step.nextStatus;
+    amendment.currentLevelDeadline =
+      step.nextStatus === 'pending_md_approval'
+        ? this.calculateDeadline(LEVELS.pending_md_approval.deadlineHours)
+        : undefined;
+    const saved = await amendment.save();
+
+    await this.logOnContract(
+      contract._id as Types.ObjectId,
+      `Amendment v${amendment.version} approved by ${step.label}`,
+      amendment.changedFields,
+      userId,
+    );
+
+    const notify =
+      saved.status === 'pending_acceptance'
+        ? this.notifyParty(saved, contract)
+        : this.notifyApprovers(saved, contract);
+    await notify.catch((error) =>
+      this.logger.error(
+        `Failed to send amendment notifications: ${error.message}`,
+        error.stack,
+      ),
+    );
+    return saved;
+  }
+
+  async reject(
+    id: string,
+    userId: string,
+    dto: RejectContractAmendmentDto,
+  ): Promise<ContractAmendmentDocument> {
+    const amendment = await this.getAmendment(id);
+    const step = LEVELS[amendment.status as keyof typeof LEVELS];
+    if (!step) {
+      throw new BadRequestException(
+        `Amendment is ${amendment.status.replace(/_/g, ' ')} and cannot be rejected`,
+      );
+    }
+
+    const contract = await this.getContract(amendment.contractId);
+    await this.resolveApprover(amendment.status, contract, userId, 'reject');
+
+    amendment.status = 'rejected';
+    amendment.currentLevelDeadline = undefined;
+    amendment.rejection = {
+      rejectedBy: new Types.ObjectId(userId),
+      rejectedAt: new Date(),
+      reason: dto.reason,
+      level: step.level,
+    };
+    const saved = await amendment.save();
+
+    await this.logOnContract(
+      contract._id as Types.ObjectId,
+      `Amendment v${amendment.version} rejected by ${step.label}: ${dto.reason}`,
+      amendment.changedFields,
+      userId,
+    );
+    await this.notifyProposer(
+      saved,
+      contract,
+      'Rejected',
+      `was rejected at ${step.label} level: ${dto.reason}`,
+    ).catch((error) =>
+      this.logger.error(
+        `Failed to notify amendment proposer: ${error.message}`,
+        error.stack,
+      ),
+    );
+    return saved;
+  }
+
+  // The proposer or an admin may withdraw an amendment before it applies
+  async cancel(id: string, userId: string): Promise<ContractAmendmentDocument> {
+    const amendment = await this.getAmendment(id);
+    if (!OPEN_AMENDMENT_STATUSES.includes(amendment.status)) {
+      throw new BadRequestException(
+        `Amendment is ${amendment.status.replace(/_/g, ' ')} and cannot be cancelled`,
+      );
+    }
+
+    const user = await this.userModel.findById(userId).select('roles').lean();
+    const isAdmin = user?.roles?.some((role) =>
+      ['admin', 'super_admin'].includes(role),
+    );
+    if (String(amendment.proposedBy) !== userId && !isAdmin) {
+      throw new ForbiddenException(
+        'Only the proposer or an administrator can cancel this amendment',
+      );
+    }
+
+    amendment.status = 'cancelled';
+    amendment.currentLevelDeadline = undefined;
+    amendment.cancelledBy = new Types.ObjectId(userId);
+    amendment.cancelledAt = new Date();
+    const saved = await amendment.save();
+
+    await this.logOnContract(
+      amendment.contractId,
+      `Amendment v${amendment.version} cancelled`,
+      amendment.changedFields,
+      userId,
+    );
+    return saved;
+  }
+
+  async generateOtp(id: string): Promise<string> {
+    const amendment = await this.getAmendment(id);
+    this.assertPendingAcceptance(amendment);
+    const contract = await this.getContract(amendment.contractId);
+
+    return this.contractService.issueOtp(
+      'contract_amendment',
+      String(amendment._id),
+      contract,
+      `contract ${contract.contractNumber} amendment v${amendment.version}`,
+    );
+  }
+
+  // Applies the new terms once the contracted party confirms by OTP
+  async accept(
+    id: string,
+    otp: string,
+    userId: string,
+    context: OtpRequestContext = {},
+  ): Promise<ContractAmendmentDocument> {
+    const amendment = await this.getAmendment(id);
+    this.assertPendingAcceptance(amendment);
+    const challenge = await this.otpService.verify(
+      'contract_amendment',
+      String(amendment._id),
+      otp,
+      context,
+    );
+
+    const contract = await this.getContract(amendment.contractId);
+    const now = challenge.verifiedAt;
+    const updatedContract = await this.contractModel.findOneAndUpdate(
+      { _id: contract._id, status: 'active' },
+      {
+        ...pickTerms(amendment.terms),
+        amendmentVersion: amendment.version,
+        updatedBy: new Types.ObjectId(userId),
+        $push: {
+          amendments: {
+            date: now,
+            description: `Amendment v${amendment.version} accepted and applied`,
+            changedFields: amendment.changedFields,
+            approvedBy: new Types.ObjectId(userId),
+          },
+        },
+      },
+      { new: true },
+    );
+    if (!updatedContract) {
+      throw new ConflictException(
+        `Contract is ${contract.status} and can no longer be amended`,
+      );
+    }
+
+    amendment.status = 'applied';
+    amendment.currentLevelDeadline = undefined;
+    amendment.acceptance = {
+      acceptedBy: new Types.ObjectId(userId),
+      acceptedAt: now,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    };
+    amendment.appliedAt = now;
+    const saved = await amendment.save();
+    this.logger.log(
+      `Amendment v${amendment.version} applied to contract ${contract.contractNumber}`,
+    );
+
+    await this.sendAppliedConfirmation(saved, updatedContract).catch((error) =>
+      this.logger.error(
+        `Failed to send amendment confirmation: ${error.message}`,
+        error.stack,
+      ),
+    );
+    return saved;
+  }
+
+  private async getAmendment(id: string): Promise<ContractAmendmentDocument> {
+    const amendment = await this.amendmentModel.findById(id);
+    if (!amendment) {
+      throw new NotFoundException(`Contract amendment ${id} not found`);
+    }
+    return amendment;
+  }
+
+  private async getContract(
+    id: Types.ObjectId | string,
+  ): Promise<ContractDocument> {
+    const contract = await this.contractModel.findById(id);
+    if (!contract) {
+      throw new NotFoundException(`Contract with ID ${id} not found`);
+    }
+    return contract;
+  }
+
+  private assertPendingAcceptance(amendment: ContractAmendmentDocument) {
+    if (amendment.status !== 'pending_acceptance') {
+      throw new BadRequestException(
+        `Amendment is ${amendment.status.replace(/_/g, ' ')} and cannot be accepted`,
+      );
+    }
+  }
+
+  private async getClaimedAmount(contractId: Types.ObjectId): Promise<number> {
+    const claims = await this.claimModel
+      .find({ contractId, status: { $nin: ['rejected', 'cancelled'] } })
+      .select('amount')
+      .lean();
+    return claims.reduce((sum, claim) => sum + (claim.amount || 0), 0);
+  }
+
+  private async getDepartment(contract: Contract): Promise<string> {
+    const project = await this.projectModel
+      .findById(contract.projectId)
+      .select('department')
+      .lean();
+    return project?.department;
+  }
+
+  // Approvers may act directly or under a contracts delegation
+  private async resolveApprover(
+    status: string,
+    contract: Contract,
+    userId: string,
+    action: 'approve' | 'reject',
+  ) {
+    const role = CONTRACT_LEVEL_ROLES[status];
+    const resolved = await this.delegationService.resolveActor(
+      userId,
+      'contracts',
+      { roles: [role], department: await this.getDepartment(contract) },
+    );
+    if (!resolved) {
+      throw new ForbiddenException(
+        `You are not authorized to ${action} at this level. Required role: ${role}`,
+      );
+    }
+    return resolved;
+  }
+
+  private async logOnContract(
+    contractId: Types.ObjectId,
+    description: string,
+    changedFields: string[],
+    userId: string,
+  ): Promise<void> {
+    await this.contractModel.updateOne(
+      { _id: contractId },
+      {
+        $push: {
+          amendments: {
+            date: new Date(),
+            description,
+            changedFields,
+            approvedBy: new Types.ObjectId(userId),
+          },
+        },
+      },
+    );
+  }
+
+  private calculateDeadline(hours: number): Date {
+    const deadline = new Date();
+    deadline.setHours(deadline.getHours() + hours);
+    return deadline;
+  }
+
+  private describeChanges(
+    amendment: ContractAmendment,
+    contract: Contract,
+  ): string {
+    const describe = (field: string, value: unknown) => {
+      if (field === 'contractValue') {
+        return `${contract.currency} ${Number(value).toLocaleString()}`;
+      }
+      if (field === 'startDate' || field === 'endDate') {
+        return formatDate(value as Date);
+      }
+      return String(value || '-');
+    };
+    const labels: Record<string, string> = {
+      contractValue: 'Value',
+      startDate: 'Start Date',
+      endDate: 'End Date',
+      description: 'Scope',
+    };
+
+    return amendment.changes
+      .map(
+        (change) =>
+          `- ${labels[change.field]}: ${describe(change.field, change.from)} to ${describe(change.field, change.to)}`,
+      )
+      .join('\n');
+  }
+
+  private async notifyApprovers(
+    amendment: ContractAmendment,
+    contract: Contract,
+  ): Promise<void> {
+    const step = LEVELS[amendment.status as keyof typeof LEVELS];
+    const department = await this.getDepartment(contract);
+    const approvers = await this.delegationService.substituteRecipients(
+      await this.userModel
+        .find({
+          roles: CONTRACT_LEVEL_ROLES[amendment.status],
+          status: 'active',
+        })
+        .lean(),
+      'contracts',
+      department,
+    );
+
+    await Promise.all(
+      approvers.map((approver) =>
+        this.notificationService.sendEmail(
+          approver.email,
+          `Action Required: Contract Amendment Review - ${contract.contractNumber}`,
+          `Dear ${approver.firstName} ${approver.lastName},
+
+Amendment v${amendment.version} to contract ${contract.contractNumber} requires your review at the ${step.label} level.
+
+Reason: ${amendment.reason}
+
+Changes
+${this.describeChanges(amendment, contract)}
+
+Please log in to the SRCC Portal to review and take action.`,
+        ),
+      ),
+    );
+  }
+
+  private async notifyParty(
+    amendment: ContractAmendment,
+    contract: Contract,
+  ): Promise<void> {
+    const party = await this.contractService.getPartyContact(contract);
+
+    if (party.email) {
+      await this.notificationService.sendEmail(
+        party.email,
+        `Action Required: Contract Amendment Acceptance - ${contract.contractNumber}`,
+        `Dear ${party.name},
+
+An amendment to your contract ${contract.contractNumber} has been approved and is ready for your acceptance.
+
+Reason: ${amendment.reason}
+
+Changes
+${this.describeChanges(amendment, contract)}
+
+Next Steps
+1. Review the amended terms
+2. Generate an OTP for the amendment
+3. Enter the OTP to accept the amendment`,
+      );
+    }
+    if (party.phoneNumber) {
+      await this.notificationService.sendSMS(
+        party.phoneNumber,
+        `SRCC: An amendment to your contract (${contract.contractNumber}) requires your acceptance. Please check your email for details.`,
+      );
+    }
+  }
+
+  private async notifyProposer(
+    amendment: ContractAmendment,
+    contract: Contract,
+    outcome: string,
+    detail: string,
+  ): Promise<void> {
+    const proposer = await this.userModel.findById(amendment.proposedBy).lean();
+    if (!proposer?.email) return;
+
+    await this.notificationService.sendEmail(
+      proposer.email,
+      `Contract Amendment ${outcome} - ${contract.contractNumber}`,
+      `Dear ${proposer.firstName} ${proposer.lastName},
+
+Amendment v${amendment.version} to contract ${contract.contractNumber} ${detail}`,
+    );
+  }
+
+  private async sendAppliedConfirmation(
+    amendment: ContractAmendment,
+    contract: ContractDocument,
+  ): Promise<void> {
+    const party = await this.contractService.getPartyContact(contract);
+    const subject = `Contract Amended - ${contract.contractNumber}`;
+    const message = `Dear ${party.name},
+
+Amendment v${amendment.version} to your contract ${contract.contractNumber} has been accepted and applied${amendment.effectiveDate ? `, effective ${formatDate(amendment.effectiveDate)}` : ''}.
+
+Changes
+${this.describeChanges(amendment, contract)}
+
+You can view the full contract in the SRCC Portal.`;
+
+    // Send the amended contract when it was drawn up from a template
+    const document = contract.templateSnapshot?.content
+      ? await this.contractDocumentService.generate(contract).catch((error) => {
+          this.logger.error(
+            `Failed to generate amended contract document for ${contract.contractNumber}: ${error.message}`,
+            error.stack,
+          );
+          return undefined;
+        })
+      : undefined;
+
+    if (party.email) {
+      if (document) {
+        await this.notificationService.sendEmailWithAttachments(
+          party.email,
+          subject,
+          message,
+          [document],
+        );
+      } else {
+        await this.notificationService.sendEmail(party.email, subject, message);
+      }
+    }
+    if (party.phoneNumber) {
+      await this.notificationService.sendSMS(
+        party.phoneNumber,
+        `SRCC: Amendment v${amendment.version} to your contract (${contract.contractNumber}) has been applied.`,
+      );
+    }
+
+    await this.notifyProposer(
+      amendment,
+      contract,
+      'Applied',
+      'was accepted by the contracted party and the new terms now apply.',
+    );
+  }
+}
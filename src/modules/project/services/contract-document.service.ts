@@ -0,0 +1,288 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { format } from 'date-fns';
+import * as PDFDocument from 'pdfkit';
+import { Contract, ContractDocument } from '../schemas/contract.schema';
+import { Project } from '../schemas/project.schema';
+import { User } from '../../auth/schemas/user.schema';
+import { Organization } from '../../auth/schemas/organization.schema';
+import { CloudinaryService } from '../../cloudinary/cloudinary.service';
+
+export const GENERATED_CONTRACT_ATTACHMENT = 'generated_contract';
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+export interface RenderedContract {
+  contentType: string;
+  content: string;
+  variables: Record<string, string>;
+}
+
+export interface ContractPdf {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+  url?: string;
+}
+
+interface Block {
+  kind: 'heading' | 'paragraph' | 'bullet';
+  text: string;
+}
+
+const idOf = (ref: unknown) => (ref as { _id?: unknown })?._id || ref;
+
+const formatDate = (date?: Date) =>
+  date ? format(new Date(date), 'd MMMM yyyy') : undefined;
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const decodeHtml = (value: string) =>
+  value
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+
+/**
+ * Fills a contract's template snapshot with values from the contract, its
+ * project and the contracted user or organization, and prints the result to
+ * PDF. Templates reference values as {{variableName}}.
+ */
+@Injectable()
+export class ContractDocumentService {
+  private readonly logger = new Logger(ContractDocumentService.name);
+
+  constructor(
+    @InjectModel(Contract.name) private contractModel: Model<ContractDocument>,
+    @InjectModel(Project.name) private projectModel: Model<Project>,
+    @InjectModel(User.name) private userModel: Model<User>,
+    @InjectModel(Organization.name)
+    private organizationModel: Model<Organization>,
+    private readonly cloudinaryService: CloudinaryService,
+  ) {}
+
+  // Values a template can use, keyed by variable name
+  async resolveVariables(contract: Contract): Promise<Record<string, string>> {
+    const project = await this.projectModel
+      .findById(idOf(contract.projectId))
+      .lean();
+    const partyId = idOf(contract.contractedUserId);
+    const milestone = contract.milestoneId
+      ? (project?.milestones || []).find(
+          (m: any) => String(m._id) === String(idOf(contract.milestoneId)),
+        )
+      : undefined;
+
+    const values: Record<string, string | undefined> = {
+      contractNumber: contract.contractNumber,
+      contractDescription: contract.description,
+      contractType: contract.type,
+      contractValue: contract.contractValue?.toLocaleString(),
+      currency: contract.currency,
+      startDate: formatDate(contract.startDate),
+      endDate: formatDate(contract.endDate),
+      today: formatDate(new Date()),
+      projectName: project?.name,
+      projectDepartment: project?.department,
+      projectClient: project?.client,
+      milestoneTitle: milestone?.title,
+      milestoneDescription: milestone?.description,
+      milestoneDueDate: formatDate(milestone?.dueDate),
+      milestoneBudget: milestone?.budget?.toLocaleString(),
+    };
+
+    if (contract.isOrganization) {
+      const organization = await this.organizationModel
+        .findById(partyId)
+        .lean();
+      Object.assign(values, {
+        partyName: organization?.companyName,
+        partyEmail: organization?.businessEmail,
+        partyPhone: organization?.businessPhone,
+        partyAddress: organization?.businessAddress,
+        partyPostalAddress: organization?.postalAddress,
+        partyKraPin: organization?.kraPin,
+        partyRegistrationNumber: organization?.registrationNumber,
+        partyContactName: organization?.contactPerson?.name,
+      });
+    } else {
+      const user = await this.userModel.findById(partyId).lean();
+      Object.assign(values, {
+        partyName: user
+          ? [user.firstName, user.middleName, user.lastName]
+              .filter(Boolean)
+              .join(' ')
+          : undefined,
+        partyEmail: user?.email,
+        partyPhone: user?.phoneNumber,
+        partyAddress: user?.physicalAddress,
+        partyPostalAddress: user?.postalAddress,
+        partyKraPin: user?.kraPinNumber,
+        partyNationalId: user?.nationalId,
+      });
+    }
+
+    return Object.fromEntries(
+      Object.entries(values).filter(
+        ([, value]) => value !== undefined && value !== null && value !== '',
+      ),
+    );
+  }
+
+  // Throws when a declared or referenced variable has no value
+  async render(contract: Contract): Promise<RenderedContract> {
+    const template = contract.templateSnapshot;
+    if (!template?.content) {
+      throw new BadRequestException('Contract has no template to render');
+    }
+
+    const variables = await this.resolveVariables(contract);
+    const referenced = [...template.content.matchAll(PLACEHOLDER)].map(
+      (match) => match[1],
+    );
+    const missing = [
+      ...new Set([...(template.variables || []), ...referenced]),
+    ].filter((name) => variables[name] === undefined);
+    if (missing.length) {
+      throw new BadRequestException({
+        message: 'Contract template has variables without a value',
+        errors: missing.map((name) => ({
+          code: 'missing_variable',
+          message: `No value for "${name}" in contract ${contract.contractNumber}`,
+        })),
+      });
+    }
+
+    const isHtml = template.contentType === 'html';
+    return {
+      contentType: template.contentType,
+      content: template.content.replace(PLACEHOLDER, (_, name: string) =>
+        isHtml ? escapeHtml(variables[name]) : variables[name],
+      ),
+      variables,
+    };
+  }
+
+  async toPdf(contract: Contract): Promise<ContractPdf> {
+    const rendered = await this.render(contract);
+    const blocks = this.toBlocks(rendered.contentType, rendered.content);
+
+    const content = await new Promise<Buffer>((resolve, reject) => {
+      const doc = new PDFDocument({
+        size: 'A4',
+        margin: 56,
+        info: { Title: `Contract ${contract.contractNumber}` },
+      });
+      const chunks: Buffer[] = [];
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      for (const block of blocks) {
+        if (block.kind === 'heading') {
+          doc.font('Helvetica-Bold').fontSize(13).text(block.text);
+          doc.moveDown(0.5);
+        } else if (block.kind === 'bullet') {
+          doc
+            .font('Helvetica')
+            .fontSize(11)
+            .text(`• ${block.text}`, { indent: 12 });
+          doc.moveDown(0.25);
+        } else {
+          doc
+            .font('Helvetica')
+            .fontSize(11)
+            .text(block.text, { align: 'justify' });
+          doc.moveDown(0.75);
+        }
+      }
+      doc.end();
+    });
+
+    return {
+      filename: `${contract.contractNumber.replace(/[^\w-]/g, '_')}.pdf`,
+      contentType: 'application/pdf',
+      content,
+    };
+  }
+
+  // Renders the PDF and keeps it on the contract as an attachment
+  async generate(contract: Contract): Promise<ContractPdf> {
+    const pdf = await this.toPdf(contract);
+    const upload = await this.cloudinaryService.uploadFile(
+      {
+        buffer: pdf.content,
+        originalname: pdf.filename,
+        mimetype: pdf.contentType,
+        size: pdf.content.length,
+      } as Express.Multer.File,
+      'contracts',
+    );
+
+    await this.contractModel.updateOne(
+      { _id: new Types.ObjectId(String(contract._id)) },
+      {
+        $push: {
+          attachments: {
+            name: pdf.filename,
+            url: upload.secure_url,
+            type: GENERATED_CONTRACT_ATTACHMENT,
+            uploadedAt: new Date(),
+          },
+        },
+      },
+    );
+    this.logger.log(
+      `Generated contract document for ${contract.contractNumber}`,
+    );
+
+    return { ...pdf, url: upload.secure_url };
+  }
+
+  private toBlocks(contentType: string, content: string): Block[] {
+    if (contentType === 'json') {
+      try {
+        content = JSON.stringify(JSON.parse(content), null, 2);
+      } catch {
+        // Not valid JSON, print as written
+      }
+      return [{ kind: 'paragraph', text: content }];
+    }
+
+    if (contentType === 'html') {
+      const marked = content
+        .replace(/\r?\n/g, ' ')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<h[1-6][^>]*>/gi, '\n\n# ')
+        .replace(/<li[^>]*>/gi, '\n\n- ')
+        .replace(/<\/(p|div|h[1-6]|li|tr|table|ul|ol)>/gi, '\n\n')
+        .replace(/<[^>]+>/g, '');
+      content = decodeHtml(marked);
+    }
+
+    // Plain text and markdown, plus HTML reduced to the same shape
+    return content
+      .split(/\n\s*\n/)
+      .map((chunk) => chunk.replace(/[ \t]+/g, ' ').trim())
+      .filter(Boolean)
+      .flatMap((chunk): Block[] => {
+        const lines = chunk.split('\n').map((line) => line.trim());
+        if (/^#{1,6} /.test(chunk)) {
+          return [{ kind: 'heading', text: chunk.replace(/^#+ /, '') }];
+        }
+        if (lines.every((line) => /^[-*] /.test(line))) {
+          return lines.map((line) => ({ kind: 'bullet', text: line.slice(2) }));
+        }
+        return [{ kind: 'paragraph', text: lines.join('\n') }];
+      });
+  }
+}
@@ -0,0 +1,1049 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Model, Types } from 'mongoose';
+import { Contract, ContractDocument } from '../schemas/contract.schema';
+import {
+  ContractAmendment,
+  ContractAmendmentDocument,
+  OPEN_AMENDMENT_STATUSES,
+} from '../schemas/contract-amendment.schema';
+import { Project } from '../schemas/project.schema';
+import { User } from '../../auth/schemas/user.schema';
+import { Claim, ClaimDocument } from '../../claims/schemas/claim.schema';
+import {
+  RenewContractDto,
+  ResumeContractDto,
+  SuspendContractDto,
+  TerminateContractDto,
+} from '../dto/contract-lifecycle.dto';
+import { ContractService } from './contract.service';
+import { NotificationService } from '../../notifications/services/notification.service';
+import { NumberingService } from '../../numbering/numbering.service';
+import { SystemConfigService } from '../../system-config/services/system-config.service';
+import { ContractLifecyclePolicy } from '../../system-config/policies';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Claims that no longer hold a contract open. Drafts were never submitted,
+// and cannot be once the contract is completed.
+const SETTLED_CLAIM_STATUSES = ['paid', 'rejected', 'cancelled', 'draft'];
+
+const toDay = (date: Date | string) =>
+  new Date(date).toISOString().split('T')[0];
+
+// The suspension in effect or scheduled; there is at most one
+const openSuspension = (contract: Contract) =>
+  contract.suspensions?.find((suspension) => !suspension.resumedAt);
+
+const OPEN_SUSPENSION_FILTER = [{ 'open.resumedAt': { $exists: false } }];
+
+export interface ContractLifecycleRunSummary {
+  reminded: number;
+  completed: number;
+  terminated: number;
+  suspended: number;
+  resumed: number;
+}
+
+export interface ContractSuspensionPeriod {
+  reason: string;
+  startDate: Date;
+  plannedEndDate?: Date;
+  resumedAt?: Date;
+  resumeReason?: string;
+  state: 'scheduled' | 'in_effect' | 'ended';
+  days: number;
+}
+
+export interface ContractTimeline {
+  contractId: string;
+  contractNumber: string;
+  status: string;
+  events: {
+    date: Date;
+    description: string;
+    changedFields: string[];
+    by?: unknown;
+  }[];
+  suspensions: ContractSuspensionPeriod[];
+  suspendedDays: number;
+}
+
+/**
+ * Moves contracts through the end of their life: expiry warnings before the
+ * end date, completion once the work is paid out, renewal into a new draft
+ * and termination before the end date.
+ */
+@Injectable()
+export class ContractLifecycleService {
+  private readonly logger = new Logger(ContractLifecycleService.name);
+  private running = false;
+
+  constructor(
+    @InjectModel(Contract.name) private contractModel: Model<ContractDocument>,
+    @InjectModel(ContractAmendment.name)
+    private amendmentModel: Model<ContractAmendmentDocument>,
+    @InjectModel(Project.name) private projectModel: Model<Project>,
+    @InjectModel(User.name) private userModel: Model<User>,
+    @InjectModel(Claim.name) private claimModel: Model<ClaimDocument>,
+    private readonly contractService: ContractService,
+    private readonly notificationService: NotificationService,
+    private readonly numberingService: NumberingService,
+    private readonly systemConfigService: SystemConfigService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_DAY_AT_7AM)
+  async handleContractLifecycle(): Promise<void> {
+    await this.run();
+  }
+
+  /**
+   * Applies terminations, suspensions and resumptions whose date has come,
+   * warns about contracts nearing their end date and completes those past it
+   * with every claim settled.
+   */
+  async run(): Promise<ContractLifecycleRunSummary> {
+    const summary = {
+      reminded: 0,
+      completed: 0,
+      terminated: 0,
+      suspended: 0,
+      resumed: 0,
+    };
+    if (this.running) {
+      this.logger.warn('Contract lifecycle run already in progress, skipping');
+      return summary;
+    }
+
+    this.running = true;
+    try {
+      const policy =
+        await this.systemConfigService.getContractLifecyclePolicy();
+      const today = toDay(new Date());
+
+      const terminating = await this.contractModel.find({
+        status: { $in: ['active', 'suspended'] },
+        'termination.effectiveDate': { $lte: new Date() },
+        'termination.terminatedAt': { $exists: false },
+      });
+      for (const contract of terminating) {
+        try {
+          if (await this.applyTermination(contract)) summary.terminated++;
+        } catch (error) {
+          this.logger.error(
+            `Termination failed for contract ${contract.contractNumber}: ${error.message}`,
+          );
+        }
+      }
+
+      const suspending = await this.contractModel.find({
+        status: 'active',
+        suspensions: {
+          $elemMatch: {
+            resumedAt: { $exists: false },
+            startDate: { $lte: new Date() },
+          },
+        },
+      });
+      for (const contract of suspending) {
+        try {
+          if (await this.applySuspension(contract)) summary.suspended++;
+        } catch (error) {
+          this.logger.error(
+            `Suspension failed for contract ${contract.contractNumber}: ${error.message}`,
+          );
+        }
+      }
+
+      const resuming = await this.contractModel.find({
+        status: 'suspended',
+        suspensions: {
+          $elemMatch: {
+            resumedAt: { $exists: false },
+            endDate: { $lte: new Date() },
+          },
+        },
+      });
+      for (const contract of resuming) {
+        try {
+          if (
+            await this.applyResumption(
+              contract,
+              'Planned resumption date reached',
+            )
+          ) {
+            summary.resumed++;
+          }
+        } catch (error) {
+          this.logger.error(
+            `Resumption failed for contract ${contract.contractNumber}: ${error.message}`,
+          );
+        }
+      }
+
+      const horizon = new Date(
+        Date.parse(today) + (policy.expiryReminderDays[0] + 1) * DAY_MS,
+      );
+      // Suspended contracts run out on their end date all the same
+      const expiring = await this.contractModel.find({
+        status: { $in: ['active', 'suspended'] },
+        endDate: { $gte: new Date(today), $lt: horizon },
+        termination: { $exists: false },
+        renewedBy: { $exists: false },
+      });
+      for (const contract of expiring) {
+        try {
+          if (await this.remind(contract, today, policy)) summary.reminded++;
+        } catch (error) {
+          this.logger.error(
+            `Expiry reminder failed for contract ${contract.contractNumber}: ${error.message}`,
+          );
+        }
+      }
+
+      if (policy.autoComplete) {
+        const ended = await this.contractModel.find({
+          status: { $in: ['active', 'suspended'] },
+          endDate: { $lt: new Date(today) },
+          termination: { $exists: false },
+        });
+        for (const contract of ended) {
+          try {
+            if (await this.complete(contract)) summary.completed++;
+          } catch (error) {
+            this.logger.error(
+              `Completion failed for contract ${contract.contractNumber}: ${error.message}`,
+            );
+          }
+        }
+      }
+
+      if (Object.values(summary).some(Boolean)) {
+        this.logger.log(
+          `Contracts reminded ${summary.reminded}, completed ${summary.completed}, terminated ${summary.terminated}, suspended ${summary.suspended}, resumed ${summary.resumed}`,
+        );
+      }
+      return summary;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Clones the contract into a new draft that goes through the usual approvals
+  async renew(
+    id: string,
+    userId: string,
+    dto: RenewContractDto,
+  ): Promise<ContractDocument> {
+    const contract = await this.getContract(id);
+    if (!['active', 'completed'].includes(contract.status)) {
+      throw new BadRequestException(
+        'Only active or completed contracts can be renewed',
+      );
+    }
+    const project = await this.assertCanManage(contract, userId);
+
+    const existing = await this.contractModel
+      .findOne({ renewalOf: contract._id, status: { $ne: 'rejected' } })
+      .select('contractNumber')
+      .lean();
+    if (existing) {
+      throw new ConflictException(
+        `Contract is already being renewed as ${existing.contractNumber}`,
+      );
+    }
+
+    const startDate = dto.startDate
+      ? new Date(dto.startDate)
+      : new Date(contract.endDate.getTime() + DAY_MS);
+    const endDate = dto.endDate
+      ? new Date(dto.endDate)
+      : new Date(
+          startDate.getTime() +
+            (contract.endDate.getTime() - contract.startDate.getTime()),
+        );
+    if (startDate > endDate) {
+      throw new BadRequestException('Start date cannot be after end date');
+    }
+
+    const contractNumber = await this.numberingService.next('contract', {
+      department: project.department,
+    });
+    const renewal = await this.contractModel.create({
+      contractNumber,
+      description: dto.description || contract.description,
+      type: contract.type,
+      contractValue: dto.contractValue ?? contract.contractValue,
+      currency: contract.currency,
+      status: 'draft',
+      startDate,
+      endDate,
+      projectId: contract.projectId,
+      milestoneId: contract.milestoneId,
+      contractedUserId: contract.contractedUserId,
+      isOrganization: contract.isOrganization,
+      templateId: contract.templateId,
+      templateSnapshot: contract.templateSnapshot,
+      renewalOf: contract._id,
+      createdBy: new Types.ObjectId(userId),
+      updatedBy: new Types.ObjectId(userId),
+      amendments: [
+        {
+          date: new Date(),
+          description: `Renewal of contract ${contract.contractNumber}`,
+          changedFields: ['status'],
+          approvedBy: new Types.ObjectId(userId),
+        },
+      ],
+    });
+
+    await this.contractModel.updateOne(
+      { _id: contract._id },
+      {
+        renewedBy: renewal._id,
+        $push: {
+          amendments: {
+            date: new Date(),
+            description: `Renewal started as contract ${contractNumber}`,
+            changedFields: ['renewedBy'],
+            approvedBy: new Types.ObjectId(userId),
+          },
+        },
+      },
+    );
+    await this.projectModel.findByIdAndUpdate(contract.projectId, {
+      $push: { teamMemberContracts: renewal._id },
+    });
+
+    this.logger.log(
+      `Contract ${contract.contractNumber} renewed as draft ${contractNumber}`,
+    );
+    return renewal;
+  }
+
+  /**
+   * Records the termination and ends the contract on the effective date,
+   * straight away when that date has already come.
+   */
+  async terminate(
+    id: string,
+    userId: string,
+    dto: TerminateContractDto,
+  ): Promise<ContractDocument> {
+    const contract = await this.getContract(id);
+    if (!['active', 'suspended'].includes(contract.status)) {
+      throw new BadRequestException(
+        `Contract is ${contract.status.replace(/_/g, ' ')} and cannot be terminated`,
+      );
+    }
+    if (contract.termination) {
+      throw new ConflictException(
+        `Contract termination is already scheduled for ${toDay(contract.termination.effectiveDate)}`,
+      );
+    }
+    await this.assertCanManage(contract, userId);
+
+    const effectiveDate = new Date(dto.effectiveDate);
+    if (effectiveDate < contract.startDate) {
+      throw new BadRequestException(
+        'The effective date cannot be before the contract start date',
+      );
+    }
+
+    const claimed = await this.getClaimedAmount(contract._id as Types.ObjectId);
+    const remaining = Math.max(contract.contractValue - claimed, 0);
+    if (dto.finalSettlementAmount > remaining) {
+      throw new BadRequestException(
+        `The final settlement cannot exceed the ${contract.currency} ${remaining.toLocaleString()} left on the contract`,
+      );
+    }
+
+    const updated = await this.contractModel.findOneAndUpdate(
+      {
+        _id: contract._id,
+        status: contract.status,
+        termination: { $exists: false },
+      },
+      {
+        termination: {
+          terminatedBy: new Types.ObjectId(userId),
+          requestedAt: new Date(),
+          effectiveDate,
+          reason: dto.reason,
+          finalSettlementAmount: dto.finalSettlementAmount,
+        },
+        updatedBy: new Types.ObjectId(userId),
+        $push: {
+          amendments: {
+            date: new Date(),
+            description: `Termination effective ${toDay(effectiveDate)}: ${dto.reason}`,
+            changedFields: ['termination'],
+            approvedBy: new Types.ObjectId(userId),
+          },
+        },
+      },
+      { new: true },
+    );
+    if (!updated) {
+      throw new ConflictException('Contract changed while terminating, retry');
+    }
+
+    if (effectiveDate <= new Date()) {
+      await this.applyTermination(updated);
+      return this.getContract(id);
+    }
+
+    await this.notifyTermination(updated, false).catch((error) =>
+      this.logger.error(
+        `Failed to send termination notice: ${error.message}`,
+        error.stack,
+      ),
+    );
+    return updated;
+  }
+
+  /**
+   * Suspends an active contract from the start date, straight away when that
+   * date has already come. Claims cannot be raised or submitted meanwhile.
+   */
+  async suspend(
+    id: string,
+    userId: string,
+    dto: SuspendContractDto,
+  ): Promise<ContractDocument> {
+    const contract = await this.getContract(id);
+    if (contract.status !== 'active') {
+      throw new BadRequestException(
+        `Contract is ${contract.status.replace(/_/g, ' ')} and cannot be suspended`,
+      );
+    }
+    const open = openSuspension(contract);
+    if (open) {
+      throw new ConflictException(
+        `A suspension from ${toDay(open.startDate)} is already scheduled`,
+      );
+    }
+    await this.assertCanManage(contract, userId);
+
+    const startDate = dto.startDate ? new Date(dto.startDate) : new Date();
+    const endDate = dto.endDate ? new Date(dto.endDate) : undefined;
+    if (endDate && endDate <= startDate) {
+      throw new BadRequestException(
+        'The resume date must be after the suspension start date',
+      );
+    }
+
+    const now = new Date();
+    const updated = await this.contractModel.findOneAndUpdate(
+      {
+        _id: contract._id,
+        status: 'active',
+        suspensions: {
+          $not: { $elemMatch: { resumedAt: { $exists: false } } },
+        },
+      },
+      {
+        updatedBy: new Types.ObjectId(userId),
+        $push: {
+          suspensions: {
+            reason: dto.reason,
+            startDate,
+            endDate,
+            suspendedBy: new Types.ObjectId(userId),
+            requestedAt: now,
+          },
+          amendments: {
+            date: now,
+            description: `Suspension from ${toDay(startDate)}${endDate ? ` to ${toDay(endDate)}` : ''}: ${dto.reason}`,
+            changedFields: ['suspensions'],
+            approvedBy: new Types.ObjectId(userId),
+          },
+        },
+      },
+      { new: true },
+    );
+    if (!updated) {
+      throw new ConflictException('Contract changed while suspending, retry');
+    }
+
+    if (startDate <= now) {
+      await this.applySuspension(updated);
+      return this.getContract(id);
+    }
+
+    await this.notifySuspension(updated, 'scheduled').catch((error) =>
+      this.logger.error(
+        `Failed to send suspension notice: ${error.message}`,
+        error.stack,
+      ),
+    );
+    return updated;
+  }
+
+  /**
+   * Ends the open suspension on the effective date. Resuming before a
+   * scheduled suspension starts cancels it.
+   */
+  async resume(
+    id: string,
+    userId: string,
+    dto: ResumeContractDto,
+  ): Promise<ContractDocument> {
+    const contract = await this.getContract(id);
+    const open = openSuspension(contract);
+    if (!open || !['active', 'suspended'].includes(contract.status)) {
+      throw new BadRequestException(
+        'Contract has no suspension to resume from',
+      );
+    }
+    await this.assertCanManage(contract, userId);
+
+    const now = new Date();
+    if (contract.status === 'active') {
+      await this.contractModel.updateOne(
+        { _id: contract._id, status: 'active' },
+        {
+          updatedBy: new Types.ObjectId(userId),
+          $pull: { suspensions: { resumedAt: { $exists: false } } },
+          $push: {
+            amendments: {
+              date: now,
+              description: `Suspension from ${toDay(open.startDate)} cancelled: ${dto.reason}`,
+              changedFields: ['suspensions'],
+              approvedBy: new Types.ObjectId(userId),
+            },
+          },
+        },
+      );
+      return this.getContract(id);
+    }
+
+    const effectiveDate = dto.effectiveDate ? new Date(dto.effectiveDate) : now;
+    if (effectiveDate < open.startDate) {
+      throw new BadRequestException(
+        'The contract cannot resume before its suspension started',
+      );
+    }
+
+    if (effectiveDate > now) {
+      await this.contractModel.updateOne(
+        { _id: contract._id, status: 'suspended' },
+        {
+          'suspensions.$[open].endDate': effectiveDate,
+          updatedBy: new Types.ObjectId(userId),
+          $push: {
+            amendments: {
+              date: now,
+              description: `Resumption scheduled for ${toDay(effectiveDate)}: ${dto.reason}`,
+              changedFields: ['suspensions'],
+              approvedBy: new Types.ObjectId(userId),
+            },
+          },
+        },
+        { arrayFilters: OPEN_SUSPENSION_FILTER },
+      );
+      return this.getContract(id);
+    }
+
+    await this.applyResumption(contract, dto.reason, userId);
+    return this.getContract(id);
+  }
+
+  // Suspension periods alongside the contract's history entries
+  async getTimeline(id: string): Promise<ContractTimeline> {
+    const contract = await this.contractModel
+      .findById(id)
+      .populate('amendments.approvedBy', 'firstName lastName email')
+      .lean();
+    if (!contract) {
+      throw new NotFoundException(`Contract with ID ${id} not found`);
+    }
+
+    const now = new Date();
+    const suspensions = (contract.suspensions || []).map((suspension) => {
+      const started = new Date(suspension.startDate) <= now;
+      const until = suspension.resumedAt || now;
+      return {
+        reason: suspension.reason,
+        startDate: suspension.startDate,
+        plannedEndDate: suspension.endDate,
+        resumedAt: suspension.resumedAt,
+        resumeReason: suspension.resumeReason,
+        state: suspension.resumedAt
+          ? ('ended' as const)
+          : started
+            ? ('in_effect' as const)
+            : ('scheduled' as const),
+        days: started
+          ? Math.ceil(
+              (new Date(until).getTime() -
+                new Date(suspension.startDate).getTime()) /
+                DAY_MS,
+            )
+          : 0,
+      };
+    });
+
+    return {
+      contractId: String(contract._id),
+      contractNumber: contract.contractNumber,
+      status: contract.status,
+      events: (contract.amendments || [])
+        .map((entry) => ({
+          date: entry.date,
+          description: entry.description,
+          changedFields: entry.changedFields || [],
+          by: entry.approvedBy,
+        }))
+        .sort(
+          (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime(),
+        ),
+      suspensions,
+      suspendedDays: suspensions.reduce((sum, period) => sum + period.days, 0),
+    };
+  }
+
+  private async applySuspension(contract: ContractDocument): Promise<boolean> {
+    const open = openSuspension(contract);
+    if (!open) return false;
+
+    const result = await this.contractModel.updateOne(
+      { _id: contract._id, status: 'active' },
+      {
+        status: 'suspended',
+        $push: {
+          amendments: {
+            date: new Date(),
+            description: 'Contract suspended',
+            changedFields: ['status'],
+            approvedBy: open.suspendedBy,
+          },
+        },
+      },
+    );
+    if (!result.modifiedCount) return false;
+
+    this.logger.log(`Contract ${contract.contractNumber} suspended`);
+    await this.notifySuspension(contract, 'suspended').catch((error) =>
+      this.logger.error(
+        `Failed to send suspension notice: ${error.message}`,
+        error.stack,
+      ),
+    );
+    return true;
+  }
+
+  private async applyResumption(
+    contract: ContractDocument,
+    reason: string,
+    userId?: string,
+  ): Promise<boolean> {
+    const open = openSuspension(contract);
+    if (!open) return false;
+
+    const now = new Date();
+    const resumedBy = userId ? new Types.ObjectId(userId) : undefined;
+    const result = await this.contractModel.updateOne(
+      { _id: contract._id, status: 'suspended' },
+      {
+        status: 'active',
+        'suspensions.$[open].resumedAt': now,
+        'suspensions.$[open].resumeReason': reason,
+        ...(resumedBy && {
+          'suspensions.$[open].resumedBy': resumedBy,
+          updatedBy: resumedBy,
+        }),
+        $push: {
+          amendments: {
+            date: now,
+            description: `Contract resumed: ${reason}`,
+            changedFields: ['status'],
+            approvedBy: resumedBy || open.suspendedBy,
+          },
+        },
+      },
+      { arrayFilters: OPEN_SUSPENSION_FILTER },
+    );
+    if (!result.modifiedCount) return false;
+
+    this.logger.log(`Contract ${contract.contractNumber} resumed`);
+    await this.notifySuspension(contract, 'resumed').catch((error) =>
+      this.logger.error(
+        `Failed to send resumption notice: ${error.message}`,
+        error.stack,
+      ),
+    );
+    return true;
+  }
+
+  private async applyTermination(contract: ContractDocument): Promise<boolean> {
+    const now = new Date();
+    const result = await this.contractModel.updateOne(
+      {
+        _id: contract._id,
+        status: { $in: ['active', 'suspended'] },
+        'termination.terminatedAt': { $exists: false },
+      },
+      {
+        status: 'terminated',
+        'termination.terminatedAt': now,
+        // Closes any suspension so its period ends with the contract
+        'suspensions.$[open].resumedAt': now,
+        'suspensions.$[open].resumeReason': 'Contract terminated',
+        $push: {
+          amendments: {
+            date: now,
+            description: 'Contract terminated',
+            changedFields: ['status'],
+            approvedBy: contract.termination.terminatedBy,
+          },
+        },
+      },
+      { arrayFilters: OPEN_SUSPENSION_FILTER },
+    );
+    if (!result.modifiedCount) return false;
+
+    // Amendments can no longer apply to a terminated contract
+    await this.amendmentModel.updateMany(
+      { contractId: contract._id, status: { $in: OPEN_AMENDMENT_STATUSES } },
+      {
+        status: 'cancelled',
+        cancelledAt: now,
+        $unset: { currentLevelDeadline: 1 },
+      },
+    );
+    this.logger.log(`Contract ${contract.contractNumber} terminated`);
+
+    await this.notifyTermination(contract, true).catch((error) =>
+      this.logger.error(
+        `Failed to send termination notice: ${error.message}`,
+        error.stack,
+      ),
+    );
+    return true;
+  }
+
+  // Sends at most one warning per run, for the nearest reminder day reached
+  private async remind(
+    contract: ContractDocument,
+    today: string,
+    policy: ContractLifecyclePolicy,
+  ): Promise<boolean> {
+    const daysLeft = Math.round(
+      (Date.parse(toDay(contract.endDate)) - Date.parse(today)) / DAY_MS,
+    );
+    const sent = new Set((contract.expiryReminders || []).map((r) => r.day));
+    const due = policy.expiryReminderDays.filter(
+      (day) => day >= daysLeft && !sent.has(day),
+    );
+    if (!due.length) return false;
+
+    const now = new Date();
+    const result = await this.contractModel.updateOne(
+      { _id: contract._id, 'expiryReminders.day': { $nin: due } },
+      {
+        $push: {
+          expiryReminders: {
+            $each: due.map((day) => ({ day, sentAt: now })),
+          },
+        },
+      },
+    );
+    if (!result.modifiedCount) return false;
+
+    await this.notifyExpiry(contract, daysLeft);
+    return true;
+  }
+
+  private async complete(contract: ContractDocument): Promise<boolean> {
+    const [unsettled, openAmendment] = await Promise.all([
+      this.claimModel.exists({
+        contractId: contract._id,
+        status: { $nin: SETTLED_CLAIM_STATUSES },
+      }),
+      this.amendmentModel.exists({
+        contractId: contract._id,
+        status: { $in: OPEN_AMENDMENT_STATUSES },
+      }),
+    ]);
+    if (unsettled || openAmendment) return false;
+
+    const now = new Date();
+    const result = await this.contractModel.updateOne(
+      { _id: contract._id, status: { $in: ['active', 'suspended'] } },
+      {
+        status: 'completed',
+        completedAt: now,
+        // A suspension still open ends with the contract
+        'suspensions.$[open].resumedAt': now,
+        'suspensions.$[open].resumeReason': 'Contract completed',
+        $push: {
+          amendments: {
+            date: now,
+            description:
+              'Contract completed after its end date with all claims settled',
+            changedFields: ['status'],
+          },
+        },
+      },
+      { arrayFilters: OPEN_SUSPENSION_FILTER },
+    );
+    if (!result.modifiedCount) return false;
+
+    this.logger.log(`Contract ${contract.contractNumber} completed`);
+    await this.notifyCompletion(contract).catch((error) =>
+      this.logger.error(
+        `Failed to send completion notice: ${error.message}`,
+        error.stack,
+      ),
+    );
+    return true;
+  }
+
+  private async getContract(id: string): Promise<ContractDocument> {
+    const contract = await this.contractModel.findById(id);
+    if (!contract) {
+      throw new NotFoundException(`Contract with ID ${id} not found`);
+    }
+    return contract;
+  }
+
+  // Renewal and termination are for the project's managers and admins
+  private async assertCanManage(
+    contract: Contract,
+    userId: string,
+  ): Promise<{ department: string }> {
+    const [project, user] = await Promise.all([
+      this.projectModel.findById(contract.projectId).lean(),
+      this.userModel.findById(userId).select('roles').lean(),
+    ]);
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+
+    const isAdmin = user?.roles?.some((role) =>
+      ['admin', 'super_admin'].includes(role),
+    );
+    const isProjectManager = project.projectManagerId?.toString() === userId;
+    const isAssistantPM = project.assistantProjectManagers?.some(
+      (apm) => apm.userId?.toString() === userId,
+    );
+    if (!isAdmin && !isProjectManager && !isAssistantPM) {
+      throw new ForbiddenException(
+        'Only the project manager or an administrator can do this',
+      );
+    }
+    return project;
+  }
+
+  private async getClaimedAmount(contractId: Types.ObjectId): Promise<number> {
+    const claims = await this.claimModel
+      .find({ contractId, status: { $nin: ['rejected', 'cancelled'] } })
+      .select('amount')
+      .lean();
+    return claims.reduce((sum, claim) => sum + (claim.amount || 0), 0);
+  }
+
+  private async getProjectManager(contract: Contract) {
+    const project = await this.projectModel
+      .findById(contract.projectId)
+      .select('name projectManagerId')
+      .lean();
+    const manager = project?.projectManagerId
+      ? await this.userModel.findById(project.projectManagerId).lean()
+      : null;
+    return { projectName: project?.name, manager };
+  }
+
+  private async notifySuspension(
+    contract: Contract,
+    event: 'scheduled' | 'suspended' | 'resumed',
+  ): Promise<void> {
+    const open = openSuspension(contract);
+    const party = await this.contractService.getPartyContact(contract);
+    const project = await this.projectModel
+      .findById(contract.projectId)
+      .select('coachManagers')
+      .lean();
+    const coachManagers = project?.coachManagers?.length
+      ? await this.userModel
+          .find({ _id: { $in: project.coachManagers.map((cm) => cm.userId) } })
+          .lean()
+      : [];
+
+    const summary =
+      event === 'scheduled'
+        ? `will be suspended from ${toDay(open.startDate)}`
+        : event === 'suspended'
+          ? 'has been suspended'
+          : 'has been resumed';
+    const subject =
+      event === 'resumed'
+        ? `Contract Resumed - ${contract.contractNumber}`
+        : `Contract Suspension Notice - ${contract.contractNumber}`;
+    const details =
+      event === 'resumed'
+        ? 'Work and claims under the contract can continue.'
+        : `Reason: ${open.reason}${open.endDate ? `\nPlanned Resumption: ${toDay(open.endDate)}` : ''}
+
+No claims can be created or submitted under the contract while it is suspended.`;
+
+    if (party.email) {
+      await this.notificationService.sendEmail(
+        party.email,
+        subject,
+        `Dear ${party.name},
+
+Your contract ${contract.contractNumber} ${summary}.
+
+${details}`,
+      );
+    }
+    if (party.phoneNumber) {
+      await this.notificationService.sendSMS(
+        party.phoneNumber,
+        `SRCC: Your contract ${contract.contractNumber} ${summary}. Please check your email for details.`,
+      );
+    }
+    for (const manager of coachManagers) {
+      if (!manager.email) continue;
+      await this.notificationService.sendEmail(
+        manager.email,
+        subject,
+        `Dear ${manager.firstName} ${manager.lastName},
+
+Contract ${contract.contractNumber} with ${party.name} ${summary}.
+
+${details}`,
+      );
+    }
+  }
+
+  private async notifyExpiry(
+    contract: Contract,
+    daysLeft: number,
+  ): Promise<void> {
+    const party = await this.contractService.getPartyContact(contract);
+    const { projectName, manager } = await this.getProjectManager(contract);
+    const endDate = toDay(contract.endDate);
+
+    if (party.email) {
+      await this.notificationService.sendEmail(
+        party.email,
+        `Contract Ending Soon - ${contract.contractNumber}`,
+        `Dear ${party.name},
+
+Your contract ${contract.contractNumber} ends on ${endDate}, ${daysLeft} day(s) from today.
+
+Please submit any outstanding claims for work done under this contract before it ends.
+
+Best regards,
+SRCC Team`,
+      );
+    }
+    if (party.phoneNumber) {
+      await this.notificationService.sendSMS(
+        party.phoneNumber,
+        `SRCC: Your contract ${contract.contractNumber} ends on ${endDate} (${daysLeft} day(s)). Please submit any outstanding claims.`,
+      );
+    }
+
+    if (manager?.email) {
+      await this.notificationService.sendEmail(
+        manager.email,
+        `Contract Ending Soon - ${contract.contractNumber}`,
+        `Dear ${manager.firstName} ${manager.lastName},
+
+Contract ${contract.contractNumber} with ${party.name}${projectName ? ` on ${projectName}` : ''} ends on ${endDate}, ${daysLeft} day(s) from today.
+
+If the engagement should continue, start a renewal from the contract in the SRCC Portal so it can be approved before the end date.`,
+      );
+    }
+  }
+
+  private async notifyCompletion(contract: Contract): Promise<void> {
+    const party = await this.contractService.getPartyContact(contract);
+    const { manager } = await this.getProjectManager(contract);
+    const message = `contract ${contract.contractNumber} ended on ${toDay(contract.endDate)} and has been marked as completed. All claims under it are settled.`;
+
+    if (party.email) {
+      await this.notificationService.sendEmail(
+        party.email,
+        `Contract Completed - ${contract.contractNumber}`,
+        `Dear ${party.name},
+
+Your ${message}
+
+Thank you for your work with SRCC.`,
+      );
+    }
+    if (manager?.email) {
+      await this.notificationService.sendEmail(
+        manager.email,
+        `Contract Completed - ${contract.contractNumber}`,
+        `Dear ${manager.firstName} ${manager.lastName},
+
+The ${message}`,
+      );
+    }
+  }
+
+  private async notifyTermination(
+    contract: Contract,
+    applied: boolean,
+  ): Promise<void> {
+    const party = await this.contractService.getPartyContact(contract);
+    const { manager } = await this.getProjectManager(contract);
+    const { termination } = contract;
+    const details = `- Effective Date: ${toDay(termination.effectiveDate)}
+- Reason: ${termination.reason}
+- Final Settlement: ${contract.currency} ${termination.finalSettlementAmount.toLocaleString()}`;
+    const subject = applied
+      ? `Contract Terminated - ${contract.contractNumber}`
+      : `Contract Termination Notice - ${contract.contractNumber}`;
+    const summary = applied
+      ? `has been terminated`
+      : `will be terminated on ${toDay(termination.effectiveDate)}`;
+
+    if (party.email) {
+      await this.notificationService.sendEmail(
+        party.email,
+        subject,
+        `Dear ${party.name},
+
+Your contract ${contract.contractNumber} ${summary}.
+
+Termination Details
+${details}
+
+Please contact the project manager if you have any questions.`,
+      );
+    }
+    if (party.phoneNumber) {
+      await this.notificationService.sendSMS(
+        party.phoneNumber,
+        `SRCC: Your contract ${contract.contractNumber} ${summary}. Please check your email for details.`,
+      );
+    }
+    if (manager?.email) {
+      await this.notificationService.sendEmail(
+        manager.email,
+        subject,
+        `Dear ${manager.firstName} ${manager.lastName},
+
+Contract ${contract.contractNumber} with ${party.name} ${summary}.
+
+Termination Details
+${details}`,
+      );
+    }
+  }
+}
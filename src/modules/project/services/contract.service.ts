@@ -12,9 +12,7 @@ import { Contract, ContractDocument } from '../schemas/contract.schema';
 import { NotificationService } from '../../notifications/services/notification.service';
 import { CreateContractDto } from '../dto/create-contract.dto';
 import { UpdateContractDto } from '../dto/update-contract.dto';
-import * as crypto from 'crypto';
 import { User } from 'src/modules/auth/schemas/user.schema';
-import { ConfigService } from '@nestjs/config';
 import { Project } from '../schemas/project.schema';
 import {
   ContractApprovalDto,
@@ -25,21 +23,20 @@ import {
   ContractTemplate,
   ContractTemplateDocument,
 } from '../schemas/contract-template.schema';
-
-interface OtpData {
-  otp: string;
-  expires: Date;
-  attempts: number;
-  lastAttempt?: Date;
-}
+import {
+  DelegationService,
+  ResolvedActor,
+  formatActingAs,
+} from '../../delegation/delegation.service';
+import { NumberingService } from '../../numbering/numbering.service';
+import { ContractDocumentService } from './contract-document.service';
+import { diffTerms, pickTerms } from '../contract-terms';
+import { OtpRequestContext, OtpService } from '../../otp/otp.service';
+import { OtpPurpose } from '../../otp/schemas/otp-challenge.schema';
 
 @Injectable()
 export class ContractService {
   private readonly logger = new Logger(ContractService.name);
-  private otpStore: Map<string, OtpData> = new Map();
-  private readonly MAX_OTP_ATTEMPTS = 5;
-  private readonly OTP_COOLDOWN_MINUTES = 2;
-  private readonly OTP_EXPIRY_MINUTES: number;
 
   private readonly roleMap = {
     finance: 'finance_approver',
@@ -70,61 +67,11 @@ export class ContractService {
     private templateModel: Model<ContractTemplateDocument>,
     @InjectModel('Organization') private organizationModel: Model<any>,
     private readonly notificationService: NotificationService,
-    private readonly configService: ConfigService,
-  ) {
-    this.OTP_EXPIRY_MINUTES =
-      this.configService.get<number>('OTP_EXPIRY_MINUTES') || 30;
-
-    // Set up periodic cleanup of expired OTPs
-    this.setupOtpCleanup();
-  }
-
-  private setupOtpCleanup(): void {
-    setInterval(
-      () => {
-        this.logger.log('Running scheduled OTP cleanup');
-        this.cleanupExpiredOtps();
-      },
-      60 * 60 * 1000,
-    );
-  }
-
-  //  * Clean up expired OTPs from memory
-  private cleanupExpiredOtps(): void {
-    const now = new Date();
-    let expiredCount = 0;
-
-    this.otpStore.forEach((data, key) => {
-      if (data.expires < now) {
-        this.otpStore.delete(key);
-        expiredCount++;
-      }
-    });
-
-    if (expiredCount > 0) {
-      this.logger.log(`Cleaned up ${expiredCount} expired OTPs`);
-    }
-  }
-
-  //  Generate a unique contract number with format SRCC-YYYY-XXXXX
-  async generateContractNumber(): Promise<string> {
-    const year = new Date().getFullYear();
-    const latestContract = await this.contractModel
-      .findOne({}, { contractNumber: 1 })
-      .sort({ createdAt: -1 })
-      .exec();
-
-    let sequenceNumber = 1;
-
-    if (latestContract) {
-      const parts = latestContract.contractNumber.split('-');
-      if (parts.length === 3 && parts[1] === year.toString()) {
-        sequenceNumber = parseInt(parts[2], 10) + 1;
-      }
-    }
-
-    return `SRCC-${year}-${sequenceNumber.toString().padStart(5, '0')}`;
-  }
+    private readonly delegationService: DelegationService,
+    private readonly numberingService: NumberingService,
+    private readonly contractDocumentService: ContractDocumentService,
+    private readonly otpService: OtpService,
+  ) {}
 
   // Create a new contract
   async create(
@@ -155,7 +102,13 @@ export class ContractService {
         }
       }
 
-      const contractNumber = await this.generateContractNumber();
+      const project = await this.projectModel
+        .findById(createContractDto.projectId)
+        .select('department')
+        .lean();
+      const contractNumber = await this.numberingService.next('contract', {
+        department: project?.department,
+      });
 
       // Optionally embed template snapshot if templateId provided
       let templateSnapshot: any = undefined;
@@ -415,6 +368,16 @@ export class ContractService {
       // Get current contract to track changes
       const currentContract = await this.findOne(id);
 
+      // Terms of an active contract only change through an amendment
+      if (
+        currentContract.status === 'active' &&
+        diffTerms(pickTerms(currentContract), updateContractDto).length
+      ) {
+        throw new BadRequestException(
+          'The value, dates or scope of an active contract can only be changed by proposing an amendment',
+        );
+      }
+
       // Prepare amendment record if needed
       const changedFields = [];
       for (const [key, value] of Object.entries(updateContractDto)) {
@@ -552,84 +515,72 @@ export class ContractService {
         );
       }
 
-      let entityEmail: string;
-      let entityPhone: string;
-
-      const rawContractedUserId = (contract.contractedUserId as any)?._id || contract.contractedUserId;
-
-      if (contract.isOrganization) {
-        const organization = await this.organizationModel.findById(
-          rawContractedUserId,
-        );
-        if (!organization) {
-          throw new NotFoundException('Organization not found');
-        }
-        entityEmail =
-          organization.contactPerson?.email || organization.businessEmail;
-        entityPhone =
-          organization.contactPerson?.phoneNumber || organization.businessPhone;
-      } else {
-        const user = await this.userModel.findById(rawContractedUserId);
-        if (!user) {
-          throw new NotFoundException('User not found');
-        }
-        entityEmail = user.email;
-        entityPhone = user.phoneNumber;
-      }
-
-      // Check if there's an existing OTP that's not expired
-      const existingOtpData = this.otpStore.get(contractId);
-      const now = new Date();
+      return await this.issueOtp(
+        'contract_acceptance',
+        contractId,
+        contract,
+        'contract acceptance',
+      );
+    } catch (error) {
+      this.logger.error(`Error generating OTP: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
 
-      if (existingOtpData && existingOtpData.expires > now) {
-        // If OTP was generated recently (within last 2 minutes), prevent regeneration to avoid abuse
-        const cooldownPeriod = new Date(now);
-        cooldownPeriod.setMinutes(
-          cooldownPeriod.getMinutes() - this.OTP_COOLDOWN_MINUTES,
-        );
+  // Name and contact details of the contracted user or organization
+  async getPartyContact(
+    contract: Contract,
+  ): Promise<{ name: string; email: string; phoneNumber: string }> {
+    const rawContractedUserId = (contract.contractedUserId as any)?._id || contract.contractedUserId;
 
-        if (
-          existingOtpData.lastAttempt &&
-          existingOtpData.lastAttempt > cooldownPeriod
-        ) {
-          throw new ConflictException(
-            `Please wait ${this.OTP_COOLDOWN_MINUTES} minutes before requesting a new OTP`,
-          );
-        }
+    if (contract.isOrganization) {
+      const organization = await this.organizationModel.findById(
+        rawContractedUserId,
+      );
+      if (!organization) {
+        throw new NotFoundException('Organization not found');
       }
+      return {
+        name: organization.companyName,
+        email: organization.contactPerson?.email || organization.businessEmail,
+        phoneNumber:
+          organization.contactPerson?.phoneNumber || organization.businessPhone,
+      };
+    }
 
-      // Generate a cryptographically secure 6-digit OTP
-      const otp = crypto.randomInt(100000, 999999).toString();
-
-      // Set expiration time
-      const expiryTime = new Date();
-      expiryTime.setMinutes(expiryTime.getMinutes() + this.OTP_EXPIRY_MINUTES);
-
-      // Store OTP with expiration and attempt tracking
-      this.otpStore.set(contractId, {
-        otp,
-        expires: expiryTime,
-        attempts: 0,
-        lastAttempt: now,
-      });
+    const user = await this.userModel.findById(rawContractedUserId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return {
+      name: `${user.firstName} ${user.lastName}`,
+      email: user.email,
+      phoneNumber: user.phoneNumber,
+    };
+  }
 
-      this.logger.log(
-        `Generated OTP for contract ${contractId}, otp ${otp} expires at ${expiryTime.toISOString()}`,
-      );
+  // Sends the contracted party a one-time code for what they are confirming
+  async issueOtp(
+    purpose: OtpPurpose,
+    subject: string,
+    contract: Contract,
+    description: string,
+  ): Promise<string> {
+    const party = await this.getPartyContact(contract);
+    const { code, expiryMinutes } = await this.otpService.issue(
+      purpose,
+      subject,
+    );
 
-      // Send OTP via SMS and email
-      const message = `Your OTP for contract acceptance is: ${otp}. This code will expire in ${this.OTP_EXPIRY_MINUTES} minutes.`;
-      await this.notificationService.sendRegistrationPin(
-        entityPhone,
-        entityEmail,
-        message,
-      );
+    // Send OTP via SMS and email
+    const message = `Your OTP for ${description} is: ${code}. This code will expire in ${expiryMinutes} minutes.`;
+    await this.notificationService.sendRegistrationPin(
+      party.phoneNumber,
+      party.email,
+      message,
+    );
 
-      return otp;
-    } catch (error) {
-      this.logger.error(`Error generating OTP: ${error.message}`, error.stack);
-      throw error;
-    }
+    return code;
   }
 
   //  * Verify OTP and accept contract
@@ -637,48 +588,9 @@ export class ContractService {
     contractId: string,
     otp: string,
     currentUserId: string,
+    context: OtpRequestContext = {},
   ): Promise<Contract> {
     try {
-      const storedOtpData = this.otpStore.get(contractId);
-      const now = new Date();
-
-      // Check if OTP exists
-      if (!storedOtpData) {
-        throw new NotFoundException(
-          'OTP not found or expired. Please request a new OTP.',
-        );
-      }
-
-      // Check if OTP is expired
-      if (storedOtpData.expires < now) {
-        this.otpStore.delete(contractId);
-        throw new NotFoundException(
-          'OTP has expired. Please request a new OTP.',
-        );
-      }
-
-      // Update attempt count and last attempt time
-      storedOtpData.attempts += 1;
-      storedOtpData.lastAttempt = now;
-      this.otpStore.set(contractId, storedOtpData);
-
-      // Check if max attempts exceeded
-      if (storedOtpData.attempts > this.MAX_OTP_ATTEMPTS) {
-        this.otpStore.delete(contractId);
-        throw new BadRequestException(
-          `Maximum verification attempts exceeded. Please request a new OTP.`,
-        );
-      }
-
-      // Verify OTP
-      if (storedOtpData.otp !== otp) {
-        const remainingAttempts =
-          this.MAX_OTP_ATTEMPTS - storedOtpData.attempts;
-        throw new BadRequestException(
-          `Invalid OTP. You have ${remainingAttempts} attempts remaining.`,
-        );
-      }
-
       // Get contract to verify it's still in a valid state
       const contract = await this.findOne(contractId);
       if (
@@ -686,12 +598,18 @@ export class ContractService {
         contract.status === 'completed' ||
         contract.status === 'terminated'
       ) {
-        this.otpStore.delete(contractId);
         throw new ConflictException(
           `Contract is already in '${contract.status}' status and cannot be accepted`,
         );
       }
 
+      const challenge = await this.otpService.verify(
+        'contract_acceptance',
+        contractId,
+        otp,
+        context,
+      );
+
       // OTP is valid, update contract status to active
       const updatedContract = await this.contractModel
         .findByIdAndUpdate(
@@ -699,6 +617,12 @@ export class ContractService {
           {
             status: 'active',
             updatedBy: new Types.ObjectId(currentUserId),
+            acceptance: {
+              acceptedBy: new Types.ObjectId(currentUserId),
+              acceptedAt: challenge.verifiedAt,
+              ipAddress: context.ipAddress,
+              userAgent: context.userAgent,
+            },
             $push: {
               amendments: {
                 date: new Date(),
@@ -716,8 +640,6 @@ export class ContractService {
         throw new NotFoundException(`Contract with ID ${contractId} not found`);
       }
 
-      // Clean up OTP
-      this.otpStore.delete(contractId);
       this.logger.log(
         `Contract ${contractId} successfully accepted with OTP verification`,
       );
@@ -783,7 +705,27 @@ Contract Details
 
 You can view the full contract and track progress in the SRCC Portal.`;
 
-    await this.notificationService.sendEmail(user.email, subject, message);
+    // Attach the final contract when it was drawn up from a template
+    const document = contract.templateSnapshot?.content
+      ? await this.contractDocumentService.generate(contract).catch((error) => {
+          this.logger.error(
+            `Failed to generate contract document for ${contract.contractNumber}: ${error.message}`,
+            error.stack,
+          );
+          return undefined;
+        })
+      : undefined;
+
+    if (document) {
+      await this.notificationService.sendEmailWithAttachments(
+        user.email,
+        subject,
+        message,
+        [document],
+      );
+    } else {
+      await this.notificationService.sendEmail(user.email, subject, message);
+    }
 
     const smsMessage = `SRCC: Your contract (${contract.contractNumber}) has been successfully accepted and is now active.`;
     await this.notificationService.sendSMS(user.phoneNumber, smsMessage);
@@ -922,9 +864,13 @@ You can view the full contract and track progress in the SRCC Portal.`;
     }
 
     const requiredGlobalRole = this.roleMap[requiredRole];
-    const userRoles = (approver as any).roles || [];
+    const resolved = await this.resolveApprover(
+      contract,
+      userId,
+      requiredGlobalRole,
+    );
 
-    if (!userRoles.includes(requiredGlobalRole)) {
+    if (!resolved) {
       throw new ForbiddenException(
         `You are not authorized to approve at this level. Required role: ${requiredGlobalRole}`,
       );
@@ -941,10 +887,12 @@ You can view the full contract and track progress in the SRCC Portal.`;
           approverId: userId,
           approvedAt: new Date(),
           comments: dto.comments,
+          onBehalfOf: resolved.onBehalfOf?._id,
+          approvedByName: formatActingAs(resolved.actor, resolved.onBehalfOf),
         },
         amendments: {
           date: new Date(),
-          description: `Contract approved by ${this.formatRole(requiredRole)}`,
+          description: `Contract approved by ${this.formatRole(requiredRole)}${this.formatOnBehalfOf(resolved)}`,
           changedFields: ['status'],
           approvedBy: userId,
         },
@@ -952,6 +900,10 @@ You can view the full contract and track progress in the SRCC Portal.`;
     };
 
     if (nextStatus === 'pending_acceptance') {
+      // The contract sent for acceptance must render in full
+      if (contract.templateSnapshot?.content) {
+        await this.contractDocumentService.render(contract);
+      }
       update.finalApproval = {
         approvedBy: userId,
         approvedAt: new Date(),
@@ -994,7 +946,10 @@ You can view the full contract and track progress in the SRCC Portal.`;
 
     // Notify relevant parties based on approval stage
     if (nextLevel) {
-      const nextApprovers = await this.getApprovers(nextLevel, updatedContract);
+      const nextApprovers = await this.delegationService.substituteRecipients(
+        await this.getApprovers(nextLevel, updatedContract),
+        'contracts',
+      );
       await this.notifyApprovers(updatedContract, nextApprovers, nextLevel);
     } else {
       await this.notifyContractActivation(updatedContract);
@@ -1064,6 +1019,27 @@ Details
 Please log in to the SRCC Portal to review and take action.`;
   }
 
+  // Approvers may act directly or under a contracts delegation
+  private async resolveApprover(
+    contract: Contract,
+    userId: string,
+    requiredGlobalRole: string,
+  ): Promise<ResolvedActor | null> {
+    const projectId = (contract.projectId as any)?._id || contract.projectId;
+    const project = await this.projectModel.findById(projectId).lean();
+
+    return this.delegationService.resolveActor(userId, 'contracts', {
+      roles: [requiredGlobalRole],
+      department: project?.department,
+    });
+  }
+
+  private formatOnBehalfOf(resolved: ResolvedActor | null): string {
+    return resolved?.onBehalfOf
+      ? ` (${formatActingAs(resolved.actor, resolved.onBehalfOf)})`
+      : '';
+  }
+
   private formatRole(role: string): string {
     return role === 'md'
       ? 'Managing Director'
@@ -1257,6 +1233,8 @@ Next Steps
       throw new BadRequestException('Invalid contract status for rejection');
     }
 
+    let resolved: ResolvedActor | null = null;
+
     // Role-based guard (similar to approve)
     if (requiredRole === 'coach_admin' || requiredRole === 'coach_manager') {
       const projectId = (contract.projectId as any)._id || contract.projectId;
@@ -1286,9 +1264,13 @@ Next Steps
       }
     } else {
       const requiredGlobalRole = this.roleMap[requiredRole];
-      const userRoles = (approver as any).roles || [];
+      resolved = await this.resolveApprover(
+        contract,
+        userId,
+        requiredGlobalRole,
+      );
 
-      if (!userRoles.includes(requiredGlobalRole)) {
+      if (!resolved) {
         throw new ForbiddenException(
           `You are not authorized to reject at this level. Required role: ${requiredGlobalRole}`,
         );
@@ -1324,11 +1306,12 @@ Next Steps
             rejectedAt: new Date(),
             reason: dto.reason,
             level: rejectionLevel,
+            onBehalfOf: resolved?.onBehalfOf?._id,
           },
           $push: {
             amendments: {
               date: new Date(),
-              description: `Contract rejected by ${this.formatRole(rejectionLevel)}`,
+              description: `Contract rejected by ${this.formatRole(rejectionLevel)}${this.formatOnBehalfOf(resolved)}`,
               changedFields: ['status'],
               approvedBy: userId,
             },
@@ -18,23 +18,32 @@ import {
 } from '../dto/invoice.dto';
 import { NotificationService } from '../../notifications/services/notification.service';
 import { User, UserDocument } from 'src/modules/auth/schemas/user.schema';
+import {
+  DelegationService,
+  ResolvedActor,
+  formatActingAs,
+} from '../../delegation/delegation.service';
+import { NumberingService } from '../../numbering/numbering.service';
 
 @Injectable()
 export class InvoiceService {
+  // Hours each approval level has before the SLA is breached
+  private readonly approvalDeadlines = {
+    invoice_approver: 48,
+    invoice_attachment: 48,
+  } as const;
+
   constructor(
     @InjectModel(Invoice.name) private invoiceModel: Model<InvoiceDocument>,
     @InjectModel(Project.name) private projectModel: Model<Project>,
     @InjectModel(User.name) private userModel: Model<UserDocument>,
     private readonly notificationService: NotificationService,
+    private readonly delegationService: DelegationService,
+    private readonly numberingService: NumberingService,
   ) {}
 
-  private async generateInvoiceNumber(): Promise<string> {
-    const date = new Date();
-    const year = date.getFullYear();
-    const count = await this.invoiceModel.countDocuments({
-      invoiceNumber: new RegExp(`^INV-${year}`),
-    });
-    return `INV-${year}-${(count + 1).toString().padStart(3, '0')}`;
+  private calculateDeadline(hours: number): Date {
+    return new Date(Date.now() + hours * 60 * 60 * 1000);
   }
 
   private calculateTotals(items: any[]): {
@@ -66,11 +75,15 @@ export class InvoiceService {
       }
 
       // Find all active users with invoice_approver role for this department
-      const approvers = await this.userModel.find({
-        roles: { $in: ['invoice_approver'] },
-        status: 'active',
-        department: project.department,
-      });
+      const approvers = await this.delegationService.substituteRecipients(
+        await this.userModel.find({
+          roles: { $in: ['invoice_approver'] },
+          status: 'active',
+          department: project.department,
+        }),
+        'invoices',
+        project.department,
+      );
 
       if (approvers.length === 0) {
         console.log(
@@ -494,7 +507,9 @@ export class InvoiceService {
     }));
 
     const totals = this.calculateTotals(dto.items);
-    const invoiceNumber = await this.generateInvoiceNumber();
+    const invoiceNumber = await this.numberingService.next('invoice', {
+      department: project.department,
+    });
 
     const invoice = new this.invoiceModel({
       ...dto,
@@ -625,6 +640,9 @@ export class InvoiceService {
       {
         status: 'pending_invoice_approver',
         updatedBy: userId,
+        currentLevelDeadline: this.calculateDeadline(
+          this.approvalDeadlines.invoice_approver,
+        ),
         $push: {
           auditTrail: {
             action: 'SUBMITTED_FOR_APPROVAL',
@@ -660,12 +678,8 @@ export class InvoiceService {
 
     // Stage 1: Department invoice approver moves invoice to pending_invoice_attachment
     if (invoice.status === 'pending_invoice_approver') {
-      const user = await this.userModel.findById(userId);
-      if (!user) {
-        throw new NotFoundException('User not found');
-      }
-
-      if (!user.roles.includes('invoice_approver')) {
+      const resolved = await this.resolveInvoiceApprover(invoice, userId);
+      if (!resolved) {
         throw new BadRequestException(
           'You do not have permission to approve invoices. Required role: invoice_approver',
         );
@@ -676,12 +690,19 @@ export class InvoiceService {
         {
           status: 'pending_invoice_attachment',
           updatedBy: userId,
+          currentLevelDeadline: this.calculateDeadline(
+            this.approvalDeadlines.invoice_attachment,
+          ),
           $push: {
             auditTrail: {
               action: 'APPROVAL_GRANTED',
               performedBy: userId,
               performedAt: new Date(),
-              details: { level: 'business_approval', comments: dto.comments },
+              details: {
+                level: 'business_approval',
+                comments: dto.comments,
+                ...this.actingAsDetails(resolved),
+              },
             },
           },
         },
@@ -715,6 +736,7 @@ export class InvoiceService {
       {
         status: 'approved',
         updatedBy: userId,
+        currentLevelDeadline: null,
         approval: {
           approvedBy: userId,
           approvedAt: new Date(),
@@ -754,12 +776,8 @@ export class InvoiceService {
       );
     }
 
-    const user = await this.userModel.findById(userId);
-    if (!user) {
-      throw new NotFoundException('User not found');
-    }
-
-    if (!user.roles.includes('invoice_approver')) {
+    const resolved = await this.resolveInvoiceApprover(invoice, userId);
+    if (!resolved) {
       throw new BadRequestException(
         'You do not have permission to request changes at this stage. Required role: invoice_approver',
       );
@@ -770,6 +788,7 @@ export class InvoiceService {
       {
         status: 'revision_requested',
         updatedBy: userId,
+        currentLevelDeadline: null,
         revisionRequest: {
           requestedBy: userId,
           requestedAt: new Date(),
@@ -788,6 +807,7 @@ export class InvoiceService {
               from: 'pending_invoice_approver',
               returnToStatus: 'pending_invoice_approver',
               level: 'approver',
+              ...this.actingAsDetails(resolved),
             },
           },
         },
@@ -826,6 +846,7 @@ export class InvoiceService {
       {
         status: 'rejected',
         updatedBy: userId,
+        currentLevelDeadline: null,
         rejection: {
           rejectedBy: userId,
           rejectedAt: new Date(),
@@ -883,6 +904,7 @@ export class InvoiceService {
         {
           status: 'revision_requested',
           updatedBy: userId,
+          currentLevelDeadline: null,
           revisionRequest: {
             requestedBy: userId,
             requestedAt: new Date(),
@@ -927,6 +949,31 @@ export class InvoiceService {
     return updatedInvoice;
   }
 
+  // Invoice approvers may act directly or under an invoices delegation
+  private async resolveInvoiceApprover(
+    invoice: Invoice,
+    userId: Types.ObjectId,
+  ): Promise<ResolvedActor | null> {
+    const project = await this.projectModel.findById(invoice.projectId);
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+
+    return this.delegationService.resolveActor(userId, 'invoices', {
+      roles: ['invoice_approver'],
+      department: project.department,
+    });
+  }
+
+  private actingAsDetails(resolved: ResolvedActor) {
+    return resolved.onBehalfOf
+      ? {
+          onBehalfOf: resolved.onBehalfOf._id,
+          actingAs: formatActingAs(resolved.actor, resolved.onBehalfOf),
+        }
+      : {};
+  }
+
   private async notifyInvoiceCreatorOfRevision(
     invoice: Invoice,
     comments: string,
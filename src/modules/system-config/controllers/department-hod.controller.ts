@@ -0,0 +1,67 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Put,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { Roles } from '../../auth/decorators/roles.decorator';
+import { DepartmentHodService } from '../services/department-hod.service';
+import { SetDepartmentHodsDto } from '../dto/department-hod.dto';
+
+@ApiTags('Department HODs')
+@Controller('department-hods')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class DepartmentHodController {
+  constructor(private readonly departmentHodService: DepartmentHodService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List the HODs of every department' })
+  findAll() {
+    return this.departmentHodService.findAll();
+  }
+
+  @Get(':department')
+  @ApiOperation({ summary: 'Get the HODs of a department' })
+  @ApiResponse({ status: 404, description: 'Department not in the directory' })
+  findOne(@Param('department') department: string) {
+    return this.departmentHodService.findByDepartment(department);
+  }
+
+  @Put(':department')
+  @Roles('admin', 'super_admin')
+  @ApiOperation({
+    summary: 'Set the HODs of a department',
+    description:
+      'Replaces the department entry. Acting HODs can be limited to a date range.',
+  })
+  setHods(
+    @Param('department') department: string,
+    @Body() dto: SetDepartmentHodsDto,
+    @Req() req: any,
+  ) {
+    return this.departmentHodService.setHods(department, dto, req.user.sub);
+  }
+
+  @Delete(':department')
+  @Roles('admin', 'super_admin')
+  @ApiOperation({
+    summary: 'Remove a department from the directory',
+    description: 'Users with the hod role in the department are used instead.',
+  })
+  remove(@Param('department') department: string) {
+    return this.departmentHodService.remove(department);
+  }
+}
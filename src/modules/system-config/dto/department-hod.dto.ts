@@ -0,0 +1,47 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsMongoId,
+  IsOptional,
+  ValidateNested,
+} from 'class-validator';
+
+export class DepartmentHodEntryDto {
+  @ApiProperty({ example: '65f1234567890abcdef12345' })
+  @IsMongoId()
+  userId: string;
+
+  @ApiProperty({ required: false, example: true })
+  @IsOptional()
+  @IsBoolean()
+  acting?: boolean;
+
+  @ApiProperty({
+    required: false,
+    example: '2025-01-01',
+    description: 'When an acting HOD starts covering',
+  })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiProperty({
+    required: false,
+    example: '2025-01-31',
+    description: 'When an acting HOD stops covering',
+  })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+}
+
+export class SetDepartmentHodsDto {
+  @ApiProperty({ type: [DepartmentHodEntryDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => DepartmentHodEntryDto)
+  hods: DepartmentHodEntryDto[];
+}
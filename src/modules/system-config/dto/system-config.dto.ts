@@ -13,6 +13,10 @@ export enum ConfigType {
   MPESA = 'mpesa',
   ADVANCE = 'advance',
   PROJECT = 'project',
+  APPROVAL = 'approval',
+  CLAIM = 'claim',
+  IMPREST = 'imprest',
+  NUMBERING = 'numbering',
 }
 
 export class CreateSystemConfigDto {
@@ -0,0 +1,196 @@
+// Policy shapes and defaults read by SystemConfigService
+
+export interface ApprovalEscalationPolicy {
+  enabled: boolean;
+  // How long approvers get after each missed deadline before the next breach
+  reminderIntervalHours: number;
+  // Breach count at which the escalation role is brought in
+  escalateAfterBreaches: number;
+  escalationRole: string;
+  modules: string[];
+}
+
+export const DEFAULT_ESCALATION_POLICY: ApprovalEscalationPolicy = {
+  enabled: true,
+  reminderIntervalHours: 24,
+  escalateAfterBreaches: 2,
+  escalationRole: 'admin',
+  modules: ['claims', 'contracts', 'budgets', 'invoices', 'payment_requests'],
+};
+
+export const CLAIM_CHECK_CODES = [
+  'duplicate_document',
+  'duplicate_amount',
+  'over_claim',
+] as const;
+
+export type ClaimCheckCode = (typeof CLAIM_CHECK_CODES)[number];
+
+export interface ClaimCheckPolicy {
+  // How far back to look for claims with the same milestone amount
+  windowDays: number;
+  // Checks that stop a claim from being submitted instead of only warning
+  blockingChecks: ClaimCheckCode[];
+}
+
+export const DEFAULT_CLAIM_CHECK_POLICY: ClaimCheckPolicy = {
+  windowDays: 30,
+  blockingChecks: [],
+};
+
+export interface ImprestPolicy {
+  // Most a single user may hold in unaccounted imprests, null for no limit
+  userCeiling: number | null;
+  // Same limit across everyone in a department, keyed by department
+  departmentCeilings: Record<string, number>;
+  // Largest single request allowed for each payment type
+  paymentTypeLimits: Record<string, number>;
+  maxOpenImprests: number | null;
+  blockWhenOverdue: boolean;
+  // Days past the due date on which overdue reminders go out
+  overdueReminderDays: number[];
+  // Days past the due date before a salary recovery is opened
+  recoveryGraceDays: number;
+}
+
+export const DEFAULT_IMPREST_POLICY: ImprestPolicy = {
+  userCeiling: null,
+  departmentCeilings: {},
+  paymentTypeLimits: {},
+  maxOpenImprests: null,
+  blockWhenOverdue: true,
+  overdueReminderDays: [1, 3, 7],
+  recoveryGraceDays: 14,
+};
+
+export const TRAVEL_TRANSPORT_MODES = [
+  'air',
+  'road',
+  'rail',
+  'sea',
+  'other',
+] as const;
+
+export type TravelTransportMode = (typeof TRAVEL_TRANSPORT_MODES)[number];
+
+export interface PerDiemRate {
+  destinationClass: string;
+  // '*' applies to every grade without a rate of its own
+  staffGrade: string;
+  currency: string;
+  nightlyRate: number;
+}
+
+export interface TravelTransportRate {
+  mode: TravelTransportMode;
+  currency: string;
+  ratePerLeg: number;
+}
+
+export interface PerDiemPolicy {
+  rates: PerDiemRate[];
+  // Modes without a rate are paid at the fare declared on the leg
+  transportRates: TravelTransportRate[];
+  // Refuse Travel Cash above the entitlement instead of only flagging it
+  blockOverEntitlement: boolean;
+}
+
+export const DEFAULT_PER_DIEM_POLICY: PerDiemPolicy = {
+  rates: [],
+  transportRates: [],
+  blockOverEntitlement: false,
+};
+
+export const DOCUMENT_NUMBER_TYPES = [
+  'contract',
+  'invoice',
+  'lpo',
+  'payment_voucher',
+  'claim',
+  'payment_batch',
+] as const;
+
+export type DocumentNumberType = (typeof DOCUMENT_NUMBER_TYPES)[number];
+
+export interface DocumentNumberFormat {
+  prefix: string;
+  separator: string;
+  includeYear: boolean;
+  includeDepartment: boolean;
+  // Minimum digits in the sequence, zero-padded
+  padding: number;
+  // Start the sequence again at 1 each calendar year
+  resetYearly: boolean;
+}
+
+export interface DocumentNumberingPolicy {
+  formats: Record<DocumentNumberType, DocumentNumberFormat>;
+  // Short codes used in numbers, by department name
+  departmentCodes: Record<string, string>;
+}
+
+export const DEFAULT_DOCUMENT_NUMBER_FORMATS: Record<
+  DocumentNumberType,
+  DocumentNumberFormat
+> = {
+  contract: {
+    prefix: 'SRCC',
+    separator: '-',
+    includeYear: true,
+    includeDepartment: false,
+    padding: 5,
+    resetYearly: true,
+  },
+  invoice: {
+    prefix: 'INV',
+    separator: '-',
+    includeYear: true,
+    includeDepartment: false,
+    padding: 3,
+    resetYearly: true,
+  },
+  lpo: {
+    prefix: 'LPO',
+    separator: '/',
+    includeYear: true,
+    includeDepartment: false,
+    padding: 4,
+    resetYearly: true,
+  },
+  payment_voucher: {
+    prefix: 'PV',
+    separator: '/',
+    includeYear: true,
+    includeDepartment: false,
+    padding: 4,
+    resetYearly: true,
+  },
+  claim: {
+    prefix: 'CLM',
+    separator: '-',
+    includeYear: true,
+    includeDepartment: false,
+    padding: 5,
+    resetYearly: true,
+  },
+  payment_batch: {
+    prefix: 'PB',
+    separator: '-',
+    includeYear: true,
+    includeDepartment: false,
+    padding: 4,
+    resetYearly: true,
+  },
+};
+
+export interface ContractLifecyclePolicy {
+  // Days before the end date on which expiry warnings go out
+  expiryReminderDays: number[];
+  // Complete active contracts once past their end date with all claims settled
+  autoComplete: boolean;
+}
+
+export const DEFAULT_CONTRACT_LIFECYCLE_POLICY: ContractLifecyclePolicy = {
+  expiryReminderDays: [30, 14, 7],
+  autoComplete: true,
+};
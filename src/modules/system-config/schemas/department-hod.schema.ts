@@ -0,0 +1,54 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type DepartmentHodDocument = DepartmentHod & Document;
+
+@Schema({ _id: false })
+export class DepartmentHodEntry {
+  @ApiProperty({ description: 'User heading the department' })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Covering for the substantive HOD, usually with dates set',
+    example: false,
+  })
+  @Prop({ default: false })
+  acting: boolean;
+
+  @ApiProperty({
+    description: 'Only counts as HOD from this date',
+    required: false,
+  })
+  @Prop()
+  startDate?: Date;
+
+  @ApiProperty({
+    description: 'Only counts as HOD until this date',
+    required: false,
+  })
+  @Prop()
+  endDate?: Date;
+}
+
+export const DepartmentHodEntrySchema =
+  SchemaFactory.createForClass(DepartmentHodEntry);
+
+// Who approves department-level requests, such as imprests, for a department
+@Schema({ timestamps: true })
+export class DepartmentHod {
+  @ApiProperty({ example: 'Finance' })
+  @Prop({ required: true, unique: true, trim: true })
+  department: string;
+
+  @ApiProperty({ type: [DepartmentHodEntry] })
+  @Prop({ type: [DepartmentHodEntrySchema], default: [] })
+  hods: DepartmentHodEntry[];
+
+  @ApiProperty({ required: false })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  updatedBy?: Types.ObjectId;
+}
+
+export const DepartmentHodSchema = SchemaFactory.createForClass(DepartmentHod);
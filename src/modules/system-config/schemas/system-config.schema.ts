@@ -20,7 +20,17 @@ export class SystemConfig {
   })
   @Prop({
     required: true,
-    enum: ['loan', 'wallet', 'mpesa', 'advance', 'project'],
+    enum: [
+      'loan',
+      'wallet',
+      'mpesa',
+      'advance',
+      'project',
+      'approval',
+      'claim',
+      'imprest',
+      'numbering',
+    ],
   })
   type: string;
 
@@ -77,6 +87,58 @@ export class SystemConfig {
     // Project Configurations
     departments?: string[];
     documentCrudExpiry?: Date;
+
+    // Approval Escalation Configurations
+    escalationEnabled?: boolean;
+    reminderIntervalHours?: number;
+    escalateAfterBreaches?: number;
+    escalationRole?: string;
+    escalationModules?: string[];
+
+    // Claim Duplicate Check Configurations
+    duplicateCheckWindowDays?: number;
+    blockingClaimChecks?: string[];
+
+    // Imprest Policy Configurations
+    imprestUserCeiling?: number;
+    imprestDepartmentCeilings?: Record<string, number>;
+    imprestPaymentTypeLimits?: Record<string, number>;
+    maxOpenImprests?: number;
+    blockOnOverdueImprest?: boolean;
+    imprestOverdueReminderDays?: number[];
+    imprestRecoveryGraceDays?: number;
+
+    // Travel Per-Diem Configurations
+    perDiemRates?: {
+      destinationClass: string;
+      staffGrade: string;
+      currency: string;
+      nightlyRate: number;
+    }[];
+    travelTransportRates?: {
+      mode: string;
+      currency: string;
+      ratePerLeg: number;
+    }[];
+    blockOverTravelEntitlement?: boolean;
+
+    // Document Numbering Configurations
+    documentNumberFormats?: Record<
+      string,
+      {
+        prefix?: string;
+        separator?: string;
+        includeYear?: boolean;
+        includeDepartment?: boolean;
+        padding?: number;
+        resetYearly?: boolean;
+      }
+    >;
+    documentDepartmentCodes?: Record<string, string>;
+
+    // Contract Lifecycle Configurations
+    contractExpiryReminderDays?: number[];
+    autoCompleteContracts?: boolean;
   };
 
   @ApiProperty({
@@ -0,0 +1,152 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  DepartmentHod,
+  DepartmentHodDocument,
+  DepartmentHodEntry,
+} from '../schemas/department-hod.schema';
+import { SetDepartmentHodsDto } from '../dto/department-hod.dto';
+import { User, UserDocument } from '../../auth/schemas/user.schema';
+
+@Injectable()
+export class DepartmentHodService {
+  constructor(
+    @InjectModel(DepartmentHod.name)
+    private departmentHodModel: Model<DepartmentHodDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+  ) {}
+
+  async findAll(): Promise<DepartmentHodDocument[]> {
+    return this.departmentHodModel
+      .find()
+      .populate('hods.userId', 'firstName lastName email')
+      .sort({ department: 1 })
+      .exec();
+  }
+
+  async findByDepartment(department: string): Promise<DepartmentHodDocument> {
+    const entry = await this.departmentHodModel
+      .findOne({ department })
+      .populate('hods.userId', 'firstName lastName email')
+      .exec();
+    if (!entry) {
+      throw new NotFoundException(`No HODs set for department ${department}`);
+    }
+    return entry;
+  }
+
+  async setHods(
+    department: string,
+    dto: SetDepartmentHodsDto,
+    userId: string,
+  ): Promise<DepartmentHodDocument> {
+    for (const hod of dto.hods) {
+      if (
+        hod.startDate &&
+        hod.endDate &&
+        new Date(hod.startDate) > new Date(hod.endDate)
+      ) {
+        throw new BadRequestException('startDate must be before endDate');
+      }
+    }
+
+    const users = await this.userModel.countDocuments({
+      _id: { $in: dto.hods.map((h) => new Types.ObjectId(h.userId)) },
+    });
+    if (users !== new Set(dto.hods.map((h) => h.userId)).size) {
+      throw new BadRequestException('One or more HOD users were not found');
+    }
+
+    return this.departmentHodModel.findOneAndUpdate(
+      { department },
+      {
+        department,
+        hods: dto.hods.map((hod) => ({
+          userId: new Types.ObjectId(hod.userId),
+          acting: !!hod.acting,
+          startDate: hod.startDate ? new Date(hod.startDate) : undefined,
+          endDate: hod.endDate ? new Date(hod.endDate) : undefined,
+        })),
+        updatedBy: new Types.ObjectId(userId),
+      },
+      { new: true, upsert: true },
+    );
+  }
+
+  async remove(department: string): Promise<DepartmentHodDocument> {
+    const entry = await this.departmentHodModel.findOneAndDelete({
+      department,
+    });
+    if (!entry) {
+      throw new NotFoundException(`No HODs set for department ${department}`);
+    }
+    return entry;
+  }
+
+  /**
+   * Active users currently heading the department. Departments missing
+   * from the directory fall back to users with the `hod` role in it.
+   */
+  async findHods(department: string): Promise<UserDocument[]> {
+    if (!department) {
+      return [];
+    }
+
+    const entry = await this.departmentHodModel.findOne({ department }).lean();
+    if (!entry) {
+      return this.userModel.find({
+        roles: { $in: ['hod'] },
+        department,
+        status: 'active',
+      });
+    }
+
+    const now = new Date();
+    return this.userModel.find({
+      _id: {
+        $in: entry.hods
+          .filter((h) => this.isCurrent(h, now))
+          .map((h) => h.userId),
+      },
+      status: 'active',
+    });
+  }
+
+  // Departments the user currently heads, through the directory or the fallback
+  async findDepartmentsHeadedBy(user: UserDocument): Promise<string[]> {
+    const now = new Date();
+    const entries = await this.departmentHodModel
+      .find({ 'hods.userId': user._id })
+      .lean();
+    const departments = entries
+      .filter((entry) =>
+        entry.hods.some(
+          (h) =>
+            h.userId.toString() === user._id.toString() &&
+            this.isCurrent(h, now),
+        ),
+      )
+      .map((entry) => entry.department);
+
+    if (
+      user.roles?.includes('hod') &&
+      user.department &&
+      !(await this.departmentHodModel.exists({ department: user.department }))
+    ) {
+      departments.push(user.department);
+    }
+    return departments;
+  }
+
+  private isCurrent(hod: DepartmentHodEntry, now: Date): boolean {
+    return (
+      (!hod.startDate || new Date(hod.startDate) <= now) &&
+      (!hod.endDate || new Date(hod.endDate) >= now)
+    );
+  }
+}
@@ -2,6 +2,24 @@ import { Injectable, NotFoundException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { SystemConfig } from '../schemas/system-config.schema';
+import {
+  ApprovalEscalationPolicy,
+  DEFAULT_ESCALATION_POLICY,
+  CLAIM_CHECK_CODES,
+  ClaimCheckCode,
+  ClaimCheckPolicy,
+  DEFAULT_CLAIM_CHECK_POLICY,
+  ImprestPolicy,
+  DEFAULT_IMPREST_POLICY,
+  TravelTransportRate,
+  PerDiemPolicy,
+  DEFAULT_PER_DIEM_POLICY,
+  DOCUMENT_NUMBER_TYPES,
+  DocumentNumberingPolicy,
+  DEFAULT_DOCUMENT_NUMBER_FORMATS,
+  ContractLifecyclePolicy,
+  DEFAULT_CONTRACT_LIFECYCLE_POLICY,
+} from '../policies';
 import {
   CreateSystemConfigDto,
   UpdateSystemConfigDto,
@@ -86,4 +104,129 @@ export class SystemConfigService {
   async getProjectConfig() {
     return this.findByKey('project_config');
   }
+
+  // Falls back to the defaults when no escalation config has been saved
+  async getApprovalEscalationPolicy(): Promise<ApprovalEscalationPolicy> {
+    const config = await this.systemConfigModel
+      .findOne({ key: 'approval_escalation_config', isActive: true })
+      .lean()
+      .exec();
+    const data = config?.data || {};
+
+    return {
+      enabled: data.escalationEnabled ?? DEFAULT_ESCALATION_POLICY.enabled,
+      reminderIntervalHours:
+        data.reminderIntervalHours ||
+        DEFAULT_ESCALATION_POLICY.reminderIntervalHours,
+      escalateAfterBreaches:
+        data.escalateAfterBreaches ||
+        DEFAULT_ESCALATION_POLICY.escalateAfterBreaches,
+      escalationRole:
+        data.escalationRole || DEFAULT_ESCALATION_POLICY.escalationRole,
+      modules: data.escalationModules?.length
+        ? data.escalationModules
+        : DEFAULT_ESCALATION_POLICY.modules,
+    };
+  }
+
+  async getClaimCheckPolicy(): Promise<ClaimCheckPolicy> {
+    const config = await this.systemConfigModel
+      .findOne({ key: 'claim_checks_config', isActive: true })
+      .lean()
+      .exec();
+    const data = config?.data || {};
+
+    return {
+      windowDays:
+        data.duplicateCheckWindowDays || DEFAULT_CLAIM_CHECK_POLICY.windowDays,
+      blockingChecks: Array.isArray(data.blockingClaimChecks)
+        ? (data.blockingClaimChecks.filter((code) =>
+            (CLAIM_CHECK_CODES as readonly string[]).includes(code),
+          ) as ClaimCheckCode[])
+        : DEFAULT_CLAIM_CHECK_POLICY.blockingChecks,
+    };
+  }
+
+  async getImprestPolicy(): Promise<ImprestPolicy> {
+    const config = await this.systemConfigModel
+      .findOne({ key: 'imprest_policy_config', isActive: true })
+      .lean()
+      .exec();
+    const data = config?.data || {};
+
+    return {
+      userCeiling:
+        data.imprestUserCeiling ?? DEFAULT_IMPREST_POLICY.userCeiling,
+      departmentCeilings:
+        data.imprestDepartmentCeilings ||
+        DEFAULT_IMPREST_POLICY.departmentCeilings,
+      paymentTypeLimits:
+        data.imprestPaymentTypeLimits ||
+        DEFAULT_IMPREST_POLICY.paymentTypeLimits,
+      maxOpenImprests:
+        data.maxOpenImprests ?? DEFAULT_IMPREST_POLICY.maxOpenImprests,
+      blockWhenOverdue:
+        data.blockOnOverdueImprest ?? DEFAULT_IMPREST_POLICY.blockWhenOverdue,
+      overdueReminderDays: data.imprestOverdueReminderDays?.length
+        ? [...data.imprestOverdueReminderDays].sort((a, b) => a - b)
+        : DEFAULT_IMPREST_POLICY.overdueReminderDays,
+      recoveryGraceDays:
+        data.imprestRecoveryGraceDays ||
+        DEFAULT_IMPREST_POLICY.recoveryGraceDays,
+    };
+  }
+
+  async getPerDiemPolicy(): Promise<PerDiemPolicy> {
+    const config = await this.systemConfigModel
+      .findOne({ key: 'per_diem_config', isActive: true })
+      .lean()
+      .exec();
+    const data = config?.data || {};
+
+    return {
+      rates: data.perDiemRates || DEFAULT_PER_DIEM_POLICY.rates,
+      transportRates: (data.travelTransportRates ||
+        DEFAULT_PER_DIEM_POLICY.transportRates) as TravelTransportRate[],
+      blockOverEntitlement:
+        data.blockOverTravelEntitlement ??
+        DEFAULT_PER_DIEM_POLICY.blockOverEntitlement,
+    };
+  }
+
+  async getDocumentNumberingPolicy(): Promise<DocumentNumberingPolicy> {
+    const config = await this.systemConfigModel
+      .findOne({ key: 'document_numbering_config', isActive: true })
+      .lean()
+      .exec();
+    const data = config?.data || {};
+
+    const formats = { ...DEFAULT_DOCUMENT_NUMBER_FORMATS };
+    for (const type of DOCUMENT_NUMBER_TYPES) {
+      formats[type] = {
+        ...DEFAULT_DOCUMENT_NUMBER_FORMATS[type],
+        ...data.documentNumberFormats?.[type],
+      };
+    }
+    return {
+      formats,
+      departmentCodes: data.documentDepartmentCodes || {},
+    };
+  }
+
+  async getContractLifecyclePolicy(): Promise<ContractLifecyclePolicy> {
+    const config = await this.systemConfigModel
+      .findOne({ key: 'contract_lifecycle_config', isActive: true })
+      .lean()
+      .exec();
+    const data = config?.data || {};
+
+    return {
+      expiryReminderDays: data.contractExpiryReminderDays?.length
+        ? [...data.contractExpiryReminderDays].sort((a, b) => b - a)
+        : DEFAULT_CONTRACT_LIFECYCLE_POLICY.expiryReminderDays,
+      autoComplete:
+        data.autoCompleteContracts ??
+        DEFAULT_CONTRACT_LIFECYCLE_POLICY.autoComplete,
+    };
+  }
 }
@@ -12,16 +12,33 @@ import {
 } from './schemas/system-config.schema';
 import { SystemConfigService } from './services/system-config.service';
 import { SystemConfigController } from './controllers/system-config.controller';
+import {
+  DepartmentHod,
+  DepartmentHodSchema,
+} from './schemas/department-hod.schema';
+import { DepartmentHodService } from './services/department-hod.service';
+import { DepartmentHodController } from './controllers/department-hod.controller';
+import { User, UserSchema } from '../auth/schemas/user.schema';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: ChartsOfAccounts.name, schema: ChartsOfAccountsSchema },
       { name: SystemConfig.name, schema: SystemConfigSchema },
+      { name: DepartmentHod.name, schema: DepartmentHodSchema },
+      { name: User.name, schema: UserSchema },
     ]),
   ],
-  controllers: [ChartsOfAccountsController, SystemConfigController],
-  providers: [ChartsOfAccountsService, SystemConfigService],
-  exports: [ChartsOfAccountsService, SystemConfigService],
+  controllers: [
+    ChartsOfAccountsController,
+    SystemConfigController,
+    DepartmentHodController,
+  ],
+  providers: [
+    ChartsOfAccountsService,
+    SystemConfigService,
+    DepartmentHodService,
+  ],
+  exports: [ChartsOfAccountsService, SystemConfigService, DepartmentHodService],
 })
 export class SystemConfigModule {}